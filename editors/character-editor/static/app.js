@@ -3,15 +3,16 @@
 
 const API_BASE = ""; // Same origin
 
-// Available channels
+// Channels from the default data/channels.yaml (a character's other channels
+// are shown alongside them)
 const CHANNELS = [
-	"OOC",
-	"NEWBIE",
-	"TRADE",
-	"GOSSIP",
-	"GOCIAL",
-	"SAY",
-	"WHISPER",
+	"ooc",
+	"newbie",
+	"trade",
+	"gossip",
+	"gocial",
+	"say",
+	"whisper",
 ];
 
 // Available message groups
@@ -67,6 +68,38 @@ class CharacterEditor {
 		}
 	}
 
+	async setAccountPassword() {
+		const account = document.getElementById("character-account").value.trim();
+		const input = document.getElementById("account-newPassword");
+		if (!account || !input.value) return;
+		if (!confirm(`Replace the password of account '${account}'?`)) return;
+
+		try {
+			if (this.api?.setAccountPassword) {
+				await this.api.setAccountPassword({ account, password: input.value });
+			} else {
+				const response = await fetch(
+					`${API_BASE}/api/accounts/${encodeURIComponent(account)}/password`,
+					{
+						method: "PUT",
+						headers: {
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({ password: input.value }),
+					}
+				);
+				if (!response.ok) {
+					const error = await response.json();
+					throw new Error(error.error || "Failed to set password");
+				}
+			}
+			input.value = "";
+			alert(`Password of account '${account}' updated.`);
+		} catch (error) {
+			alert(`Failed to set password: ${error.message}`);
+		}
+	}
+
 	async fetchWeaponTypesData() {
 		if (this.api?.getWeaponTypes) {
 			return this.api.getWeaponTypes();
@@ -192,6 +225,13 @@ class CharacterEditor {
 			this.deleteCurrent();
 		});
 
+		// Passwords live on the account and are saved right away
+		document
+			.getElementById("set-account-password-btn")
+			.addEventListener("click", () => {
+				this.setAccountPassword();
+			});
+
 		// Form changes
 		document.getElementById("character-form").addEventListener("input", () => {
 			this.isDirty = true;
@@ -212,6 +252,10 @@ class CharacterEditor {
 				this.addListItem("blockedUsers");
 			});
 
+		document.getElementById("add-friend-btn").addEventListener("click", () => {
+			this.addListItem("friends");
+		});
+
 		document.getElementById("add-ability-btn").addEventListener("click", () => {
 			this.addAbility();
 		});
@@ -227,18 +271,6 @@ class CharacterEditor {
 				this.toggleSetting("isActive");
 			});
 
-		document
-			.getElementById("character-isBanned-btn")
-			.addEventListener("click", () => {
-				this.toggleSetting("isBanned");
-			});
-
-		document
-			.getElementById("character-isAdmin-btn")
-			.addEventListener("click", () => {
-				this.toggleSetting("isAdmin");
-			});
-
 		document
 			.getElementById("character-receiveOOC-btn")
 			.addEventListener("click", () => {
@@ -293,6 +325,12 @@ class CharacterEditor {
 				this.toggleSetting("autosacrifice");
 			});
 
+		document
+			.getElementById("character-showDungeonToFriends-btn")
+			.addEventListener("click", () => {
+				this.toggleSetting("showDungeonToFriends");
+			});
+
 		// New character modal
 		document
 			.getElementById("new-character-create")
@@ -460,8 +498,10 @@ class CharacterEditor {
 				char.credentials?.username || "";
 			document.getElementById("character-characterId").value =
 				char.credentials?.characterId || 0;
-			document.getElementById("character-passwordHash").value =
-				char.credentials?.passwordHash || "";
+			document.getElementById("character-account").value =
+				char.credentials?.account || char.credentials?.username || "";
+			document.getElementById("character-role").value =
+				char.credentials?.role || "player";
 
 			// Convert ISO strings to datetime-local format
 			if (char.credentials?.createdAt) {
@@ -477,8 +517,6 @@ class CharacterEditor {
 
 			// Credentials toggles
 			this.setToggle("isActive", char.credentials?.isActive || false);
-			this.setToggle("isBanned", char.credentials?.isBanned || false);
-			this.setToggle("isAdmin", char.credentials?.isAdmin || false);
 
 			// Settings
 			this.setToggle("receiveOOC", char.settings?.receiveOOC || false);
@@ -500,6 +538,10 @@ class CharacterEditor {
 			);
 			this.setToggle("autoloot", char.settings?.autoloot || false);
 			this.setToggle("autosacrifice", char.settings?.autosacrifice || false);
+			this.setToggle(
+				"showDungeonToFriends",
+				char.settings?.showDungeonToFriends !== false
+			);
 
 			// Channels - render toggle buttons
 			const channels = char.settings?.channels
@@ -507,7 +549,11 @@ class CharacterEditor {
 					? char.settings.channels
 					: Array.from(char.settings.channels || [])
 				: [];
-			this.renderToggleButtons("channels", CHANNELS, channels);
+			this.renderToggleButtons(
+				"channels",
+				[...new Set([...CHANNELS, ...channels])],
+				channels
+			);
 
 			// Blocked users - keep as list
 			this.renderList(
@@ -519,6 +565,16 @@ class CharacterEditor {
 					: []
 			);
 
+			// Friends - keep as list
+			this.renderList(
+				"friends",
+				char.settings?.friends
+					? Array.isArray(char.settings.friends)
+						? char.settings.friends
+						: Array.from(char.settings.friends || [])
+					: []
+			);
+
 			// Busy forwarded groups - render toggle buttons
 			const busyForwardedGroups = char.settings?.busyForwardedGroups
 				? Array.isArray(char.settings.busyForwardedGroups)
@@ -876,13 +932,14 @@ class CharacterEditor {
 	}
 
 	formToYaml() {
+		const role = document.getElementById("character-role").value;
 		const char = {
-			version: "1.0.0",
+			version: "1.2.0",
 			credentials: {
 				characterId:
 					parseInt(document.getElementById("character-characterId").value) || 0,
 				username: document.getElementById("character-username").value,
-				passwordHash: document.getElementById("character-passwordHash").value,
+				account: document.getElementById("character-account").value,
 				createdAt: this.parseDateTimeLocal(
 					document.getElementById("character-createdAt").value
 				),
@@ -890,8 +947,7 @@ class CharacterEditor {
 					document.getElementById("character-lastLogin").value
 				),
 				isActive: this.getToggle("isActive"),
-				isBanned: this.getToggle("isBanned"),
-				isAdmin: this.getToggle("isAdmin"),
+				...(role !== "player" && { role }),
 			},
 			settings: {
 				receiveOOC: this.getToggle("receiveOOC"),
@@ -905,6 +961,7 @@ class CharacterEditor {
 				combatBusyModeEnabled: this.getToggle("combatBusyModeEnabled"),
 				autoloot: this.getToggle("autoloot"),
 				autosacrifice: this.getToggle("autosacrifice"),
+				showDungeonToFriends: this.getToggle("showDungeonToFriends"),
 			},
 			stats: {
 				playtime:
@@ -939,6 +996,11 @@ class CharacterEditor {
 			char.settings.blockedUsers = blockedUsers;
 		}
 
+		const friends = this.getListItems("friends");
+		if (friends.length > 0) {
+			char.settings.friends = friends;
+		}
+
 		const busyForwardedGroups = this.getToggleOptions("busyForwardedGroups");
 		if (busyForwardedGroups.length > 0) {
 			char.settings.busyForwardedGroups = busyForwardedGroups;
@@ -1813,6 +1875,7 @@ class CharacterEditor {
 	showNewCharacterModal() {
 		document.getElementById("new-character-modal").classList.add("active");
 		document.getElementById("new-character-username").value = "";
+		document.getElementById("new-character-account").value = "";
 		document.getElementById("new-character-username").focus();
 	}
 
@@ -1839,17 +1902,24 @@ class CharacterEditor {
 			return;
 		}
 
+		const account = document
+			.getElementById("new-character-account")
+			.value.trim()
+			.toLowerCase();
+		if (!account) {
+			this.showToast("Error", "Account is required");
+			return;
+		}
+
 		// Create default character YAML
-		const defaultYaml = `version: 1.0.0
+		const defaultYaml = `version: 1.2.0
 credentials:
   characterId: 0
   username: ${username}
-  passwordHash: ""
+  account: ${JSON.stringify(account)}
   createdAt: "${new Date().toISOString()}"
   lastLogin: "${new Date().toISOString()}"
   isActive: true
-  isBanned: false
-  isAdmin: false
 settings:
   receiveOOC: true
   verboseMode: true
@@ -1873,6 +1943,8 @@ settings:
     - SAY
     - WHISPER
   blockedUsers: []
+  friends: []
+  showDungeonToFriends: true
 stats:
   playtime: 0
   deaths: 0
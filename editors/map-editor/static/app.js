@@ -274,7 +274,7 @@ class MapEditor {
 	 * @param {number} x - X coordinate
 	 * @param {number} y - Y coordinate
 	 * @param {number} z - Z coordinate
-	 * @param {number|Object} value - Override value (number for allowedExits only, or object with allowedExits and/or roomLinks)
+	 * @param {number|Object} value - Override value (number for allowedExits only, or object with allowedExits, roomLinks and/or doors)
 	 */
 	setExitOverride(dungeon, x, y, z, value) {
 		if (!dungeon.exitOverrides || !Array.isArray(dungeon.exitOverrides)) {
@@ -303,6 +303,9 @@ class MapEditor {
 			if (value.roomLinks !== undefined) {
 				override.roomLinks = value.roomLinks;
 			}
+			if (value.doors !== undefined) {
+				override.doors = value.doors;
+			}
 		}
 
 		if (existingIndex >= 0) {
@@ -671,6 +674,9 @@ class MapEditor {
 		const attributeBonuses = template.attributeBonuses || {};
 		const secondaryAttributeBonuses = template.secondaryAttributeBonuses || {};
 		const resourceBonuses = template.resourceBonuses || {};
+		const procs = template.procs?.length
+			? jsyaml.dump(template.procs, { lineWidth: -1 })
+			: "";
 
 		let html = `
 			<div class="bonuses-section">
@@ -738,6 +744,12 @@ class MapEditor {
 
 		html += `
 					</div>
+					<div class="bonuses-group">
+						<h4>Procs</h4>
+						<div class="form-group">
+							<textarea id="bonus-procs" rows="6" placeholder="- trigger: hit # hit, crit, struck or kill&#10;  chance: 10&#10;  effect: poison&#10;  message:&#10;    user: Venom seeps into {target}'s wound!">${procs}</textarea>
+						</div>
+					</div>
 				</div>
 			</div>
 		`;
@@ -3014,11 +3026,12 @@ class MapEditor {
 			: "New Shopkeeper Inventory";
 
 		// Load all item templates for the restock rule selector
-		// Include Item, Equipment, Armor, and Weapon types (all are items)
+		// Include Item, Consumable, Equipment, Armor, and Weapon types (all are items)
 		const allTemplates = await this.loadAllDungeonTemplates();
 		const itemTemplates = allTemplates.filter(
 			(t) =>
 				t.type === "Item" ||
+				t.type === "Consumable" ||
 				t.type === "Equipment" ||
 				t.type === "Armor" ||
 				t.type === "Weapon"
@@ -3201,6 +3214,7 @@ class MapEditor {
 				itemTemplates = allTemplates.filter(
 					(t) =>
 						t.type === "Item" ||
+						t.type === "Consumable" ||
 						t.type === "Equipment" ||
 						t.type === "Armor" ||
 						t.type === "Weapon"
@@ -3482,6 +3496,11 @@ class MapEditor {
 			currentRoomLinks = currentOverride.roomLinks || {};
 		}
 
+		// Get current doors (from override if exists)
+		const currentDoors = currentOverride?.doors
+			? jsyaml.dump(currentOverride.doors, { lineWidth: -1 })
+			: "";
+
 		// Initialize exitOverrides if it doesn't exist
 		if (!dungeon.exitOverrides) {
 			dungeon.exitOverrides = [];
@@ -3578,12 +3597,23 @@ class MapEditor {
 			</div>
 		`;
 
+		const doorsSectionHtml = `
+			<div class="form-group" style="margin-top: 1.5rem;">
+				<label>Doors (optional)</label>
+				<p style="font-size: 0.85rem; color: #aaa; margin-bottom: 0.75rem;">
+					Doors on this room's exits, keyed by direction. A door is shared with the room on the other side. State is open, closed (default) or locked; omit pickDifficulty (0-100) to make a lock unpickable.
+				</p>
+				<textarea id="exit-override-doors" rows="6" placeholder="north:&#10;  name: gate&#10;  state: locked&#10;  keyTemplateId: gate-key&#10;  pickDifficulty: 40">${currentDoors}</textarea>
+			</div>
+		`;
+
 		body.innerHTML = `
 			<div class="form-group">
 				<label>Override exits for this specific room cell</label>
 				${exitButtonsHtml}
 			</div>
 			${roomLinksSectionHtml}
+			${doorsSectionHtml}
 		`;
 
 		// Hide the default modal actions and use our custom ones
@@ -3875,6 +3905,35 @@ class MapEditor {
 		document
 			.getElementById("exit-override-save-btn")
 			.addEventListener("click", () => {
+				// Parse doors first so a typo doesn't lose the rest of the form
+				let doors;
+				const doorsText = document
+					.getElementById("exit-override-doors")
+					?.value.trim();
+				if (doorsText) {
+					try {
+						doors = jsyaml.load(doorsText);
+					} catch (error) {
+						this.showToast("Invalid doors", error.message);
+						return;
+					}
+					if (!doors || typeof doors !== "object" || Array.isArray(doors)) {
+						this.showToast("Invalid doors", "Doors must be keyed by direction");
+						return;
+					}
+					const badDirection = Object.keys(doors).find(
+						(direction) => !allDirections.includes(direction)
+					);
+					if (badDirection) {
+						this.showToast(
+							"Invalid doors",
+							`"${badDirection}" is not a direction`
+						);
+						return;
+					}
+					if (Object.keys(doors).length === 0) doors = undefined;
+				}
+
 				this.saveStateToHistory();
 
 				// Store the old value before updating
@@ -3883,6 +3942,7 @@ class MapEditor {
 					? {
 							allowedExits: oldOverride.allowedExits,
 							roomLinks: oldOverride.roomLinks,
+							doors: oldOverride.doors,
 					  }
 					: null;
 
@@ -3919,12 +3979,14 @@ class MapEditor {
 					}
 				});
 
-				// Store the override - use object if roomLinks exist, otherwise use number
+				// Store the override - use object if roomLinks or doors exist, otherwise use number
+				const hasRoomLinks = Object.keys(roomLinks).length > 0;
 				const overrideValue =
-					Object.keys(roomLinks).length > 0
+					hasRoomLinks || doors
 						? {
 								allowedExits: currentAllowedExitsValue,
-								roomLinks: roomLinks,
+								...(hasRoomLinks ? { roomLinks } : {}),
+								...(doors ? { doors } : {}),
 						  }
 						: currentAllowedExitsValue;
 
@@ -3938,7 +4000,8 @@ class MapEditor {
 					actionTarget: `${x},${y},${z}`,
 					newParameters: {
 						allowedExits: currentAllowedExitsValue,
-						...(Object.keys(roomLinks).length > 0 ? { roomLinks } : {}),
+						...(hasRoomLinks ? { roomLinks } : {}),
+						...(doors ? { doors } : {}),
 					},
 					oldParameters: oldValue,
 					metadata: {
@@ -3978,6 +4041,7 @@ class MapEditor {
 				const oldValue = {
 					allowedExits: oldOverride.allowedExits,
 					roomLinks: oldOverride.roomLinks,
+					doors: oldOverride.doors,
 				};
 				this.deleteExitOverride(dungeon, x, y, z);
 
@@ -4414,10 +4478,18 @@ class MapEditor {
 			const isArmor = template.type === "Armor";
 			const isEquipment = template.type === "Equipment";
 			const isItem = template.type === "Item";
+			const isConsumable = template.type === "Consumable";
 			const isProp = template.type === "Prop";
 			const isEquipmentType = isWeapon || isArmor || isEquipment;
-			const isItemType = isItem || isEquipmentType;
-			const isObjectType = isItem || isEquipmentType || isProp;
+			const isItemType = isItem || isConsumable || isEquipmentType;
+			const isObjectType = isItemType || isProp;
+			const consumableEffects = (template.effects || [])
+				.map((effect) =>
+					effect.duration !== undefined
+						? `${effect.id}:${effect.duration}`
+						: effect.id
+				)
+				.join("\n");
 			const hitTypeSelector = isWeapon
 				? this.generateHitTypeSelector(template.hitType)
 				: "";
@@ -4437,6 +4509,9 @@ class MapEditor {
 					<select id="template-type">
 						<option value="Mob" ${template.type === "Mob" ? "selected" : ""}>Mob</option>
 						<option value="Item" ${template.type === "Item" ? "selected" : ""}>Item</option>
+						<option value="Consumable" ${
+							template.type === "Consumable" ? "selected" : ""
+						}>Consumable</option>
 						<option value="Equipment" ${
 							template.type === "Equipment" ? "selected" : ""
 						}>Equipment</option>
@@ -4674,6 +4749,72 @@ class MapEditor {
 					</div>
 					${bonusesSection}
 				</div>
+				<div id="consumable-fields" style="display: ${
+					isConsumable ? "block" : "none"
+				};">
+					<div class="form-group">
+						<label>Consumable Type</label>
+						<select id="template-consumable-type">
+							<option value="potion" ${
+								(template.consumableType || "potion") === "potion"
+									? "selected"
+									: ""
+							}>Potion (quaff)</option>
+							<option value="food" ${
+								template.consumableType === "food" ? "selected" : ""
+							}>Food (eat)</option>
+							<option value="scroll" ${
+								template.consumableType === "scroll" ? "selected" : ""
+							}>Scroll (recite)</option>
+						</select>
+					</div>
+					<div class="form-group">
+						<label>Charges</label>
+						<input type="number" id="template-charges" value="${
+							template.charges || ""
+						}" placeholder="1" min="1" step="1">
+					</div>
+					<div class="form-group">
+						<label>Restore Health</label>
+						<input type="number" id="template-restore-health" value="${
+							template.restore?.health || ""
+						}" placeholder="0" min="0" step="1">
+					</div>
+					<div class="form-group">
+						<label>Restore Mana</label>
+						<input type="number" id="template-restore-mana" value="${
+							template.restore?.mana || ""
+						}" placeholder="0" min="0" step="1">
+					</div>
+					<div class="form-group">
+						<label>Restore Exhaustion</label>
+						<input type="number" id="template-restore-exhaustion" value="${
+							template.restore?.exhaustion || ""
+						}" placeholder="0" min="0" step="1">
+					</div>
+					<div class="form-group">
+						<label>Effects</label>
+						<textarea id="template-consumable-effects" placeholder="One effect id per line, optionally with a duration in seconds&#10;rapid-regeneration:30">${consumableEffects}</textarea>
+					</div>
+					<div class="form-group">
+						<label>Cleanse</label>
+						<input type="text" id="template-cleanse" value="${(
+							template.cleanse || []
+						).join(", ")}" placeholder="poison, disease">
+					</div>
+					<div class="form-group">
+						<label>Cooldown Group</label>
+						<input type="text" id="template-cooldown-group" value="${
+							template.cooldownGroup || ""
+						}" placeholder="potion">
+					</div>
+					<div class="form-group">
+						<label>Cooldown (seconds)</label>
+						<input type="number" id="template-cooldown" value="${
+							template.cooldown || ""
+						}" placeholder="0" min="0" step="1">
+					</div>
+				</div>
 				<div id="item-fields" style="display: ${isItemType ? "block" : "none"};">
 					<div class="form-group">
 						<label>Container</label>
@@ -4875,6 +5016,7 @@ class MapEditor {
 			const weaponFields = document.getElementById("weapon-fields");
 			const armorFields = document.getElementById("armor-fields");
 			const equipmentFields = document.getElementById("equipment-fields");
+			const consumableFields = document.getElementById("consumable-fields");
 			const itemFields = document.getElementById("item-fields");
 			const objectValueField = document.getElementById("object-value-field");
 			typeSelect.onchange = () => {
@@ -4892,9 +5034,14 @@ class MapEditor {
 					equipmentFields.style.display =
 						newType === "Equipment" ? "block" : "none";
 				}
+				if (consumableFields) {
+					consumableFields.style.display =
+						newType === "Consumable" ? "block" : "none";
+				}
 				if (itemFields) {
 					const isItemType =
 						newType === "Item" ||
+						newType === "Consumable" ||
 						newType === "Equipment" ||
 						newType === "Weapon" ||
 						newType === "Armor";
@@ -4903,6 +5050,7 @@ class MapEditor {
 				if (objectValueField) {
 					const isObjectType =
 						newType === "Item" ||
+						newType === "Consumable" ||
 						newType === "Equipment" ||
 						newType === "Weapon" ||
 						newType === "Armor" ||
@@ -5337,9 +5485,73 @@ class MapEditor {
 				}
 			}
 
-			// Add isContainer for Item, Equipment, Weapon, and Armor
+			// Add consumable-specific fields
+			if (templateType === "Consumable") {
+				const consumableType = document.getElementById(
+					"template-consumable-type"
+				)?.value;
+				if (consumableType) {
+					newTemplate.consumableType = consumableType;
+				}
+				const charges = parseInt(
+					document.getElementById("template-charges")?.value
+				);
+				if (!isNaN(charges) && charges > 1) {
+					newTemplate.charges = charges;
+				}
+				const restore = {};
+				["health", "mana", "exhaustion"].forEach((resource) => {
+					const amount = parseInt(
+						document.getElementById(`template-restore-${resource}`)?.value
+					);
+					if (!isNaN(amount) && amount > 0) {
+						restore[resource] = amount;
+					}
+				});
+				if (Object.keys(restore).length > 0) {
+					newTemplate.restore = restore;
+				}
+				const effects = (
+					document.getElementById("template-consumable-effects")?.value || ""
+				)
+					.split("\n")
+					.map((line) => line.trim())
+					.filter((line) => line.length > 0)
+					.map((line) => {
+						const [id, duration] = line.split(":").map((part) => part.trim());
+						const seconds = parseFloat(duration);
+						return isNaN(seconds) ? { id } : { id, duration: seconds };
+					});
+				if (effects.length > 0) {
+					newTemplate.effects = effects;
+				}
+				const cleanse = (
+					document.getElementById("template-cleanse")?.value || ""
+				)
+					.split(",")
+					.map((category) => category.trim().toLowerCase())
+					.filter((category) => category.length > 0);
+				if (cleanse.length > 0) {
+					newTemplate.cleanse = cleanse;
+				}
+				const cooldownGroup = document
+					.getElementById("template-cooldown-group")
+					?.value.trim();
+				if (cooldownGroup) {
+					newTemplate.cooldownGroup = cooldownGroup;
+				}
+				const cooldown = parseFloat(
+					document.getElementById("template-cooldown")?.value
+				);
+				if (!isNaN(cooldown) && cooldown > 0) {
+					newTemplate.cooldown = cooldown;
+				}
+			}
+
+			// Add isContainer for Item, Consumable, Equipment, Weapon, and Armor
 			if (
 				templateType === "Item" ||
+				templateType === "Consumable" ||
 				templateType === "Weapon" ||
 				templateType === "Armor" ||
 				templateType === "Equipment"
@@ -5355,9 +5567,10 @@ class MapEditor {
 				}
 			}
 
-			// Add value for Item, Equipment, Weapon, Armor, and Prop
+			// Add value for Item, Consumable, Equipment, Weapon, Armor, and Prop
 			if (
 				templateType === "Item" ||
+				templateType === "Consumable" ||
 				templateType === "Weapon" ||
 				templateType === "Armor" ||
 				templateType === "Equipment" ||
@@ -5468,6 +5681,20 @@ class MapEditor {
 				if (hasResourceBonuses) {
 					newTemplate.resourceBonuses = resourceBonuses;
 				}
+
+				// Procs (YAML list)
+				const procsText = document.getElementById("bonus-procs")?.value.trim();
+				if (procsText) {
+					try {
+						const procs = jsyaml.load(procsText);
+						if (Array.isArray(procs) && procs.length > 0) {
+							newTemplate.procs = procs;
+						}
+					} catch (error) {
+						this.showToast("Invalid procs", error.message);
+						return;
+					}
+				}
 			}
 			// Note: If type is not Mob/Weapon/Armor, we don't add those fields
 			// The YAML serializer will omit undefined fields
@@ -5510,6 +5737,21 @@ class MapEditor {
 				if (templateType !== "Armor" && oldTemplate.type === "Armor") {
 					delete updated.defense;
 				}
+				// Consumable fields are rebuilt from the form on every save, so drop
+				// any the form left empty (or all of them if the type changed)
+				for (const field of [
+					"consumableType",
+					"charges",
+					"restore",
+					"effects",
+					"cleanse",
+					"cooldownGroup",
+					"cooldown",
+				]) {
+					if (newTemplate[field] === undefined) {
+						delete updated[field];
+					}
+				}
 				// Preserve bonus fields when switching between equipment types
 				// Only remove bonuses if switching away from all equipment types
 				if (isOldEquipmentType && !isNewEquipmentType) {
@@ -5517,6 +5759,10 @@ class MapEditor {
 					delete updated.secondaryAttributeBonuses;
 					delete updated.resourceBonuses;
 				}
+				// Procs are rebuilt from the form on every save
+				if (newTemplate.procs === undefined) {
+					delete updated.procs;
+				}
 				// Remove hitType if empty
 				if (templateType === "Weapon" && !updated.hitType) {
 					delete updated.hitType;
@@ -5735,10 +5981,11 @@ class MapEditor {
 			(t) => t.type === "Equipment" || t.type === "Armor" || t.type === "Weapon"
 		);
 
-		// Get all item templates (Item, Equipment, Armor, Weapon - all are items) from all dungeons
+		// Get all item templates (Item, Consumable, Equipment, Armor, Weapon - all are items) from all dungeons
 		const itemTemplates = allTemplates.filter(
 			(t) =>
 				t.type === "Item" ||
+				t.type === "Consumable" ||
 				t.type === "Equipment" ||
 				t.type === "Armor" ||
 				t.type === "Weapon"
@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Blinkstorm",
 	description: "Teleport rapidly between enemies, striking them all.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 20 },
 };
 
 const COOLDOWN_MS = 12000;
@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Blood Demon Art",
 	description: "Unleash a devastating demonic art powered by blood.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { health: 15 },
 };
 
 const COOLDOWN_MS = 10000;
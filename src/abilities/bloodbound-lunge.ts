@@ -13,7 +13,7 @@ import { Mob, Room, EQUIPMENT_SLOT, Weapon } from "../core/dungeon.js";
 import { CommandObject } from "../package/commands.js";
 import { Ability } from "../core/ability.js";
 import { act } from "../act.js";
-import { oneHit } from "../combat.js";
+import { healMob, oneHit } from "../combat.js";
 
 export const ABILITY_ID = "bloodbound-lunge";
 
@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Bloodbound Lunge",
 	description: "Lunge at your target with blood-bound ferocity.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 10, health: 5 },
 };
 
 const COOLDOWN_MS = 4000;
@@ -113,9 +114,7 @@ export const command: CommandObject = {
 
 		// Heal for the damage dealt
 		if (damageDealt > 0) {
-			const oldHealth = actor.health;
-			actor.health = Math.min(actor.maxHealth, actor.health + damageDealt);
-			const actualHeal = actor.health - oldHealth;
+			const actualHeal = healMob(actor, actor, damageDealt);
 
 			if (actualHeal > 0) {
 				act(
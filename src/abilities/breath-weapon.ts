@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Breath Weapon",
 	description: "Unleash a devastating breath attack against your enemies.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 15 },
 };
 
 const COOLDOWN_MS = 8000;
@@ -0,0 +1,93 @@
+/**
+ * Burning Ground ability - Set the ground around you ablaze.
+ *
+ * Creates a Burning Ground zone in the room. Enemies standing in it burn
+ * until they leave or the flames die down, including enemies who walk in
+ * after it was created.
+ *
+ * @example
+ * ```
+ * burning ground
+ * ```
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { Ability } from "../core/ability.js";
+import { AURA_TARGET, ZoneTemplate } from "../core/effect.js";
+import { act } from "../act.js";
+import { effectTemplate as burning } from "../effects/burning.js";
+
+export const ABILITY_ID = "burning-ground";
+
+export const ability: Ability = {
+	id: ABILITY_ID,
+	name: "Burning Ground",
+	description: "Set the ground ablaze, burning enemies who stand in it.",
+	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 30 },
+	castTime: 1500,
+};
+
+export const zoneTemplate: ZoneTemplate = {
+	id: "burning-ground",
+	name: "Burning Ground",
+	description: "Flames that burn enemies standing in them.",
+	duration: 12,
+	aura: {
+		effect: burning,
+		targets: AURA_TARGET.ENEMIES,
+	},
+	roomDescription: "Flames lick across the ground here.",
+	onExpire: "The flames on the ground die down.",
+};
+
+const COOLDOWN_MS = 15000;
+
+export const command: CommandObject = {
+	pattern: "'burning ground'~",
+	cooldown(context: CommandContext, args: Map<string, any>) {
+		const { actor, room } = context;
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			return 0;
+		}
+		if (!room) {
+			return 0;
+		}
+		return COOLDOWN_MS;
+	},
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			actor.sendMessage(
+				"You don't know that ability.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!room) {
+			actor.sendMessage(
+				"You are not in a room.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		act(
+			{
+				user: "You sweep your hand across the ground and it bursts into flame!",
+				room: "{User} sweeps a hand across the ground and it bursts into flame!",
+			},
+			{ user: actor, room },
+			{ messageGroup: MESSAGE_GROUP.COMBAT }
+		);
+
+		room.addZone(zoneTemplate, actor);
+
+		actor.useAbility(ability, 1);
+	},
+};
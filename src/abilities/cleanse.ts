@@ -0,0 +1,99 @@
+/**
+ * Cleanse ability - Purge poisons and diseases from a target.
+ *
+ * Each poison or disease on the target is removed with a chance that grows
+ * with proficiency. Removed effects show their expiration messages.
+ *
+ * @example
+ * ```
+ * cleanse            // Cleanse yourself
+ * cleanse <target>   // Cleanse someone else
+ * ```
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Mob } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { Ability } from "../core/ability.js";
+import { EFFECT_CATEGORY, getDispelChance } from "../core/effect.js";
+import { act } from "../act.js";
+
+export const ABILITY_ID = "cleanse";
+
+export const ability: Ability = {
+	id: ABILITY_ID,
+	name: "Cleanse",
+	description: "Draw poisons and diseases out of a target's body.",
+	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
+};
+
+/** Effect categories removed by a cleanse */
+export const CLEANSE_CATEGORIES = [
+	EFFECT_CATEGORY.POISON,
+	EFFECT_CATEGORY.DISEASE,
+];
+
+const COOLDOWN_MS = 6000;
+
+export const command: CommandObject = {
+	pattern: "cleanse~ <target:mob?>",
+	cooldown(context: CommandContext, args: Map<string, any>) {
+		const { actor, room } = context;
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			return 0;
+		}
+		if (!room) {
+			return 0;
+		}
+		return COOLDOWN_MS;
+	},
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+
+		if (!room) {
+			actor.sendMessage(
+				"You are not in a room.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const target = (args.get("target") as Mob | undefined) ?? actor;
+		if (target.location !== room) {
+			actor.sendMessage(
+				"They are not in the same room as you.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		act(
+			target === actor
+				? {
+						user: "You draw the impurities out of your body.",
+						room: "{User} draws the impurities out of their body.",
+				  }
+				: {
+						user: "You draw the impurities out of {target}'s body.",
+						target: "{User} draws the impurities out of your body.",
+						room: "{User} draws the impurities out of {target}'s body.",
+				  },
+			{ user: actor, target, room },
+			{ messageGroup: MESSAGE_GROUP.COMBAT }
+		);
+
+		const proficiencyPercent = actor.learnedAbilities.get(ability.id) ?? 0;
+		const removed = target.dispelEffects(
+			CLEANSE_CATEGORIES,
+			getDispelChance(proficiencyPercent)
+		);
+		if (removed.length === 0) {
+			actor.sendMessage("Nothing is cleansed.", MESSAGE_GROUP.COMBAT);
+		}
+
+		actor.useAbility(ability, 1);
+	},
+};
@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Clockwork Bolt",
 	description: "Fire a precise mechanical bolt at your target.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 15 },
 };
 
 const COOLDOWN_MS = 2000;
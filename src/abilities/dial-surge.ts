@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Dial Surge",
 	description: "Release a surge of dial power to enhance your abilities.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 const COOLDOWN_MS = 25000;
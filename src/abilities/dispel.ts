@@ -0,0 +1,96 @@
+/**
+ * Dispel ability - Unravel the magic and curses on a target.
+ *
+ * Each magical or cursed effect on the target is removed with a chance that
+ * grows with proficiency. Removed effects show their expiration messages.
+ *
+ * @example
+ * ```
+ * dispel            // Dispel yourself
+ * dispel <target>   // Dispel someone else
+ * ```
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Mob } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { Ability } from "../core/ability.js";
+import { EFFECT_CATEGORY, getDispelChance } from "../core/effect.js";
+import { act } from "../act.js";
+
+export const ABILITY_ID = "dispel";
+
+export const ability: Ability = {
+	id: ABILITY_ID,
+	name: "Dispel",
+	description: "Unravel the magic and curses woven around a target.",
+	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 25 },
+};
+
+/** Effect categories removed by a dispel */
+export const DISPEL_CATEGORIES = [EFFECT_CATEGORY.MAGIC, EFFECT_CATEGORY.CURSE];
+
+const COOLDOWN_MS = 6000;
+
+export const command: CommandObject = {
+	pattern: "dispel~ <target:mob?>",
+	cooldown(context: CommandContext, args: Map<string, any>) {
+		const { actor, room } = context;
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			return 0;
+		}
+		if (!room) {
+			return 0;
+		}
+		return COOLDOWN_MS;
+	},
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+
+		if (!room) {
+			actor.sendMessage(
+				"You are not in a room.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const target = (args.get("target") as Mob | undefined) ?? actor;
+		if (target.location !== room) {
+			actor.sendMessage(
+				"They are not in the same room as you.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		act(
+			target === actor
+				? {
+						user: "You trace a dispelling sigil in the air around you.",
+						room: "{User} traces a dispelling sigil in the air.",
+				  }
+				: {
+						user: "You trace a dispelling sigil over {target}.",
+						target: "{User} traces a dispelling sigil over you.",
+						room: "{User} traces a dispelling sigil over {target}.",
+				  },
+			{ user: actor, target, room },
+			{ messageGroup: MESSAGE_GROUP.COMBAT }
+		);
+
+		const proficiencyPercent = actor.learnedAbilities.get(ability.id) ?? 0;
+		const removed = target.dispelEffects(
+			DISPEL_CATEGORIES,
+			getDispelChance(proficiencyPercent)
+		);
+		if (removed.length === 0) {
+			actor.sendMessage("Nothing is dispelled.", MESSAGE_GROUP.COMBAT);
+		}
+
+		actor.useAbility(ability, 1);
+	},
+};
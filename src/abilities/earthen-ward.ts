@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Earthen Ward",
 	description: "Create a protective ward of earth around yourself.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 const COOLDOWN_MS = 8000;
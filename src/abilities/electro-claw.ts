@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Electro Claw",
 	description: "Strike with claws charged with electrical energy.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 10 },
 };
 
 const COOLDOWN_MS = 3000;
@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Essence Bolt",
 	description: "Fire a bolt of pure essence energy at your target.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 15 },
 };
 
 const COOLDOWN_MS = 2500;
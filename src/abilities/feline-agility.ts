@@ -22,6 +22,7 @@ export const ability: Ability = {
 	description:
 		"Channel the swift agility of a cat to move with incredible speed.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 15 },
 };
 
 const COOLDOWN_MS = 15000;
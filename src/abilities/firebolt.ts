@@ -23,6 +23,8 @@ export const ability: Ability = {
 	name: "Firebolt",
 	description: "Launch a bolt of fire at your target.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 15 },
+	castTime: 1000,
 };
 
 const COOLDOWN_MS = 2000;
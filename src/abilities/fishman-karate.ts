@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Fishman Karate",
 	description: "Execute a powerful fishman karate technique.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 10 },
 };
 
 const COOLDOWN_MS = 4000;
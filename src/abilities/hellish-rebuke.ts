@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Hellish Rebuke",
 	description: "Strike back at your attacker with hellish fury.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 15 },
 };
 
 const COOLDOWN_MS = 6000;
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Hidden Step",
 	description: "Step into the shadows, becoming harder to detect.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 15 },
 };
 
 const COOLDOWN_MS = 15000;
@@ -1,6 +1,9 @@
 /**
  * Inspire ability - Inspire your allies.
  *
+ * Gives you an Inspiring Presence aura that inspires you and every ally in
+ * the same room, including allies who join you while it lasts.
+ *
  * @example
  * ```
  * inspire
@@ -9,10 +12,9 @@
 
 import { CommandContext } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
-import { Mob, Room } from "../core/dungeon.js";
 import { CommandObject } from "../package/commands.js";
 import { Ability } from "../core/ability.js";
-import { effectTemplate } from "../effects/inspire.js";
+import { effectTemplate } from "../effects/inspiring-presence.js";
 
 export const ABILITY_ID = "inspire";
 
@@ -21,6 +23,7 @@ export const ability: Ability = {
 	name: "Inspire",
 	description: "Inspire your allies with your presence and leadership.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 const COOLDOWN_MS = 20000;
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Integrated Armor",
 	description: "Activate your integrated armor to bolster your defenses.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 15 },
 };
 
 const COOLDOWN_MS = 12000;
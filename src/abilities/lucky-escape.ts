@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Lucky Escape",
 	description: "Escape danger through a stroke of luck.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 10 },
 };
 
 const COOLDOWN_MS = 30000;
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Mana Shield",
 	description: "Create a protective shield of pure mana around yourself.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 25 },
 };
 
 const COOLDOWN_MS = 5000;
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Mimic Call",
 	description: "Mimic the calls and sounds of others to confuse or distract.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 10 },
 };
 
 const COOLDOWN_MS = 10000;
@@ -9,10 +9,11 @@
 
 import { CommandContext } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
-import { Mob, Room } from "../core/dungeon.js";
 import { CommandObject } from "../package/commands.js";
 import { Ability } from "../core/ability.js";
 import { act } from "../act.js";
+import { AURA_TARGET } from "../core/effect.js";
+import { getAuraTargets } from "../auras.js";
 import { effectTemplate } from "../effects/mournful-wail.js";
 
 export const ABILITY_ID = "mournful-wail";
@@ -22,6 +23,7 @@ export const ability: Ability = {
 	name: "Mournful Wail",
 	description: "Emit a mournful wail that weakens your enemies.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 const COOLDOWN_MS = 10000;
@@ -36,9 +38,7 @@ export const command: CommandObject = {
 		if (!room) {
 			return 0;
 		}
-		const enemies = room.contents.filter(
-			(obj) => obj instanceof Mob && obj !== actor && obj.health > 0
-		);
+		const enemies = getAuraTargets(actor, room, AURA_TARGET.ENEMIES);
 		if (enemies.length === 0) return 0;
 		return COOLDOWN_MS;
 	},
@@ -62,9 +62,7 @@ export const command: CommandObject = {
 			return;
 		}
 
-		const enemies = room.contents.filter(
-			(obj) => obj instanceof Mob && obj !== actor && obj.health > 0
-		);
+		const enemies = getAuraTargets(actor, room, AURA_TARGET.ENEMIES);
 
 		if (enemies.length === 0) {
 			actor.sendMessage(
@@ -87,7 +85,6 @@ export const command: CommandObject = {
 		);
 
 		for (const enemy of enemies) {
-			if (!(enemy instanceof Mob)) continue;
 			enemy.addEffect(effectTemplate, actor, {
 				duration: 30, // 30 seconds
 			});
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Ossuary Pact",
 	description: "Form a pact with the dead to gain their power.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 10, health: 10 },
 };
 
 const COOLDOWN_MS = 3000;
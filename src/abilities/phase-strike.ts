@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Phase Strike",
 	description: "Strike your target by phasing through dimensions.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 10 },
 };
 
 const COOLDOWN_MS = 5000;
@@ -24,6 +24,7 @@ export const ability: Ability = {
 	name: "Poison Blast",
 	description: "Blasts the target with a poison nova, inflicting poison.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 export const effectTemplate = {
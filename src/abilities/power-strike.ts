@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Power Strike",
 	description: "Deliver a powerful melee strike to your target.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 15 },
 };
 
 const COOLDOWN_MS = 3000;
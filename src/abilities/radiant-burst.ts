@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Radiant Burst",
 	description: "A burst of radiant energy that damages nearby enemies.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 const COOLDOWN_MS = 5000;
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Relentless Endurance",
 	description: "Push beyond your limits with relentless determination.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 20 },
 };
 
 const COOLDOWN_MS = 20000;
@@ -0,0 +1,92 @@
+/**
+ * Sanctuary ability - Consecrate the ground as a place of safety.
+ *
+ * Creates a Sanctuary zone in the room. You and your allies take less damage
+ * while standing in it, including allies who arrive after it was created.
+ *
+ * @example
+ * ```
+ * sanctuary
+ * ```
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { Ability } from "../core/ability.js";
+import { AURA_TARGET, ZoneTemplate } from "../core/effect.js";
+import { act } from "../act.js";
+import { effectTemplate as sanctuary } from "../effects/sanctuary.js";
+
+export const ABILITY_ID = "sanctuary";
+
+export const ability: Ability = {
+	id: ABILITY_ID,
+	name: "Sanctuary",
+	description:
+		"Consecrate the ground so that you and your allies are harder to hurt.",
+	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 40 },
+};
+
+export const zoneTemplate: ZoneTemplate = {
+	id: "sanctuary",
+	name: "Sanctuary",
+	description: "Consecrated ground that protects allies standing on it.",
+	duration: 30,
+	aura: {
+		effect: sanctuary,
+		targets: AURA_TARGET.ALLIES,
+	},
+	roomDescription: "A soft, peaceful light fills this place.",
+	onExpire: "The peaceful light fades away.",
+};
+
+const COOLDOWN_MS = 60000;
+
+export const command: CommandObject = {
+	pattern: "sanctuary~",
+	cooldown(context: CommandContext, args: Map<string, any>) {
+		const { actor, room } = context;
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			return 0;
+		}
+		if (!room) {
+			return 0;
+		}
+		return COOLDOWN_MS;
+	},
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			actor.sendMessage(
+				"You don't know that ability.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!room) {
+			actor.sendMessage(
+				"You are not in a room.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		act(
+			{
+				user: "You kneel and consecrate the ground around you.",
+				room: "{User} kneels and consecrates the ground.",
+			},
+			{ user: actor, room },
+			{ messageGroup: MESSAGE_GROUP.INFO }
+		);
+
+		room.addZone(zoneTemplate, actor);
+
+		actor.useAbility(ability, 1);
+	},
+};
@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Sanguine Dominate",
 	description: "Dominate your target through sanguine power.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 15, health: 10 },
 };
 
 const COOLDOWN_MS = 8000;
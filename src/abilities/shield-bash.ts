@@ -23,6 +23,7 @@ export const ability: Ability = {
 	description:
 		"Bash your target with your shield, dealing damage and potentially stunning them.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 10 },
 };
 
 const COOLDOWN_MS = 4000;
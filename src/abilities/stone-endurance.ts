@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Stone Endurance",
 	description: "Channel the endurance of stone to bolster your defenses.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 20 },
 };
 
 const COOLDOWN_MS = 10000;
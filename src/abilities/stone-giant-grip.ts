@@ -22,6 +22,7 @@ export const ability: Ability = {
 	name: "Stone Giant Grip",
 	description: "Crush your target with the grip of a stone giant.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 15 },
 };
 
 const COOLDOWN_MS = 6000;
@@ -23,6 +23,7 @@ export const ability: Ability = {
 	name: "Stone Spike",
 	description: "Summon a spike of stone from the ground to impale your target.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 15 },
 };
 
 const COOLDOWN_MS = 4000;
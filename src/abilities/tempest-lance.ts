@@ -23,6 +23,8 @@ export const ability: Ability = {
 	name: "Tempest Lance",
 	description: "Hurl a lance of tempest energy at your target.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
+	castTime: 1500,
 };
 
 const COOLDOWN_MS = 3500;
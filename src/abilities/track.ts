@@ -0,0 +1,103 @@
+/**
+ * Track ability - Find the trail of a creature or player.
+ *
+ * Reports which way to go to reach the nearest mob matching the given name,
+ * wherever it is in the world. Low proficiency trackers sometimes misread the
+ * trail and are pointed the wrong way.
+ *
+ * @example
+ * ```
+ * track goblin
+ * track bob
+ * ```
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { Ability } from "../core/ability.js";
+import { dir2text } from "../direction.js";
+import { TRACK_ABILITY_ID, trackMob } from "../tracking.js";
+
+export const ABILITY_ID = TRACK_ABILITY_ID;
+
+export const ability: Ability = {
+	id: ABILITY_ID,
+	name: "Track",
+	description: "Follow the trail of a creature or player across the world.",
+	proficiencyCurve: [25, 75, 150, 300],
+	cost: { exhaustion: 5 },
+};
+
+const COOLDOWN_MS = 3000;
+
+export const command: CommandObject = {
+	pattern: "track~ <target:text>",
+	aliases: ["hunt~ <target:text>"],
+	cooldown(context: CommandContext, args: Map<string, any>) {
+		const { actor, room } = context;
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			return 0;
+		}
+		if (!room) {
+			return 0;
+		}
+		return COOLDOWN_MS;
+	},
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+
+		if (!actor.knowsAbilityById(ABILITY_ID)) {
+			actor.sendMessage(
+				"You don't know that ability.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!room) {
+			actor.sendMessage(
+				"You are not in a room.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const name = args.get("target") as string;
+		const result = trackMob(actor, name);
+		if (!result) {
+			actor.sendMessage(
+				`You can't find a trail for '${name}'.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (result.direction === undefined) {
+			actor.sendMessage(
+				`${result.target.display} is right here!`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		} else {
+			actor.sendMessage(
+				`You find the trail of ${result.target.display} leading ${dir2text(
+					result.direction
+				)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		}
+
+		actor.useAbility(ability, 1);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error?.includes("target")) {
+			context.actor.sendMessage(
+				"Who do you want to track?",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+};
@@ -25,6 +25,7 @@ export const ability: Ability = {
 	name: "Whirlwind",
 	description: "A spinning attack that hits all nearby enemies in the room.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { exhaustion: 20 },
 };
 
 const COOLDOWN_MS = 1000;
@@ -21,6 +21,7 @@ export const ability: Ability = {
 	name: "Windstep Chorus",
 	description: "Move with the chorus of the wind, enhancing your mobility.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 20 },
 };
 
 const COOLDOWN_MS = 18000;
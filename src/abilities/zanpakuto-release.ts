@@ -22,6 +22,7 @@ export const ability: Ability = {
 	description:
 		"Release the true power of your zanpakuto, unlocking its full potential.",
 	proficiencyCurve: [100, 200, 400, 800],
+	cost: { mana: 25 },
 };
 
 const COOLDOWN_MS = 60000;
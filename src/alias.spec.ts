@@ -0,0 +1,107 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	expandAliases,
+	isValidAliasName,
+	substituteAliasArgs,
+} from "./alias.js";
+
+suite("alias.ts", () => {
+	suite("substituteAliasArgs", () => {
+		test("should replace positional arguments", () => {
+			assert.strictEqual(
+				substituteAliasArgs("give $2 to $1", ["bob", "sword"]),
+				"give sword to bob"
+			);
+		});
+
+		test("should replace $* with all arguments", () => {
+			assert.strictEqual(
+				substituteAliasArgs("say $* !", ["hello", "there"]),
+				"say hello there !"
+			);
+		});
+
+		test("should replace missing arguments with nothing", () => {
+			assert.strictEqual(substituteAliasArgs("kill $1", []), "kill ");
+		});
+
+		test("should append arguments when none are referenced", () => {
+			assert.strictEqual(
+				substituteAliasArgs("'mimic call'", ["goblin"]),
+				"'mimic call' goblin"
+			);
+		});
+	});
+
+	suite("expandAliases", () => {
+		test("should pass input through when it is not an alias", () => {
+			const aliases = new Map([["k", "kill $1"]]);
+			assert.deepStrictEqual(expandAliases(aliases, "  look  "), {
+				commands: ["look"],
+			});
+			assert.deepStrictEqual(expandAliases(undefined, "look"), {
+				commands: ["look"],
+			});
+		});
+
+		test("should split an expansion into several commands", () => {
+			const aliases = new Map([["gg", "get all corpse; sacrifice corpse"]]);
+			assert.deepStrictEqual(expandAliases(aliases, "gg").commands, [
+				"get all corpse",
+				"sacrifice corpse",
+			]);
+		});
+
+		test("should match alias names case-insensitively", () => {
+			const aliases = new Map([["k", "kill $1"]]);
+			assert.deepStrictEqual(expandAliases(aliases, "K goblin").commands, [
+				"kill goblin",
+			]);
+		});
+
+		test("should expand nested aliases", () => {
+			const aliases = new Map([
+				["k", "kill $1"],
+				["kk", "k $1;k $2"],
+			]);
+			assert.deepStrictEqual(expandAliases(aliases, "kk rat bat").commands, [
+				"kill rat",
+				"kill bat",
+			]);
+		});
+
+		test("should stop recursive aliases", () => {
+			const aliases = new Map([
+				["a", "b"],
+				["b", "a"],
+			]);
+			const result = expandAliases(aliases, "a");
+			assert.deepStrictEqual(result.commands, []);
+			assert.ok(result.error);
+		});
+
+		test("should limit the number of commands", () => {
+			const aliases = new Map([
+				["x", "look;look;look;look;look"],
+				["xx", "x;x;x;x;x"],
+			]);
+			const result = expandAliases(aliases, "xx");
+			assert.deepStrictEqual(result.commands, []);
+			assert.ok(result.error);
+		});
+	});
+
+	suite("isValidAliasName", () => {
+		test("should accept single words", () => {
+			assert.strictEqual(isValidAliasName("mc"), true);
+			assert.strictEqual(isValidAliasName("get-all_2"), true);
+		});
+
+		test("should reject spaces, symbols and leading digits", () => {
+			assert.strictEqual(isValidAliasName("two words"), false);
+			assert.strictEqual(isValidAliasName("'cast"), false);
+			assert.strictEqual(isValidAliasName("2x"), false);
+		});
+	});
+});
@@ -0,0 +1,130 @@
+/**
+ * Player-defined command aliases.
+ *
+ * An alias maps a single word to one or more commands separated by `;`. When a
+ * player's input starts with an alias, the alias is replaced by its expansion
+ * before the commands are executed, with positional arguments substituted:
+ *
+ * - `$1` to `$9` - the matching word of the arguments
+ * - `$*` - all arguments
+ *
+ * An expansion that uses neither gets the arguments appended to its last
+ * command. Expanded commands may themselves start with aliases, up to
+ * {@link MAX_ALIAS_DEPTH} levels deep.
+ *
+ * @example
+ * ```typescript
+ * const aliases = new Map([["mc", "'mimic call' $1"]]);
+ * expandAliases(aliases, "mc goblin").commands; // ["'mimic call' goblin"]
+ * ```
+ *
+ * @module alias
+ */
+
+/** Maximum number of aliases a character may define. */
+export const MAX_ALIASES = 50;
+
+/** Maximum length of an alias expansion. */
+export const MAX_ALIAS_LENGTH = 256;
+
+/** Maximum nesting of aliases within aliases. */
+export const MAX_ALIAS_DEPTH = 5;
+
+/** Maximum number of commands a single input may expand to. */
+export const MAX_ALIAS_COMMANDS = 20;
+
+/** Separator between commands in an alias expansion. */
+export const ALIAS_SEPARATOR = ";";
+
+/**
+ * Result of expanding a line of input.
+ *
+ * @property commands - Commands to execute, in order
+ * @property error - Why expansion stopped, if it failed
+ */
+export interface AliasExpansion {
+	commands: string[];
+	error?: string;
+}
+
+/**
+ * Check whether a word may be used as an alias name.
+ * Names are a single word of letters, digits, `-` or `_`, and may not start
+ * with a digit.
+ *
+ * @param name The proposed name
+ * @returns true if the name is valid
+ */
+export function isValidAliasName(name: string): boolean {
+	return /^[a-z_-][a-z0-9_-]*$/i.test(name);
+}
+
+/**
+ * Substitute arguments into an alias expansion.
+ *
+ * @param expansion The alias expansion
+ * @param args The words following the alias name
+ * @returns The expansion with `$1`-`$9` and `$*` replaced
+ */
+export function substituteAliasArgs(expansion: string, args: string[]): string {
+	let substituted = false;
+	const result = expansion.replace(/\$(\*|[1-9])/g, (_, token: string) => {
+		substituted = true;
+		if (token === "*") return args.join(" ");
+		return args[parseInt(token, 10) - 1] ?? "";
+	});
+	if (substituted || args.length === 0) return result;
+	return `${result} ${args.join(" ")}`;
+}
+
+function expand(
+	aliases: ReadonlyMap<string, string>,
+	input: string,
+	depth: number,
+	commands: string[]
+): string | undefined {
+	const trimmed = input.trim();
+	if (!trimmed) return undefined;
+
+	const [name, ...args] = trimmed.split(/\s+/);
+	const expansion = aliases.get(name.toLowerCase());
+	if (expansion === undefined) {
+		if (commands.length >= MAX_ALIAS_COMMANDS) {
+			return `Aliases may not expand to more than ${MAX_ALIAS_COMMANDS} commands.`;
+		}
+		commands.push(trimmed);
+		return undefined;
+	}
+
+	if (depth >= MAX_ALIAS_DEPTH) {
+		return `Alias '${name}' nests too deeply (limit ${MAX_ALIAS_DEPTH}).`;
+	}
+
+	const substituted = substituteAliasArgs(expansion, args);
+	for (const part of substituted.split(ALIAS_SEPARATOR)) {
+		const error = expand(aliases, part, depth + 1, commands);
+		if (error) return error;
+	}
+	return undefined;
+}
+
+/**
+ * Expand the aliases in a line of input.
+ * Input that does not start with an alias is returned as a single command.
+ *
+ * @param aliases Alias names (lowercase) mapped to their expansions
+ * @param input The line of input
+ * @returns The commands to run, or an error if a limit was exceeded
+ */
+export function expandAliases(
+	aliases: ReadonlyMap<string, string> | undefined,
+	input: string
+): AliasExpansion {
+	if (!aliases || aliases.size === 0) {
+		const trimmed = input.trim();
+		return { commands: trimmed ? [trimmed] : [] };
+	}
+	const commands: string[] = [];
+	const error = expand(aliases, input, 0, commands);
+	return error ? { commands: [], error } : { commands };
+}
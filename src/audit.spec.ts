@@ -0,0 +1,50 @@
+import { test, suite, before, after } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { recordAudit, searchAudit, setAuditDirectory } from "./audit.js";
+import { AUDIT_OUTCOME } from "./core/audit.js";
+
+suite("audit.ts", () => {
+	let directory: string;
+
+	before(async () => {
+		directory = await mkdtemp(join(tmpdir(), "audit-"));
+		setAuditDirectory(directory);
+	});
+
+	after(async () => {
+		setAuditDirectory();
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	test("recorded entries are written by day and found again", async () => {
+		await recordAudit({
+			timestamp: new Date("2024-06-01T12:00:00.000Z"),
+			actor: "Admin",
+			target: "Alice",
+			command: "kick Alice spamming",
+			outcome: AUDIT_OUTCOME.SUCCESS,
+		});
+		await recordAudit({
+			timestamp: new Date("2024-06-02T08:30:00.000Z"),
+			actor: "Admin",
+			target: "Bob",
+			command: "freeze Bob",
+			outcome: AUDIT_OUTCOME.INVALID,
+			error: "You can only freeze characters ranked below you.",
+		});
+
+		assert.deepStrictEqual((await readdir(directory)).sort(), [
+			"audit-2024-06-01.jsonl",
+			"audit-2024-06-02.jsonl",
+		]);
+		const entries = await searchAudit({ player: "alice" });
+		assert.deepStrictEqual(
+			entries.map((entry) => entry.command),
+			["kick Alice spamming"]
+		);
+		assert.strictEqual((await searchAudit()).length, 2);
+	});
+});
@@ -0,0 +1,139 @@
+/**
+ * Audit module - append-only record of privileged actions
+ *
+ * Keeps a separate, permanent trail of staff actions apart from the general
+ * application log. Every command that needs a permission (see `core/role`)
+ * is recorded by the command registry, and the character and map editors
+ * record their writes.
+ *
+ * Files
+ * - `logs/audit/audit-YYYY-MM-DD.jsonl`, one JSON entry per line
+ * - Files are only ever appended to; nothing here rewrites or deletes them
+ * - Specs point {@link setAuditDirectory} at a temporary directory so they
+ *   never touch the real trail
+ *
+ * Usage
+ * ```ts
+ * import { recordAudit, searchAudit } from './audit.js';
+ * import { AUDIT_OUTCOME } from './core/audit.js';
+ *
+ * await recordAudit({
+ *   actor: 'Admin',
+ *   target: 'Alice',
+ *   command: 'kick Alice spamming',
+ *   outcome: AUDIT_OUTCOME.SUCCESS,
+ * });
+ * const entries = await searchAudit({ player: 'alice' });
+ * ```
+ *
+ * Notes
+ * - Recording never throws; a failed write is reported through the logger so
+ *   auditing can't break the action being audited.
+ * - File dates are UTC, like the timestamps inside them.
+ *
+ * @module audit
+ */
+import { appendFile, mkdir, readdir, readFile } from "fs/promises";
+import { join } from "path";
+import logger from "./logger.js";
+import { getSafeRootDirectory } from "./utils/path.js";
+import {
+	AuditEntry,
+	AuditQuery,
+	matchesAuditQuery,
+	parseAuditLine,
+	serializeAuditEntry,
+} from "./core/audit.js";
+
+const DEFAULT_AUDIT_DIRECTORY = join(getSafeRootDirectory(), "logs", "audit");
+let auditDirectory = DEFAULT_AUDIT_DIRECTORY;
+
+/** Default number of entries returned by {@link searchAudit}. */
+export const DEFAULT_AUDIT_LIMIT = 20;
+
+/**
+ * Change where the audit log is kept.
+ *
+ * @param directory The directory; defaults to `logs/audit`
+ */
+export function setAuditDirectory(
+	directory: string = DEFAULT_AUDIT_DIRECTORY
+): void {
+	auditDirectory = directory;
+}
+
+/**
+ * Gets the UTC date part of a timestamp (YYYY-MM-DD).
+ */
+function getAuditDate(timestamp: Date): string {
+	return timestamp.toISOString().split("T")[0];
+}
+
+/**
+ * Append an entry to the audit log.
+ *
+ * @param entry The entry; the timestamp defaults to now
+ */
+export async function recordAudit(
+	entry: Omit<AuditEntry, "timestamp"> & { timestamp?: Date }
+): Promise<void> {
+	const full: AuditEntry = {
+		...entry,
+		timestamp: entry.timestamp ?? new Date(),
+	};
+	const filePath = join(
+		auditDirectory,
+		`audit-${getAuditDate(full.timestamp)}.jsonl`
+	);
+	try {
+		await mkdir(auditDirectory, { recursive: true });
+		await appendFile(
+			filePath,
+			JSON.stringify(serializeAuditEntry(full)) + "\n",
+			"utf-8"
+		);
+	} catch (error) {
+		logger.error(`Failed to write audit entry: ${error}`, {
+			entry: serializeAuditEntry(full),
+		});
+	}
+}
+
+/**
+ * Search the audit log, newest entries last.
+ *
+ * @param query Which entries to return
+ * @param limit Maximum number of (most recent) entries to return
+ * @returns Matching entries in chronological order
+ */
+export async function searchAudit(
+	query: AuditQuery = {},
+	limit: number = DEFAULT_AUDIT_LIMIT
+): Promise<AuditEntry[]> {
+	let files: string[];
+	try {
+		files = await readdir(auditDirectory);
+	} catch (error: any) {
+		if (error?.code === "ENOENT") return [];
+		throw error;
+	}
+
+	// skip whole days before the window
+	const sinceDate = query.since && getAuditDate(query.since);
+	const logFiles = files
+		.filter((file) => /^audit-\d{4}-\d{2}-\d{2}\.jsonl$/.test(file))
+		.filter((file) => !sinceDate || file.slice(6, 16) >= sinceDate)
+		.sort();
+
+	const entries: AuditEntry[] = [];
+	for (const file of logFiles) {
+		const content = await readFile(join(auditDirectory, file), "utf-8");
+		for (const line of content.split("\n")) {
+			const entry = parseAuditLine(line);
+			if (entry && matchesAuditQuery(entry, query)) entries.push(entry);
+		}
+	}
+
+	entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+	return entries.slice(-limit);
+}
@@ -0,0 +1,196 @@
+import { test, suite, beforeEach } from "node:test";
+import assert from "node:assert";
+import { Dungeon, Mob, Room } from "./core/dungeon.js";
+import { Job, Race } from "./core/archetype.js";
+import {
+	AURA_TARGET,
+	PassiveEffectTemplate,
+	ZoneTemplate,
+} from "./core/effect.js";
+import { registerDungeonInstance } from "./package/dungeon.js";
+import { isAuraTarget } from "./auras.js";
+import { handleDeath } from "./combat.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const BLESSING: PassiveEffectTemplate = {
+	id: "test_blessing",
+	name: "Blessing",
+	description: "A test blessing.",
+	type: "passive",
+	stackable: false,
+	secondaryAttributeModifiers: { defense: 5 },
+};
+
+const BLESSING_AURA: PassiveEffectTemplate = {
+	id: "test_blessing_aura",
+	name: "Blessing Aura",
+	description: "Blesses allies.",
+	type: "passive",
+	stackable: false,
+	aura: { effect: BLESSING, targets: AURA_TARGET.ALLIES },
+};
+
+const HALLOWED_GROUND: ZoneTemplate = {
+	id: "test_hallowed_ground",
+	name: "Hallowed Ground",
+	description: "Blesses allies standing on it.",
+	duration: 30,
+	aura: { effect: BLESSING, targets: AURA_TARGET.ALLIES },
+};
+
+let dungeonCount = 0;
+
+suite("auras.ts", () => {
+	let dungeon: Dungeon;
+	let carrier: Mob;
+
+	function createMob(display: string, room: Room): Mob {
+		const mob = new Mob({
+			display,
+			keywords: display,
+			race: testRace,
+			job: testJob,
+			level: 1,
+		});
+		room.add(mob);
+		return mob;
+	}
+
+	function roomAt(x: number, y: number): Room {
+		return dungeon.getRoom({ x, y, z: 0 }) as Room;
+	}
+
+	function isBlessed(mob: Mob): boolean {
+		return mob.getEffectsById(BLESSING.id).length > 0;
+	}
+
+	beforeEach(() => {
+		dungeon = Dungeon.generateEmptyDungeon({
+			id: `auras-test-${dungeonCount++}`,
+			dimensions: { width: 2, height: 1, layers: 1 },
+		});
+		registerDungeonInstance(dungeon);
+		carrier = createMob("carrier", roomAt(0, 0));
+	});
+
+	test("isAuraTarget treats NPCs as allies of each other", () => {
+		const other = createMob("other", roomAt(0, 0));
+		assert.strictEqual(
+			isAuraTarget(carrier, carrier, AURA_TARGET.ALLIES),
+			true
+		);
+		assert.strictEqual(isAuraTarget(carrier, other, AURA_TARGET.ALLIES), true);
+		assert.strictEqual(
+			isAuraTarget(carrier, other, AURA_TARGET.ENEMIES),
+			false
+		);
+	});
+
+	test("an aura projects onto allies in the room", () => {
+		const ally = createMob("ally", roomAt(0, 0));
+		const distant = createMob("distant", roomAt(1, 0));
+
+		carrier.addEffect(BLESSING_AURA, carrier);
+
+		assert.strictEqual(isBlessed(carrier), true);
+		assert.strictEqual(isBlessed(ally), true);
+		assert.strictEqual(isBlessed(distant), false);
+	});
+
+	test("an aura follows mobs entering and leaving the room", () => {
+		const ally = createMob("ally", roomAt(1, 0));
+		carrier.addEffect(BLESSING_AURA, carrier);
+
+		ally.move(roomAt(0, 0));
+		assert.strictEqual(isBlessed(ally), true);
+
+		ally.move(roomAt(1, 0));
+		assert.strictEqual(isBlessed(ally), false);
+		assert.strictEqual(isBlessed(carrier), true);
+	});
+
+	test("removing an aura withdraws its projections", () => {
+		const ally = createMob("ally", roomAt(0, 0));
+		const aura = carrier.addEffect(BLESSING_AURA, carrier)!;
+
+		carrier.removeEffect(aura, false);
+
+		assert.strictEqual(isBlessed(carrier), false);
+		assert.strictEqual(isBlessed(ally), false);
+	});
+
+	test("projections are not saved", () => {
+		carrier.addEffect(BLESSING_AURA, carrier);
+		const effectIds = (carrier.serialize().effects ?? []).map(
+			(effect) => effect.effectId
+		);
+		assert.deepStrictEqual(effectIds, [BLESSING_AURA.id]);
+	});
+
+	test("a zone projects onto occupants until it is removed", () => {
+		const room = roomAt(0, 0);
+		const zone = room.addZone(HALLOWED_GROUND, carrier);
+		assert.strictEqual(isBlessed(carrier), true);
+
+		const arrival = createMob("arrival", roomAt(1, 0));
+		arrival.move(room);
+		assert.strictEqual(isBlessed(arrival), true);
+
+		room.removeZone(zone, false);
+		assert.strictEqual(isBlessed(carrier), false);
+		assert.strictEqual(isBlessed(arrival), false);
+		assert.strictEqual(room.getZones().size, 0);
+	});
+
+	test("destroying a carrier withdraws its projections", () => {
+		const ally = createMob("ally", roomAt(0, 0));
+		carrier.addEffect(BLESSING_AURA, carrier);
+
+		carrier.destroy();
+
+		assert.strictEqual(isBlessed(ally), false);
+	});
+
+	test("killing a carrier withdraws its projections", () => {
+		const ally = createMob("ally", roomAt(0, 0));
+		carrier.addEffect(BLESSING_AURA, carrier);
+
+		handleDeath(carrier);
+
+		assert.strictEqual(isBlessed(ally), false);
+	});
+
+	test("destroying a caster removes its zones", () => {
+		const room = roomAt(0, 0);
+		const ally = createMob("ally", room);
+		room.addZone(HALLOWED_GROUND, carrier);
+
+		carrier.destroy();
+
+		assert.strictEqual(isBlessed(ally), false);
+		assert.strictEqual(room.getZones().size, 0);
+	});
+});
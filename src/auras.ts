@@ -0,0 +1,225 @@
+/**
+ * Aura and zone processing.
+ *
+ * Auras are effects that a carrier projects onto its allies or enemies in the
+ * same room. Zones are areas anchored to a room (burning ground, a sanctuary)
+ * that project an effect onto the room's occupants until they fade. Either
+ * way, the projected effect is applied when a mob comes into range and
+ * removed when it leaves, the aura ends or the zone fades.
+ *
+ * Projected effects are never saved; they are projected again the next time
+ * the carrier enters a room.
+ *
+ * @module auras
+ */
+
+import { BEHAVIOR, Mob, Room } from "./core/dungeon.js";
+import {
+	AURA_TARGET,
+	EffectAura,
+	EffectInstance,
+	ZoneInstance,
+} from "./core/effect.js";
+import { areGroupMates } from "./group.js";
+
+/**
+ * Something in a room projecting an effect: an aura carried by a mob, or a zone.
+ */
+interface AuraSource {
+	/** The aura effect instance or zone */
+	source: EffectInstance | ZoneInstance;
+	/** The carrier of the aura, or the creator of the zone */
+	caster: Mob;
+	aura: EffectAura;
+	/** When the source ends (milliseconds since epoch) */
+	expiresAt: number;
+}
+
+/**
+ * Expiration timers for active zones.
+ */
+const zoneTimers = new Map<ZoneInstance, NodeJS.Timeout>();
+
+/**
+ * Checks whether an aura carried (or zone created) by one mob affects another.
+ * Allies are the carrier itself, its group mates and, for NPC carriers, other
+ * NPCs. Enemies are everyone else the carrier could fight, which leaves out
+ * other players when the carrier is a player, and shopkeepers.
+ *
+ * @param carrier The mob carrying the aura or that created the zone
+ * @param mob The mob that might be affected
+ * @param targets Who the aura affects
+ * @returns true if the mob is affected
+ */
+export function isAuraTarget(
+	carrier: Mob,
+	mob: Mob,
+	targets: AURA_TARGET
+): boolean {
+	if (mob.health <= 0) return false;
+	const ally =
+		mob === carrier ||
+		areGroupMates(carrier, mob) ||
+		(!carrier.character && !mob.character);
+	if (targets === AURA_TARGET.ALLIES) return ally;
+	if (ally || (carrier.character && mob.character)) return false;
+	return !mob.hasBehavior(BEHAVIOR.SHOPKEEPER);
+}
+
+/**
+ * Gets the mobs in a room that an aura carried by a mob would affect.
+ * Also useful for abilities that affect a whole side of the room at once.
+ *
+ * @param carrier The mob carrying the aura
+ * @param room The room to search
+ * @param targets Who the aura affects
+ * @returns The affected mobs
+ */
+export function getAuraTargets(
+	carrier: Mob,
+	room: Room,
+	targets: AURA_TARGET
+): Mob[] {
+	return room.contents.filter(
+		(obj): obj is Mob =>
+			obj instanceof Mob && isAuraTarget(carrier, obj, targets)
+	);
+}
+
+/**
+ * Gets every aura and zone projecting an effect in a room.
+ *
+ * @param room The room
+ * @param leaving A mob that is leaving the room, whose auras no longer count
+ */
+function getAuraSources(room: Room, leaving?: Mob): AuraSource[] {
+	const sources: AuraSource[] = [];
+	for (const obj of room.contents) {
+		if (!(obj instanceof Mob) || obj === leaving || obj.health <= 0) continue;
+		for (const effect of obj.getEffects()) {
+			if (!effect.template.aura || effect.projectedFrom) continue;
+			sources.push({
+				source: effect,
+				caster: obj,
+				aura: effect.template.aura,
+				expiresAt: effect.expiresAt,
+			});
+		}
+	}
+	for (const zone of room.getZones()) {
+		sources.push({
+			source: zone,
+			caster: zone.caster,
+			aura: zone.template.aura,
+			expiresAt: zone.expiresAt,
+		});
+	}
+	return sources;
+}
+
+/**
+ * Brings the effects projected onto a mob in line with the sources that reach
+ * it. Projections whose source is gone or no longer reaches the mob are
+ * removed, and each missing effect is projected from the first source that
+ * provides it. A mob that already has an effect of its own is left alone.
+ *
+ * @param mob The mob to update
+ * @param sources The sources in the mob's room
+ */
+function updateProjectedEffects(mob: Mob, sources: AuraSource[]): void {
+	const wanted = new Map<string, AuraSource[]>();
+	for (const source of sources) {
+		if (!isAuraTarget(source.caster, mob, source.aura.targets)) continue;
+		const id = source.aura.effect.id;
+		wanted.set(id, [...(wanted.get(id) ?? []), source]);
+	}
+
+	// Remove projections that are no longer reached (or duplicate another)
+	const projected = new Set<string>();
+	for (const effect of [...mob.getEffects()]) {
+		if (!effect.projectedFrom) continue;
+		const id = effect.template.id;
+		const reached = wanted
+			.get(id)
+			?.some((source) => source.source === effect.projectedFrom);
+		if (reached && !projected.has(id)) {
+			projected.add(id);
+			continue;
+		}
+		mob.removeEffect(effect, true);
+	}
+
+	// Project anything that's missing
+	const now = Date.now();
+	for (const [id, [source]] of wanted) {
+		if (projected.has(id) || mob.getEffectsById(id).length > 0) continue;
+		const instance = mob.addEffect(
+			source.aura.effect,
+			source.caster,
+			source.expiresAt === Number.MAX_SAFE_INTEGER
+				? undefined
+				: { duration: (source.expiresAt - now) / 1000 }
+		);
+		if (instance) {
+			instance.projectedFrom = source.source;
+		}
+	}
+}
+
+/**
+ * Updates the effects projected onto every mob in a room. Called whenever a
+ * mob enters or leaves, an aura starts or ends, a zone is created or fades,
+ * or group membership changes.
+ *
+ * @param room The room to update
+ * @param leaving A mob that is leaving the room: its projections are removed
+ *   and its own auras stop affecting the others
+ */
+export function updateRoomAuras(room: Room, leaving?: Mob): void {
+	const sources = getAuraSources(room, leaving);
+	for (const obj of room.contents) {
+		if (!(obj instanceof Mob)) continue;
+		updateProjectedEffects(obj, obj === leaving ? [] : sources);
+	}
+}
+
+/**
+ * Sets up the timer that removes a zone when it fades.
+ *
+ * @param zone The newly created zone
+ */
+export function setupZoneTimer(zone: ZoneInstance): void {
+	clearZoneTimer(zone);
+	zoneTimers.set(
+		zone,
+		setTimeout(() => {
+			zoneTimers.delete(zone);
+			zone.room.removeZone(zone);
+		}, Math.max(0, zone.expiresAt - Date.now()))
+	);
+}
+
+/**
+ * Removes the zones created by a mob, so that they don't outlive it and keep
+ * projecting effects on behalf of a destroyed caster.
+ *
+ * @param caster The mob being destroyed
+ */
+export function removeZonesOf(caster: Mob): void {
+	for (const zone of [...zoneTimers.keys()]) {
+		if (zone.caster === caster) zone.room.removeZone(zone);
+	}
+}
+
+/**
+ * Clears the timer of a zone that is being removed.
+ *
+ * @param zone The zone
+ */
+export function clearZoneTimer(zone: ZoneInstance): void {
+	const timer = zoneTimers.get(zone);
+	if (timer) {
+		clearTimeout(timer);
+		zoneTimers.delete(zone);
+	}
+}
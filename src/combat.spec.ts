@@ -1,6 +1,14 @@
 import { test, suite, beforeEach, skip, afterEach } from "node:test";
 import assert from "node:assert";
-import { Dungeon, Mob, Room, Weapon, EQUIPMENT_SLOT } from "./core/dungeon.js";
+import {
+	Dungeon,
+	Mob,
+	Room,
+	Weapon,
+	Armor,
+	EQUIPMENT_SLOT,
+	PROC_TRIGGER,
+} from "./core/dungeon.js";
 import { Character } from "./core/character.js";
 import {
 	initiateCombat,
@@ -11,7 +19,20 @@ import {
 	processCombatRound,
 	oneHit,
 	applyDamageVariation,
+	triggerProcs,
+	healMob,
 } from "./combat.js";
+import {
+	acceptGroupInvite,
+	areGroupMates,
+	getFollowTarget,
+	getGroup,
+	getPendingInvite,
+	inviteToGroup,
+	leaveGroup,
+	removeFromGroups,
+	splitAmount,
+} from "./group.js";
 import { DAMAGE_RELATIONSHIP, COMMON_HIT_TYPES } from "./core/damage-types.js";
 import { freezeArchetype } from "./core/archetype.js";
 import {
@@ -447,6 +468,206 @@ suite("combat.ts", () => {
 		});
 	});
 
+	suite("Equipment procs", () => {
+		test("should deal extra damage when a weapon hit proc fires", () => {
+			const sword = new Weapon({
+				slot: EQUIPMENT_SLOT.MAIN_HAND,
+				attackPower: 20,
+				procs: [{ trigger: PROC_TRIGGER.HIT, chance: 100, damage: 25 }],
+			});
+			attacker.equip(sword);
+
+			const initialHealth = defender.health;
+			const damage = oneHit({
+				attacker: attacker,
+				target: defender,
+				weapon: sword,
+				guaranteedHit: true,
+			});
+
+			assert.strictEqual(initialHealth - defender.health, damage + 25);
+		});
+
+		test("should not fire procs that fail their chance", () => {
+			const sword = new Weapon({
+				slot: EQUIPMENT_SLOT.MAIN_HAND,
+				attackPower: 20,
+				procs: [{ trigger: PROC_TRIGGER.HIT, chance: 0, damage: 25 }],
+			});
+			attacker.equip(sword);
+
+			const initialHealth = defender.health;
+			const damage = oneHit({
+				attacker: attacker,
+				target: defender,
+				weapon: sword,
+				guaranteedHit: true,
+			});
+
+			assert.strictEqual(initialHealth - defender.health, damage);
+		});
+
+		test("should only fire weapon hit procs for the weapon used", () => {
+			const sword = new Weapon({
+				slot: EQUIPMENT_SLOT.MAIN_HAND,
+				attackPower: 20,
+				procs: [{ trigger: PROC_TRIGGER.HIT, chance: 100, damage: 25 }],
+			});
+			attacker.equip(sword);
+
+			const initialHealth = defender.health;
+			triggerProcs(attacker, defender, PROC_TRIGGER.HIT);
+
+			assert.strictEqual(defender.health, initialHealth);
+		});
+
+		test("should damage the attacker when an armor struck proc fires", () => {
+			const thorns = new Armor({
+				slot: EQUIPMENT_SLOT.CHEST,
+				defense: 0,
+				procs: [{ trigger: PROC_TRIGGER.STRUCK, chance: 100, damage: 15 }],
+			});
+			defender.equip(thorns);
+
+			const initialHealth = attacker.health;
+			oneHit({
+				attacker: attacker,
+				target: defender,
+				guaranteedHit: true,
+			});
+
+			assert.strictEqual(initialHealth - attacker.health, 15);
+		});
+	});
+
+	suite("Groups", () => {
+		let members: Mob[];
+
+		function createMember(display: string): Mob {
+			const mob = new Mob({ display, race: testRace, job: testJob });
+			mob.location = room;
+			members.push(mob);
+			return mob;
+		}
+
+		beforeEach(() => {
+			members = [];
+		});
+
+		afterEach(() => {
+			for (const mob of members) removeFromGroups(mob);
+		});
+
+		test("should not form a group until an invite is accepted", () => {
+			const leader = createMember("Leader");
+			const invited = createMember("Invited");
+
+			inviteToGroup(leader, invited);
+			assert.strictEqual(getGroup(leader), undefined);
+			assert.strictEqual(getPendingInvite(invited), leader);
+
+			const group = acceptGroupInvite(invited);
+			assert.ok(group);
+			assert.strictEqual(group.leader, leader);
+			assert.deepStrictEqual(Array.from(group.members), [leader, invited]);
+			assert.strictEqual(getGroup(leader), group);
+			assert.ok(areGroupMates(leader, invited));
+			assert.strictEqual(getFollowTarget(invited), leader);
+			assert.strictEqual(getPendingInvite(invited), undefined);
+		});
+
+		test("should pass leadership to the next member when the leader leaves", () => {
+			const leader = createMember("Leader");
+			const second = createMember("Second");
+			const third = createMember("Third");
+			inviteToGroup(leader, second);
+			acceptGroupInvite(second);
+			inviteToGroup(leader, third);
+			const group = acceptGroupInvite(third)!;
+
+			assert.ok(leaveGroup(leader));
+
+			assert.strictEqual(group.leader, second);
+			assert.strictEqual(getGroup(leader), undefined);
+			assert.strictEqual(getFollowTarget(second), undefined);
+			assert.strictEqual(getFollowTarget(third), second);
+			assert.ok(areGroupMates(second, third));
+		});
+
+		test("should disband when only one member is left", () => {
+			const leader = createMember("Leader");
+			const invited = createMember("Invited");
+			inviteToGroup(leader, invited);
+			const group = acceptGroupInvite(invited)!;
+
+			leaveGroup(invited);
+
+			assert.strictEqual(group.members.size, 0);
+			assert.strictEqual(getGroup(leader), undefined);
+			assert.ok(!areGroupMates(leader, invited));
+		});
+
+		test("should discard invites from members who lost the lead", () => {
+			const leader = createMember("Leader");
+			const second = createMember("Second");
+			const third = createMember("Third");
+			const invited = createMember("Invited");
+			inviteToGroup(leader, second);
+			acceptGroupInvite(second);
+			inviteToGroup(leader, third);
+			acceptGroupInvite(third);
+
+			inviteToGroup(third, invited);
+			assert.strictEqual(getPendingInvite(invited), undefined);
+			assert.strictEqual(acceptGroupInvite(invited), undefined);
+		});
+	});
+
+	suite("splitAmount", () => {
+		test("should give the remainder to the first share", () => {
+			assert.deepStrictEqual(splitAmount(10, 3), [4, 3, 3]);
+		});
+
+		test("should split evenly when possible", () => {
+			assert.deepStrictEqual(splitAmount(12, 4), [3, 3, 3, 3]);
+		});
+
+		test("should return no shares for no recipients", () => {
+			assert.deepStrictEqual(splitAmount(10, 0), []);
+		});
+	});
+
+	suite("Healing threat", () => {
+		test("should generate threat from direct heals", () => {
+			const healer = new Mob({
+				display: "Healer",
+				race: testRace,
+				job: testJob,
+			});
+			healer.location = room;
+			defender.addThreat(attacker, 10);
+			attacker.health -= 100;
+
+			const healed = healMob(healer, attacker, 50);
+
+			assert.strictEqual(healed, 50);
+			assert.strictEqual(defender.getThreat(healer), 25);
+		});
+
+		test("should not generate threat when nothing is healed", () => {
+			const healer = new Mob({
+				display: "Healer",
+				race: testRace,
+				job: testJob,
+			});
+			healer.location = room;
+			defender.addThreat(attacker, 10);
+
+			assert.strictEqual(healMob(healer, attacker, 50), 0);
+			assert.strictEqual(defender.getThreat(healer), 0);
+		});
+	});
+
 	suite("applyDamageVariation", () => {
 		test("should return 0 for zero or negative damage", () => {
 			assert.strictEqual(applyDamageVariation(0), 0);
@@ -22,6 +22,8 @@ import {
 	Equipment,
 	Currency,
 	DungeonObject,
+	EquipmentProc,
+	PROC_TRIGGER,
 } from "./core/dungeon.js";
 import { MESSAGE_GROUP } from "./core/character.js";
 import {
@@ -41,12 +43,23 @@ import { showRoom } from "./utils/display.js";
 import { createItem, createProp } from "./package/dungeon.js";
 import { createGold } from "./utils/currency.js";
 import { getAllFromContainer } from "./utils/get.js";
+import { clearActions, interruptCast } from "./registry/command.js";
+import { getEffectTemplateById } from "./registry/effect.js";
+import { onQuestMobKilled } from "./quest.js";
+import {
+	areGroupMates,
+	getGroupMembersInRoom,
+	splitAmount,
+} from "./group.js";
 import { sacrificeContainer } from "./utils/sacrifice.js";
+import { updateRoomAuras } from "./auras.js";
 import {
 	DEFAULT_HIT_TYPE,
 	getDamageMultiplier,
 	HitType,
 } from "./core/damage-types.js";
+import { CROWD_CONTROL } from "./core/crowd-control.js";
+import { DIRECTIONS, dir2text } from "./direction.js";
 import { ability as PURE_POWER } from "./abilities/pure-power.js";
 import { ability as SECOND_ATTACK } from "./abilities/second-attack.js";
 import { ability as THIRD_ATTACK } from "./abilities/third-attack.js";
@@ -54,6 +67,7 @@ import { string } from "mud-ext";
 import {
 	EFFECT_DAMAGE_CATEGORY,
 	EffectInstance,
+	getEffectStacks,
 	isDamageOverTimeEffect,
 } from "./core/effect.js";
 
@@ -263,7 +277,8 @@ export function oneHit(options: OneHitOptions): number {
 	damage = Math.max(0, Math.floor(damage - defenseReduction));
 
 	// Check for critical hit
-	if (Math.random() * 100 < attacker.critRate) {
+	const critical = Math.random() * 100 < attacker.critRate;
+	if (critical) {
 		damage *= 2;
 	}
 
@@ -376,6 +391,14 @@ export function oneHit(options: OneHitOptions): number {
 	// Pass damage type for shield filtering
 	target.damage(attacker, finalDamage, hitType.damageType);
 
+	// Taking damage interrupts any cast in progress
+	if (finalDamage > 0) interruptCast(target);
+
+	// Set off equipment procs
+	triggerProcs(attacker, target, PROC_TRIGGER.HIT, weapon);
+	if (critical) triggerProcs(attacker, target, PROC_TRIGGER.CRIT, weapon);
+	triggerProcs(target, attacker, PROC_TRIGGER.STRUCK);
+
 	// Emit got-hit event on target (NPC AI can respond to taking damage)
 	const targetEmitter = target.aiEvents;
 	if (targetEmitter && finalDamage > 0) {
@@ -493,7 +516,8 @@ export function oneMagicHit(options: OneMagicHitOptions): number {
 	damage = Math.max(0, Math.floor(damage - resilienceReduction));
 
 	// Check for critical hit (using critRate, same as physical attacks)
-	if (Math.random() * 100 < attacker.critRate) {
+	const critical = Math.random() * 100 < attacker.critRate;
+	if (critical) {
 		damage *= 2;
 	}
 
@@ -575,6 +599,14 @@ export function oneMagicHit(options: OneMagicHitOptions): number {
 	// Pass damage type for shield filtering
 	target.damage(attacker, finalDamage, hitType.damageType);
 
+	// Taking damage interrupts any cast in progress
+	if (finalDamage > 0) interruptCast(target);
+
+	// Set off equipment procs (spells aren't struck with a weapon)
+	triggerProcs(attacker, target, PROC_TRIGGER.HIT);
+	if (critical) triggerProcs(attacker, target, PROC_TRIGGER.CRIT);
+	triggerProcs(target, attacker, PROC_TRIGGER.STRUCK);
+
 	logger.debug("Combat hit (magical)", {
 		attacker: attacker.display,
 		attackerId: attacker.oid,
@@ -588,6 +620,104 @@ export function oneMagicHit(options: OneMagicHitOptions): number {
 	return finalDamage;
 }
 
+/**
+ * Rolls the procs on a mob's equipment for a combat event and fires each one
+ * that succeeds. Weapon hit and crit procs only fire for the weapon the blow
+ * was struck with. A dead wearer sets nothing off.
+ *
+ * @param wearer The mob whose equipment is checked
+ * @param other The other mob involved (the one hit, the attacker, or the one killed)
+ * @param trigger The combat event
+ * @param weapon The weapon the blow was struck with, if any
+ *
+ * @example
+ * ```typescript
+ * // After attacker hits defender with a sword
+ * triggerProcs(attacker, defender, PROC_TRIGGER.HIT, sword);
+ * triggerProcs(defender, attacker, PROC_TRIGGER.STRUCK);
+ * ```
+ */
+export function triggerProcs(
+	wearer: Mob,
+	other: Mob,
+	trigger: PROC_TRIGGER,
+	weapon?: Weapon
+): void {
+	if (wearer.health <= 0) return;
+	const strike = trigger === PROC_TRIGGER.HIT || trigger === PROC_TRIGGER.CRIT;
+	for (const item of wearer.getAllEquipped()) {
+		if (strike && item instanceof Weapon && item !== weapon) continue;
+		for (const proc of item.procs) {
+			if (proc.trigger !== trigger) continue;
+			if (Math.random() * 100 >= proc.chance) continue;
+			fireProc(wearer, other, item, proc);
+		}
+	}
+}
+
+/**
+ * Fires an equipment proc: shows its message, applies its effect and deals
+ * its extra damage.
+ */
+function fireProc(
+	wearer: Mob,
+	other: Mob,
+	item: Equipment,
+	proc: EquipmentProc
+): void {
+	const room = wearer.location instanceof Room ? wearer.location : undefined;
+	if (proc.message && room) {
+		act(
+			proc.message,
+			{ user: wearer, target: other, room },
+			{ messageGroup: MESSAGE_GROUP.COMBAT }
+		);
+	}
+
+	if (proc.effect) {
+		// Kill procs have nobody else left to affect
+		const recipient =
+			proc.self || proc.trigger === PROC_TRIGGER.KILL ? wearer : other;
+		const template = getEffectTemplateById(proc.effect);
+		if (!template) {
+			logger.warn(
+				`Equipment "${
+					item.templateId ?? item.display
+				}" references missing effect "${proc.effect}"`
+			);
+		} else if (recipient.health > 0) {
+			recipient.addEffect(
+				template,
+				wearer,
+				proc.duration !== undefined ? { duration: proc.duration } : undefined
+			);
+		}
+	}
+
+	if (proc.damage && other.health > 0 && other.location === wearer.location) {
+		const damageMultiplier =
+			proc.damageType !== undefined
+				? getDamageMultiplier(proc.damageType, other.getDamageRelationships())
+				: 1;
+		const finalDamage = Math.floor(proc.damage * damageMultiplier);
+		if (room) {
+			const damageStr = color(String(finalDamage), COLOR.CRIMSON);
+			damageMessage(
+				{
+					user: `Your ${item.display} strikes {R{target}{x for ${damageStr} damage!`,
+					target: `{User}'s ${item.display} strikes {Ryou{x for ${damageStr} damage!`,
+					room: `{User}'s ${item.display} strikes {R{target}{x for ${damageStr} damage!`,
+				},
+				{ user: wearer, target: other, room },
+				other,
+				finalDamage,
+				{ messageGroup: MESSAGE_GROUP.COMBAT }
+			);
+		}
+		other.damage(wearer, finalDamage, proc.damageType);
+	}
+}
+
 /**
  * Options for processing effect damage.
  */
@@ -596,7 +726,7 @@ export interface ProcessEffectDamageOptions {
 	target: Mob;
 	/** The effect instance dealing the damage */
 	effect: EffectInstance;
-	/** The base damage amount before mitigation */
+	/** The base damage amount of one stack before mitigation */
 	damage: number;
 	/** Optional damage variation options */
 	damageVariation?: DamageVariationOptions;
@@ -672,6 +802,7 @@ export function applyDamageVariation(
  * This function handles damage calculation using the appropriate defense attribute
  * (defense for physical, resilience for magical) based on the effect's damage category.
  * Effect damage cannot miss, and messages are handled by the effect's onTick template.
+ * The base damage is multiplied by the effect's stack count.
  *
  * @param options Options for processing effect damage
  * @returns The final damage amount that was dealt (after mitigation)
@@ -703,7 +834,7 @@ export function processEffectDamage(
 	}
 
 	const template = effect.template;
-	let damage = baseDamage;
+	let damage = baseDamage * getEffectStacks(effect);
 
 	// Apply mitigation based on damage category
 	if (template.damageCategory === EFFECT_DAMAGE_CATEGORY.PHYSICAL) {
@@ -1035,6 +1166,9 @@ export function handleDeath(deadMob: Mob, killer?: Mob): void {
 		deadMobEmitter.emit("death", killer);
 	}
 
+	// The dead don't finish casting
+	clearActions(deadMob);
+
 	// Remove from combat
 	deadMob.combatTarget = undefined;
 
@@ -1052,6 +1186,9 @@ export function handleDeath(deadMob: Mob, killer?: Mob): void {
 		}
 	}
 
+	// The dead neither project auras nor receive them
+	updateRoomAuras(room, deadMob);
+
 	// Send death messages
 	if (killer) {
 		deadMob.sendMessage(
@@ -1089,14 +1226,27 @@ export function handleDeath(deadMob: Mob, killer?: Mob): void {
 				stickyColor(slainMessage, COLOR.CRIMSON),
 				MESSAGE_GROUP.COMBAT
 			);
-			// Only players gain experience
-			const experienceGained = killer.awardKillExperience(deadMob.level);
-			if (experienceGained > 0) {
-				// Send experience message to the killer
-				killer.character.sendMessage(
-					`You gain ${color(String(experienceGained), COLOR.CYAN)} experience!`,
-					MESSAGE_GROUP.INFO
+			// Only players gain experience, split across group members present
+			const sharers = getGroupMembersInRoom(killer, room).filter(
+				(member) => member.character
+			);
+			if (!sharers.includes(killer)) sharers.unshift(killer);
+			for (const member of sharers) {
+				const experienceGained = member.awardKillExperience(
+					deadMob.level,
+					sharers.length
 				);
+				if (experienceGained > 0) {
+					// Send experience message to the member
+					member.sendMessage(
+						`You gain ${color(
+							String(experienceGained),
+							COLOR.CYAN
+						)} experience!`,
+						MESSAGE_GROUP.INFO
+					);
+				}
+				onQuestMobKilled(member, deadMob);
 			}
 		}
 	}
@@ -1144,7 +1294,9 @@ export function handleDeath(deadMob: Mob, killer?: Mob): void {
 		// Auto-loot first (if enabled)
 		if (settings.autoloot) {
 			// Auto-loot all items from the corpse using the centralized get logic
+			const valueBefore = killer.value || 0;
 			getAllFromContainer(corpse, killer, room);
+			splitLootedGold(killer, room, (killer.value || 0) - valueBefore);
 		}
 
 		// Then auto-sacrifice (if enabled) - this will destroy the corpse even if it's now empty after looting
@@ -1177,6 +1329,111 @@ export function handleDeath(deadMob: Mob, killer?: Mob): void {
 	}
 }
 
+/**
+ * Splits gold a character just looted with their group members in the room.
+ * The looter keeps any remainder that doesn't divide evenly.
+ *
+ * @param looter The character that looted the gold
+ * @param room The room the loot happened in
+ * @param amount The amount of gold looted
+ */
+function splitLootedGold(looter: Mob, room: Room, amount: number): void {
+	if (amount <= 0) return;
+	const others = getGroupMembersInRoom(looter, room).filter(
+		(member) => member !== looter && member.character
+	);
+	if (others.length === 0) return;
+
+	const [looterShare, ...shares] = splitAmount(amount, others.length + 1);
+	looter.value = (looter.value || 0) - (amount - looterShare);
+	others.forEach((member, index) => {
+		member.value = (member.value || 0) + shares[index];
+		member.sendMessage(
+			`${looter.display} splits ${amount} gold. Your share is ${color(
+				String(shares[index]),
+				COLOR.YELLOW
+			)} gold.`,
+			MESSAGE_GROUP.INFO
+		);
+	});
+	looter.sendMessage(
+		`You split ${amount} gold. Your share is ${color(
+			String(looterShare),
+			COLOR.YELLOW
+		)} gold.`,
+		MESSAGE_GROUP.INFO
+	);
+}
+
+/**
+ * Has idle group members in the room join a fight alongside an ally.
+ *
+ * @param ally The group member who just entered combat
+ * @param enemy The mob the ally is fighting
+ */
+function assistGroupMates(ally: Mob, enemy: Mob): void {
+	const room = ally.location instanceof Room ? ally.location : undefined;
+	if (!room || enemy.location !== room) return;
+	for (const member of getGroupMembersInRoom(ally, room)) {
+		if (member === ally || !member.character || member.isInCombat()) continue;
+		member.sendMessage(
+			`You assist ${ally.display} against ${enemy.display}!`,
+			MESSAGE_GROUP.COMBAT
+		);
+		initiateCombat(member, enemy);
+	}
+}
+
+/**
+ * Generates threat from healing.
+ * Every NPC in the healed mob's room that is fighting it (has it on its threat
+ * table) gains threat against the healer equal to half the amount healed.
+ *
+ * @param healer The mob that provided the healing
+ * @param target The mob that was healed
+ * @param amount The amount of health restored
+ */
+export function addHealingThreat(
+	healer: Mob,
+	target: Mob,
+	amount: number
+): void {
+	if (amount <= 0) return;
+	const room = target.location;
+	if (!(room instanceof Room)) return;
+	const threat = Math.max(1, Math.ceil(amount / 2));
+	for (const obj of room.contents) {
+		if (!(obj instanceof Mob) || obj.character) continue;
+		if (obj === healer || areGroupMates(obj, target)) continue;
+		if (obj.getThreat(target) <= 0 && obj.combatTarget !== target) continue;
+		obj.addThreat(healer, threat);
+	}
+}
+
+/**
+ * Heals a mob and generates healing threat for the healer.
+ * Every source of healing (abilities, heal-over-time ticks, consumables)
+ * should go through this so enemies react to direct heals as well as ticks.
+ *
+ * @param healer The mob providing the healing
+ * @param target The mob being healed
+ * @param amount The amount of health to restore
+ * @returns The amount of health actually restored (capped at max health)
+ *
+ * @example
+ * ```typescript
+ * const healed = healMob(caster, ally, 40);
+ * ```
+ */
+export function healMob(healer: Mob, target: Mob, amount: number): number {
+	if (amount <= 0) return 0;
+	const before = target.health;
+	target.health = Math.min(target.maxHealth, target.health + amount);
+	const healed = target.health - before;
+	addHealingThreat(healer, target, healed);
+	return healed;
+}
+
 /**
  * Processes a single combat round for a mob.
  * The mob attacks its target if it has one and is still in the same room.
@@ -1215,6 +1472,13 @@ function processMobCombatRound(mob: Mob): void {
 		}
 	}
 
+	// Stunned mobs can't attack, and frightened ones try to run instead
+	if (mob.hasCrowdControl(CROWD_CONTROL.STUN)) return;
+	if (mob.hasCrowdControl(CROWD_CONTROL.FEAR)) {
+		fleeFromCombat(mob);
+		return;
+	}
+
 	// Emit combat-round event before combat actions
 	const mobEmitter = mob.aiEvents;
 	if (mobEmitter && mob.combatTarget) {
@@ -1260,6 +1524,40 @@ function processMobCombatRound(mob: Mob): void {
 	}
 }
 
+/**
+ * Makes a mob flee combat in a random direction it can move in.
+ * Used by the `flee` command and by fear effects.
+ *
+ * @param mob The mob fleeing
+ * @returns true if the mob fled, false if there was nowhere to go
+ */
+export function fleeFromCombat(mob: Mob): boolean {
+	const room = mob.location;
+	if (!(room instanceof Room)) return false;
+
+	const validDirections = DIRECTIONS.filter((dir) => mob.canStep(dir));
+	if (validDirections.length === 0) {
+		mob.sendMessage("There is no way to flee!", MESSAGE_GROUP.COMBAT);
+		return false;
+	}
+
+	const direction =
+		validDirections[Math.floor(Math.random() * validDirections.length)];
+	const directionText = dir2text(direction);
+	act(
+		{
+			user: `You flee to the ${directionText}!`,
+			room: `{User} flees to the ${directionText}!`,
+		},
+		{ user: mob, room },
+		{ messageGroup: MESSAGE_GROUP.COMBAT }
+	);
+
+	// Moving bypasses the combat check once the mob stops fighting
+	mob.combatTarget = undefined;
+	return mob.step(direction);
+}
+
 /**
  * Processes a full combat round for all mobs in the combat queue.
  * Mobs are sorted by agility (highest first) and each attacks their target.
@@ -1296,6 +1594,10 @@ export function initiateCombat(
 	if (attacker === defender) {
 		return;
 	}
+	// Group members are allies and never fight each other
+	if (areGroupMates(attacker, defender)) {
+		return;
+	}
 	if (attacker.combatTarget === defender) {
 		return;
 	}
@@ -1327,6 +1629,11 @@ export function initiateCombat(
 
 	attacker.combatTarget = defender;
 
+	// Group members in the room join in
+	if (attacker.character && !originalTarget) {
+		assistGroupMates(attacker, defender);
+	}
+
 	// Emit attacked event on defender (NPC AI can respond to being attacked)
 	const defenderEmitter = defender.aiEvents;
 	if (defenderEmitter) {
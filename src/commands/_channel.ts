@@ -0,0 +1,95 @@
+/**
+ * Shared channel talk logic.
+ *
+ * Talking on a channel is the same for every channel defined in
+ * `data/channels.yaml`: check that the speaker may use the channel and is
+ * subscribed to it, then hand the message to each character within the
+ * channel's scope. `ooc` and the talk commands generated for channels with a
+ * `command` field all go through {@link executeChannelTalk}.
+ *
+ * @module commands/_channel
+ */
+
+import { CommandContext } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CHANNEL_SCOPE, ChannelId } from "../core/channel.js";
+import { getChannel } from "../registry/channel.js";
+import { forEachCharacter } from "../game.js";
+
+/**
+ * Checks whether a listener is within a channel's reach of a speaker.
+ */
+function isInScope(
+	scope: CHANNEL_SCOPE,
+	speaker: Character,
+	listener: Character
+): boolean {
+	switch (scope) {
+		case CHANNEL_SCOPE.GLOBAL:
+			return true;
+		case CHANNEL_SCOPE.DUNGEON:
+			return (
+				speaker.mob?.dungeon !== undefined &&
+				speaker.mob.dungeon === listener.mob?.dungeon
+			);
+		case CHANNEL_SCOPE.ROOM:
+			return (
+				speaker.mob?.location !== undefined &&
+				speaker.mob.location === listener.mob?.location
+			);
+	}
+}
+
+/**
+ * Sends a message on a channel to everyone within its scope.
+ *
+ * @param context The command context containing the speaker
+ * @param channelId The channel to talk on
+ * @param message The message text
+ */
+export function executeChannelTalk(
+	context: CommandContext,
+	channelId: ChannelId,
+	message: string
+): void {
+	const { actor } = context;
+	const character = actor.character;
+
+	if (!character) {
+		actor.sendMessage(
+			"Only players can use channels.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const channel = getChannel(channelId);
+	if (!channel) {
+		actor.sendMessage(
+			"That channel doesn't exist.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	if (!character.canUseChannel(channel)) {
+		actor.sendMessage(
+			`You can't use the ${channel.tag} channel.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	if (!character.isInChannel(channel.id)) {
+		actor.sendMessage(
+			`You are not subscribed to the ${channel.tag} channel.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	forEachCharacter((recipient) => {
+		if (!isInScope(channel.scope, character, recipient)) return;
+		recipient.sendChat(character, message, channel.id);
+	});
+}
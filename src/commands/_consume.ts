@@ -0,0 +1,79 @@
+/**
+ * Shared consumable command logic.
+ *
+ * Provides the checks and error messages used by the quaff, eat, recite and
+ * use commands so they stay consistent with one another.
+ *
+ * @module commands/_consume
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Consumable, ConsumableType, Item } from "../core/dungeon.js";
+import { CONSUMABLE_VERBS, useConsumable } from "../consumable.js";
+
+/**
+ * Uses a consumable from the actor's inventory.
+ * When a consumable type is given, only consumables of that type are accepted.
+ *
+ * @param context The command context
+ * @param item The item to consume
+ * @param type Optional consumable type the command requires
+ */
+export function consume(
+	context: CommandContext,
+	item: Item,
+	type?: ConsumableType
+): void {
+	const { actor } = context;
+	const verb = type ? CONSUMABLE_VERBS[type][0] : "use";
+
+	if (item.location !== actor) {
+		actor.sendMessage(
+			`You don't have ${item.display}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	if (
+		!(item instanceof Consumable) ||
+		(type !== undefined && item.consumableType !== type)
+	) {
+		actor.sendMessage(
+			`You can't ${verb} ${item.display}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	useConsumable(actor, item);
+}
+
+/**
+ * Reports argument errors for the consumable commands.
+ *
+ * @param context The command context
+ * @param result The failed parse result
+ * @param verb The command verb, used in the prompt
+ */
+export function onConsumeError(
+	context: CommandContext,
+	result: ParseResult,
+	verb: string
+): void {
+	if (result.error?.includes("Could not parse argument")) {
+		context.actor.sendMessage(
+			"You don't have that.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (result.error?.includes("Missing required argument")) {
+		context.actor.sendMessage(
+			`What do you want to ${verb}?`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+}
@@ -0,0 +1,129 @@
+/**
+ * Shared door command logic.
+ *
+ * Provides lookup, key checks and messaging used by the open, close, lock,
+ * unlock and pick commands so they stay consistent with one another.
+ *
+ * @module commands/_door
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Door, DOOR_STATE, Item, Mob, Room } from "../core/dungeon.js";
+import { DIRECTION, dir2text } from "../direction.js";
+import { act } from "../act.js";
+
+/**
+ * Finds the door on the actor's room exit in the given direction.
+ * Sends an explanatory message to the actor when there is no door.
+ *
+ * @param context The command context
+ * @param direction The exit direction
+ * @returns The room and door, or undefined if there is no door there
+ */
+export function findDoor(
+	context: CommandContext,
+	direction: DIRECTION | undefined
+): { room: Room; door: Door } | undefined {
+	const { actor, room } = context;
+
+	if (!room) {
+		actor.sendMessage("You are not in a room.", MESSAGE_GROUP.COMMAND_RESPONSE);
+		return undefined;
+	}
+
+	if (direction === undefined) {
+		actor.sendMessage("Which direction?", MESSAGE_GROUP.COMMAND_RESPONSE);
+		return undefined;
+	}
+
+	const door = room.getDoor(direction);
+	if (!door) {
+		actor.sendMessage(
+			`There is no door to the ${dir2text(direction)}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return undefined;
+	}
+
+	return { room, door };
+}
+
+/**
+ * Finds the key for a door in the actor's inventory.
+ *
+ * @param actor The mob looking for a key
+ * @param door The door to find a key for
+ * @returns The key item, or undefined if the actor isn't carrying one
+ */
+export function findKey(actor: Mob, door: Door): Item | undefined {
+	if (!door.keyTemplateId) return undefined;
+	return actor.contents.find(
+		(obj) => obj instanceof Item && obj.templateId === door.keyTemplateId
+	) as Item | undefined;
+}
+
+/**
+ * Gets the chance of picking a door's lock on one attempt.
+ * A lock with a difficulty of 30 is picked 70% of the time.
+ *
+ * @param door The door to pick
+ * @returns Chance as a percentage (0-100), or 0 if the lock can't be picked
+ */
+export function getPickChance(door: Door): number {
+	if (door.pickDifficulty === undefined) return 0;
+	return Math.min(100, Math.max(0, 100 - door.pickDifficulty));
+}
+
+/**
+ * Changes a door's state and tells everyone on both sides of it.
+ *
+ * @param context The command context
+ * @param room The room the actor is in
+ * @param direction The exit the door is on
+ * @param state The new door state
+ * @param messages Verb phrases for the actor, their room and the far side of the door
+ */
+export function changeDoorState(
+	context: CommandContext,
+	room: Room,
+	direction: DIRECTION,
+	state: DOOR_STATE,
+	messages: { user: string; room: string; other: string }
+): void {
+	const { actor } = context;
+	const door = room.getDoor(direction);
+	if (!door) return;
+
+	door.state = state;
+
+	const directionText = dir2text(direction);
+	act(
+		{
+			user: `You ${messages.user} the ${door.name} to the ${directionText}.`,
+			room: `{User} ${messages.room} the ${door.name} to the ${directionText}.`,
+		},
+		{
+			user: actor,
+			room,
+		},
+		{ messageGroup: MESSAGE_GROUP.ACTION }
+	);
+
+	// Let the other side know (the Door is shared, so its state already matches)
+	const reciprocal = room.getReciprocalExit(direction);
+	if (reciprocal && reciprocal.room !== room) {
+		act(
+			{
+				room: `The ${door.name} to the ${dir2text(
+					reciprocal.direction
+				)} ${messages.other}.`,
+			},
+			{
+				user: actor,
+				room: reciprocal.room,
+			},
+			{ messageGroup: MESSAGE_GROUP.ACTION }
+		);
+	}
+}
@@ -0,0 +1,335 @@
+/**
+ * Shared interactive message body editor.
+ *
+ * Collects a multi-line message body from a character one line at a time,
+ * with `!`-commands for showing, deleting, inserting and replacing lines.
+ * Used by `board write` and `mail send`; callers add their own `!`-commands
+ * (such as `!subject` or `!attach`) and decide what happens on `!done`.
+ *
+ * @example
+ * ```ts
+ * const editor = startBodyEditor(character, {
+ *   onDone: (body) => showPreview(body),
+ *   onCancel: () => character.sendMessage("Message cancelled.", MESSAGE_GROUP.COMMAND_RESPONSE),
+ * });
+ * // ...later, to go back to editing after the preview
+ * editor.resume();
+ * ```
+ *
+ * @module commands/_editor
+ */
+
+import { Character } from "../core/character.js";
+import { color, COLOR, textStyleToTag, TEXT_STYLE } from "../core/color.js";
+import { string } from "mud-ext";
+
+/**
+ * An extra `!`-command understood by the editor.
+ */
+export interface EditorCommand {
+	/** Command word without the `!` */
+	name: string;
+	/** Argument hint shown in `!help` (e.g. `<text>`) */
+	usage?: string;
+	/** What the command does, shown in `!help` */
+	description: string;
+	/**
+	 * Runs the command. The editor prompts for the next line afterwards.
+	 *
+	 * @param args Everything after the command word, trimmed
+	 */
+	execute(args: string): void;
+}
+
+/**
+ * Options for {@link startBodyEditor}.
+ */
+export interface BodyEditorOptions {
+	/** Extra `!`-commands, listed in `!help` after the line commands */
+	commands?: EditorCommand[];
+	/** Called with the body lines when the writer types `!done` */
+	onDone(body: string[]): void;
+	/** Called when the writer types `!forget` or `!quit` */
+	onCancel(): void;
+}
+
+/**
+ * A running body editor.
+ */
+export interface BodyEditor {
+	/** The body lines written so far */
+	readonly lines: string[];
+	/** Prompt for more lines again, e.g. after a declined preview */
+	resume(): void;
+}
+
+/**
+ * Wraps text to the editor's width and ends each line with a color reset.
+ */
+function wrapLine(text: string): string[] {
+	const resetTag = textStyleToTag(TEXT_STYLE.RESET_ALL);
+	return string.wrap(text, 72).map((line) => line + resetTag);
+}
+
+/**
+ * Starts prompting a character for a message body.
+ *
+ * @param character The writer
+ * @param options Extra commands and completion callbacks
+ * @returns The editor, for resuming after `!done`
+ */
+export function startBodyEditor(
+	character: Character,
+	options: BodyEditorOptions
+): BodyEditor {
+	const bodyLines: string[] = [];
+	const extraCommands = options.commands ?? [];
+
+	const sendLine = (line: string) => character.sendLine(line);
+	const ask = (question: string, callback: (input: string) => void) =>
+		character.ask(question, callback);
+
+	// Helper function to show body with line numbers
+	const showBody = () => {
+		if (bodyLines.length === 0) {
+			sendLine(color("Message body is empty.", COLOR.SILVER));
+			return;
+		}
+		sendLine("");
+		sendLine(color("=== Current Message Body ===", COLOR.YELLOW));
+		bodyLines.forEach((line, index) => {
+			sendLine(
+				`${color(`${(index + 1).toString().padStart(2)}:`, COLOR.CYAN)} ${line}`
+			);
+		});
+		sendLine("");
+	};
+
+	// Helper function to delete a line
+	const deleteLine = (lineNum: number) => {
+		const index = lineNum - 1; // Convert to 0-based index
+		if (index < 0 || index >= bodyLines.length) {
+			sendLine(
+				color(
+					`Invalid line number. Body has ${bodyLines.length} line(s).`,
+					COLOR.CRIMSON
+				)
+			);
+			return;
+		}
+		const deleted = bodyLines.splice(index, 1)[0];
+		sendLine(
+			color(
+				`Deleted line ${lineNum}: "${deleted.substring(0, 50)}..."`,
+				COLOR.LIME
+			)
+		);
+	};
+
+	// Helper function to insert a line
+	const insertLine = (lineNum: number, text: string) => {
+		const index = lineNum - 1; // Convert to 0-based index
+		if (index < 0 || index > bodyLines.length) {
+			sendLine(
+				color(
+					`Invalid line number. Must be between 1 and ${bodyLines.length + 1}.`,
+					COLOR.CRIMSON
+				)
+			);
+			return;
+		}
+		const wrapped = wrapLine(text);
+		// Insert at the specified position (pushes existing line down)
+		bodyLines.splice(index, 0, ...wrapped);
+		sendLine(
+			color(
+				`Inserted ${wrapped.length} line(s) at position ${lineNum}.`,
+				COLOR.LIME
+			)
+		);
+	};
+
+	// Helper function to replace a line
+	const replaceLine = (lineNum: number, text: string) => {
+		const index = lineNum - 1; // Convert to 0-based index
+		if (index < 0 || index >= bodyLines.length) {
+			sendLine(
+				color(
+					`Invalid line number. Body has ${bodyLines.length} line(s).`,
+					COLOR.CRIMSON
+				)
+			);
+			return;
+		}
+		const wrapped = wrapLine(text);
+		bodyLines.splice(index, 1, ...wrapped);
+		sendLine(
+			color(
+				`Replaced line ${lineNum} with ${wrapped.length} line(s).`,
+				COLOR.LIME
+			)
+		);
+	};
+
+	// Helper function to show help
+	const showHelp = () => {
+		sendLine("");
+		sendLine(color("=== Message Body Commands ===", COLOR.YELLOW));
+		sendLine(
+			`${color("!done", COLOR.CYAN)} - Finish editing and preview the message`
+		);
+		sendLine(
+			`${color(
+				"!show",
+				COLOR.CYAN
+			)} - Display the current message body with line numbers`
+		);
+		sendLine(
+			`${color(
+				"!delete <n>",
+				COLOR.CYAN
+			)} - Delete line number <n> from the body`
+		);
+		sendLine(
+			`${color(
+				"!insert <n> <text>",
+				COLOR.CYAN
+			)} - Insert a line at position <n>, pushing existing lines down`
+		);
+		sendLine(
+			`${color(
+				"!replace <n> <text>",
+				COLOR.CYAN
+			)} - Replace line <n> with new wrapped text`
+		);
+		for (const extra of extraCommands) {
+			const usage = extra.usage ? ` ${extra.usage}` : "";
+			sendLine(
+				`${color(`!${extra.name}${usage}`, COLOR.CYAN)} - ${extra.description}`
+			);
+		}
+		sendLine(
+			`${color("!forget", COLOR.CYAN)} or ${color(
+				"!quit",
+				COLOR.CYAN
+			)} - Cancel message creation`
+		);
+		sendLine(`${color("!help", COLOR.CYAN)} - Show this help message`);
+		sendLine("");
+	};
+
+	// Parses "<number> <text>" for !insert and !replace
+	const parseLineAndText = (
+		rest: string,
+		usage: string
+	): { lineNum: number; text: string } | undefined => {
+		const spaceIndex = rest.indexOf(" ");
+		if (spaceIndex === -1) {
+			sendLine(
+				color(`Invalid format. Use: ${color(usage, COLOR.CYAN)}`, COLOR.CRIMSON)
+			);
+			return undefined;
+		}
+		const lineNumStr = rest.substring(0, spaceIndex);
+		const text = rest.substring(spaceIndex + 1).trim();
+		if (!text) {
+			sendLine(
+				color(
+					`Text cannot be empty. Use: ${color(usage, COLOR.CYAN)}`,
+					COLOR.CRIMSON
+				)
+			);
+			return undefined;
+		}
+		const lineNum = parseInt(lineNumStr, 10);
+		if (isNaN(lineNum)) {
+			sendLine(
+				color(
+					`Invalid line number. Use: ${color(usage, COLOR.CYAN)}`,
+					COLOR.CRIMSON
+				)
+			);
+			return undefined;
+		}
+		return { lineNum, text };
+	};
+
+	const bodyInput = (input: string) => {
+		const trimmed = input.trim();
+		const lower = trimmed.toLowerCase();
+
+		if (lower === "!done") {
+			if (bodyLines.length === 0) {
+				sendLine("Message body cannot be empty.");
+				askBody();
+				return;
+			}
+			options.onDone(bodyLines);
+			return;
+		}
+		if (lower === "!forget" || lower === "!quit") {
+			options.onCancel();
+			return;
+		}
+
+		if (lower === "!help") {
+			showHelp();
+		} else if (lower === "!show") {
+			showBody();
+		} else if (lower.startsWith("!delete ")) {
+			const lineNum = parseInt(trimmed.substring(8).trim(), 10);
+			if (isNaN(lineNum)) {
+				sendLine(
+					color(
+						`Invalid line number. Use: ${color(
+							"!delete <number>",
+							COLOR.CYAN
+						)}`,
+						COLOR.CRIMSON
+					)
+				);
+			} else {
+				deleteLine(lineNum);
+			}
+		} else if (lower.startsWith("!insert ")) {
+			const parsed = parseLineAndText(
+				trimmed.substring(8).trim(),
+				"!insert <number> <text>"
+			);
+			if (parsed) insertLine(parsed.lineNum, parsed.text);
+		} else if (lower.startsWith("!replace")) {
+			const parsed = parseLineAndText(
+				trimmed.substring(9).trim(),
+				"!replace <number> <text>"
+			);
+			if (parsed) replaceLine(parsed.lineNum, parsed.text);
+		} else {
+			const extra = extraCommands.find(
+				(command) =>
+					lower === `!${command.name}` || lower.startsWith(`!${command.name} `)
+			);
+			if (extra) {
+				extra.execute(trimmed.substring(extra.name.length + 1).trim());
+			} else {
+				// Plain text is added to the body without re-printing the instructions
+				bodyLines.push(...wrapLine(trimmed));
+				ask("> ", bodyInput);
+				return;
+			}
+		}
+		askBody();
+	};
+
+	const askBody = () => {
+		sendLine(
+			`Enter message body. Type ${color(
+				"!done",
+				COLOR.CYAN
+			)} when finished, or ${color("!help", COLOR.CYAN)} for commands.`
+		);
+		ask("> ", bodyInput);
+	};
+
+	askBody();
+	return { lines: bodyLines, resume: askBody };
+}
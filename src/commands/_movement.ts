@@ -13,9 +13,10 @@ import { Room, Mob } from "../core/dungeon.js";
 import { dir2text } from "../direction.js";
 import { DIRECTION } from "../direction.js";
 import { CommandObject } from "../package/commands.js";
+import { CROWD_CONTROL } from "../core/crowd-control.js";
 import { showRoom } from "../utils/display.js";
 
-const DEFAULT_COOLDOWN_MS = 100;
+export const DEFAULT_COOLDOWN_MS = 100;
 
 export function getCooldownFunctionForDirection(
 	direction: DIRECTION
@@ -49,13 +50,13 @@ export const DEFAULT_COMMAND_VALUES: Partial<CommandObject> = {
 export function executeMovement(
 	context: CommandContext,
 	direction: DIRECTION
-): void {
+): boolean {
 	const { actor, room } = context;
 	const directionText = dir2text(direction);
 
 	if (!room) {
 		actor.sendMessage("You are not in a room.", MESSAGE_GROUP.COMMAND_RESPONSE);
-		return;
+		return false;
 	}
 
 	// Prevent movement if in combat
@@ -64,7 +65,24 @@ export function executeMovement(
 			"You cannot move while in combat!",
 			MESSAGE_GROUP.COMMAND_RESPONSE
 		);
-		return;
+		return false;
+	}
+
+	if (actor.hasCrowdControl(CROWD_CONTROL.ROOT)) {
+		actor.sendMessage(
+			"You are rooted in place!",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return false;
+	}
+
+	const door = room.getDoor(direction);
+	if (door && room.isDoorClosed(direction)) {
+		actor.sendMessage(
+			`The ${door.name} to the ${directionText} is closed.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return false;
 	}
 
 	if (!actor.canStep(direction)) {
@@ -72,7 +90,7 @@ export function executeMovement(
 			`You cannot go ${directionText}.`,
 			MESSAGE_GROUP.COMMAND_RESPONSE
 		);
-		return;
+		return false;
 	}
 
 	const destination = actor.getStep(direction);
@@ -81,7 +99,7 @@ export function executeMovement(
 			`You cannot go ${directionText}.`,
 			MESSAGE_GROUP.COMMAND_RESPONSE
 		);
-		return;
+		return false;
 	}
 
 	actor.sendMessage(
@@ -89,7 +107,7 @@ export function executeMovement(
 		MESSAGE_GROUP.COMMAND_RESPONSE
 	);
 
-	const success = actor.step({
+	return actor.step({
 		direction,
 		scripts: {
 			beforeOnEnter: (movable, room) => {
@@ -0,0 +1,243 @@
+/**
+ * Shared travel logic for the travel and speedwalk commands.
+ *
+ * A walk is a list of directions taken one step at a time through the actor's
+ * action queue. Each step queues the next one once it succeeds, so a walk ends
+ * on its own when a step is blocked, when the actor ends up in combat, when the
+ * actor wanders off the route, or when the queued step is removed with `cancel`.
+ *
+ * @module commands/_travel
+ */
+
+import { Command, CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Mob, Room } from "../core/dungeon.js";
+import { PERMISSION } from "../core/role.js";
+import { DIRECTION, text2dir } from "../direction.js";
+import { DUNGEON_REGISTRY, getRoomByRef } from "../registry/dungeon.js";
+import { getAllLocationRefs } from "../registry/locations.js";
+import { queueAction } from "../registry/command.js";
+import { executeMovement } from "./_movement.js";
+
+/** Time between steps of a walk, slow enough to follow along and cancel. */
+const STEP_COOLDOWN_MS = 500;
+
+/** Longest path a single speedwalk may describe. */
+export const MAX_SPEEDWALK_STEPS = 100;
+
+/**
+ * A resolved travel destination.
+ *
+ * @property room - The room to travel to
+ * @property label - Name shown to the traveller
+ * @property dungeonId - Dungeon ID, for visited areas
+ */
+export interface TravelDestination {
+	room: Room;
+	label: string;
+	dungeonId?: string;
+}
+
+/**
+ * Executes a single step of a walk and queues the next one.
+ * Not registered with the command registry; only ever run from the queue.
+ */
+class TravelStepCommand extends Command {
+	constructor() {
+		super({ pattern: "travel" });
+	}
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+		const directions = args.get("directions") as DIRECTION[];
+		const from = args.get("from") as Room;
+		const label = args.get("label") as string | undefined;
+
+		if (room !== from) {
+			actor.sendMessage(
+				"You have strayed from your route and stop travelling.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const [direction, ...remaining] = directions;
+		if (!executeMovement(context, direction)) {
+			actor.sendMessage("You stop travelling.", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		if (remaining.length === 0) {
+			if (label) {
+				actor.sendMessage(
+					`You have arrived at ${label}.`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+			}
+			return;
+		}
+
+		if (actor.isInCombat() || !(actor.location instanceof Room)) {
+			actor.sendMessage("You stop travelling.", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		queueStep(context, remaining, actor.location, label);
+	}
+}
+
+const STEP_COMMAND = new TravelStepCommand();
+
+function queueStep(
+	context: CommandContext,
+	directions: DIRECTION[],
+	from: Room,
+	label?: string
+): boolean {
+	return queueAction(
+		context,
+		STEP_COMMAND,
+		new Map<string, any>([
+			["directions", directions],
+			["from", from],
+			["label", label],
+		]),
+		STEP_COOLDOWN_MS
+	);
+}
+
+/**
+ * Starts walking the actor along a list of directions.
+ *
+ * @param context The command context
+ * @param directions The steps to take, in order
+ * @param label Optional destination name announced on arrival
+ * @returns true if the walk was started
+ */
+export function startWalk(
+	context: CommandContext,
+	directions: DIRECTION[],
+	label?: string
+): boolean {
+	const { actor, room } = context;
+	if (!room) {
+		actor.sendMessage("You are not in a room.", MESSAGE_GROUP.COMMAND_RESPONSE);
+		return false;
+	}
+	if (actor.isInCombat()) {
+		actor.sendMessage(
+			"You cannot travel while in combat!",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return false;
+	}
+	if (directions.length === 0) return false;
+	if (!queueStep(context, directions, room, label)) {
+		actor.sendMessage("You cannot travel.", MESSAGE_GROUP.COMMAND_RESPONSE);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Parses a speedwalk path such as `3n2e` or `n ne 2u` into directions.
+ * Each direction abbreviation may be preceded by a repeat count.
+ *
+ * @param path The speedwalk path
+ * @returns The directions to take, or undefined if the path is invalid or
+ * longer than {@link MAX_SPEEDWALK_STEPS}
+ */
+export function parseSpeedwalk(path: string): DIRECTION[] | undefined {
+	const compact = path.toLowerCase().replace(/[\s,]+/g, "");
+	if (!compact) return undefined;
+
+	const directions: DIRECTION[] = [];
+	const token = /(\d*)(ne|nw|se|sw|n|s|e|w|u|d)/y;
+	while (token.lastIndex < compact.length) {
+		const match = token.exec(compact);
+		if (!match) return undefined;
+		const count = match[1] ? parseInt(match[1], 10) : 1;
+		if (count < 1 || directions.length + count > MAX_SPEEDWALK_STEPS) {
+			return undefined;
+		}
+		const direction = text2dir(match[2])!;
+		for (let i = 0; i < count; i++) directions.push(direction);
+	}
+	return directions;
+}
+
+/**
+ * Gets the rooms a mob's character has visited that still exist.
+ */
+function getVisitedRooms(actor: Mob): Room[] {
+	const rooms: Room[] = [];
+	for (const ref of actor.character?.visited ?? []) {
+		const room = getRoomByRef(ref);
+		if (room) rooms.push(room);
+	}
+	return rooms;
+}
+
+/**
+ * Lists the destinations a mob can travel to by name: landmarks from
+ * `locations.yaml` followed by the areas its character has visited. Naming
+ * an area leads to the first room the character entered there.
+ *
+ * @param actor The traveller
+ * @returns Destinations in display order
+ */
+export function getTravelDestinations(actor: Mob): TravelDestination[] {
+	const destinations: TravelDestination[] = [];
+	for (const [key, ref] of Object.entries(getAllLocationRefs())) {
+		const room = getRoomByRef(ref);
+		if (room) destinations.push({ room, label: key });
+	}
+	const areas = new Set<string>();
+	for (const room of getVisitedRooms(actor)) {
+		const dungeonId = room.dungeon?.id;
+		if (!dungeonId || areas.has(dungeonId)) continue;
+		areas.add(dungeonId);
+		const label = DUNGEON_REGISTRY.get(dungeonId)?.name ?? dungeonId;
+		destinations.push({ room, label, dungeonId });
+	}
+	return destinations;
+}
+
+/**
+ * Resolves a travel destination by name.
+ * Landmarks and visited areas match by name or dungeon ID, then any visited
+ * room matches by its name (prefixes are accepted); characters with the build
+ * permission may also give a room reference such as `@tower{0,0,0}`.
+ *
+ * @param actor The traveller
+ * @param name The destination name
+ * @returns The destination, or undefined if none matched
+ */
+export function resolveTravelDestination(
+	actor: Mob,
+	name: string
+): TravelDestination | undefined {
+	const query = name.trim().toLowerCase();
+	if (!query) return undefined;
+
+	if (query.startsWith("@")) {
+		if (!actor.character?.hasPermission(PERMISSION.BUILD)) return undefined;
+		const room = getRoomByRef(name.trim());
+		return room ? { room, label: room.display } : undefined;
+	}
+
+	const matches = (destination: TravelDestination, exact: boolean) => {
+		const names = [destination.label, destination.dungeonId ?? ""].map((n) =>
+			n.toLowerCase()
+		);
+		return names.some((n) => (exact ? n === query : n.startsWith(query)));
+	};
+	const find = (destinations: TravelDestination[]) =>
+		destinations.find((d) => matches(d, true)) ??
+		destinations.find((d) => matches(d, false));
+
+	return (
+		find(getTravelDestinations(actor)) ??
+		find(getVisitedRooms(actor).map((room) => ({ room, label: room.display })))
+	);
+}
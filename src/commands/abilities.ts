@@ -56,6 +56,7 @@ function formatProficiency(proficiency: number): string {
 
 export const command = {
 	pattern: "abilities~",
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 		const character = actor.character;
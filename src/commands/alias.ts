@@ -0,0 +1,131 @@
+/**
+ * Alias command for defining command shortcuts.
+ *
+ * With no arguments, lists your aliases. With a name, shows that alias. With a
+ * name and an expansion, defines the alias. Expansions may contain several
+ * commands separated by `;` and may use `$1`-`$9` for single arguments and
+ * `$*` for all of them. See the `alias` module for how expansion works.
+ *
+ * @example
+ * ```
+ * alias                          // List your aliases
+ * alias mc                       // Show the 'mc' alias
+ * alias mc 'mimic call' $1       // mc goblin -> 'mimic call' goblin
+ * alias gg get all corpse;sac corpse
+ * ```
+ *
+ * **Pattern:** `alias~ <name:word?> <expansion:text?>`
+ * @module commands/alias
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { isValidAliasName, MAX_ALIAS_LENGTH, MAX_ALIASES } from "../alias.js";
+
+/** Names that may not be aliased, so aliases can always be managed. */
+const RESERVED_NAMES = new Set(["alias", "unalias"]);
+
+export const command = {
+	pattern: "alias~ <name:word?> <expansion:text?>",
+	allowWhileStunned: true,
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const name = args.get("name") as string | undefined;
+		const expansion = args.get("expansion") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		if (!character) {
+			actor.sendMessage(
+				"Only players can define aliases.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const aliases = character.settings.aliases ?? new Map<string, string>();
+
+		// If no name provided, list aliases
+		if (!name) {
+			if (aliases.size === 0) {
+				actor.sendMessage(
+					`You have no aliases. Use ${color(
+						"alias <name> <commands>",
+						COLOR.CYAN
+					)} to define one.`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+
+			const names = Array.from(aliases.keys()).sort();
+			const width = Math.max(...names.map((n) => n.length));
+			const lines: string[] = [
+				color("Aliases:", COLOR.YELLOW),
+				...names.map(
+					(n) => `  ${color(n.padEnd(width), COLOR.CYAN)}  ${aliases.get(n)}`
+				),
+			];
+			actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		const key = name.toLowerCase();
+
+		// If no expansion provided, show the alias
+		if (!expansion) {
+			const existing = aliases.get(key);
+			actor.sendMessage(
+				existing === undefined
+					? `You have no alias named '${key}'.`
+					: `${color(key, COLOR.CYAN)}: ${existing}`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!isValidAliasName(key)) {
+			actor.sendMessage(
+				"Alias names must be a single word of letters, numbers, '-' or '_'.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (RESERVED_NAMES.has(key)) {
+			actor.sendMessage(
+				`You cannot redefine '${key}'.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (expansion.length > MAX_ALIAS_LENGTH) {
+			actor.sendMessage(
+				`Aliases may be at most ${MAX_ALIAS_LENGTH} characters long.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!aliases.has(key) && aliases.size >= MAX_ALIASES) {
+			actor.sendMessage(
+				`You cannot have more than ${MAX_ALIASES} aliases.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const replaced = aliases.has(key);
+		character.setAlias(key, expansion);
+		actor.sendMessage(
+			`${replaced ? "Redefined" : "Defined"} alias ${color(
+				key,
+				COLOR.CYAN
+			)}: ${expansion}`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
@@ -23,6 +23,7 @@ import { Mob, Room, BEHAVIOR } from "../core/dungeon.js";
 import { CommandObject } from "../package/commands.js";
 import { initiateCombat, addToCombatQueue } from "../combat.js";
 import { capitalizeFirst } from "../utils/string.js";
+import { areGroupMates } from "../group.js";
 
 export const command = {
 	pattern: "attack~ <target:mob>",
@@ -67,6 +68,15 @@ export const command = {
 			return;
 		}
 
+		// Can't attack group mates
+		if (areGroupMates(actor, target)) {
+			actor.sendMessage(
+				"You cannot attack a member of your group.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
 		// Initiate combat
 		initiateCombat(actor, target);
 	},
@@ -0,0 +1,103 @@
+/**
+ * Audit command (requires the `audit` permission).
+ *
+ * Searches the audit log of staff actions: every command that needs a
+ * permission, plus character and map editor saves. Filter by a player (who
+ * acted or was acted on) and by how far back to look, given as a duration or
+ * a date. Shows the most recent matches.
+ *
+ * @example
+ * ```
+ * audit                   // Most recent staff actions
+ * audit Alice             // Actions by or against Alice
+ * audit Alice 7d          // ...in the last week
+ * audit 2h                // Everything in the last two hours
+ * audit Alice 2024-06-01  // ...since the 1st of June
+ * ```
+ *
+ * **Pattern:** `audit~ <player:word?> <since:word?>`
+ * @module commands/audit
+ */
+
+import { CommandContext, rejectCommand } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { AUDIT_OUTCOME, AuditEntry, parseAuditSince } from "../core/audit.js";
+import { searchAudit } from "../audit.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { PERMISSION } from "../core/role.js";
+
+const OUTCOME_COLORS: Record<AUDIT_OUTCOME, COLOR> = {
+	[AUDIT_OUTCOME.SUCCESS]: COLOR.LIME,
+	[AUDIT_OUTCOME.FAILURE]: COLOR.CRIMSON,
+	[AUDIT_OUTCOME.INVALID]: COLOR.YELLOW,
+};
+
+/**
+ * Format one audit entry as a line of output.
+ */
+function formatEntry(entry: AuditEntry): string {
+	const time = entry.timestamp.toISOString().replace("T", " ").slice(0, 19);
+	const outcome = color(entry.outcome, OUTCOME_COLORS[entry.outcome]);
+	const address = entry.address ? color(` (${entry.address})`, COLOR.GREY) : "";
+	return `${color(time, COLOR.GREY)} ${color(
+		entry.actor,
+		COLOR.CYAN
+	)}${address}: ${entry.command} [${outcome}]`;
+}
+
+export const command = {
+	pattern: "audit~ <player:word?> <since:word?>",
+	permission: PERMISSION.AUDIT,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		let player = args.get("player") as string | undefined;
+		let sinceText = args.get("since") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.AUDIT)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		// "audit 7d" gives only a window, not a player
+		if (player && !sinceText && parseAuditSince(player)) {
+			sinceText = player;
+			player = undefined;
+		}
+
+		const since = sinceText ? parseAuditSince(sinceText) : undefined;
+		if (sinceText && !since) {
+			rejectCommand(
+				context,
+				`'${sinceText}' is not a duration (e.g. 2h, 7d) or a date (e.g. 2024-06-01).`
+			);
+			return;
+		}
+
+		const entries = await searchAudit({ player, since });
+		if (entries.length === 0) {
+			actor.sendMessage(
+				"No audit entries found.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const lines: string[] = [
+			color(
+				`Audit log${player ? ` for ${player}` : ""} (showing ${
+					entries.length
+				}):`,
+				COLOR.YELLOW
+			),
+			...entries.map(formatEntry),
+		];
+		actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+	},
+} satisfies CommandObject;
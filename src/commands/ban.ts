@@ -0,0 +1,114 @@
+/**
+ * Ban command (requires the `ban` permission).
+ *
+ * Bans the account that owns a character, optionally for a limited time and
+ * with a reason that is shown to the player. Any of the account's characters
+ * that are online are disconnected, and logins are refused until the ban
+ * expires or is lifted with `unban`.
+ *
+ * @example
+ * ```
+ * ban Alice                      // Permanent ban, no reason
+ * ban Alice 7d                   // Seven day ban
+ * ban Alice 2h spamming OOC      // Two hour ban with a reason
+ * ban Alice griefing newbies     // Permanent ban with a reason
+ * ```
+ *
+ * **Pattern:** `ban <player:word> <terms:text?>`
+ * @module commands/ban
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { getAccountRole, resolveAccountName } from "../package/account.js";
+import { saveBans } from "../package/ban.js";
+import { Ban, BAN_TYPE, formatBanLength, parseBanTerms } from "../core/ban.js";
+import { addBan } from "../registry/ban.js";
+import { color, COLOR } from "../core/color.js";
+import { forEachCharacter, kickCharacter } from "../game.js";
+import logger from "../logger.js";
+import { outranks, PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "ban <player:word> <terms:text?>",
+	permission: PERMISSION.BAN,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const player = args.get("player") as string;
+		const terms = args.get("terms") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.BAN)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		const accountName = await resolveAccountName(player);
+		if (!accountName) {
+			rejectCommand(
+				context,
+				`There is no player or account named '${player}'.`
+			);
+			return;
+		}
+
+		const ownAccount =
+			character.credentials.account ?? character.credentials.username;
+		if (accountName.toLowerCase() === ownAccount.toLowerCase()) {
+			rejectCommand(context, "You cannot ban your own account.");
+			return;
+		}
+
+		if (!outranks(character.getRole(), await getAccountRole(accountName))) {
+			rejectCommand(context, "You can only ban accounts ranked below you.");
+			return;
+		}
+
+		const { duration, reason } = parseBanTerms(terms);
+		const now = new Date();
+		const ban: Ban = {
+			type: BAN_TYPE.ACCOUNT,
+			target: accountName,
+			...(reason && { reason }),
+			bannedBy: character.credentials.username,
+			createdAt: now,
+			...(duration !== undefined && {
+				expiresAt: new Date(now.getTime() + duration),
+			}),
+		};
+		addBan(ban);
+		await saveBans();
+
+		const length = formatBanLength(ban, now);
+		logger.info(`${character} banned account ${accountName} ${length}`, {
+			reason,
+		});
+
+		// disconnect every character the account has in the game
+		const notice = `Your account has been banned ${length}${
+			reason ? ` (${reason})` : ""
+		}.`;
+		forEachCharacter((online) => {
+			const account = online.credentials.account ?? online.credentials.username;
+			if (account.toLowerCase() !== accountName.toLowerCase()) return;
+			kickCharacter(online, notice);
+		});
+
+		actor.sendMessage(
+			`You ban the account ${color(accountName, COLOR.YELLOW)} ${length}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: player") {
+			context.actor.sendMessage("Ban whom?", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+	},
+} satisfies CommandObject;
@@ -0,0 +1,61 @@
+/**
+ * Bans command (requires the `ban` permission).
+ *
+ * Lists the account and IP bans in force, with who placed them, how long they
+ * have left and why. Expired bans are dropped automatically.
+ *
+ * @example
+ * ```
+ * bans
+ * ```
+ *
+ * **Pattern:** `bans~`
+ * @module commands/bans
+ */
+
+import { CommandContext, rejectCommand } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { BAN_TYPE, formatBanLength } from "../core/ban.js";
+import { getBans } from "../registry/ban.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "bans~",
+	permission: PERMISSION.BAN,
+	execute(context: CommandContext): void {
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.BAN)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		const bans = getBans();
+		if (bans.length === 0) {
+			actor.sendMessage(
+				"There are no bans in force.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const now = new Date();
+		const lines: string[] = [color("Bans in force:", COLOR.YELLOW)];
+		for (const ban of bans) {
+			const kind = ban.type === BAN_TYPE.IP ? "ip" : "account";
+			const reason = ban.reason ? ` - ${ban.reason}` : "";
+			lines.push(
+				`  ${color(kind.padEnd(7), COLOR.GREY)} ${color(
+					ban.target,
+					COLOR.CRIMSON
+				)} ${formatBanLength(ban, now)}, by ${ban.bannedBy}${reason}`
+			);
+		}
+		actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+	},
+} satisfies CommandObject;
@@ -26,6 +26,7 @@ import { LINEBREAK } from "../core/telnet.js";
 export const command = {
 	pattern: "block <username:word?>",
 	aliases: ["ignore <username:word?>"],
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const username = args.get("username") as string | undefined;
 		const { actor } = context;
@@ -17,7 +17,7 @@
  */
 
 import { CommandContext, ParseResult } from "../core/command.js";
-import { MESSAGE_GROUP } from "../core/character.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
 import { CommandObject } from "../package/commands.js";
 import {
 	loadBoard,
@@ -26,16 +26,11 @@ import {
 } from "../package/board.js";
 import { getBoard, registerBoard } from "../registry/board.js";
 import { Board, BoardMessage } from "../core/board.js";
-import {
-	color,
-	COLOR,
-	textStyleToTag,
-	TEXT_STYLE,
-	SIZER,
-} from "../core/color.js";
+import { color, COLOR, SIZER } from "../core/color.js";
 import { LINEBREAK } from "../core/telnet.js";
 import { string } from "mud-ext";
 import { showBoardsList } from "./boards.js";
+import { BodyEditor, startBodyEditor } from "./_editor.js";
 
 export const command = {
 	pattern: "board <boardname:word?> <action:word?> <id:word?>",
@@ -401,13 +396,12 @@ function displayMessage(actor: any, board: Board, msg: BoardMessage): void {
  * Asks for targets, subject, and then message body (multi-line until !done).
  */
 function startWriteSequence(
-	character: any,
+	character: Character,
 	board: Board,
 	boardName: string
 ): void {
 	let targets: string[] = [];
 	let subject: string = "";
-	const bodyLines: string[] = [];
 
 	const sendLine = (line: string) => character.sendLine(line);
 	const ask = (question: string, callback: (input: string) => void) =>
@@ -418,23 +412,23 @@ function startWriteSequence(
 		_default?: boolean | undefined
 	) => character.yesno(question, callback, _default);
 
+	// Parses @mentions; "@all" makes the message public
+	const parseTargets = (input: string): string[] => {
+		const parsed: string[] = [];
+		const mentionRegex = /@(\w+)/g;
+		let match;
+		while ((match = mentionRegex.exec(input)) !== null) {
+			parsed.push(match[1]);
+		}
+		return parsed.some((t) => t.toLowerCase() === "all") ? [] : parsed;
+	};
+
 	// Step 1: Ask for targets
 	const askTargets = () => {
 		ask(
 			`Target users (space-separated @mentions, or press Enter for public):`,
 			(input: string) => {
-				if (input.trim()) {
-					// Parse @mentions
-					const mentionRegex = /@(\w+)/g;
-					let match;
-					while ((match = mentionRegex.exec(input)) !== null) {
-						targets.push(match[1]);
-					}
-					// If "@all" is specified, make it public (clear targets)
-					if (targets.some((t) => t.toLowerCase() === "all")) {
-						targets = [];
-					}
-				}
+				targets = parseTargets(input);
 				askSubject();
 			}
 		);
@@ -453,348 +447,62 @@ function startWriteSequence(
 		});
 	};
 
-	// Helper function to show body with line numbers
-	const showBody = () => {
-		if (bodyLines.length === 0) {
-			sendLine(color("Message body is empty.", COLOR.SILVER));
-			return;
-		}
-		sendLine("");
-		sendLine(color("=== Current Message Body ===", COLOR.YELLOW));
-		bodyLines.forEach((line, index) => {
-			sendLine(
-				`${color(`${(index + 1).toString().padStart(2)}:`, COLOR.CYAN)} ${line}`
-			);
-		});
-		sendLine("");
-	};
-
-	// Helper function to delete a line
-	const deleteLine = (lineNum: number) => {
-		const index = lineNum - 1; // Convert to 0-based index
-		if (index < 0 || index >= bodyLines.length) {
-			sendLine(
-				color(
-					`Invalid line number. Body has ${bodyLines.length} line(s).`,
-					COLOR.CRIMSON
-				)
-			);
-			return;
-		}
-		const deleted = bodyLines.splice(index, 1)[0];
-		sendLine(
-			color(
-				`Deleted line ${lineNum}: "${deleted.substring(0, 50)}..."`,
-				COLOR.LIME
-			)
-		);
-	};
-
-	// Helper function to insert a line
-	const insertLine = (lineNum: number, text: string) => {
-		const index = lineNum - 1; // Convert to 0-based index
-		if (index < 0 || index > bodyLines.length) {
-			sendLine(
-				color(
-					`Invalid line number. Must be between 1 and ${bodyLines.length + 1}.`,
-					COLOR.CRIMSON
-				)
-			);
-			return;
-		}
-		// Wrap the text at 80 characters
-		const wrapped = string.wrap(text, 72);
-		// Add color reset code to each line
-		const resetTag = textStyleToTag(TEXT_STYLE.RESET_ALL);
-		const linesWithReset = wrapped.map((line) => line + resetTag);
-		// Insert at the specified position (pushes existing line down)
-		bodyLines.splice(index, 0, ...linesWithReset);
-		sendLine(
-			color(
-				`Inserted ${wrapped.length} line(s) at position ${lineNum}.`,
-				COLOR.LIME
-			)
-		);
-	};
-
-	// Helper function to replace a line
-	const replaceLine = (lineNum: number, text: string) => {
-		const index = lineNum - 1; // Convert to 0-based index
-		if (index < 0 || index >= bodyLines.length) {
-			sendLine(
-				color(
-					`Invalid line number. Body has ${bodyLines.length} line(s).`,
-					COLOR.CRIMSON
-				)
-			);
-			return;
-		}
-		const wrapped = string.wrap(text, 72);
-		const resetTag = textStyleToTag(TEXT_STYLE.RESET_ALL);
-		const linesWithReset = wrapped.map((line) => line + resetTag);
-		bodyLines.splice(index, 1, ...linesWithReset);
-		sendLine(
-			color(
-				`Replaced line ${lineNum} with ${linesWithReset.length} line(s).`,
-				COLOR.LIME
-			)
-		);
-	};
-
-	// Helper function to show help
-	const showHelp = () => {
-		sendLine("");
-		sendLine(color("=== Message Body Commands ===", COLOR.YELLOW));
-		sendLine(
-			`${color("!done", COLOR.CYAN)} - Finish editing and preview the message`
-		);
-		sendLine(
-			`${color(
-				"!show",
-				COLOR.CYAN
-			)} - Display the current message body with line numbers`
-		);
-		sendLine(
-			`${color(
-				"!delete <n>",
-				COLOR.CYAN
-			)} - Delete line number <n> from the body`
-		);
-		sendLine(
-			`${color(
-				"!insert <n> <text>",
-				COLOR.CYAN
-			)} - Insert a line at position <n>, pushing existing lines down`
-		);
-		sendLine(
-			`${color(
-				"!replace <n> <text>",
-				COLOR.CYAN
-			)} - Replace line <n> with new wrapped text`
-		);
-		sendLine(
-			`${color("!subject <text>", COLOR.CYAN)} - Change the message subject`
-		);
-		sendLine(
-			`${color(
-				"!to <@targets>",
-				COLOR.CYAN
-			)} - Change message targets (use @all for public)`
-		);
-		sendLine(
-			`${color("!forget", COLOR.CYAN)} or ${color(
-				"!quit",
-				COLOR.CYAN
-			)} - Cancel message creation`
-		);
-		sendLine(`${color("!help", COLOR.CYAN)} - Show this help message`);
-		sendLine("");
-	};
-
 	// Step 3: Ask for message body (multi-line until !done)
-	const bodyInput = (input: string) => {
-		const trimmed = input.trim();
-		const lower = trimmed.toLowerCase();
-
-		if (lower === "!done") {
-			if (bodyLines.length === 0) {
-				sendLine("Message body cannot be empty.");
-				askBody();
-				return;
-			}
-			// Show preview and ask for confirmation
-			showPreview();
-		} else if (lower === "!help") {
-			showHelp();
-			askBody();
-		} else if (lower === "!show") {
-			showBody();
-			askBody();
-		} else if (lower.startsWith("!delete ")) {
-			const lineNumStr = trimmed.substring(8).trim();
-			const lineNum = parseInt(lineNumStr, 10);
-			if (isNaN(lineNum)) {
-				sendLine(
-					color(
-						`Invalid line number. Use: ${color(
-							"!delete <number>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			deleteLine(lineNum);
-			askBody();
-		} else if (lower.startsWith("!insert ")) {
-			const rest = trimmed.substring(8).trim();
-			// Find the first space to separate line number from text
-			const spaceIndex = rest.indexOf(" ");
-			if (spaceIndex === -1) {
-				sendLine(
-					color(
-						`Invalid format. Use: ${color(
-							"!insert <number> <text>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			const lineNumStr = rest.substring(0, spaceIndex);
-			const text = rest.substring(spaceIndex + 1).trim();
-			if (!text) {
-				sendLine(
-					color(
-						`Text cannot be empty. Use: ${color(
-							"!insert <number> <text>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			const lineNum = parseInt(lineNumStr, 10);
-			if (isNaN(lineNum)) {
-				sendLine(
-					color(
-						`Invalid line number. Use: ${color(
-							"!insert <number> <text>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			insertLine(lineNum, text);
-			askBody();
-		} else if (lower.startsWith("!replace")) {
-			const rest = trimmed.substring(9).trim();
-			const spaceIndex = rest.indexOf(" ");
-			if (spaceIndex === -1) {
-				sendLine(
-					color(
-						`Invalid format. Use: ${color(
-							"!replace <number> <text>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			const lineNumStr = rest.substring(0, spaceIndex);
-			const text = rest.substring(spaceIndex + 1).trim();
-			if (!text) {
-				sendLine(
-					color(
-						`Text cannot be empty. Use: ${color(
-							"!replace <number> <text>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			const lineNum = parseInt(lineNumStr, 10);
-			if (isNaN(lineNum)) {
-				sendLine(
-					color(
-						`Invalid line number. Use: ${color(
-							"!replace <number> <text>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			replaceLine(lineNum, text);
-			askBody();
-		} else if (lower.startsWith("!subject ")) {
-			const newSubject = trimmed.substring(9).trim();
-			if (!newSubject || newSubject.length === 0) {
-				sendLine(
-					color(
-						`Subject cannot be empty. Use: ${color(
-							"!subject <new subject>",
-							COLOR.CYAN
-						)}`,
-						COLOR.CRIMSON
-					)
-				);
-				askBody();
-				return;
-			}
-			subject = newSubject;
-			sendLine(color(`Subject changed to: "${subject}"`, COLOR.LIME));
-			askBody();
-		} else if (lower.startsWith("!to ")) {
-			const newTargetsInput = trimmed.substring(4).trim();
-			targets = [];
-			if (newTargetsInput) {
-				// Parse @mentions
-				const mentionRegex = /@(\w+)/g;
-				let match;
-				while ((match = mentionRegex.exec(newTargetsInput)) !== null) {
-					targets.push(match[1]);
-				}
-				// If "@all" is specified, make it public (clear targets)
-				if (targets.some((t) => t.toLowerCase() === "all")) {
-					targets = [];
-				}
-			}
-			if (targets.length > 0) {
-				sendLine(
-					color(`Targets changed to: ${targets.join(", ")}`, COLOR.LIME)
-				);
-			} else {
-				sendLine(
-					color("Targets cleared - message will be public.", COLOR.LIME)
-				);
-			}
-			askBody();
-		} else if (lower === "!forget" || lower === "!quit") {
-			character.sendMessage(
-				"Message cancelled.",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
-		} else {
-			// Wrap the input at 80 characters and add to body
-			const wrapped = string.wrap(trimmed, 72);
-			// Add color reset code to each line
-			const resetTag = textStyleToTag(TEXT_STYLE.RESET_ALL);
-			const linesWithReset = wrapped.map((line) => line + resetTag);
-			bodyLines.push(...linesWithReset);
-			ask("> ", bodyInput);
-		}
-	};
-
+	let editor: BodyEditor | undefined;
 	const askBody = () => {
-		sendLine(
-			`Enter message body. Type ${color(
-				"!done",
-				COLOR.CYAN
-			)} when finished, or ${color("!help", COLOR.CYAN)} for commands.`
-		);
-		ask("> ", bodyInput);
+		editor = startBodyEditor(character, {
+			commands: [
+				{
+					name: "subject",
+					usage: "<text>",
+					description: "Change the message subject",
+					execute: (newSubject: string) => {
+						if (!newSubject) {
+							sendLine(
+								color(
+									`Subject cannot be empty. Use: ${color(
+										"!subject <new subject>",
+										COLOR.CYAN
+									)}`,
+									COLOR.CRIMSON
+								)
+							);
+							return;
+						}
+						subject = newSubject;
+						sendLine(color(`Subject changed to: "${subject}"`, COLOR.LIME));
+					},
+				},
+				{
+					name: "to",
+					usage: "<@targets>",
+					description: "Change message targets (use @all for public)",
+					execute: (newTargetsInput: string) => {
+						targets = parseTargets(newTargetsInput);
+						if (targets.length > 0) {
+							sendLine(
+								color(`Targets changed to: ${targets.join(", ")}`, COLOR.LIME)
+							);
+						} else {
+							sendLine(
+								color("Targets cleared - message will be public.", COLOR.LIME)
+							);
+						}
+					},
+				},
+			],
+			onDone: () => showPreview(),
+			onCancel: () =>
+				character.sendMessage(
+					"Message cancelled.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				),
+		});
 	};
 
 	// Step 4: Show preview and confirm
 	const showPreview = () => {
-		const content = bodyLines.join(LINEBREAK);
+		const content = editor!.lines.join(LINEBREAK);
 		const lines: string[] = [];
 		lines.push("");
 		lines.push(color("=== Message Preview ===", COLOR.YELLOW));
@@ -851,7 +559,7 @@ function startWriteSequence(
 				// User declined - ask if they want to continue editing
 				yesno("Continue editing?", (continueEditing) => {
 					if (continueEditing === true) {
-						askBody();
+						editor!.resume();
 					} else {
 						character.sendMessage(
 							"Message cancelled.",
@@ -54,6 +54,7 @@ function formatAttributeName(name: string): string {
 export const command = {
 	pattern: "bonuses~",
 	aliases: [],
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 		const mob = actor;
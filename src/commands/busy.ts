@@ -56,6 +56,7 @@ function getValidForwardableGroupNames(): string[] {
 
 export const command = {
 	pattern: "busy~ <action:word?> <mode:word?> <group:word?>",
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const action = args.get("action") as string | undefined;
 		const mode = args.get("mode") as string | undefined;
@@ -33,6 +33,7 @@ import {
 export const command = {
 	pattern: "calendar~",
 	aliases: ["time~"],
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 
@@ -1,6 +1,7 @@
 import { MESSAGE_GROUP } from "../core/character.js";
 import type { CommandObject } from "../package/commands.js";
 import type { ActionQueueEntry, ActionState } from "../core/command.js";
+import { cancelCast } from "../registry/command.js";
 
 function describeCommand(entry: ActionQueueEntry | undefined): string {
 	return entry?.command?.pattern ?? "action";
@@ -8,6 +9,7 @@ function describeCommand(entry: ActionQueueEntry | undefined): string {
 
 export const command = {
 	pattern: "cancel <scope:word?>",
+	allowWhileStunned: true,
 	execute(context, args): void {
 		const actor = context.actor;
 		const character = actor.character;
@@ -20,6 +22,16 @@ export const command = {
 		}
 
 		const state = character.actionState;
+		const scope = (args.get("scope") as string | undefined)?.toLowerCase();
+		const cancelAll = scope === "all";
+
+		// A cast in progress is cancelled before anything in the queue
+		if (state?.casting) {
+			if (cancelAll) state.queue.length = 0;
+			cancelCast(actor);
+			return;
+		}
+
 		if (!state || state.queue.length === 0) {
 			actor.sendMessage(
 				"You have no queued actions to cancel.",
@@ -28,9 +40,6 @@ export const command = {
 			return;
 		}
 
-		const scope = (args.get("scope") as string | undefined)?.toLowerCase();
-		const cancelAll = scope === "all";
-
 		let removedCount = 0;
 		let removedCommand: string | undefined;
 
@@ -20,6 +20,7 @@ import { command as boardCommand } from "./board.js";
 
 export const command = {
 	pattern: "changes~ <action:word?> <id:word?>",
+	allowWhileStunned: true,
 	async execute(context: CommandContext, args: Map<string, any>) {
 		// Create new args map with boardname pre-filled
 		const newArgs = new Map<string, any>();
@@ -3,6 +3,8 @@
  *
  * Allows players to view their current channel subscriptions and enable/disable
  * specific channels. Without arguments, displays the current status of all channels.
+ * Channels come from `data/channels.yaml`; those above the character's level
+ * or role are hidden and can't be joined.
  *
  * @example
  * ```
@@ -20,12 +22,13 @@
 import { CommandContext, ParseResult } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
 import { CommandObject } from "../package/commands.js";
-import { CHANNEL, CHANNELS, CHANNEL_INFO } from "../core/channel.js";
+import { getChannels, findChannel } from "../registry/channel.js";
 import { color, COLOR } from "../core/color.js";
 import { LINEBREAK } from "../core/telnet.js";
 
 export const command = {
 	pattern: "channels~ <action:word?> <channel:word?>",
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const action = args.get("action") as string | undefined;
 		const channelName = args.get("channel") as string | undefined;
@@ -40,17 +43,21 @@ export const command = {
 			return;
 		}
 
+		const available = getChannels().filter((channel) =>
+			character.canUseChannel(channel)
+		);
+		const availableTags = available.map((channel) => channel.tag).join(", ");
+
 		// If no arguments, list all channels with their status
 		if (!action) {
 			const lines: string[] = ["Available channels:"];
-			for (const channel of CHANNELS) {
-				const info = CHANNEL_INFO[channel];
-				const isSubscribed = character.isInChannel(channel);
+			for (const channel of available) {
+				const isSubscribed = character.isInChannel(channel.id);
 				const status = isSubscribed
 					? color("[*]", COLOR.LIME)
 					: color("[ ]", COLOR.CRIMSON);
-				const tag = color(info.channelTag.padEnd(10), info.primaryColor);
-				const name = color(info.channelName, info.highlightColor);
+				const tag = color(channel.tag.padEnd(10), channel.primaryColor);
+				const name = color(channel.name, channel.highlightColor);
 				lines.push(`  ${status} ${tag} - ${name}`);
 			}
 			lines.push("", "Usage: channels <on|off|enable|disable> <channel>");
@@ -76,44 +83,37 @@ export const command = {
 		// Require channel name
 		if (!channelName) {
 			actor.sendMessage(
-				"Which channel? Available channels: " +
-					CHANNELS.map((c) => CHANNEL_INFO[c].channelTag).join(", "),
+				"Which channel? Available channels: " + availableTags,
 				MESSAGE_GROUP.COMMAND_RESPONSE
 			);
 			return;
 		}
 
-		// Find matching channel (case-insensitive)
-		const normalizedChannelName = channelName.toUpperCase();
-		const channel = CHANNELS.find(
-			(c) =>
-				c === normalizedChannelName ||
-				CHANNEL_INFO[c].channelTag === normalizedChannelName
-		);
+		// Find matching channel by id or tag (case-insensitive)
+		const channel = findChannel(channelName);
 
-		if (!channel) {
+		if (!channel || !character.canUseChannel(channel)) {
 			actor.sendMessage(
 				`Unknown channel "${channelName}". Available channels: ` +
-					CHANNELS.map((c) => CHANNEL_INFO[c].channelTag).join(", "),
+					availableTags,
 				MESSAGE_GROUP.COMMAND_RESPONSE
 			);
 			return;
 		}
 
-		const info = CHANNEL_INFO[channel];
-		const isCurrentlySubscribed = character.isInChannel(channel);
+		const isCurrentlySubscribed = character.isInChannel(channel.id);
 
 		// Handle enabling
 		if (isEnabling) {
 			if (isCurrentlySubscribed) {
 				actor.sendMessage(
-					`You are already subscribed to the ${info.channelTag} channel.`,
+					`You are already subscribed to the ${channel.tag} channel.`,
 					MESSAGE_GROUP.COMMAND_RESPONSE
 				);
 			} else {
-				character.joinChannel(channel);
+				character.joinChannel(channel.id);
 				actor.sendMessage(
-					`You are now subscribed to the ${info.channelTag} channel.`,
+					`You are now subscribed to the ${channel.tag} channel.`,
 					MESSAGE_GROUP.COMMAND_RESPONSE
 				);
 			}
@@ -124,13 +124,13 @@ export const command = {
 		if (isDisabling) {
 			if (!isCurrentlySubscribed) {
 				actor.sendMessage(
-					`You are not subscribed to the ${info.channelTag} channel.`,
+					`You are not subscribed to the ${channel.tag} channel.`,
 					MESSAGE_GROUP.COMMAND_RESPONSE
 				);
 			} else {
-				character.leaveChannel(channel);
+				character.leaveChannel(channel.id);
 				actor.sendMessage(
-					`You have unsubscribed from the ${info.channelTag} channel.`,
+					`You have unsubscribed from the ${channel.tag} channel.`,
 					MESSAGE_GROUP.COMMAND_RESPONSE
 				);
 			}
@@ -0,0 +1,51 @@
+/**
+ * Close command for closing doors and gates on room exits.
+ *
+ * @example
+ * ```
+ * close north
+ * close n
+ * ```
+ *
+ * **Pattern:** `close~ <direction:direction>`
+ * @module commands/close
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { DOOR_STATE } from "../core/dungeon.js";
+import { DIRECTION } from "../direction.js";
+import { CommandObject } from "../package/commands.js";
+import { changeDoorState, findDoor } from "./_door.js";
+
+export const command = {
+	pattern: "close~ <direction:direction>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		const direction = args.get("direction") as DIRECTION | undefined;
+		const found = findDoor(context, direction);
+		if (!found) return;
+		const { room, door } = found;
+
+		if (door.state !== DOOR_STATE.OPEN) {
+			actor.sendMessage(
+				`The ${door.name} is already closed.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		changeDoorState(context, room, direction!, DOOR_STATE.CLOSED, {
+			user: "close",
+			room: "closes",
+			other: "swings shut",
+		});
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			"Close what? Try 'close <direction>'.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
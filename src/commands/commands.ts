@@ -3,9 +3,12 @@ import { MESSAGE_GROUP } from "../core/character.js";
 
 export const command = {
 	pattern: "commands~",
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>) {
 		const commandLabelsSet = new Set<string>();
 		CommandRegistry.default.getCommands().forEach((cmd: Command) => {
+			// Only list commands the actor's role permits
+			if (!cmd.canUse(context.actor)) return;
 			// Helper to extract first word and clean it
 			const extractWord = (pattern: string) => {
 				let word = pattern.trim().split(/[ <]/)[0];
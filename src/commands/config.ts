@@ -518,6 +518,7 @@ const BOOLEAN_USAGE_HELPERS: Record<string, UsageHelper> = {
 
 export const command = {
 	pattern: "config~ <setting:word?> <value:text?>",
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const setting = args.get("setting") as string | undefined;
 		const value = args.get("value") as string | undefined;
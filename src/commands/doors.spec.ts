@@ -0,0 +1,131 @@
+import { test, suite, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import {
+	createDoor,
+	Door,
+	Dungeon,
+	DOOR_STATE,
+	Item,
+	Mob,
+	Room,
+} from "../core/dungeon.js";
+import { CommandContext } from "../core/command.js";
+import { Job, Race } from "../core/archetype.js";
+import { DIRECTION } from "../direction.js";
+import { command as OPEN } from "./open.js";
+import { command as CLOSE } from "./close.js";
+import { command as LOCK } from "./lock.js";
+import { command as UNLOCK } from "./unlock.js";
+import { command as PICK } from "./pick.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+let dungeonCount = 0;
+
+suite("door commands", () => {
+	let west: Room;
+	let east: Room;
+	let actor: Mob;
+	let door: Door;
+	let context: CommandContext;
+	const eastward = new Map<string, any>([["direction", DIRECTION.EAST]]);
+
+	beforeEach(() => {
+		const dungeon = Dungeon.generateEmptyDungeon({
+			id: `door-commands-test-${dungeonCount++}`,
+			dimensions: { width: 2, height: 1, layers: 1 },
+		});
+		west = dungeon.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		east = dungeon.getRoom({ x: 1, y: 0, z: 0 }) as Room;
+		door = createDoor({
+			name: "gate",
+			state: "locked",
+			keyTemplateId: "gate-key",
+			pickDifficulty: 40,
+		});
+		west.setDoor(DIRECTION.EAST, door);
+		actor = new Mob({ race: testRace, job: testJob });
+		west.add(actor);
+		context = { actor, room: west };
+	});
+
+	afterEach(() => {
+		mock.restoreAll();
+	});
+
+	test("unlock needs the door's key", () => {
+		UNLOCK.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.LOCKED);
+
+		actor.add(new Item({ templateId: "gate-key" }));
+		UNLOCK.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.CLOSED);
+	});
+
+	test("open refuses locked doors", () => {
+		OPEN.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.LOCKED);
+	});
+
+	test("open and close change the door on both sides", () => {
+		door.state = DOOR_STATE.CLOSED;
+
+		OPEN.execute(context, eastward);
+		assert.strictEqual(east.getDoor(DIRECTION.WEST)?.state, DOOR_STATE.OPEN);
+		assert.strictEqual(actor.canStep(DIRECTION.EAST), true);
+
+		CLOSE.execute(context, eastward);
+		assert.strictEqual(east.getDoor(DIRECTION.WEST)?.state, DOOR_STATE.CLOSED);
+	});
+
+	test("lock needs the door closed and the key", () => {
+		door.state = DOOR_STATE.OPEN;
+		actor.add(new Item({ templateId: "gate-key" }));
+		LOCK.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.OPEN);
+
+		door.state = DOOR_STATE.CLOSED;
+		LOCK.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.LOCKED);
+	});
+
+	test("pick succeeds according to the lock's difficulty", () => {
+		mock.method(Math, "random", () => 0.7);
+		PICK.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.LOCKED);
+
+		mock.method(Math, "random", () => 0.5);
+		PICK.execute(context, eastward);
+		assert.strictEqual(door.state, DOOR_STATE.CLOSED);
+	});
+
+	test("pick can't open unpickable locks", () => {
+		west.setDoor(DIRECTION.EAST, createDoor({ state: "locked" }));
+		mock.method(Math, "random", () => 0);
+		PICK.execute(context, eastward);
+		assert.strictEqual(west.getDoor(DIRECTION.EAST)?.state, DOOR_STATE.LOCKED);
+		assert.strictEqual(PICK.cooldown(context, eastward), 0);
+	});
+});
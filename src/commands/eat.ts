@@ -0,0 +1,30 @@
+/**
+ * Eat command for eating food.
+ *
+ * Eats food from the actor's inventory, applying its restores and effects.
+ *
+ * @example
+ * ```
+ * eat bread
+ * eat apple
+ * ```
+ *
+ * **Pattern:** `eat~ <item:item@inventory>`
+ * @module commands/eat
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { Item } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { consume, onConsumeError } from "./_consume.js";
+
+export const command = {
+	pattern: "eat~ <item:item@inventory>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		consume(context, args.get("item") as Item, "food");
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		onConsumeError(context, result, "eat");
+	},
+} satisfies CommandObject;
@@ -2,7 +2,9 @@
  * Effects command for displaying active effects.
  *
  * Shows all active effects on the player's mob, including passive effects,
- * damage over time, and heal over time effects.
+ * damage over time, heal over time and crowd-control effects. Crowd control
+ * shows what it prevents and how much longer it lasts, and stacked effects
+ * show their stack count.
  *
  * @example
  * ```
@@ -19,12 +21,20 @@ import { CommandObject } from "../package/commands.js";
 import { color, COLOR, SIZER } from "../core/color.js";
 import { LINEBREAK } from "../core/telnet.js";
 import { string } from "mud-ext";
+import { capitalizeFirst } from "../utils/string.js";
 import {
 	isPassiveEffect,
 	isDamageOverTimeEffect,
 	isHealOverTimeEffect,
 	isShieldEffect,
+	isCrowdControlEffect,
+	getEffectStacks,
 } from "../core/effect.js";
+import {
+	CROWD_CONTROL,
+	DEFAULT_SLOW_MULTIPLIER,
+	describeCrowdControl,
+} from "../core/crowd-control.js";
 
 function formatDuration(ms: number): string {
 	if (ms === Number.MAX_SAFE_INTEGER) {
@@ -109,6 +119,7 @@ function formatCompactPercentageModifier(
 
 export const command = {
 	pattern: "effects~",
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 
@@ -148,6 +159,7 @@ export const command = {
 			const template = effect.template;
 			const isRaceEffect = racePassiveIds.has(template.id);
 			const isJobEffect = jobPassiveIds.has(template.id);
+			const stacks = getEffectStacks(effect);
 
 			// Determine effect type
 			let typeStr: string;
@@ -333,14 +345,14 @@ export const command = {
 				}
 			} else if (isDamageOverTimeEffect(template)) {
 				typeStr = color("DoT", COLOR.CRIMSON);
-				const damage = effect.tickAmount ?? template.damage;
+				const damage = (effect.tickAmount ?? template.damage) * stacks;
 				const ticks = effect.ticksRemaining ?? 0;
 				details = `${damage} damage per tick, ${ticks} tick${
 					ticks !== 1 ? "s" : ""
 				} remaining`;
 			} else if (isHealOverTimeEffect(template)) {
 				typeStr = color("HoT", COLOR.LIME);
-				const heal = effect.tickAmount ?? template.heal;
+				const heal = (effect.tickAmount ?? template.heal) * stacks;
 				const ticks = effect.ticksRemaining ?? 0;
 				details = `${heal} heal per tick, ${ticks} tick${
 					ticks !== 1 ? "s" : ""
@@ -359,6 +371,20 @@ export const command = {
 				const absorptionRate = template.absorptionRate ?? 1.0;
 				const ratePercent = Math.round(absorptionRate * 100);
 				modifiers.push(`Rate: ${ratePercent}%`);
+			} else if (isCrowdControlEffect(template)) {
+				typeStr = color("Control", COLOR.PINK);
+				details = `${capitalizeFirst(
+					describeCrowdControl(template.control)
+				)} for ${formatTimeRemaining(effect.expiresAt)}`;
+				if (template.control === CROWD_CONTROL.SLOW) {
+					modifiers.push(
+						formatCompactPercentageModifier(
+							"cooldowns",
+							template.cooldownMultiplier ?? DEFAULT_SLOW_MULTIPLIER,
+							true
+						)
+					);
+				}
 			} else {
 				typeStr = "Unknown";
 			}
@@ -374,7 +400,10 @@ export const command = {
 			}
 
 			effectData.push({
-				name: template.name,
+				name:
+					stacks > 1
+						? `${template.name} ${color(`x${stacks}`, COLOR.YELLOW)}`
+						: template.name,
 				type: typeStr,
 				timeRemaining: formatTimeRemaining(effect.expiresAt),
 				modifiers,
@@ -447,7 +476,7 @@ export const command = {
 				}
 			}
 
-			// Display details for DoT/HoT/Shield
+			// Display details for DoT/HoT/Shield/Control
 			if (details) {
 				lines.push(`  ${details}`);
 			}
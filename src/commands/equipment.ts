@@ -25,6 +25,7 @@ export const command = {
 	pattern: "equipment",
 	aliases: ["gear~", "eq"],
 	priority: PRIORITY.HIGH,
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 
@@ -11,12 +11,13 @@
  * exec game.broadcast("Server announcement!")
  * ```
  *
- * **Security:** This command is restricted to admin users only.
+ * **Security:** This command is restricted to roles with the `exec` permission
+ * (admins and owners).
  * **Pattern:** `exec <code:text>`
  * @module commands/exec
  */
 
-import { CommandContext, ParseResult } from "../core/command.js";
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
 import { Character, MESSAGE_GROUP } from "../core/character.js";
 import { CommandObject } from "../package/commands.js";
 import { runInNewContext } from "vm";
@@ -32,6 +33,8 @@ import {
 import { createFromTemplateWithOid } from "../package/dungeon.js";
 import { DungeonObject } from "../core/dungeon.js";
 import { resolveTemplateById } from "../registry/dungeon.js";
+import { PERMISSION } from "../core/role.js";
+import { AUDIT_OUTCOME } from "../core/audit.js";
 
 // allows each user to have their own persistant.
 const persistance = new Map<Character, Record<string, any>>();
@@ -93,7 +96,7 @@ function getPersistance(character: Character): Record<string, any> {
 
 export const command = {
 	pattern: "exec <code:text>",
-	adminOnly: true,
+	permission: PERMISSION.EXEC,
 	/**
 	 * Execute the JavaScript code.
 	 */
@@ -105,12 +108,9 @@ export const command = {
 		const { actor } = context;
 		const character = actor.character;
 
-		// Double-check admin status (shouldn't be needed due to adminOnly flag, but safety check)
-		if (!character || !character.isAdmin()) {
-			actor.sendMessage(
-				"You do not have permission to use this command.",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.EXEC)) {
+			rejectCommand(context, "You do not have permission to use this command.");
 			return;
 		}
 
@@ -156,6 +156,10 @@ export const command = {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
 			message = `Execution error: ${errorMessage}`;
+			context.outcome = {
+				result: AUDIT_OUTCOME.FAILURE,
+				error: errorMessage,
+			};
 		}
 
 		actor.sendMessage(message, MESSAGE_GROUP.COMMAND_RESPONSE);
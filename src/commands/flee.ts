@@ -2,7 +2,8 @@
  * Flee command for attempting to escape in a random direction.
  *
  * Attempts to move in a random valid direction. Useful for escaping combat
- * or dangerous situations. Has a 5 second cooldown.
+ * or dangerous situations. Has a 5 second cooldown. Rooted or stunned mobs
+ * can't flee.
  *
  * @example
  * ```
@@ -17,10 +18,11 @@
 
 import { CommandContext, PRIORITY } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
-import { Mob, Room } from "../core/dungeon.js";
-import { DIRECTION, DIRECTIONS, dir2text } from "../direction.js";
+import { DIRECTION, DIRECTIONS } from "../direction.js";
 import { CommandObject } from "../package/commands.js";
 import { act } from "../act.js";
+import { fleeFromCombat } from "../combat.js";
+import { CROWD_CONTROL } from "../core/crowd-control.js";
 
 export const command = {
 	pattern: "flee~",
@@ -57,6 +59,14 @@ export const command = {
 			return;
 		}
 
+		if (actor.hasCrowdControl(CROWD_CONTROL.ROOT)) {
+			actor.sendMessage(
+				"You are rooted in place and cannot flee!",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
 		// 33% chance of failure
 		if (Math.random() < 0.33) {
 			act(
@@ -72,42 +82,6 @@ export const command = {
 			return;
 		}
 
-		// Collect all valid directions the actor can step to
-		const validDirections: DIRECTION[] = [];
-		for (const dir of DIRECTIONS) {
-			if (actor.canStep(dir)) {
-				validDirections.push(dir);
-			}
-		}
-
-		// Check if there are any valid directions
-		if (validDirections.length === 0) {
-			actor.sendMessage(
-				"There is no way to flee!",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
-			return;
-		}
-
-		// Pick a random valid direction
-		const randomIndex = Math.floor(Math.random() * validDirections.length);
-		const randomDirection = validDirections[randomIndex];
-		const directionText = dir2text(randomDirection);
-
-		// flee message
-		act(
-			{
-				user: `You flee to the ${directionText}!`,
-				room: `{User} flees to the ${directionText}!`,
-			},
-			{
-				user: actor,
-				room: room,
-			}
-		);
-
-		// Attempt to move in that direction (bypasses combat check)
-		actor.combatTarget = undefined;
-		actor.step(randomDirection);
+		fleeFromCombat(actor);
 	},
 } satisfies CommandObject;
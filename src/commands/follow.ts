@@ -0,0 +1,74 @@
+/**
+ * Follow command for following another mob around.
+ *
+ * Followers automatically move with the mob they follow whenever it walks
+ * out of the room they share. Following yourself (or using `follow` with no
+ * target while following someone) stops following.
+ *
+ * @example
+ * ```
+ * follow bob        // Start following Bob
+ * follow self       // Stop following
+ * follow            // Show who you are following, or stop following
+ * ```
+ *
+ * **Pattern:** `follow~ <target:mob?>`
+ * @module commands/follow
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Mob } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { getFollowTarget, startFollowing, stopFollowing } from "../group.js";
+
+export const command = {
+	pattern: "follow~ <target:mob?>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const target = args.get("target") as Mob | undefined;
+		const { actor, room } = context;
+
+		if (!target || target === actor) {
+			if (!stopFollowing(actor)) {
+				actor.sendMessage(
+					"You are not following anyone.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+			}
+			return;
+		}
+
+		if (target.location !== room) {
+			actor.sendMessage(
+				"They are not here.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (getFollowTarget(actor) === target) {
+			actor.sendMessage(
+				`You are already following ${target.display}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!startFollowing(actor, target)) {
+			actor.sendMessage(
+				`You can't follow ${target.display} while they are following you.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		}
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error?.includes("target")) {
+			context.actor.sendMessage(
+				"Who do you want to follow?",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
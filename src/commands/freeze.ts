@@ -0,0 +1,93 @@
+/**
+ * Freeze command (requires the `freeze` permission).
+ *
+ * Toggles a freeze on a player. A frozen player stays connected but every
+ * command they type is refused. The freeze is saved with the character and
+ * lasts until an admin uses `freeze` on them again.
+ *
+ * @example
+ * ```
+ * freeze Alice    // Freeze Alice
+ * freeze Alice    // Thaw Alice
+ * ```
+ *
+ * **Pattern:** `freeze <target:character>`
+ * @module commands/freeze
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { saveCharacter } from "../package/character.js";
+import { color, COLOR } from "../core/color.js";
+import logger from "../logger.js";
+import { outranks, PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "freeze <target:character>",
+	permission: PERMISSION.FREEZE,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const target = args.get("target") as Character | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.FREEZE)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		if (!target) {
+			rejectCommand(context, "That player is not online.");
+			return;
+		}
+
+		if (target === character) {
+			rejectCommand(context, "You cannot freeze yourself.");
+			return;
+		}
+
+		if (!outranks(character.getRole(), target.getRole())) {
+			rejectCommand(
+				context,
+				"You can only freeze characters ranked below you."
+			);
+			return;
+		}
+
+		const name = target.credentials.username;
+		const frozen = !target.credentials.isFrozen;
+		target.credentials.isFrozen = frozen || undefined;
+		await saveCharacter(target);
+		logger.info(`${character} ${frozen ? "froze" : "thawed"} ${name}`);
+
+		target.sendMessage(
+			frozen
+				? "You have been frozen solid by an administrator!"
+				: "You thaw out and can move again.",
+			MESSAGE_GROUP.SYSTEM
+		);
+		actor.sendMessage(
+			`You ${frozen ? "freeze" : "thaw"} ${color(name, COLOR.YELLOW)}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: target") {
+			context.actor.sendMessage("Freeze whom?", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		if (result.error === "Could not parse argument: target") {
+			context.actor.sendMessage(
+				"That player is not online.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
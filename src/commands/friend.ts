@@ -0,0 +1,254 @@
+/**
+ * Friend command for keeping a list of friends.
+ *
+ * Lists friends with whether they are online, when they were last seen, and
+ * which dungeon they are in (if they allow it and list you as a friend too).
+ * Friends who are blocking you show no status at all. Friends are announced
+ * when they log in or out; the announcements wait in the busy mode queue
+ * while busy mode is on.
+ *
+ * @example
+ * ```
+ * friend                  // List friends
+ * friend add Alice        // Add Alice to your friends
+ * friend remove Alice     // Remove Alice from your friends
+ * friend dungeon off      // Hide your dungeon from your friends
+ * friends                 // List friends (alias)
+ * ```
+ *
+ * **Aliases:** `friends`
+ * **Pattern:** `friend~ <action:word?> <name:word?>`
+ * @module commands/friend
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import {
+	getActiveCharacters,
+	loadSerializedCharacter,
+} from "../package/character.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { formatDuration } from "../core/time.js";
+
+export const command = {
+	pattern: "friend~ <action:word?> <name:word?>",
+	aliases: ["friends <action:word?> <name:word?>"],
+	allowWhileStunned: true,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const action = (args.get("action") as string | undefined)?.toLowerCase();
+		const name = args.get("name") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		if (!character) {
+			actor.sendMessage(
+				"Only players can keep a friends list.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!action || action === "list") {
+			await showFriends(character);
+			return;
+		}
+
+		if (action === "dungeon") {
+			const value = name?.toLowerCase();
+			if (value !== "on" && value !== "off") {
+				const current =
+					character.settings.showDungeonToFriends === false ? "off" : "on";
+				actor.sendMessage(
+					`Showing your dungeon to friends is ${color(
+						current,
+						COLOR.YELLOW
+					)}. Use ${color(
+						"friend dungeon <on|off>",
+						COLOR.CYAN
+					)} to change it.`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			character.settings.showDungeonToFriends = value === "on";
+			actor.sendMessage(
+				value === "on"
+					? "Your friends can now see which dungeon you are in."
+					: "Your friends can no longer see which dungeon you are in.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (action !== "add" && action !== "remove") {
+			actor.sendMessage(
+				`Unknown action "${action}". Use ${color("add", COLOR.CYAN)}, ${color(
+					"remove",
+					COLOR.CYAN
+				)} or ${color("dungeon", COLOR.CYAN)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!name) {
+			actor.sendMessage(
+				`Use: ${color(`friend ${action} <player>`, COLOR.CYAN)}`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (action === "remove") {
+			if (!character.isFriend(name)) {
+				actor.sendMessage(
+					`${color(name, COLOR.YELLOW)} is not on your friends list.`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			character.removeFriend(name);
+			actor.sendMessage(
+				`You have removed ${color(name, COLOR.YELLOW)} from your friends.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		// Can't befriend yourself
+		if (name.toLowerCase() === character.credentials.username.toLowerCase()) {
+			actor.sendMessage(
+				"You cannot add yourself as a friend.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (character.isFriend(name)) {
+			actor.sendMessage(
+				`${color(name, COLOR.YELLOW)} is already your friend.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const friendName = await resolveUsername(name);
+		if (!friendName) {
+			actor.sendMessage(
+				`There is no player named '${name}'.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		character.addFriend(friendName);
+		actor.sendMessage(
+			`You have added ${color(
+				friendName,
+				COLOR.LIME
+			)} to your friends. You will be told when they log in or out.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			`Error: ${result.error}`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
+
+/**
+ * Finds the online character with a username, if any.
+ */
+function findOnlineCharacter(username: string): Character | undefined {
+	const key = username.toLowerCase();
+	return getActiveCharacters().find(
+		(character) => character.credentials.username.toLowerCase() === key
+	);
+}
+
+/**
+ * Gets a player's own spelling of their name, or undefined if there is no
+ * such player.
+ */
+async function resolveUsername(name: string): Promise<string | undefined> {
+	return (
+		findOnlineCharacter(name)?.credentials.username ??
+		(await loadSerializedCharacter(name))?.credentials.username
+	);
+}
+
+async function showFriends(character: Character): Promise<void> {
+	const friends = [...(character.settings.friends ?? [])].sort();
+	if (friends.length === 0) {
+		character.sendMessage(
+			`You have no friends listed. Use ${color(
+				"friend add <player>",
+				COLOR.CYAN
+			)} to add one.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const now = Date.now();
+	const viewer = character.credentials.username;
+	const lines: string[] = [color("Friends:", COLOR.YELLOW)];
+	const unavailable = (name: string) =>
+		`  ${color(name, COLOR.SILVER)} - ${color(
+			"status unavailable",
+			COLOR.SILVER
+		)}`;
+	for (const key of friends) {
+		const online = findOnlineCharacter(key);
+		if (online) {
+			if (online.isBlocking(viewer)) {
+				lines.push(unavailable(online.credentials.username));
+				continue;
+			}
+			// Only friendships that go both ways share the dungeon
+			const dungeon =
+				online.settings.showDungeonToFriends !== false &&
+				online.isFriend(viewer)
+					? online.mob?.dungeon?.name
+					: undefined;
+			lines.push(
+				`  ${color(online.credentials.username, COLOR.LIME)} - ${color(
+					"online",
+					COLOR.LIME
+				)}${dungeon ? ` in ${color(dungeon, COLOR.CYAN)}` : ""}`
+			);
+			continue;
+		}
+
+		const saved = await loadSerializedCharacter(key);
+		if (!saved) {
+			lines.push(
+				`  ${color(key, COLOR.SILVER)} - ${color(
+					"no longer exists",
+					COLOR.CRIMSON
+				)}`
+			);
+			continue;
+		}
+		if (saved.settings.blockedUsers?.includes(viewer.toLowerCase())) {
+			lines.push(unavailable(saved.credentials.username));
+			continue;
+		}
+		const lastSeen = now - new Date(saved.credentials.lastLogin).getTime();
+		lines.push(
+			`  ${color(saved.credentials.username, COLOR.WHITE)} - ${color(
+				"offline",
+				COLOR.SILVER
+			)}, last seen ${formatDuration(lastSeen)} ago`
+		);
+	}
+	character.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
@@ -20,6 +20,7 @@ import { Character, MESSAGE_GROUP } from "../core/character.js";
 import { CommandObject } from "../package/commands.js";
 import { forEachCharacter } from "../game.js";
 import { CHANNEL, formatChannelMessage } from "../core/channel.js";
+import { getChannel } from "../registry/channel.js";
 import { getSocialCommand, getSocialCommandNames } from "../social.js";
 import { formatSocialMessage } from "./_social.js";
 
@@ -40,7 +41,8 @@ export const command = {
 		}
 
 		// Check if the character is in the GOCIAL channel
-		if (!character.isInChannel(CHANNEL.GOCIAL)) {
+		const channel = getChannel(CHANNEL.GOCIAL);
+		if (!channel || !character.isInChannel(channel.id)) {
 			actor.sendMessage(
 				"You are not subscribed to the GOCIAL channel.",
 				MESSAGE_GROUP.COMMAND_RESPONSE
@@ -94,7 +96,8 @@ export const command = {
 				: undefined;
 
 		forEachCharacter((recipient) => {
-			if (!recipient.isInChannel(CHANNEL.GOCIAL)) return;
+			if (!recipient.isInChannel(channel.id)) return;
+			if (!recipient.canUseChannel(channel)) return;
 
 			// Check if recipient is blocking the speaker
 			if (recipient.isBlocking(character.credentials.username)) {
@@ -118,7 +121,7 @@ export const command = {
 			// Format as channel message and send
 			if (messageToSend) {
 				const formatted = formatChannelMessage(
-					CHANNEL.GOCIAL,
+					channel,
 					userDisplay,
 					messageToSend
 				);
@@ -0,0 +1,228 @@
+/**
+ * Group command for forming and managing groups.
+ *
+ * Groups share kill experience and autolooted gold between members in the same
+ * room, automatically assist each other in combat and cannot attack each other.
+ * Members follow the group leader. Without arguments, shows the group roster.
+ *
+ * @example
+ * ```
+ * group                 // Show your group
+ * group invite bob      // Invite Bob to your group (leader only)
+ * group accept          // Accept a pending invitation
+ * group leave           // Leave your group
+ * group kick bob        // Remove Bob from your group (leader only)
+ * ```
+ *
+ * **Pattern:** `group~ <action:word?> <target:word?>`
+ * @module commands/group
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { Mob } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import {
+	acceptGroupInvite,
+	getGroup,
+	getPendingInvite,
+	inviteToGroup,
+	leaveGroup,
+	MAX_GROUP_SIZE,
+} from "../group.js";
+
+function showGroup(actor: Mob): void {
+	const group = getGroup(actor);
+	if (!group) {
+		actor.sendMessage(
+			"You are not in a group.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const lines: string[] = [
+		color(`=== ${group.leader.display}'s Group ===`, COLOR.YELLOW),
+	];
+	for (const member of group.members) {
+		const tag =
+			member === group.leader ? color("[Leader]", COLOR.YELLOW) : "        ";
+		lines.push(
+			` ${tag} ${color(member.display, COLOR.CYAN)} - ${member.health}/${
+				member.maxHealth
+			} hp, level ${member.level}`
+		);
+	}
+	actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
+
+function invite(context: CommandContext, name: string | undefined): void {
+	const { actor, room } = context;
+	if (!name) {
+		actor.sendMessage(
+			"Who do you want to invite?",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const group = getGroup(actor);
+	if (group && group.leader !== actor) {
+		actor.sendMessage(
+			"Only the group leader can invite new members.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (group && group.members.size >= MAX_GROUP_SIZE) {
+		actor.sendMessage(
+			`Your group is full (${MAX_GROUP_SIZE} members).`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const target = room?.contents.find(
+		(obj): obj is Mob => obj instanceof Mob && obj !== actor && obj.match(name)
+	);
+	if (!target) {
+		actor.sendMessage(
+			"They are not here.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (!target.character) {
+		actor.sendMessage(
+			`${target.display} cannot join a group.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (group?.members.has(target)) {
+		actor.sendMessage(
+			`${target.display} is already in your group.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (getGroup(target)) {
+		actor.sendMessage(
+			`${target.display} is already in a group.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	inviteToGroup(actor, target);
+	actor.sendMessage(
+		`You invite ${target.display} to join your group.`,
+		MESSAGE_GROUP.COMMAND_RESPONSE
+	);
+	target.sendMessage(
+		`${actor.display} invites you to join their group. Type ${color(
+			"group accept",
+			COLOR.CYAN
+		)} to join.`,
+		MESSAGE_GROUP.INFO
+	);
+}
+
+function kick(context: CommandContext, name: string | undefined): void {
+	const { actor } = context;
+	const group = getGroup(actor);
+	if (!group || group.leader !== actor) {
+		actor.sendMessage(
+			"Only the group leader can remove members.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (!name) {
+		actor.sendMessage(
+			"Who do you want to remove from the group?",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const target = Array.from(group.members).find(
+		(member) => member !== actor && member.match(name)
+	);
+	if (!target) {
+		actor.sendMessage(
+			"They are not in your group.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	leaveGroup(target);
+	target.sendMessage(
+		"You have been removed from the group.",
+		MESSAGE_GROUP.INFO
+	);
+}
+
+export const command = {
+	pattern: "group~ <action:word?> <target:word?>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		const action = (args.get("action") as string | undefined)?.toLowerCase();
+		const target = args.get("target") as string | undefined;
+
+		if (!action) {
+			showGroup(actor);
+			return;
+		}
+
+		if (action === "invite") {
+			invite(context, target);
+			return;
+		}
+
+		if (action === "accept") {
+			if (!getPendingInvite(actor)) {
+				actor.sendMessage(
+					"You have no group invitation.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			if (!acceptGroupInvite(actor)) {
+				actor.sendMessage(
+					`That group is full (${MAX_GROUP_SIZE} members).`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+			}
+			return;
+		}
+
+		if (action === "leave") {
+			if (!leaveGroup(actor)) {
+				actor.sendMessage(
+					"You are not in a group.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			actor.sendMessage(
+				"You leave the group.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (action === "kick") {
+			kick(context, target);
+			return;
+		}
+
+		actor.sendMessage(
+			"Usage: group [invite <name>|accept|leave|kick <name>]",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
@@ -0,0 +1,62 @@
+/**
+ * Group tell command for talking to your group.
+ *
+ * Sends a message to every member of your group, wherever they are.
+ *
+ * @example
+ * ```
+ * gtell Pull the next one
+ * gsay Ready when you are
+ * ```
+ *
+ * **Aliases:** `gsay`
+ * **Pattern:** `gtell~ <message:text>`
+ * @module commands/gtell
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+import { getGroup } from "../group.js";
+
+export const command = {
+	pattern: "gtell~ <message:text>",
+	aliases: ["gsay~ <message:text>"],
+	allowWhileStunned: true,
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const message = args.get("message") as string;
+		const { actor } = context;
+		const group = getGroup(actor);
+
+		if (!group) {
+			actor.sendMessage(
+				"You are not in a group.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const speaker = actor.character?.credentials.username ?? actor.display;
+		for (const member of group.members) {
+			if (member !== actor && member.character?.isBlocking(speaker)) continue;
+			member.sendMessage(
+				`${color("[GROUP]", COLOR.TEAL)} ${color(
+					speaker,
+					COLOR.WHITE
+				)}${color(":", COLOR.TEAL)} ${color(message, COLOR.WHITE)}`,
+				MESSAGE_GROUP.CHANNELS
+			);
+		}
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error?.includes("message")) {
+			context.actor.sendMessage(
+				"What do you want to tell your group?",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
@@ -20,6 +20,7 @@
 import { CommandContext, ParseResult } from "../core/command.js";
 import { CommandObject } from "../package/commands.js";
 import { searchHelpfiles } from "../registry/help.js";
+import { canReadHelpfile } from "../core/help.js";
 import { MESSAGE_GROUP } from "../core/character.js";
 import { LINEBREAK } from "../core/telnet.js";
 
@@ -180,9 +181,12 @@ function displaySearchResults(
 export const command = {
 	pattern: "help~ search <query:text>",
 	aliases: ["? search <query:text>"],
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const query = args.get("query") as string;
-		const results = searchHelpfiles(query);
+		const results = searchHelpfiles(query, (helpfile) =>
+			canReadHelpfile(helpfile, context.actor.character)
+		);
 		displaySearchResults(context, query, results);
 	},
 
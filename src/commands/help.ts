@@ -25,7 +25,7 @@
 import { CommandContext, ParseResult } from "../core/command.js";
 import { CommandObject } from "../package/commands.js";
 import { getHelpfile } from "../registry/help.js";
-import { Helpfile } from "../core/help.js";
+import { canReadHelpfile, Helpfile } from "../core/help.js";
 import { autocompleteHelpfile } from "../registry/help.js";
 import { MESSAGE_GROUP } from "../core/character.js";
 import { Mob } from "../core/dungeon.js";
@@ -95,13 +95,16 @@ function displayHelpfile(actor: Mob, helpfile: Helpfile): void {
 export const command = {
 	pattern: "help~ <topic:word?>",
 	aliases: ["? <topic:word?>"],
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const topic = args.get("topic") as string | undefined;
 		const { actor } = context;
+		const readable = (helpfile: Helpfile) =>
+			canReadHelpfile(helpfile, actor.character);
 
 		// No topic provided - show general help or command list
 		if (!topic) {
-			const commandsHelp = getHelpfile("commands");
+			const commandsHelp = getHelpfile("commands", readable);
 			if (commandsHelp) {
 				displayHelpfile(actor, commandsHelp);
 			} else {
@@ -122,14 +125,14 @@ export const command = {
 		}
 
 		// Try exact match first
-		const exactMatch = getHelpfile(topic);
+		const exactMatch = getHelpfile(topic, readable);
 		if (exactMatch) {
 			displayHelpfile(actor, exactMatch);
 			return;
 		}
 
 		// Try autocomplete (prefix matching)
-		const matches = autocompleteHelpfile(topic);
+		const matches = autocompleteHelpfile(topic, readable);
 
 		if (matches.length === 0) {
 			const lines = [
@@ -32,6 +32,7 @@ import { formatNumber } from "../utils/number.js";
 export const command = {
 	pattern: "inventory~ <mode:word?>",
 	priority: PRIORITY.HIGH,
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const { actor } = context;
 		const mode = (args.get("mode") as string | undefined)?.toLowerCase();
@@ -0,0 +1,137 @@
+/**
+ * IP ban command (requires the `ban` permission).
+ *
+ * Bans a block of addresses in CIDR notation (or a single address), optionally
+ * for a limited time and with a reason. Players connected from inside the
+ * block are disconnected, and new connections from it are refused before the
+ * login prompt. Lift the ban with `unban <cidr>`.
+ *
+ * @example
+ * ```
+ * ipban 203.0.113.7                  // A single address
+ * ipban 203.0.113.0/24 30d           // A whole block for thirty days
+ * ipban 2001:db8::/32 botnet         // IPv6 block with a reason
+ * ```
+ *
+ * **Pattern:** `ipban <cidr:word> <terms:text?>`
+ * @module commands/ipban
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { saveBans } from "../package/ban.js";
+import {
+	addressMatchesBan,
+	Ban,
+	BAN_TYPE,
+	formatBanLength,
+	parseBanTerms,
+	parseCidr,
+} from "../core/ban.js";
+import { addBan } from "../registry/ban.js";
+import { color, COLOR } from "../core/color.js";
+import { forEachCharacter, kickCharacter } from "../game.js";
+import logger from "../logger.js";
+import { outranks, PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "ipban <cidr:word> <terms:text?>",
+	permission: PERMISSION.BAN,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const cidrText = args.get("cidr") as string;
+		const terms = args.get("terms") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.BAN)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		const cidr = parseCidr(cidrText);
+		if (!cidr) {
+			rejectCommand(
+				context,
+				`'${cidrText}' is not an address or CIDR block (e.g. 203.0.113.0/24).`
+			);
+			return;
+		}
+
+		const { duration, reason } = parseBanTerms(terms);
+		const now = new Date();
+		const ban: Ban = {
+			type: BAN_TYPE.IP,
+			target: `${cidr.address}/${cidr.prefix}`,
+			...(reason && { reason }),
+			bannedBy: character.credentials.username,
+			createdAt: now,
+			...(duration !== undefined && {
+				expiresAt: new Date(now.getTime() + duration),
+			}),
+		};
+
+		// don't let an admin lock themselves out by mistake
+		const ownAddress = character.session?.client?.getAddress();
+		if (ownAddress && addressMatchesBan(ownAddress, ban)) {
+			rejectCommand(context, "That block includes your own address.");
+			return;
+		}
+
+		// nor ban the address of anyone who ranks as high as they do
+		const protectedNames: string[] = [];
+		forEachCharacter((online) => {
+			const address = online.session?.client?.getAddress();
+			if (!address || !addressMatchesBan(address, ban)) return;
+			if (!outranks(character.getRole(), online.getRole()))
+				protectedNames.push(online.credentials.username);
+		});
+		if (protectedNames.length > 0) {
+			rejectCommand(
+				context,
+				`That block includes the address of ${protectedNames.join(
+					", "
+				)}, who is not ranked below you.`
+			);
+			return;
+		}
+
+		addBan(ban);
+		await saveBans();
+
+		const length = formatBanLength(ban, now);
+		logger.info(`${character} banned ${ban.target} ${length}`, { reason });
+
+		const notice = `Your address has been banned ${length}${
+			reason ? ` (${reason})` : ""
+		}.`;
+		let disconnected = 0;
+		forEachCharacter((online) => {
+			const address = online.session?.client?.getAddress();
+			if (!address || !addressMatchesBan(address, ban)) return;
+			kickCharacter(online, notice);
+			disconnected++;
+		});
+
+		actor.sendMessage(
+			`You ban ${color(ban.target, COLOR.YELLOW)} ${length}.${
+				disconnected > 0 ? ` ${disconnected} player(s) disconnected.` : ""
+			}`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: cidr") {
+			context.actor.sendMessage(
+				"Ban which address? Give an address or CIDR block (e.g. 203.0.113.0/24).",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
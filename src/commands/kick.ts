@@ -0,0 +1,83 @@
+/**
+ * Kick command (requires the `kick` permission).
+ *
+ * Disconnects a player from the game. Their character is saved and removed
+ * from the world right away instead of being left link-dead.
+ *
+ * @example
+ * ```
+ * kick Alice
+ * kick Alice spamming the OOC channel
+ * ```
+ *
+ * **Pattern:** `kick <target:character> <reason:text?>`
+ * @module commands/kick
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+import { kickCharacter } from "../game.js";
+import logger from "../logger.js";
+import { outranks, PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "kick <target:character> <reason:text?>",
+	permission: PERMISSION.KICK,
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const target = args.get("target") as Character | undefined;
+		const reason = args.get("reason") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.KICK)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		if (!target) {
+			rejectCommand(context, "That player is not online.");
+			return;
+		}
+
+		if (target === character) {
+			rejectCommand(context, "You cannot kick yourself. Use quit instead.");
+			return;
+		}
+
+		if (!outranks(character.getRole(), target.getRole())) {
+			rejectCommand(context, "You can only kick characters ranked below you.");
+			return;
+		}
+
+		const name = target.credentials.username;
+		logger.info(`${character} kicked ${name}`, { reason });
+		kickCharacter(
+			target,
+			`You have been kicked from the game by ${character.credentials.username}${
+				reason ? ` (${reason})` : ""
+			}.`
+		);
+		actor.sendMessage(
+			`You kick ${color(name, COLOR.YELLOW)} from the game.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: target") {
+			context.actor.sendMessage("Kick whom?", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		if (result.error === "Could not parse argument: target") {
+			context.actor.sendMessage(
+				"That player is not online.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
@@ -0,0 +1,77 @@
+/**
+ * Lock command for locking closed doors with the matching key.
+ *
+ * The actor must be carrying an item created from the door's key template.
+ *
+ * @example
+ * ```
+ * lock north
+ * lock n
+ * ```
+ *
+ * **Pattern:** `lock~ <direction:direction>`
+ * @module commands/lock
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { DOOR_STATE } from "../core/dungeon.js";
+import { DIRECTION } from "../direction.js";
+import { CommandObject } from "../package/commands.js";
+import { changeDoorState, findDoor, findKey } from "./_door.js";
+
+export const command = {
+	pattern: "lock~ <direction:direction>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		const direction = args.get("direction") as DIRECTION | undefined;
+		const found = findDoor(context, direction);
+		if (!found) return;
+		const { room, door } = found;
+
+		if (door.state === DOOR_STATE.LOCKED) {
+			actor.sendMessage(
+				`The ${door.name} is already locked.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (door.state === DOOR_STATE.OPEN) {
+			actor.sendMessage(
+				`You have to close the ${door.name} first.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!door.keyTemplateId) {
+			actor.sendMessage(
+				`The ${door.name} has no lock.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!findKey(actor, door)) {
+			actor.sendMessage(
+				`You don't have the key for the ${door.name}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		changeDoorState(context, room, direction!, DOOR_STATE.LOCKED, {
+			user: "lock",
+			room: "locks",
+			other: "clicks as its lock is turned",
+		});
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			"Lock what? Try 'lock <direction>'.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
@@ -0,0 +1,87 @@
+/**
+ * Lockouts command (requires the `ban` permission).
+ *
+ * Lists the addresses and account names locked out for repeated failed
+ * logins, with how long each lockout has left and how many times the key has
+ * been locked out. Give an address or account name to lift its lockout early.
+ *
+ * @example
+ * ```
+ * lockouts                // List lockouts in force
+ * lockouts 203.0.113.7    // Lift the lockout on an address
+ * lockouts alice          // Lift the lockout on an account name
+ * ```
+ *
+ * **Pattern:** `lockouts~ <target:word?>`
+ * @module commands/lockouts
+ */
+
+import { CommandContext, rejectCommand } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { formatLockoutRemaining, LOCKOUT_TYPE } from "../core/lockout.js";
+import { clearLoginFailures, getLockouts } from "../registry/lockout.js";
+import { saveLockouts } from "../package/lockout.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { PERMISSION } from "../core/role.js";
+import logger from "../logger.js";
+import { isIP } from "net";
+
+export const command = {
+	pattern: "lockouts~ <target:word?>",
+	permission: PERMISSION.BAN,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const target = args.get("target") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.BAN)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		// Lift a lockout
+		if (target) {
+			const type = isIP(target) ? LOCKOUT_TYPE.ADDRESS : LOCKOUT_TYPE.ACCOUNT;
+			if (!clearLoginFailures(type, target)) {
+				rejectCommand(
+					context,
+					`No failed logins are recorded for ${color(target, COLOR.YELLOW)}.`
+				);
+				return;
+			}
+			await saveLockouts();
+			logger.info(`${character} cleared failed logins for ${type} ${target}`);
+			actor.sendMessage(
+				`You clear the failed logins for ${color(target, COLOR.YELLOW)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const lockouts = getLockouts();
+		if (lockouts.length === 0) {
+			actor.sendMessage(
+				"Nobody is locked out.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const lines: string[] = [color("Login lockouts:", COLOR.YELLOW)];
+		for (const record of lockouts) {
+			lines.push(
+				`  ${color(record.type.padEnd(7), COLOR.GREY)} ${color(
+					record.key,
+					COLOR.CRIMSON
+				)} for ${formatLockoutRemaining(record)} (lockout #${record.lockouts})`
+			);
+		}
+		actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+	},
+} satisfies CommandObject;
@@ -42,6 +42,7 @@ export const command = {
 		"look~ in~ <container:item@all>",
 	],
 	priority: PRIORITY.HIGH,
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const { actor, room } = context;
 
@@ -0,0 +1,115 @@
+import { test, suite, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { readFile, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { Character } from "../core/character.js";
+import { CommandContext } from "../core/command.js";
+import { Item, Mob } from "../core/dungeon.js";
+import type { AnySerializedDungeonObject } from "../core/dungeon.js";
+import { MailMessage } from "../core/mail.js";
+import { addMail, removeMail } from "../registry/mail.js";
+import { createMob } from "../package/dungeon.js";
+import archetypePkg from "../package/archetype.js";
+import { command as MAIL } from "./mail.js";
+
+const MAIL_PATH = join(process.cwd(), "data", "mail.yaml");
+const GEM: AnySerializedDungeonObject = {
+	type: "Item",
+	keywords: "gem",
+	display: "a gem",
+};
+
+let characterCount = 0;
+
+function characterFilePath(username: string): string {
+	return join(process.cwd(), "data", "characters", `${username}.yaml`);
+}
+
+suite("mail", () => {
+	// collecting saves the mail file, so keep whatever was there before
+	let savedMail: string | undefined;
+	let username: string;
+	let mob: Mob;
+	let letter: MailMessage;
+
+	function collect(): Promise<void> {
+		const context: CommandContext = { actor: mob };
+		return MAIL.execute(
+			context,
+			new Map([
+				["action", "collect"],
+				["target", String(letter.id)],
+			])
+		);
+	}
+
+	function gems(): Item[] {
+		return mob.contents.filter(
+			(obj): obj is Item => obj instanceof Item && obj.display === "a gem"
+		);
+	}
+
+	before(async () => {
+		await archetypePkg.loader();
+		savedMail = await readFile(MAIL_PATH, "utf-8").catch(() => undefined);
+	});
+
+	after(async () => {
+		if (savedMail !== undefined) await writeFile(MAIL_PATH, savedMail, "utf-8");
+		else await unlink(MAIL_PATH).catch(() => undefined);
+	});
+
+	beforeEach(() => {
+		username = `mailspec_${Date.now()}_${characterCount++}`;
+		mob = createMob();
+		new Character({
+			credentials: { username, characterId: 1 },
+			mob,
+		});
+		letter = addMail({
+			from: "Sender",
+			to: username.toLowerCase(),
+			subject: "A gift",
+			content: "Enjoy.",
+			sentAt: new Date(),
+			read: false,
+			gold: 50,
+			items: [GEM],
+		});
+	});
+
+	afterEach(async () => {
+		removeMail(letter.id);
+		await unlink(characterFilePath(username)).catch(() => undefined);
+	});
+
+	test("collecting the same letter twice hands out the attachments once", async () => {
+		const gold = mob.value ?? 0;
+
+		await Promise.all([collect(), collect()]);
+
+		assert.strictEqual(mob.value, gold + 50);
+		assert.strictEqual(gems().length, 1);
+		assert.strictEqual(letter.gold, 0);
+		assert.deepStrictEqual(letter.items, []);
+		assert.strictEqual(letter.read, true);
+	});
+
+	test("attachments that can't be restored stay on the letter", async () => {
+		const prop: AnySerializedDungeonObject = {
+			type: "Prop",
+			keywords: "statue",
+			display: "a statue",
+		};
+		letter.items = [GEM, prop];
+		const gold = mob.value ?? 0;
+
+		await collect();
+
+		assert.strictEqual(mob.value, gold);
+		assert.strictEqual(gems().length, 0);
+		assert.strictEqual(letter.gold, 50);
+		assert.deepStrictEqual(letter.items, [GEM, prop]);
+		assert.strictEqual(letter.read, false);
+	});
+});
@@ -0,0 +1,651 @@
+/**
+ * Mail command for sending and receiving private letters.
+ *
+ * Letters are delivered whether or not the recipient is online and may carry
+ * gold and items, which are held in escrow until the recipient collects them.
+ * Sending costs postage (more for each attached item), mailboxes have a size
+ * limit, and letters left too long are returned to their sender.
+ *
+ * @example
+ * ```
+ * mail                    // List your mailbox
+ * mail read 3             // Read letter #3
+ * mail read next          // Read the oldest unread letter
+ * mail collect 3          // Take the gold and items attached to letter #3
+ * mail delete 3           // Delete letter #3 (after collecting)
+ * mail send Alice         // Write a letter to Alice
+ * ```
+ *
+ * While writing, `!attach <item>` and `!gold <amount>` add attachments and
+ * `!detach <item>` removes one; attached items stay in your inventory until
+ * the letter is sent.
+ *
+ * **Pattern:** `mail~ <action:word?> <target:word?>`
+ * @module commands/mail
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { Equipment, Item } from "../core/dungeon.js";
+import { color, COLOR, SIZER } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { formatDuration } from "../core/time.js";
+import { getPostage, hasAttachments, MailMessage } from "../core/mail.js";
+import {
+	addMail,
+	getMail,
+	getMailbox,
+	getMailPolicy,
+	isMailboxFull,
+	removeMail,
+} from "../registry/mail.js";
+import { saveMail } from "../package/mail.js";
+import {
+	getActiveCharacters,
+	loadSerializedCharacter,
+	saveCharacter,
+} from "../package/character.js";
+import { deserializeDungeonObject } from "../package/dungeon.js";
+import { getCurrentDungeonVersion } from "../migrations/version.js";
+import { string } from "mud-ext";
+import { BodyEditor, startBodyEditor } from "./_editor.js";
+import logger from "../logger.js";
+
+export const command = {
+	pattern: "mail~ <action:word?> <target:word?>",
+	async execute(context: CommandContext, args: Map<string, any>) {
+		const action = (args.get("action") as string | undefined)?.toLowerCase();
+		const target = args.get("target") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		if (!character) {
+			actor.sendMessage(
+				"Only players can use mail.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!action || action === "list") {
+			displayMailbox(character);
+			return;
+		}
+
+		if (action === "send" || action === "write") {
+			if (!target) {
+				actor.sendMessage(
+					`Send mail to whom? Use: ${color("mail send <player>", COLOR.CYAN)}`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			await startSendSequence(character, target);
+			return;
+		}
+
+		if (action !== "read" && action !== "delete" && action !== "collect") {
+			actor.sendMessage(
+				`Unknown action "${action}". Use ${color("read", COLOR.CYAN)}, ${color(
+					"collect",
+					COLOR.CYAN
+				)}, ${color("delete", COLOR.CYAN)} or ${color("send", COLOR.CYAN)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const letter = findLetter(character, action, target);
+		if (!letter) return;
+
+		if (action === "read") {
+			displayLetter(character, letter);
+			if (!letter.read) {
+				letter.read = true;
+				await saveMail();
+			}
+		} else if (action === "collect") {
+			await collectAttachments(character, letter);
+		} else {
+			if (hasAttachments(letter)) {
+				actor.sendMessage(
+					`Letter #${letter.id} still holds attachments. Use ${color(
+						`mail collect ${letter.id}`,
+						COLOR.CYAN
+					)} first.`,
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			removeMail(letter.id);
+			await saveMail();
+			actor.sendMessage(
+				`Letter #${letter.id} deleted.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		}
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			`Error: ${result.error}`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
+
+/**
+ * Finds the letter an action refers to, telling the character if it can't.
+ * "next" (or no ID) means the oldest unread letter when reading.
+ */
+function findLetter(
+	character: Character,
+	action: string,
+	idArg: string | undefined
+): MailMessage | undefined {
+	const username = character.credentials.username;
+	if (action === "read" && (!idArg || idArg.toLowerCase() === "next")) {
+		const unread = getMailbox(username).find((letter) => !letter.read);
+		if (!unread)
+			character.sendMessage(
+				"You have no unread mail.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		return unread;
+	}
+
+	const id = idArg ? parseInt(idArg, 10) : NaN;
+	if (isNaN(id)) {
+		character.sendMessage(
+			`Invalid letter ID. Use: ${color(`mail ${action} <id>`, COLOR.CYAN)}`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return undefined;
+	}
+	const letter = getMail(username, id);
+	if (!letter)
+		character.sendMessage(
+			`You have no letter #${id}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	return letter;
+}
+
+/**
+ * Describes a letter's attachments (e.g. "50 gold, 2 items"), or "" if none.
+ */
+function describeAttachments(gold: number, itemCount: number): string {
+	const parts: string[] = [];
+	if (gold > 0) parts.push(`${gold} gold`);
+	if (itemCount > 0)
+		parts.push(`${itemCount} item${itemCount !== 1 ? "s" : ""}`);
+	return parts.join(", ");
+}
+
+function displayMailbox(character: Character): void {
+	const policy = getMailPolicy();
+	const mailbox = getMailbox(character.credentials.username);
+	const now = Date.now();
+
+	const lines: string[] = [];
+	if (mailbox.length === 0) {
+		lines.push(color("Your mailbox is empty.", COLOR.SILVER));
+	} else {
+		for (const letter of mailbox) {
+			const age = formatDuration(now - letter.sentAt.getTime());
+			const attachments = describeAttachments(letter.gold, letter.items.length);
+			const attachmentInfo = attachments
+				? ` ${color(`(${attachments})`, COLOR.YELLOW)}`
+				: "";
+			const readStatus = letter.read
+				? ` ${color("[read]", COLOR.LIME)}`
+				: ` ${color("[unread]", COLOR.YELLOW)}`;
+			lines.push(
+				`${color(`[${letter.id}]`, COLOR.CYAN)} ${color(
+					letter.subject,
+					COLOR.WHITE
+				)} - ${color(letter.from, COLOR.LIME)} ${color(
+					`${age} ago`,
+					COLOR.SILVER
+				)}${attachmentInfo}${readStatus}`
+			);
+		}
+	}
+	lines.push("");
+	lines.push(
+		color(
+			`${mailbox.length}/${policy.mailboxSize} letters. Postage is ${policy.postage} gold plus ${policy.postagePerItem} per attached item.`,
+			COLOR.SILVER
+		)
+	);
+
+	const box = string.box({
+		input: lines,
+		width: 80,
+		sizer: SIZER,
+		title: color("Mailbox", COLOR.YELLOW),
+		style: {
+			...string.BOX_STYLES.PLAIN,
+			titleHAlign: string.ALIGN.CENTER,
+			hPadding: 1,
+		},
+	});
+	character.sendMessage(box.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
+
+function displayLetter(character: Character, letter: MailMessage): void {
+	const headerLines = [
+		`${color("From:", COLOR.CYAN)} ${color(letter.from, COLOR.LIME)}`,
+		`${color("Subject:", COLOR.CYAN)} ${color(letter.subject, COLOR.WHITE)}`,
+	];
+	const attachments = describeAttachments(letter.gold, letter.items.length);
+	if (attachments) {
+		headerLines.push(
+			`${color("Attached:", COLOR.CYAN)} ${color(
+				attachments,
+				COLOR.YELLOW
+			)} - use ${color(`mail collect ${letter.id}`, COLOR.CYAN)}`
+		);
+	}
+
+	const header = string.box({
+		input: headerLines,
+		width: 76,
+		sizer: SIZER,
+	});
+	const content = string.box({
+		input: [...letter.content.split(LINEBREAK)],
+		width: 76,
+		sizer: SIZER,
+		style: {
+			vPadding: 1,
+			hPadding: 2,
+		},
+	});
+	const footer = string.box({
+		input: [`${color("Sent:", COLOR.CYAN)} ${letter.sentAt.toLocaleString()}`],
+		width: 76,
+		sizer: SIZER,
+		style: {
+			hAlign: string.ALIGN.RIGHT,
+		},
+	});
+	const box = string.box({
+		input: [...header, ...content, ...footer],
+		width: 80,
+		sizer: SIZER,
+		title: color(`Letter #${letter.id}`, COLOR.YELLOW),
+		style: {
+			...string.BOX_STYLES.PLAIN,
+			titleHAlign: string.ALIGN.CENTER,
+		},
+	});
+	character.sendMessage(box.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
+
+/**
+ * Moves a letter's gold and items into the character's possession.
+ *
+ * The attachments are taken off the letter before anything is awaited, so a
+ * second collect or a mail expiry running in the meantime finds nothing to
+ * hand out. If the items can't be restored they are put back on the letter.
+ * The letter is saved without its attachments before the character is saved
+ * with them, so a crash between the two can lose attachments but never
+ * duplicate them.
+ */
+async function collectAttachments(
+	character: Character,
+	letter: MailMessage
+): Promise<void> {
+	const mob = character.mob;
+	if (!mob) return;
+	if (!hasAttachments(letter)) {
+		character.sendMessage(
+			`Letter #${letter.id} has nothing attached.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const { gold, items: attached, read } = letter;
+	letter.gold = 0;
+	letter.items = [];
+	letter.read = true;
+
+	const items: Item[] = [];
+	try {
+		await saveMail();
+		for (const data of attached) {
+			const obj = await deserializeDungeonObject(data);
+			if (!(obj instanceof Item))
+				throw new Error(`attachment "${obj.keywords}" is not an item`);
+			items.push(obj);
+		}
+	} catch (error) {
+		for (const item of items) item.destroy();
+		letter.gold = gold;
+		letter.items = attached;
+		letter.read = read;
+		await saveMail();
+		logger.error(
+			`Failed to restore attachments of letter #${letter.id}: ${error}`
+		);
+		character.sendMessage(
+			"The attachments could not be collected. Please tell an administrator.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	for (const item of items) mob.add(item);
+	mob.value = (mob.value || 0) + gold;
+	await saveCharacter(character);
+
+	const lines = [`You collect the attachments from letter #${letter.id}:`];
+	if (gold > 0) lines.push(`  ${color(`${gold} gold`, COLOR.YELLOW)}`);
+	for (const item of items) lines.push(`  ${item.display}`);
+	character.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
+
+/**
+ * Gets the items a mob could attach to a letter: its inventory, without
+ * anything it is wearing or wielding.
+ */
+function getAttachableItems(character: Character): Item[] {
+	const mob = character.mob;
+	if (!mob) return [];
+	const equipped = mob.getAllEquipped();
+	return mob.contents.filter(
+		(obj): obj is Item =>
+			obj instanceof Item &&
+			!(obj instanceof Equipment && equipped.includes(obj))
+	);
+}
+
+/**
+ * Finds the online character with a username, if any.
+ */
+function findOnlineCharacter(username: string): Character | undefined {
+	const key = username.toLowerCase();
+	return getActiveCharacters().find(
+		(character) => character.credentials.username.toLowerCase() === key
+	);
+}
+
+async function startSendSequence(
+	character: Character,
+	recipientName: string
+): Promise<void> {
+	const policy = getMailPolicy();
+	const username = character.credentials.username;
+
+	// Use the recipient's own spelling of their name
+	const recipient =
+		findOnlineCharacter(recipientName)?.credentials.username ??
+		(await loadSerializedCharacter(recipientName))?.credentials.username;
+	if (!recipient) {
+		character.sendMessage(
+			`There is no player named '${recipientName}'.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (recipient.toLowerCase() === username.toLowerCase()) {
+		character.sendMessage(
+			"You cannot send mail to yourself.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+	if (isMailboxFull(recipient)) {
+		character.sendMessage(
+			`${recipient}'s mailbox is full.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	let subject = "";
+	let gold = 0;
+	const attached: Item[] = [];
+
+	const sendLine = (line: string) => character.sendLine(line);
+	const ask = (question: string, callback: (input: string) => void) =>
+		character.ask(question, callback);
+	const yesno = (
+		question: string,
+		callback: (yesorno: boolean | undefined) => void,
+		_default?: boolean | undefined
+	) => character.yesno(question, callback, _default);
+	const cancel = () =>
+		character.sendMessage("Letter cancelled.", MESSAGE_GROUP.COMMAND_RESPONSE);
+
+	// Step 1: Ask for subject
+	const askSubject = () => {
+		ask("Subject:", (input: string) => {
+			if (!input || input.trim().length === 0) {
+				sendLine("Subject cannot be empty.");
+				askSubject();
+				return;
+			}
+			subject = input.trim();
+			askBody();
+		});
+	};
+
+	// Step 2: Ask for the body and attachments (multi-line until !done)
+	let editor: BodyEditor | undefined;
+	const askBody = () => {
+		editor = startBodyEditor(character, {
+			commands: [
+				{
+					name: "attach",
+					usage: "<item>",
+					description: `Attach an item from your inventory (${policy.postagePerItem} gold postage each)`,
+					execute: (keywords: string) => {
+						if (!keywords) {
+							sendLine(
+								color(
+									`Attach what? Use: ${color("!attach <item>", COLOR.CYAN)}`,
+									COLOR.CRIMSON
+								)
+							);
+							return;
+						}
+						if (attached.length >= policy.maxAttachments) {
+							sendLine(
+								color(
+									`A letter can carry at most ${policy.maxAttachments} items.`,
+									COLOR.CRIMSON
+								)
+							);
+							return;
+						}
+						const item = getAttachableItems(character).find(
+							(candidate) =>
+								!attached.includes(candidate) && candidate.match(keywords)
+						);
+						if (!item) {
+							sendLine(
+								color(`You aren't carrying "${keywords}".`, COLOR.CRIMSON)
+							);
+							return;
+						}
+						attached.push(item);
+						sendLine(color(`Attached ${item.display}.`, COLOR.LIME));
+					},
+				},
+				{
+					name: "detach",
+					usage: "<item>",
+					description: "Remove an attached item",
+					execute: (keywords: string) => {
+						const index = attached.findIndex((item) => item.match(keywords));
+						if (index === -1) {
+							sendLine(
+								color(`Nothing attached matches "${keywords}".`, COLOR.CRIMSON)
+							);
+							return;
+						}
+						const [item] = attached.splice(index, 1);
+						sendLine(color(`Detached ${item.display}.`, COLOR.LIME));
+					},
+				},
+				{
+					name: "gold",
+					usage: "<amount>",
+					description: "Attach gold (0 to remove it)",
+					execute: (amountStr: string) => {
+						const amount = parseInt(amountStr, 10);
+						if (isNaN(amount) || amount < 0) {
+							sendLine(
+								color(
+									`Invalid amount. Use: ${color("!gold <amount>", COLOR.CYAN)}`,
+									COLOR.CRIMSON
+								)
+							);
+							return;
+						}
+						gold = amount;
+						sendLine(
+							color(
+								gold > 0 ? `Attached ${gold} gold.` : "Gold removed.",
+								COLOR.LIME
+							)
+						);
+					},
+				},
+			],
+			onDone: () => showPreview(),
+			onCancel: cancel,
+		});
+	};
+
+	// Step 3: Show preview and confirm
+	const showPreview = () => {
+		const content = editor!.lines.join(LINEBREAK);
+		const postage = getPostage(policy, attached.length);
+		const lines: string[] = [];
+		lines.push("");
+		lines.push(color("=== Letter Preview ===", COLOR.YELLOW));
+		lines.push(`${color("To:", COLOR.CYAN)} ${color(recipient, COLOR.LIME)}`);
+		lines.push(
+			`${color("Subject:", COLOR.CYAN)} ${color(subject, COLOR.WHITE)}`
+		);
+		lines.push("");
+		lines.push(color("Body:", COLOR.CYAN));
+		lines.push(content);
+		lines.push("");
+		if (gold > 0 || attached.length > 0) {
+			lines.push(color("Attached:", COLOR.CYAN));
+			if (gold > 0) lines.push(`  ${color(`${gold} gold`, COLOR.YELLOW)}`);
+			for (const item of attached) lines.push(`  ${item.display}`);
+		}
+		lines.push(
+			`${color("Postage:", COLOR.CYAN)} ${postage} gold (total cost ${
+				postage + gold
+			} gold)`
+		);
+		lines.push("");
+
+		for (const line of lines) {
+			sendLine(line);
+		}
+
+		yesno("Send this letter?", async (confirmed) => {
+			if (confirmed === true) {
+				await sendLetter(editor!.lines.join(LINEBREAK));
+			} else if (confirmed === false) {
+				// User declined - ask if they want to continue editing
+				yesno("Continue editing?", (continueEditing) => {
+					if (continueEditing === true) {
+						editor!.resume();
+					} else {
+						cancel();
+					}
+				});
+			} else {
+				// No response - ask again
+				showPreview();
+			}
+		});
+	};
+
+	// Step 4: Take postage and attachments, then deliver
+	const sendLetter = async (content: string) => {
+		const mob = character.mob;
+		if (!mob) return;
+
+		// Things may have changed while the letter was being written
+		if (isMailboxFull(recipient)) {
+			character.sendMessage(
+				`${recipient}'s mailbox is full. Letter not sent.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+		const carrying = getAttachableItems(character);
+		const missing = attached.filter((item) => !carrying.includes(item));
+		if (missing.length > 0) {
+			character.sendMessage(
+				`You no longer have ${missing
+					.map((item) => item.display)
+					.join(", ")}. Letter not sent.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+		const cost = getPostage(policy, attached.length) + gold;
+		if ((mob.value || 0) < cost) {
+			character.sendMessage(
+				`Sending this letter costs ${cost} gold, but you only have ${
+					mob.value || 0
+				}. Letter not sent.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const version = await getCurrentDungeonVersion();
+		const items = attached.map((item) => ({
+			...item.serialize({ compress: true }),
+			version,
+		}));
+		for (const item of attached) item.destroy();
+		mob.value = (mob.value || 0) - cost;
+
+		// The sender gives up the attachments before the letter holds them,
+		// so a crash between the two saves can't duplicate anything
+		await saveCharacter(character);
+		const letter = addMail({
+			from: username,
+			to: recipient.toLowerCase(),
+			subject,
+			content,
+			sentAt: new Date(),
+			read: false,
+			gold,
+			items,
+		});
+		await saveMail();
+
+		character.sendMessage(
+			`Letter #${letter.id} sent to ${color(
+				recipient,
+				COLOR.LIME
+			)} for ${cost} gold.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		findOnlineCharacter(recipient)?.sendMessage(
+			`You have new mail from ${color(username, COLOR.LIME)}. Type ${color(
+				"mail",
+				COLOR.CYAN
+			)} to read it.`,
+			MESSAGE_GROUP.SYSTEM
+		);
+	};
+
+	// Start the sequence
+	askSubject();
+}
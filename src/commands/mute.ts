@@ -0,0 +1,102 @@
+/**
+ * Mute command (requires the `mute` permission).
+ *
+ * Stops a player from using channels (say, OOC, whispers and so on) for a
+ * while. The mute is saved with the character, so logging out doesn't lift
+ * it; it wears off by itself or can be lifted early with `unmute`.
+ *
+ * @example
+ * ```
+ * mute Alice 30m
+ * mute Alice 1d12h
+ * ```
+ *
+ * **Pattern:** `mute <target:character> <duration:word>`
+ * @module commands/mute
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { saveCharacter } from "../package/character.js";
+import { color, COLOR } from "../core/color.js";
+import { formatDuration, parseDuration } from "../core/time.js";
+import logger from "../logger.js";
+import { outranks, PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "mute <target:character> <duration:word>",
+	permission: PERMISSION.MUTE,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const target = args.get("target") as Character | undefined;
+		const durationText = args.get("duration") as string;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.MUTE)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		if (!target) {
+			rejectCommand(context, "That player is not online.");
+			return;
+		}
+
+		if (!outranks(character.getRole(), target.getRole())) {
+			rejectCommand(context, "You can only mute characters ranked below you.");
+			return;
+		}
+
+		const duration = parseDuration(durationText);
+		if (duration === undefined) {
+			rejectCommand(
+				context,
+				`'${durationText}' is not a duration. Try something like 30m, 2h or 7d.`
+			);
+			return;
+		}
+
+		const name = target.credentials.username;
+		const length = formatDuration(duration);
+		target.credentials.mutedUntil = new Date(Date.now() + duration);
+		await saveCharacter(target);
+		logger.info(`${character} muted ${name} for ${length}`);
+
+		target.sendMessage(
+			`You have been muted for ${length} and cannot use channels.`,
+			MESSAGE_GROUP.SYSTEM
+		);
+		actor.sendMessage(
+			`You mute ${color(name, COLOR.YELLOW)} for ${length}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: target") {
+			context.actor.sendMessage("Mute whom?", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		if (result.error === "Could not parse argument: target") {
+			context.actor.sendMessage(
+				"That player is not online.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (result.error === "Missing required argument: duration") {
+			context.actor.sendMessage(
+				"For how long? Try something like 30m, 2h or 7d.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
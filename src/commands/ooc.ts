@@ -1,7 +1,7 @@
 /**
  * Out-of-character (OOC) chat command.
  *
- * Broadcasts a message to all connected players in the game, prefixed with "OOC:".
+ * Broadcasts a message to all players subscribed to the OOC channel.
  * Used for meta-game communication that isn't part of the in-character roleplay.
  *
  * @example
@@ -19,10 +19,9 @@
 
 import { CommandContext, ParseResult } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
-import { Mob } from "../core/dungeon.js";
 import { CommandObject } from "../package/commands.js";
-import { forEachCharacter } from "../game.js";
-import { CHANNEL, formatChannelMessage } from "../core/channel.js";
+import { CHANNEL } from "../core/channel.js";
+import { executeChannelTalk } from "./_channel.js";
 
 export const command = {
 	pattern: "ooc~ <message:text>",
@@ -30,32 +29,10 @@ export const command = {
 	/**
 	 * Execute the OOC command.
 	 */
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const message = args.get("message") as string;
-		const { actor } = context;
-		const character = actor.character;
-
-		if (!character) {
-			actor.sendMessage(
-				"Only players can use channels.",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
-			return;
-		}
-
-		// Check if the character is in the OOC channel
-		if (!character.isInChannel(CHANNEL.OOC)) {
-			actor.sendMessage(
-				"You are not subscribed to the OOC channel.",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
-			return;
-		}
-
-		// Send to all characters in the OOC channel
-		forEachCharacter((recipient) => {
-			recipient.sendChat(character, message, CHANNEL.OOC);
-		});
+		executeChannelTalk(context, CHANNEL.OOC, message);
 	},
 
 	onError(context: CommandContext, result: ParseResult): void {
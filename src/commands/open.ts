@@ -0,0 +1,59 @@
+/**
+ * Open command for opening doors and gates on room exits.
+ *
+ * @example
+ * ```
+ * open north
+ * open n
+ * ```
+ *
+ * **Pattern:** `open~ <direction:direction>`
+ * @module commands/open
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { DOOR_STATE } from "../core/dungeon.js";
+import { DIRECTION } from "../direction.js";
+import { CommandObject } from "../package/commands.js";
+import { changeDoorState, findDoor } from "./_door.js";
+
+export const command = {
+	pattern: "open~ <direction:direction>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		const direction = args.get("direction") as DIRECTION | undefined;
+		const found = findDoor(context, direction);
+		if (!found) return;
+		const { room, door } = found;
+
+		if (door.state === DOOR_STATE.OPEN) {
+			actor.sendMessage(
+				`The ${door.name} is already open.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (door.state === DOOR_STATE.LOCKED) {
+			actor.sendMessage(
+				`The ${door.name} is locked.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		changeDoorState(context, room, direction!, DOOR_STATE.OPEN, {
+			user: "open",
+			room: "opens",
+			other: "swings open",
+		});
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			"Open what? Try 'open <direction>'.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
@@ -0,0 +1,86 @@
+/**
+ * Pick command for picking the lock of a locked door without its key.
+ *
+ * Only doors with a pick difficulty can be picked; the chance of success is
+ * 100 minus the difficulty. Picking a lock leaves the door closed, and each
+ * attempt has a short cooldown.
+ *
+ * @example
+ * ```
+ * pick north
+ * pick n
+ * ```
+ *
+ * **Pattern:** `pick~ <direction:direction>`
+ * @module commands/pick
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { DOOR_STATE } from "../core/dungeon.js";
+import { DIRECTION } from "../direction.js";
+import { CommandObject } from "../package/commands.js";
+import { act } from "../act.js";
+import { changeDoorState, findDoor, getPickChance } from "./_door.js";
+
+const COOLDOWN_MS = 3000;
+
+export const command = {
+	pattern: "pick~ <direction:direction>",
+	cooldown(context: CommandContext, args: Map<string, any>) {
+		const direction = args.get("direction") as DIRECTION | undefined;
+		if (direction === undefined) return 0;
+		const door = context.room?.getDoor(direction);
+		if (!door || door.state !== DOOR_STATE.LOCKED) return 0;
+		return door.pickDifficulty === undefined ? 0 : COOLDOWN_MS;
+	},
+
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		const direction = args.get("direction") as DIRECTION | undefined;
+		const found = findDoor(context, direction);
+		if (!found) return;
+		const { room, door } = found;
+
+		if (door.state !== DOOR_STATE.LOCKED) {
+			actor.sendMessage(
+				`The ${door.name} isn't locked.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (door.pickDifficulty === undefined) {
+			actor.sendMessage(
+				`The lock on the ${door.name} can't be picked.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (Math.random() * 100 >= getPickChance(door)) {
+			act(
+				{
+					user: `You fail to pick the lock on the ${door.name}.`,
+					room: `{User} fiddles with the lock on the ${door.name}.`,
+				},
+				{ user: actor, room },
+				{ messageGroup: MESSAGE_GROUP.ACTION }
+			);
+			return;
+		}
+
+		changeDoorState(context, room, direction!, DOOR_STATE.CLOSED, {
+			user: "pick the lock on",
+			room: "picks the lock on",
+			other: "clicks as its lock gives way",
+		});
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			"Pick what? Try 'pick <direction>'.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
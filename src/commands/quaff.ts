@@ -0,0 +1,33 @@
+/**
+ * Quaff command for drinking potions.
+ *
+ * Drinks a potion from the actor's inventory, applying its restores and
+ * effects. Potions sharing a cooldown group can't be used back to back.
+ *
+ * @example
+ * ```
+ * quaff healing
+ * quaff 2.potion
+ * ```
+ *
+ * **Aliases:** `drink`
+ * **Pattern:** `quaff~ <item:item@inventory>`
+ * @module commands/quaff
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { Item } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { consume, onConsumeError } from "./_consume.js";
+
+export const command = {
+	pattern: "quaff~ <item:item@inventory>",
+	aliases: ["drink~ <item:item@inventory>"],
+	execute(context: CommandContext, args: Map<string, any>): void {
+		consume(context, args.get("item") as Item, "potion");
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		onConsumeError(context, result, "quaff");
+	},
+} satisfies CommandObject;
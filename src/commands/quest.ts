@@ -0,0 +1,295 @@
+/**
+ * Quest command for viewing, accepting and abandoning quests.
+ *
+ * Without arguments (or with `list`), shows the quests offered by mobs in the
+ * current room. `accept` takes a quest offered here, `abandon` drops an active
+ * quest, `progress` shows objective progress for active quests and `turnin`
+ * hands finished quests back to a mob here offering them.
+ *
+ * @example
+ * ```
+ * quest                       // List quests offered in this room
+ * quest list                  // Same as above
+ * quest accept zombie         // Accept a quest offered here by name or id
+ * quest abandon zombie        // Abandon an active quest
+ * quest progress              // Show progress on all active quests
+ * quest progress zombie       // Show progress on one active quest
+ * quest turnin                // Turn in every finished quest offered here
+ * quest turnin zombie         // Turn in one finished quest
+ * ```
+ *
+ * **Pattern:** `quest~ <action:word?> <quest:text?>`
+ * @module commands/quest
+ */
+
+import { CommandContext } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { QuestDefinition } from "../core/quest.js";
+import { getQuestById } from "../registry/quest.js";
+import {
+	abandonQuest,
+	acceptQuest,
+	completeQuest,
+	describeQuestObjective,
+	getQuestAcceptError,
+	getQuestObjectiveProgress,
+	getQuestOffers,
+	getQuestTurnInGiver,
+	isQuestComplete,
+} from "../quest.js";
+
+/**
+ * Find a quest by exact id, or by id/name prefix.
+ */
+function matchQuest<T extends { quest: QuestDefinition }>(
+	entries: T[],
+	query: string
+): T | undefined {
+	const lower = query.toLowerCase();
+	return (
+		entries.find((entry) => entry.quest.id.toLowerCase() === lower) ??
+		entries.find(
+			(entry) =>
+				entry.quest.id.toLowerCase().startsWith(lower) ||
+				entry.quest.name.toLowerCase().startsWith(lower)
+		)
+	);
+}
+
+function getActiveQuests(character: Character): { quest: QuestDefinition }[] {
+	const result: { quest: QuestDefinition }[] = [];
+	for (const questId of character.quests.active.keys()) {
+		const quest = getQuestById(questId);
+		if (quest) result.push({ quest });
+	}
+	return result;
+}
+
+function formatRewards(quest: QuestDefinition): string | undefined {
+	const parts: string[] = [];
+	if (quest.rewards.experience) {
+		parts.push(`${quest.rewards.experience} experience`);
+	}
+	if (quest.rewards.gold) parts.push(`${quest.rewards.gold} gold`);
+	const itemCount = quest.rewards.items?.length ?? 0;
+	if (itemCount > 0) parts.push(`${itemCount} item${itemCount !== 1 ? "s" : ""}`);
+	return parts.length > 0 ? parts.join(", ") : undefined;
+}
+
+function showOffers(context: CommandContext, character: Character): void {
+	const { actor, room } = context;
+	const offers = room ? getQuestOffers(room) : [];
+	if (offers.length === 0) {
+		actor.sendMessage(
+			"Nobody here has any quests for you.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const lines: string[] = [color("=== Quests Offered ===", COLOR.YELLOW)];
+	for (const { quest, giver } of offers) {
+		const error = getQuestAcceptError(character, quest);
+		const status = character.quests.active.has(quest.id)
+			? color("[active]", COLOR.CYAN)
+			: error
+			? color("[unavailable]", COLOR.SILVER)
+			: color("[available]", COLOR.LIME);
+		lines.push(
+			` ${color(quest.name, COLOR.WHITE)} (${quest.id}) ${status} - offered by ${
+				giver.display
+			}`
+		);
+		if (quest.description) lines.push(`   ${quest.description}`);
+		const rewards = formatRewards(quest);
+		if (rewards) lines.push(`   Rewards: ${rewards}`);
+	}
+	lines.push("", "Usage: quest accept <quest>");
+	actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
+
+function showProgress(
+	context: CommandContext,
+	character: Character,
+	query: string | undefined
+): void {
+	const { actor } = context;
+	let active = getActiveQuests(character);
+	if (query) {
+		const match = matchQuest(active, query);
+		if (!match) {
+			actor.sendMessage(
+				"You are not on that quest.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+		active = [match];
+	}
+
+	if (active.length === 0) {
+		actor.sendMessage(
+			"You have no active quests.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	const lines: string[] = [color("=== Active Quests ===", COLOR.YELLOW)];
+	for (const { quest } of active) {
+		const progress = character.quests.active.get(quest.id)!;
+		lines.push(` ${color(quest.name, COLOR.WHITE)} (${quest.id})`);
+		quest.objectives.forEach((objective, index) => {
+			const current = getQuestObjectiveProgress(
+				actor,
+				progress,
+				index,
+				objective
+			);
+			const done = current >= objective.count;
+			const mark = done ? color("[x]", COLOR.LIME) : color("[ ]", COLOR.SILVER);
+			lines.push(
+				`   ${mark} ${describeQuestObjective(objective)} (${current}/${
+					objective.count
+				})`
+			);
+		});
+	}
+	actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+}
+
+function turnIn(
+	context: CommandContext,
+	character: Character,
+	query: string | undefined
+): void {
+	const { actor, room } = context;
+	let active = getActiveQuests(character);
+	if (query) {
+		const match = matchQuest(active, query);
+		if (!match) {
+			actor.sendMessage(
+				"You are not on that quest.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+		active = [match];
+	}
+
+	const here = room
+		? active.filter(({ quest }) => getQuestTurnInGiver(room, quest.id))
+		: [];
+	if (here.length === 0) {
+		actor.sendMessage(
+			query
+				? "Nobody here will take that quest back."
+				: "Nobody here is waiting on any of your quests.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	for (const { quest } of here) {
+		const progress = character.quests.active.get(quest.id)!;
+		if (!isQuestComplete(actor, quest, progress)) {
+			actor.sendMessage(
+				`You haven't finished ${color(quest.name, COLOR.YELLOW)} yet.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			continue;
+		}
+		completeQuest(character, quest.id);
+	}
+}
+
+export const command = {
+	pattern: "quest~ <action:word?> <quest:text?>",
+	aliases: ["quests~ <action:word?> <quest:text?>"],
+	allowWhileStunned: true,
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+		const character = actor.character;
+		const action = (args.get("action") as string | undefined)?.toLowerCase();
+		const query = args.get("quest") as string | undefined;
+
+		if (!character) {
+			actor.sendMessage(
+				"Only players can take on quests.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!action || action === "list") {
+			showOffers(context, character);
+			return;
+		}
+
+		if (action === "progress" || action === "log") {
+			showProgress(context, character, query);
+			return;
+		}
+
+		if (action === "accept") {
+			if (!query) {
+				actor.sendMessage(
+					"Which quest do you want to accept?",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			const offer = matchQuest(room ? getQuestOffers(room) : [], query);
+			if (!offer) {
+				actor.sendMessage(
+					"Nobody here is offering that quest.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			const error = getQuestAcceptError(character, offer.quest);
+			if (error) {
+				actor.sendMessage(error, MESSAGE_GROUP.COMMAND_RESPONSE);
+				return;
+			}
+			acceptQuest(character, offer.quest);
+			return;
+		}
+
+		if (action === "turnin" || action === "complete") {
+			turnIn(context, character, query);
+			return;
+		}
+
+		if (action === "abandon") {
+			if (!query) {
+				actor.sendMessage(
+					"Which quest do you want to abandon?",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			const match = matchQuest(getActiveQuests(character), query);
+			if (!match || !abandonQuest(character, match.quest.id)) {
+				actor.sendMessage(
+					"You are not on that quest.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return;
+			}
+			actor.sendMessage(
+				`You abandon the quest ${color(match.quest.name, COLOR.YELLOW)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		actor.sendMessage(
+			"Usage: quest [list|accept <quest>|abandon <quest>|progress [quest]|turnin [quest]]",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
@@ -4,6 +4,7 @@ import { LINEBREAK } from "../core/telnet.js";
 
 export const command = {
 	pattern: "queue",
+	allowWhileStunned: true,
 	execute(context): void {
 		const actor = context.actor;
 		const character = actor.character;
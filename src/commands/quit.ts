@@ -18,11 +18,12 @@ import { CommandContext } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
 import { CommandObject } from "../package/commands.js";
 import { saveCharacter } from "../package/character.js";
-import logger from "../logger.js";
+import { logoutCharacter } from "../game.js";
 
 export const command = {
 	pattern: "quit~",
 	aliases: ["savequit"],
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 		const character = actor.character;
@@ -51,14 +52,11 @@ export const command = {
 			MESSAGE_GROUP.COMMAND_RESPONSE
 		);
 
-		// Close the client connection (this will trigger handleDisconnection
-		// which calls endPlayerSession and cleans up properly)
-		const client = character.session?.client;
-		if (client) {
-			// Small delay to ensure the save message is sent before disconnecting
-			setTimeout(() => {
-				client.close();
-			}, 100);
-		}
+		// End the session directly; just closing the client would leave the
+		// character link-dead in the world
+		// Small delay to ensure the save message is sent before disconnecting
+		setTimeout(() => {
+			void logoutCharacter(character);
+		}, 100);
 	},
 } satisfies CommandObject;
@@ -0,0 +1,31 @@
+/**
+ * Recite command for reading scrolls aloud.
+ *
+ * Recites a scroll from the actor's inventory, applying its restores and
+ * effects. Most scrolls crumble after a single use.
+ *
+ * @example
+ * ```
+ * recite scroll
+ * recite "scroll of warding"
+ * ```
+ *
+ * **Pattern:** `recite~ <item:item@inventory>`
+ * @module commands/recite
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { Item } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { consume, onConsumeError } from "./_consume.js";
+
+export const command = {
+	pattern: "recite~ <item:item@inventory>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		consume(context, args.get("item") as Item, "scroll");
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		onConsumeError(context, result, "recite");
+	},
+} satisfies CommandObject;
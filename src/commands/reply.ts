@@ -24,6 +24,7 @@ import { getCharacterById } from "../package/character.js";
 
 export const command = {
 	pattern: "reply~ <message:text>",
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const message = args.get("message") as string;
 		const { actor } = context;
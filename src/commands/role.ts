@@ -0,0 +1,135 @@
+/**
+ * Role command (requires the `roles` permission).
+ *
+ * Shows or changes a character's staff role. Staff can only manage characters
+ * ranked below them and hand out roles below their own; owners can assign any
+ * role. With no arguments, lists the roles and what each one grants.
+ *
+ * @example
+ * ```
+ * role                    // List roles and their permissions
+ * role Alice              // Show Alice's role
+ * role Alice moderator    // Make Alice a moderator
+ * role Alice player       // Take Alice's staff role away
+ * ```
+ *
+ * **Pattern:** `role <target:character?> <role:word?>`
+ * @module commands/role
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { saveCharacter } from "../package/character.js";
+import {
+	canAssignRole,
+	parseRole,
+	PERMISSION,
+	ROLE,
+	ROLE_PERMISSIONS,
+	ROLES,
+} from "../core/role.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import logger from "../logger.js";
+
+export const command = {
+	pattern: "role <target:character?> <role:word?>",
+	permission: PERMISSION.ROLES,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const target = args.get("target") as Character | undefined;
+		const roleName = args.get("role") as string | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.ROLES)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		// No target: list the roles
+		if (!target) {
+			const lines: string[] = [color("Roles:", COLOR.YELLOW)];
+			for (const role of ROLES) {
+				const permissions = Array.from(ROLE_PERMISSIONS[role]);
+				lines.push(
+					`  ${color(role.padEnd(10), COLOR.CYAN)} ${
+						permissions.length > 0 ? permissions.join(", ") : "-"
+					}`
+				);
+			}
+			actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		const name = target.credentials.username;
+		const currentRole = target.getRole();
+
+		// Target only: show their role
+		if (!roleName) {
+			actor.sendMessage(
+				`${color(name, COLOR.YELLOW)} is ${color(currentRole, COLOR.CYAN)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const role = parseRole(roleName);
+		if (!role) {
+			rejectCommand(
+				context,
+				`'${roleName}' is not a role. Roles are: ${ROLES.join(", ")}.`
+			);
+			return;
+		}
+
+		if (!canAssignRole(character.getRole(), currentRole, role)) {
+			rejectCommand(
+				context,
+				"You can only give roles below your own to characters below you."
+			);
+			return;
+		}
+
+		target.credentials.role = role === ROLE.PLAYER ? undefined : role;
+		await saveCharacter(target);
+		logger.info(`${character} set ${name}'s role to ${role}`);
+
+		// account-wide admin rights still apply on top of the character's role
+		const effectiveRole = target.getRole();
+		if (effectiveRole !== role) {
+			actor.sendMessage(
+				`${color(name, COLOR.YELLOW)}'s account still makes them ${color(
+					effectiveRole,
+					COLOR.CYAN
+				)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		}
+
+		if (target !== character) {
+			target.sendMessage(
+				`Your role has been changed to ${color(role, COLOR.CYAN)}.`,
+				MESSAGE_GROUP.SYSTEM
+			);
+		}
+		actor.sendMessage(
+			`${color(name, COLOR.YELLOW)} is now ${color(role, COLOR.CYAN)}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Could not parse argument: target") {
+			context.actor.sendMessage(
+				"That player is not online.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
@@ -21,6 +21,7 @@ import logger from "../logger.js";
 
 export const command = {
 	pattern: "save~",
+	allowWhileStunned: true,
 	async execute(context: CommandContext): Promise<void> {
 		const { actor } = context;
 		const character = actor.character;
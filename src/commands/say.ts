@@ -25,6 +25,7 @@ import { CHANNEL } from "../core/channel.js";
 export const command = {
 	pattern: "say~ <message:text>",
 	aliases: ["'<message:text>"],
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const message = args.get("message") as string;
 		const { actor, room } = context;
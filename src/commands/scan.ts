@@ -24,6 +24,7 @@ import { DIRECTION, dir2text } from "../direction.js";
 
 export const command = {
 	pattern: "scan~",
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor, room } = context;
 
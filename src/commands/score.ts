@@ -64,6 +64,7 @@ function combineHorizontalBoxes(options: {
 export const command = {
 	pattern: "score~",
 	aliases: ["info~", "me~"],
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 		const character = actor.character;
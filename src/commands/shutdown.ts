@@ -1,18 +1,20 @@
 /**
  * Shutdown command (admin only).
  *
- * Gracefully shuts down the game server. This command is restricted to admin users only.
+ * Gracefully shuts down the game server. This command is restricted to roles
+ * with the `shutdown` permission (admins and owners).
  *
  * @module commands/shutdown
  */
 
-import { CommandContext } from "../core/command.js";
+import { CommandContext, rejectCommand } from "../core/command.js";
 import { MESSAGE_GROUP } from "../core/character.js";
 import { getStopGameFunction } from "../game.js";
+import { PERMISSION } from "../core/role.js";
 
 export const command = {
 	pattern: "shutdown~",
-	adminOnly: true,
+	permission: PERMISSION.SHUTDOWN,
 	/**
 	 * Shutdown the game server gracefully.
 	 */
@@ -20,21 +22,15 @@ export const command = {
 		const { actor } = context;
 		const character = actor.character;
 
-		// Double-check admin status (shouldn't be needed due to adminOnly flag, but safety check)
-		if (!character || !character.isAdmin()) {
-			actor.sendMessage(
-				"You do not have permission to use this command.",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.SHUTDOWN)) {
+			rejectCommand(context, "You do not have permission to use this command.");
 			return;
 		}
 
 		const stopGame = getStopGameFunction();
 		if (!stopGame) {
-			actor.sendMessage(
-				"Shutdown function not available.",
-				MESSAGE_GROUP.COMMAND_RESPONSE
-			);
+			rejectCommand(context, "Shutdown function not available.");
 			return;
 		}
 
@@ -0,0 +1,46 @@
+/**
+ * Speedwalk command for walking a path of directions.
+ *
+ * Takes direction abbreviations, each optionally preceded by a repeat count,
+ * and walks them one step at a time. Like `travel`, the walk stops if a step
+ * is blocked, if you are drawn into combat, or if you `cancel` the next step.
+ *
+ * @example
+ * ```
+ * speedwalk 3n2e
+ * speedwalk n ne 2u
+ * ```
+ *
+ * **Pattern:** `speedwalk~ <path:text>`
+ * @module commands/speedwalk
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { MAX_SPEEDWALK_STEPS, parseSpeedwalk, startWalk } from "./_travel.js";
+
+export const command = {
+	pattern: "speedwalk~ <path:text>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const path = args.get("path") as string;
+		const directions = parseSpeedwalk(path);
+		if (!directions) {
+			context.actor.sendMessage(
+				`Invalid path '${path}'. Use direction abbreviations with optional counts, like 3n2e (at most ${MAX_SPEEDWALK_STEPS} steps).`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+		startWalk(context, directions);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error?.includes("path")) {
+			context.actor.sendMessage(
+				"Where do you want to walk? (e.g. speedwalk 3n2e)",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+		}
+	},
+} satisfies CommandObject;
@@ -0,0 +1,205 @@
+import { test, suite, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { createDoor, Dungeon, Mob, Room } from "../core/dungeon.js";
+import { Character } from "../core/character.js";
+import { CommandContext } from "../core/command.js";
+import { Job, Race } from "../core/archetype.js";
+import { ROLE } from "../core/role.js";
+import { DIRECTION } from "../direction.js";
+import { registerDungeonInstance } from "../package/dungeon.js";
+import { clearActions } from "../registry/command.js";
+import {
+	MAX_SPEEDWALK_STEPS,
+	getTravelDestinations,
+	parseSpeedwalk,
+	resolveTravelDestination,
+} from "./_travel.js";
+import { command as SPEEDWALK } from "./speedwalk.js";
+import { command as TRAVEL } from "./travel.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+/** Matches the step cooldown in _travel.ts */
+const STEP_MS = 500;
+
+let dungeonCount = 0;
+let characterCount = 0;
+
+suite("travel", () => {
+	suite("parseSpeedwalk", () => {
+		test("expands repeat counts", () => {
+			assert.deepStrictEqual(parseSpeedwalk("3n2e"), [
+				DIRECTION.NORTH,
+				DIRECTION.NORTH,
+				DIRECTION.NORTH,
+				DIRECTION.EAST,
+				DIRECTION.EAST,
+			]);
+		});
+
+		test("accepts diagonals, vertical steps and separators", () => {
+			assert.deepStrictEqual(parseSpeedwalk("n ne, 2u"), [
+				DIRECTION.NORTH,
+				DIRECTION.NORTHEAST,
+				DIRECTION.UP,
+				DIRECTION.UP,
+			]);
+		});
+
+		test("rejects invalid paths", () => {
+			assert.strictEqual(parseSpeedwalk(""), undefined);
+			assert.strictEqual(parseSpeedwalk("3x"), undefined);
+			assert.strictEqual(parseSpeedwalk("0n"), undefined);
+			assert.strictEqual(
+				parseSpeedwalk(`${MAX_SPEEDWALK_STEPS + 1}n`),
+				undefined
+			);
+		});
+	});
+
+	suite("walking", () => {
+		let dungeon: Dungeon;
+		let actor: Mob;
+		let character: Character;
+
+		function roomAt(x: number): Room {
+			return dungeon.getRoom({ x, y: 0, z: 0 }) as Room;
+		}
+
+		function contextFor(room: Room = actor.location as Room): CommandContext {
+			return { actor, room };
+		}
+
+		beforeEach(() => {
+			mock.timers.enable({ apis: ["setTimeout"] });
+			dungeon = Dungeon.generateEmptyDungeon({
+				id: `travel-test-${dungeonCount++}`,
+				dimensions: { width: 4, height: 1, layers: 1 },
+			});
+			registerDungeonInstance(dungeon);
+			actor = new Mob({
+				display: "Walker",
+				keywords: "walker",
+				race: testRace,
+				job: testJob,
+			});
+			character = new Character({
+				credentials: {
+					username: `walker-${characterCount}`,
+					characterId: characterCount++,
+				},
+				mob: actor,
+			});
+			roomAt(0).add(actor);
+		});
+
+		afterEach(() => {
+			clearActions(actor);
+			mock.timers.reset();
+		});
+
+		test("records every room entered as visited", () => {
+			actor.step(DIRECTION.EAST);
+			actor.step(DIRECTION.EAST);
+
+			assert.deepStrictEqual(Array.from(character.visited), [
+				roomAt(1).getRoomRef(),
+				roomAt(2).getRoomRef(),
+			]);
+		});
+
+		test("speedwalk takes one step per cooldown", () => {
+			SPEEDWALK.execute(contextFor(), new Map([["path", "3e"]]));
+			assert.strictEqual(actor.location, roomAt(1));
+
+			mock.timers.tick(STEP_MS);
+			assert.strictEqual(actor.location, roomAt(2));
+
+			mock.timers.tick(STEP_MS);
+			assert.strictEqual(actor.location, roomAt(3));
+		});
+
+		test("a closed door stops the walk", () => {
+			roomAt(1).setDoor(
+				DIRECTION.EAST,
+				createDoor({ name: "gate", state: "closed" })
+			);
+
+			SPEEDWALK.execute(contextFor(), new Map([["path", "3e"]]));
+			mock.timers.tick(STEP_MS * 3);
+
+			assert.strictEqual(actor.location, roomAt(1));
+		});
+
+		test("cancelling the queued step stops the walk", () => {
+			SPEEDWALK.execute(contextFor(), new Map([["path", "3e"]]));
+			character.actionState!.queue.length = 0;
+			mock.timers.tick(STEP_MS * 3);
+
+			assert.strictEqual(actor.location, roomAt(1));
+		});
+
+		test("visited areas lead back to the first room entered", () => {
+			actor.step(DIRECTION.EAST);
+			actor.step(DIRECTION.EAST);
+
+			const area = getTravelDestinations(actor).find(
+				(destination) => destination.dungeonId === dungeon.id
+			);
+			assert.strictEqual(area?.room, roomAt(1));
+		});
+
+		test("visited rooms can be named directly", () => {
+			roomAt(2).display = "Quiet Chapel";
+			actor.step(DIRECTION.EAST);
+			actor.step(DIRECTION.EAST);
+			actor.step(DIRECTION.EAST);
+
+			const destination = resolveTravelDestination(actor, "quiet");
+			assert.strictEqual(destination?.room, roomAt(2));
+		});
+
+		test("room references need the build permission", () => {
+			const ref = roomAt(3).getRoomRef()!;
+			assert.strictEqual(resolveTravelDestination(actor, ref), undefined);
+
+			character.credentials.role = ROLE.BUILDER;
+			assert.strictEqual(resolveTravelDestination(actor, ref)?.room, roomAt(3));
+		});
+
+		test("travel walks to a visited room", () => {
+			roomAt(3).display = "Bell Tower";
+			actor.step(DIRECTION.EAST);
+			actor.step(DIRECTION.EAST);
+			actor.step(DIRECTION.EAST);
+			roomAt(0).add(actor);
+
+			TRAVEL.execute(contextFor(), new Map([["destination", "bell"]]));
+			mock.timers.tick(STEP_MS * 3);
+
+			assert.strictEqual(actor.location, roomAt(3));
+		});
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Travel command for walking to a known destination.
+ *
+ * Finds a path to a landmark or a place you have visited and walks it one
+ * step at a time. Travel stops if a step is blocked, if you are drawn into
+ * combat, or if you `cancel` the next step. Builders may also travel to any
+ * room reference.
+ *
+ * @example
+ * ```
+ * travel
+ * travel recall
+ * travel tower
+ * travel @tower{0,0,0}
+ * ```
+ *
+ * **Pattern:** `travel~ <destination:text?>`
+ * @module commands/travel
+ */
+
+import { CommandContext } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+import { LINEBREAK } from "../core/telnet.js";
+import { findDirectionsBetweenRooms } from "../pathfinding.js";
+import {
+	getTravelDestinations,
+	resolveTravelDestination,
+	startWalk,
+} from "./_travel.js";
+
+export const command = {
+	pattern: "travel~ <destination:text?>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor, room } = context;
+		const name = args.get("destination") as string | undefined;
+
+		if (!name) {
+			const lines = [color("You can travel to:", COLOR.YELLOW)];
+			for (const { label } of getTravelDestinations(actor)) {
+				lines.push(`  ${color(label, COLOR.CYAN)}`);
+			}
+			actor.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		if (!room) {
+			actor.sendMessage(
+				"You are not in a room.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const destination = resolveTravelDestination(actor, name);
+		if (!destination) {
+			actor.sendMessage(
+				`You don't know how to get to '${name}'.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (destination.room === room) {
+			actor.sendMessage(
+				`You are already at ${destination.label}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		const directions = findDirectionsBetweenRooms(room, destination.room);
+		if (!directions || directions.length === 0) {
+			actor.sendMessage(
+				`You can't find a way to ${destination.label} from here.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		actor.sendMessage(
+			`You set off for ${destination.label}. (${directions.length} step${
+				directions.length === 1 ? "" : "s"
+			})`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		startWalk(context, directions, destination.label);
+	},
+} satisfies CommandObject;
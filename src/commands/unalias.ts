@@ -0,0 +1,54 @@
+/**
+ * Unalias command for removing command aliases.
+ *
+ * @example
+ * ```
+ * unalias mc              // Remove the 'mc' alias
+ * ```
+ *
+ * **Pattern:** `unalias~ <name:word>`
+ * @module commands/unalias
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { color, COLOR } from "../core/color.js";
+
+export const command = {
+	pattern: "unalias~ <name:word>",
+	allowWhileStunned: true,
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const name = args.get("name") as string;
+		const { actor } = context;
+		const character = actor.character;
+
+		if (!character) {
+			actor.sendMessage(
+				"Only players can remove aliases.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!character.removeAlias(name)) {
+			actor.sendMessage(
+				`You have no alias named '${name.toLowerCase()}'.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		actor.sendMessage(
+			`Removed alias ${color(name.toLowerCase(), COLOR.CYAN)}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			"Which alias do you want to remove?",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
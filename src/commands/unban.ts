@@ -0,0 +1,108 @@
+/**
+ * Unban command (requires the `ban` permission).
+ *
+ * Lifts a ban placed with `ban` or `ipban`. Give a CIDR block or address to
+ * lift an IP ban, or a character or account name to lift an account ban.
+ * Account bans also clear the account's permanent banned flag, if set.
+ *
+ * @example
+ * ```
+ * unban Alice
+ * unban 203.0.113.0/24
+ * ```
+ *
+ * **Pattern:** `unban <target:word>`
+ * @module commands/unban
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import {
+	loadAccount,
+	resolveAccountName,
+	saveAccount,
+} from "../package/account.js";
+import { saveBans } from "../package/ban.js";
+import { BAN_TYPE, parseCidr } from "../core/ban.js";
+import { removeBan } from "../registry/ban.js";
+import { color, COLOR } from "../core/color.js";
+import logger from "../logger.js";
+import { PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "unban <target:word>",
+	permission: PERMISSION.BAN,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const target = args.get("target") as string;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.BAN)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		// IP bans
+		const cidr = parseCidr(target);
+		if (cidr) {
+			const block = `${cidr.address}/${cidr.prefix}`;
+			if (!removeBan(BAN_TYPE.IP, block)) {
+				rejectCommand(context, `${color(block, COLOR.YELLOW)} is not banned.`);
+				return;
+			}
+			await saveBans();
+			logger.info(`${character} lifted the ban on ${block}`);
+			actor.sendMessage(
+				`You lift the ban on ${color(block, COLOR.YELLOW)}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		// Account bans
+		const accountName = await resolveAccountName(target);
+		if (!accountName) {
+			rejectCommand(
+				context,
+				`There is no player or account named '${target}'.`
+			);
+			return;
+		}
+
+		let lifted = removeBan(BAN_TYPE.ACCOUNT, accountName);
+		if (lifted) await saveBans();
+
+		const account = await loadAccount(accountName);
+		if (account?.isBanned) {
+			account.isBanned = false;
+			await saveAccount(account);
+			lifted = true;
+		}
+
+		if (!lifted) {
+			rejectCommand(
+				context,
+				`The account ${color(accountName, COLOR.YELLOW)} is not banned.`
+			);
+			return;
+		}
+
+		logger.info(`${character} lifted the ban on account ${accountName}`);
+		actor.sendMessage(
+			`You lift the ban on the account ${color(accountName, COLOR.YELLOW)}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: target") {
+			context.actor.sendMessage("Unban whom?", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+	},
+} satisfies CommandObject;
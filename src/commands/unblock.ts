@@ -23,6 +23,7 @@ import { color, COLOR } from "../core/color.js";
 export const command = {
 	pattern: "unblock <username:word>",
 	aliases: ["unignore <username:word>"],
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const username = args.get("username") as string;
 		const { actor } = context;
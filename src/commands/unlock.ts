@@ -0,0 +1,62 @@
+/**
+ * Unlock command for unlocking locked doors with the matching key.
+ *
+ * The actor must be carrying an item created from the door's key template.
+ * Unlocking leaves the door closed; use `open` afterwards.
+ *
+ * @example
+ * ```
+ * unlock north
+ * unlock n
+ * ```
+ *
+ * **Pattern:** `unlock~ <direction:direction>`
+ * @module commands/unlock
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { MESSAGE_GROUP } from "../core/character.js";
+import { DOOR_STATE } from "../core/dungeon.js";
+import { DIRECTION } from "../direction.js";
+import { CommandObject } from "../package/commands.js";
+import { changeDoorState, findDoor, findKey } from "./_door.js";
+
+export const command = {
+	pattern: "unlock~ <direction:direction>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		const direction = args.get("direction") as DIRECTION | undefined;
+		const found = findDoor(context, direction);
+		if (!found) return;
+		const { room, door } = found;
+
+		if (door.state !== DOOR_STATE.LOCKED) {
+			actor.sendMessage(
+				`The ${door.name} isn't locked.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		if (!findKey(actor, door)) {
+			actor.sendMessage(
+				`You don't have the key for the ${door.name}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+
+		changeDoorState(context, room, direction!, DOOR_STATE.CLOSED, {
+			user: "unlock",
+			room: "unlocks",
+			other: "clicks as its lock is turned",
+		});
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		context.actor.sendMessage(
+			"Unlock what? Try 'unlock <direction>'.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+} satisfies CommandObject;
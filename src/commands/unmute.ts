@@ -0,0 +1,79 @@
+/**
+ * Unmute command (requires the `mute` permission).
+ *
+ * Lifts a mute placed with `mute` before it wears off.
+ *
+ * @example
+ * ```
+ * unmute Alice
+ * ```
+ *
+ * **Pattern:** `unmute <target:character>`
+ * @module commands/unmute
+ */
+
+import { CommandContext, ParseResult, rejectCommand } from "../core/command.js";
+import { Character, MESSAGE_GROUP } from "../core/character.js";
+import { CommandObject } from "../package/commands.js";
+import { saveCharacter } from "../package/character.js";
+import { color, COLOR } from "../core/color.js";
+import logger from "../logger.js";
+import { PERMISSION } from "../core/role.js";
+
+export const command = {
+	pattern: "unmute <target:character>",
+	permission: PERMISSION.MUTE,
+	async execute(
+		context: CommandContext,
+		args: Map<string, any>
+	): Promise<void> {
+		const target = args.get("target") as Character | undefined;
+		const { actor } = context;
+		const character = actor.character;
+
+		// Double-check permission (shouldn't be needed due to the permission flag, but safety check)
+		if (!character || !character.hasPermission(PERMISSION.MUTE)) {
+			rejectCommand(context, "You do not have permission to use this command.");
+			return;
+		}
+
+		if (!target) {
+			rejectCommand(context, "That player is not online.");
+			return;
+		}
+
+		const name = target.credentials.username;
+		if (!target.isMuted()) {
+			rejectCommand(context, `${color(name, COLOR.YELLOW)} is not muted.`);
+			return;
+		}
+
+		target.credentials.mutedUntil = undefined;
+		await saveCharacter(target);
+		logger.info(`${character} unmuted ${name}`);
+
+		target.sendMessage(
+			"You are no longer muted and may use channels again.",
+			MESSAGE_GROUP.SYSTEM
+		);
+		actor.sendMessage(
+			`You unmute ${color(name, COLOR.YELLOW)}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		if (result.error === "Missing required argument: target") {
+			context.actor.sendMessage("Unmute whom?", MESSAGE_GROUP.COMMAND_RESPONSE);
+			return;
+		}
+
+		if (result.error === "Could not parse argument: target") {
+			context.actor.sendMessage(
+				"That player is not online.",
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return;
+		}
+	},
+} satisfies CommandObject;
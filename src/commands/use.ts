@@ -0,0 +1,31 @@
+/**
+ * Use command for consuming any consumable item.
+ *
+ * Uses a potion, food or scroll from the actor's inventory, exactly as
+ * `quaff`, `eat` or `recite` would.
+ *
+ * @example
+ * ```
+ * use potion
+ * use bread
+ * ```
+ *
+ * **Pattern:** `use~ <item:item@inventory>`
+ * @module commands/use
+ */
+
+import { CommandContext, ParseResult } from "../core/command.js";
+import { Item } from "../core/dungeon.js";
+import { CommandObject } from "../package/commands.js";
+import { consume, onConsumeError } from "./_consume.js";
+
+export const command = {
+	pattern: "use~ <item:item@inventory>",
+	execute(context: CommandContext, args: Map<string, any>): void {
+		consume(context, args.get("item") as Item);
+	},
+
+	onError(context: CommandContext, result: ParseResult): void {
+		onConsumeError(context, result, "use");
+	},
+} satisfies CommandObject;
@@ -26,6 +26,7 @@ export const command = {
 	pattern: "whisper~ <target:character> <message:text>",
 	aliases: ["tell~ <target:character> <message:text>"],
 	priority: PRIORITY.LOW,
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const target = args.get("target") as Character | undefined;
 		const message = args.get("message") as string;
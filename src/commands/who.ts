@@ -36,6 +36,7 @@ import { string } from "mud-ext";
 
 export const command = {
 	pattern: "who~",
+	allowWhileStunned: true,
 	execute(context: CommandContext, args: Map<string, any>): void {
 		const { actor } = context;
 
@@ -45,6 +46,7 @@ export const command = {
 			race: string;
 			jobName: string;
 			level: number;
+			linkDead: boolean;
 		}> = [];
 
 		// Collect all active player names
@@ -56,6 +58,7 @@ export const command = {
 				race: raceName,
 				jobName,
 				level: character.mob?.level ?? 0,
+				linkDead: character.isLinkDead(),
 			});
 		});
 
@@ -72,7 +75,7 @@ export const command = {
 		bodyLines.push(
 			...(players.length === 0
 				? [color("No players currently online.", COLOR.SILVER)]
-				: players.map(({ name, race, jobName, level }) => {
+				: players.map(({ name, race, jobName, level, linkDead }) => {
 						const _level = color(level.toString().padStart(3, "0"), COLOR.CYAN);
 						const _race = color(
 							string.pad(race, 15, string.ALIGN.CENTER),
@@ -83,7 +86,10 @@ export const command = {
 							COLOR.TEAL
 						);
 						const tag = color(`${_level} [${_race}] [${_job}]`, COLOR.GREY);
-						return `${tag} ${color(name, COLOR.LIME)}`;
+						const status = linkDead
+							? ` ${color("(linkdead)", COLOR.GREY)}`
+							: "";
+						return `${tag} ${color(name, COLOR.LIME)}${status}`;
 				  }))
 		);
 
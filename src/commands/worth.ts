@@ -21,6 +21,7 @@ import { formatNumber } from "../utils/number.js";
 
 export const command = {
 	pattern: "worth~",
+	allowWhileStunned: true,
 	execute(context: CommandContext): void {
 		const { actor } = context;
 
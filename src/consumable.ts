@@ -0,0 +1,171 @@
+/**
+ * Consumable item handling.
+ *
+ * Applies a consumable's cleanses, instant restores and effects to the mob
+ * using it, spends a charge (destroying the item when it runs out) and tracks
+ * shared cooldowns per cooldown group. Cooldowns are runtime-only.
+ *
+ * @module consumable
+ */
+
+import { MESSAGE_GROUP } from "./core/character.js";
+import { Consumable, ConsumableType, Mob, Room } from "./core/dungeon.js";
+import { act } from "./act.js";
+import { healMob } from "./combat.js";
+import { getEffectTemplateById } from "./registry/effect.js";
+import logger from "./logger.js";
+
+/**
+ * Verbs used for each consumable type, as [second person, third person].
+ */
+export const CONSUMABLE_VERBS: Record<ConsumableType, [string, string]> = {
+	potion: ["quaff", "quaffs"],
+	food: ["eat", "eats"],
+	scroll: ["recite", "recites"],
+};
+
+/** Maps each mob to its cooldown groups and when they become available. */
+const cooldowns = new WeakMap<Mob, Map<string, number>>();
+
+/**
+ * Get the remaining cooldown for a consumable group.
+ *
+ * @param mob The mob to check
+ * @param group The cooldown group
+ * @returns Remaining cooldown in milliseconds (0 when ready)
+ */
+export function getConsumableCooldown(mob: Mob, group: string): number {
+	const readyAt = cooldowns.get(mob)?.get(group);
+	if (readyAt === undefined) return 0;
+	return Math.max(0, readyAt - Date.now());
+}
+
+/**
+ * Start the cooldown for a consumable group.
+ *
+ * @param mob The mob that used the consumable
+ * @param group The cooldown group
+ * @param seconds Cooldown length in seconds
+ */
+function startConsumableCooldown(
+	mob: Mob,
+	group: string,
+	seconds: number
+): void {
+	let groups = cooldowns.get(mob);
+	if (!groups) {
+		groups = new Map();
+		cooldowns.set(mob, groups);
+	}
+	groups.set(group, Date.now() + seconds * 1000);
+}
+
+/**
+ * Use a consumable.
+ * Sends the use message, applies cleanses, restores and effects, starts the
+ * cooldown and spends a charge. The item is destroyed once it has no charges
+ * left.
+ *
+ * @param mob The mob using the consumable
+ * @param item The consumable being used
+ * @returns true if the consumable was used, false if it is on cooldown
+ */
+export function useConsumable(mob: Mob, item: Consumable): boolean {
+	if (item.cooldownGroup) {
+		const remaining = getConsumableCooldown(mob, item.cooldownGroup);
+		if (remaining > 0) {
+			mob.sendMessage(
+				`You must wait ${Math.ceil(remaining / 1000)} more second${
+					remaining > 1000 ? "s" : ""
+				} before using that.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return false;
+		}
+	}
+
+	const [verb, verbs] = CONSUMABLE_VERBS[item.consumableType];
+	if (mob.location instanceof Room) {
+		act(
+			{
+				user: `You ${verb} ${item.display}.`,
+				room: `{User} ${verbs} ${item.display}.`,
+			},
+			{ user: mob, room: mob.location },
+			{ messageGroup: MESSAGE_GROUP.ACTION }
+		);
+	} else {
+		mob.sendMessage(`You ${verb} ${item.display}.`, MESSAGE_GROUP.ACTION);
+	}
+
+	// Cleanse first so an antidote that also grants an effect keeps it
+	if (item.cleanse.length > 0) {
+		const removed = mob.dispelEffects(item.cleanse);
+		if (removed.length > 0) {
+			mob.sendMessage(
+				`You are cleansed of ${removed
+					.map((effect) => effect.template.name)
+					.join(", ")}.`,
+				MESSAGE_GROUP.INFO
+			);
+		}
+	}
+
+	const { health, mana, exhaustion } = item.restore;
+	if (health) {
+		const healed = healMob(mob, mob, health);
+		if (healed > 0) {
+			mob.sendMessage(
+				`You feel better. (+${healed} health)`,
+				MESSAGE_GROUP.INFO
+			);
+		}
+	}
+	if (mana) {
+		const before = mob.mana;
+		mob.mana += mana;
+		const restored = mob.mana - before;
+		if (restored > 0) {
+			mob.sendMessage(
+				`Your mind clears. (+${restored} mana)`,
+				MESSAGE_GROUP.INFO
+			);
+		}
+	}
+	if (exhaustion) {
+		const before = mob.exhaustion;
+		mob.exhaustion -= exhaustion;
+		const restored = before - mob.exhaustion;
+		if (restored > 0) {
+			mob.sendMessage(
+				`You feel refreshed. (-${restored} exhaustion)`,
+				MESSAGE_GROUP.INFO
+			);
+		}
+	}
+
+	for (const { id, duration } of item.effects) {
+		const template = getEffectTemplateById(id);
+		if (!template) {
+			logger.warn(
+				`Consumable "${
+					item.templateId ?? item.display
+				}" references missing effect "${id}"`
+			);
+			continue;
+		}
+		mob.addEffect(
+			template,
+			mob,
+			duration !== undefined ? { duration } : undefined
+		);
+	}
+
+	if (item.cooldownGroup && item.cooldown > 0) {
+		startConsumableCooldown(mob, item.cooldownGroup, item.cooldown);
+	}
+
+	item.charges--;
+	if (item.charges <= 0) item.destroy();
+	return true;
+}
@@ -7,6 +7,34 @@
  * @module core/ability
  */
 
+/**
+ * Resources spent when an ability is used.
+ * Costs are checked before the ability runs and deducted centrally by
+ * `AbilityCommand` once the ability has actually been used.
+ *
+ * @property mana - Mana spent
+ * @property health - Health spent (can never reduce the user below 1 health)
+ * @property exhaustion - Exhaustion gained
+ */
+export interface AbilityCost {
+	mana?: number;
+	health?: number;
+	exhaustion?: number;
+}
+
+/**
+ * Record of a single use of an ability by a mob.
+ *
+ * @property ability - The ability that was used
+ * @property amount - Number of uses recorded
+ * @property usedAt - Timestamp of the use
+ */
+export interface AbilityUse {
+	ability: Ability;
+	amount: number;
+	usedAt: number;
+}
+
 /**
  * Ability interface representing skills that mobs can learn.
  * Abilities are things that mobs can learn and use in the game.
@@ -16,6 +44,8 @@
  * @property description - Description of what the ability does
  * @property proficiencyCurve - Array of 4 breakpoints [25%, 50%, 75%, 100%] representing uses needed (required)
  * @property proficiencyTable - Pre-generated table mapping uses to proficiency (generated at runtime, do not supply)
+ * @property cost - Resources spent each time the ability is used (optional)
+ * @property castTime - Milliseconds spent casting before the ability takes effect (optional)
  *
  * @example
  * ```typescript
@@ -23,7 +53,8 @@
  *   id: "whirlwind",
  *   name: "Whirlwind",
  *   description: "A spinning attack that hits all nearby enemies.",
- *   proficiencyCurve: [75, 250, 500, 1000]
+ *   proficiencyCurve: [75, 250, 500, 1000],
+ *   cost: { exhaustion: 10 },
  * };
  * // proficiencyTable is automatically generated at runtime
  * ```
@@ -34,6 +65,8 @@ export interface Ability {
 	description: string;
 	proficiencyCurve: [number, number, number, number];
 	proficiencyTable?: Record<number, number>;
+	cost?: AbilityCost;
+	castTime?: number;
 }
 
 /**
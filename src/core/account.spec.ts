@@ -0,0 +1,59 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import { Account } from "./account.js";
+
+suite("account.ts", () => {
+	suite("characters", () => {
+		test("should add characters once, ignoring case", () => {
+			const account = new Account({ username: "alice" });
+			account.addCharacter("Alice");
+			account.addCharacter("alice");
+			account.addCharacter("Alistair");
+			assert.deepStrictEqual(account.getCharacters(), ["Alice", "Alistair"]);
+			assert.strictEqual(account.hasCharacter("ALISTAIR"), true);
+		});
+
+		test("should remove characters", () => {
+			const account = new Account({
+				username: "alice",
+				characters: ["Alice", "Alistair"],
+			});
+			assert.strictEqual(account.removeCharacter("alice"), true);
+			assert.strictEqual(account.removeCharacter("alice"), false);
+			assert.deepStrictEqual(account.getCharacters(), ["Alistair"]);
+		});
+	});
+
+	suite("canPlay", () => {
+		test("should refuse banned and inactive accounts", () => {
+			assert.strictEqual(new Account({ username: "a" }).canPlay(), true);
+			assert.strictEqual(
+				new Account({ username: "a", isBanned: true }).canPlay(),
+				false
+			);
+			assert.strictEqual(
+				new Account({ username: "a", isActive: false }).canPlay(),
+				false
+			);
+		});
+	});
+
+	suite("serialization", () => {
+		test("should round-trip through serialize and deserialize", () => {
+			const account = new Account({
+				username: "alice",
+				passwordHash: "$scrypt$v=1$ln=14,r=8,p=1$salt$key",
+				email: "alice@example.com",
+				createdAt: new Date("2024-01-01T00:00:00.000Z"),
+				isAdmin: true,
+				characters: ["Alice"],
+			});
+			const data = account.serialize({ version: "1.1.0" });
+			assert.strictEqual(data.version, "1.1.0");
+			assert.strictEqual(data.createdAt, "2024-01-01T00:00:00.000Z");
+
+			const restored = Account.deserialize(data);
+			assert.deepStrictEqual(restored.serialize(), account.serialize());
+		});
+	});
+});
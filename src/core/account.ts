@@ -0,0 +1,232 @@
+/**
+ * Core account module.
+ *
+ * An `Account` is the login that owns one or more characters. It holds the
+ * credentials (password hash, email) and the account-wide flags (active,
+ * banned, admin), while each `Character` holds its own progress and settings
+ * and refers back to its account by username.
+ *
+ * Typical usage
+ * ```ts
+ * import { Account } from "./account.js";
+ *
+ * const account = new Account({ username: "alice" });
+ * account.addCharacter("Alice");
+ * account.addCharacter("Alistair");
+ *
+ * // Persist and restore
+ * const data = account.serialize();
+ * const restored = Account.deserialize(data);
+ * ```
+ *
+ * Notes
+ * - Passwords are hashed with `hashPassword()` from `utils/password`; see
+ *   {@link package/account} for the helpers that set and verify them.
+ * - Character names are matched case-insensitively but stored as given.
+ *
+ * @module core/account
+ */
+
+/** How many characters a single account may own. */
+export const MAX_CHARACTERS_PER_ACCOUNT = 5;
+
+/**
+ * Options for creating a new Account instance.
+ * Only `username` is required; other fields get sane defaults.
+ */
+export interface AccountOptions {
+	/** Login name */
+	username: string;
+	/** Hashed password (never store plain text) */
+	passwordHash?: string;
+	/** Email address for account recovery */
+	email?: string;
+	/** Account creation timestamp */
+	createdAt?: Date;
+	/** Last login timestamp */
+	lastLogin?: Date;
+	/** Account is active / may log in */
+	isActive?: boolean;
+	/** Account is banned */
+	isBanned?: boolean;
+	/** Account has administrative privileges */
+	isAdmin?: boolean;
+	/** Usernames of the characters owned by this account */
+	characters?: string[];
+}
+
+/**
+ * Serialized form of an Account. Dates become ISO strings.
+ */
+export interface SerializedAccount {
+	/** Data format version (see the migration system) */
+	version?: string;
+	username: string;
+	passwordHash: string;
+	email?: string;
+	/** Account creation timestamp (ISO string) */
+	createdAt: string;
+	/** Last login timestamp (ISO string) */
+	lastLogin: string;
+	isActive: boolean;
+	isBanned: boolean;
+	isAdmin: boolean;
+	characters: string[];
+}
+
+/**
+ * A player login that owns characters.
+ */
+export class Account {
+	/** Login name */
+	public readonly username: string;
+	/** Hashed password (never store plain text) */
+	public passwordHash: string;
+	/** Email address for account recovery */
+	public email?: string;
+	/** Account creation timestamp */
+	public readonly createdAt: Date;
+	/** Last login timestamp */
+	public lastLogin: Date;
+	/** Account is active / may log in */
+	public isActive: boolean;
+	/** Account is banned */
+	public isBanned: boolean;
+	/** Account has administrative privileges */
+	public isAdmin: boolean;
+	/** Usernames of the characters owned by this account */
+	private readonly characters: string[];
+
+	/**
+	 * Creates a new Account instance.
+	 *
+	 * @param options Account creation options
+	 *
+	 * @example
+	 * ```ts
+	 * const account = new Account({ username: "alice", email: "a@example.com" });
+	 * ```
+	 */
+	constructor(options: AccountOptions) {
+		const now = new Date();
+		this.username = options.username;
+		this.passwordHash = options.passwordHash ?? "";
+		this.email = options.email;
+		this.createdAt = options.createdAt ?? now;
+		this.lastLogin = options.lastLogin ?? now;
+		this.isActive = options.isActive ?? true;
+		this.isBanned = options.isBanned ?? false;
+		this.isAdmin = options.isAdmin ?? false;
+		this.characters = [...(options.characters ?? [])];
+	}
+
+	toString(): string {
+		return this.username;
+	}
+
+	/**
+	 * Get the usernames of the characters owned by this account,
+	 * in the order they were created.
+	 *
+	 * @returns A copy of the character list
+	 */
+	public getCharacters(): string[] {
+		return [...this.characters];
+	}
+
+	/**
+	 * Check whether this account owns a character.
+	 *
+	 * @param username The character's username (case-insensitive)
+	 * @returns true if the character belongs to this account
+	 */
+	public hasCharacter(username: string): boolean {
+		const key = username.toLowerCase();
+		return this.characters.some((name) => name.toLowerCase() === key);
+	}
+
+	/**
+	 * Add a character to this account. Does nothing if it is already listed.
+	 *
+	 * @param username The character's username
+	 */
+	public addCharacter(username: string): void {
+		if (this.hasCharacter(username)) return;
+		this.characters.push(username);
+	}
+
+	/**
+	 * Remove a character from this account.
+	 *
+	 * @param username The character's username (case-insensitive)
+	 * @returns true if the character was listed
+	 */
+	public removeCharacter(username: string): boolean {
+		const key = username.toLowerCase();
+		const index = this.characters.findIndex(
+			(name) => name.toLowerCase() === key
+		);
+		if (index === -1) return false;
+		this.characters.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Updates the last login timestamp.
+	 *
+	 * @param loginTime The login timestamp (defaults to current time)
+	 */
+	public updateLastLogin(loginTime: Date = new Date()): void {
+		this.lastLogin = loginTime;
+	}
+
+	/**
+	 * Checks if the account is active and not banned.
+	 *
+	 * @returns true if the account may log in
+	 */
+	public canPlay(): boolean {
+		return this.isActive && !this.isBanned;
+	}
+
+	/**
+	 * Serializes the account for persistence.
+	 *
+	 * @param options Optional data format version to record
+	 * @returns Serializable account data
+	 */
+	public serialize(options?: { version?: string }): SerializedAccount {
+		return {
+			...(options?.version && { version: options.version }),
+			username: this.username,
+			passwordHash: this.passwordHash,
+			email: this.email,
+			createdAt: this.createdAt.toISOString(),
+			lastLogin: this.lastLogin.toISOString(),
+			isActive: this.isActive,
+			isBanned: this.isBanned,
+			isAdmin: this.isAdmin,
+			characters: [...this.characters],
+		};
+	}
+
+	/**
+	 * Restores an account from serialized data.
+	 *
+	 * @param data Serialized account data
+	 * @returns New Account instance
+	 */
+	public static deserialize(data: SerializedAccount): Account {
+		return new Account({
+			username: data.username,
+			passwordHash: data.passwordHash,
+			email: data.email,
+			createdAt: new Date(data.createdAt),
+			lastLogin: new Date(data.lastLogin),
+			isActive: data.isActive,
+			isBanned: data.isBanned,
+			isAdmin: data.isAdmin,
+			characters: data.characters ?? [],
+		});
+	}
+}
@@ -0,0 +1,99 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	AUDIT_OUTCOME,
+	AuditEntry,
+	deserializeAuditEntry,
+	matchesAuditQuery,
+	parseAuditLine,
+	parseAuditSince,
+	serializeAuditEntry,
+} from "./audit.js";
+
+const ENTRY: AuditEntry = {
+	timestamp: new Date("2024-06-01T12:00:00.000Z"),
+	actor: "Admin",
+	target: "Alice",
+	command: "ban Alice 7d griefing",
+	address: "203.0.113.7",
+	outcome: AUDIT_OUTCOME.SUCCESS,
+};
+
+suite("audit.ts", () => {
+	suite("serializeAuditEntry", () => {
+		test("should round-trip entries", () => {
+			const data = serializeAuditEntry(ENTRY);
+			assert.strictEqual(data.timestamp, "2024-06-01T12:00:00.000Z");
+			assert.deepStrictEqual(deserializeAuditEntry(data), ENTRY);
+		});
+
+		test("should leave out empty optional fields", () => {
+			const data = serializeAuditEntry({
+				timestamp: ENTRY.timestamp,
+				actor: "map-editor",
+				command: "save dungeon tower",
+				outcome: AUDIT_OUTCOME.SUCCESS,
+			});
+			assert.deepStrictEqual(Object.keys(data), [
+				"timestamp",
+				"actor",
+				"command",
+				"outcome",
+			]);
+		});
+	});
+
+	suite("parseAuditLine", () => {
+		test("should parse a JSONL line", () => {
+			const line = JSON.stringify(serializeAuditEntry(ENTRY));
+			assert.deepStrictEqual(parseAuditLine(line), ENTRY);
+		});
+
+		test("should skip blank and malformed lines", () => {
+			assert.strictEqual(parseAuditLine(""), undefined);
+			assert.strictEqual(parseAuditLine("{not json"), undefined);
+			assert.strictEqual(parseAuditLine('{"actor":"Admin"}'), undefined);
+		});
+	});
+
+	suite("matchesAuditQuery", () => {
+		test("should match the actor or the target ignoring case", () => {
+			assert.strictEqual(matchesAuditQuery(ENTRY, { player: "admin" }), true);
+			assert.strictEqual(matchesAuditQuery(ENTRY, { player: "ALICE" }), true);
+			assert.strictEqual(matchesAuditQuery(ENTRY, { player: "Bob" }), false);
+		});
+
+		test("should drop entries before the window", () => {
+			assert.strictEqual(
+				matchesAuditQuery(ENTRY, { since: new Date("2024-06-01T00:00:00Z") }),
+				true
+			);
+			assert.strictEqual(
+				matchesAuditQuery(ENTRY, { since: new Date("2024-06-02T00:00:00Z") }),
+				false
+			);
+		});
+	});
+
+	suite("parseAuditSince", () => {
+		test("should look back by a duration", () => {
+			const now = new Date("2024-06-08T12:00:00.000Z");
+			assert.deepStrictEqual(
+				parseAuditSince("7d", now),
+				new Date("2024-06-01T12:00:00.000Z")
+			);
+		});
+
+		test("should accept dates", () => {
+			assert.deepStrictEqual(
+				parseAuditSince("2024-06-01"),
+				new Date("2024-06-01T00:00:00.000Z")
+			);
+		});
+
+		test("should reject anything else", () => {
+			assert.strictEqual(parseAuditSince("Alice"), undefined);
+			assert.strictEqual(parseAuditSince("2024-13-45"), undefined);
+		});
+	});
+});
@@ -0,0 +1,179 @@
+/**
+ * Core audit module.
+ *
+ * An `AuditEntry` records one privileged action: who did it, to whom, the
+ * exact command text, when, from where, and how it turned out. Entries are
+ * appended to JSONL files under `logs/audit/` (see `audit.ts`) and searched
+ * in-game with the `audit` command.
+ *
+ * Typical usage
+ * ```ts
+ * import { AUDIT_OUTCOME, matchesAuditQuery, parseAuditSince } from "./audit.js";
+ *
+ * const entry = {
+ *   timestamp: new Date(),
+ *   actor: "Admin",
+ *   target: "Alice",
+ *   command: "ban Alice 7d griefing",
+ *   outcome: AUDIT_OUTCOME.SUCCESS,
+ * };
+ * matchesAuditQuery(entry, { player: "alice", since: parseAuditSince("1d") }); // true
+ * ```
+ *
+ * @module core/audit
+ */
+
+import { parseDuration } from "./time.js";
+
+/** How an audited action turned out. */
+export enum AUDIT_OUTCOME {
+	/** The action ran to completion */
+	SUCCESS = "success",
+	/** The action threw an error */
+	FAILURE = "failure",
+	/** The action was refused (bad arguments, or nothing to act on) */
+	INVALID = "invalid",
+}
+
+/**
+ * A record of one privileged action (runtime form).
+ */
+export interface AuditEntry {
+	timestamp: Date;
+	/** Character name, or the editor that made the change */
+	actor: string;
+	/** Character, account, address or file the action was aimed at */
+	target?: string;
+	/** The command text as typed, or a description of the editor action */
+	command: string;
+	/** Client address the action came from */
+	address?: string;
+	outcome: AUDIT_OUTCOME;
+	/** Error message for failed actions */
+	error?: string;
+}
+
+/**
+ * Serialized form of an audit entry (one JSONL line).
+ */
+export interface SerializedAuditEntry {
+	timestamp: string;
+	actor: string;
+	target?: string;
+	command: string;
+	address?: string;
+	outcome: AUDIT_OUTCOME;
+	error?: string;
+}
+
+/**
+ * Filter for searching the audit log.
+ */
+export interface AuditQuery {
+	/** Only entries where this name is the actor or the target (ignoring case) */
+	player?: string;
+	/** Only entries at or after this time */
+	since?: Date;
+}
+
+/**
+ * Converts an audit entry to its serialized form.
+ *
+ * @param entry The entry
+ * @returns Serialized entry data
+ */
+export function serializeAuditEntry(entry: AuditEntry): SerializedAuditEntry {
+	return {
+		timestamp: entry.timestamp.toISOString(),
+		actor: entry.actor,
+		...(entry.target && { target: entry.target }),
+		command: entry.command,
+		...(entry.address && { address: entry.address }),
+		outcome: entry.outcome,
+		...(entry.error && { error: entry.error }),
+	};
+}
+
+/**
+ * Restores an audit entry from serialized data.
+ *
+ * @param data Serialized entry data
+ * @returns The entry
+ */
+export function deserializeAuditEntry(data: SerializedAuditEntry): AuditEntry {
+	return {
+		timestamp: new Date(data.timestamp),
+		actor: data.actor,
+		...(data.target && { target: data.target }),
+		command: data.command,
+		...(data.address && { address: data.address }),
+		outcome: data.outcome,
+		...(data.error && { error: data.error }),
+	};
+}
+
+/**
+ * Parses one line of an audit log file.
+ *
+ * @param line A JSONL line
+ * @returns The entry, or undefined if the line is blank or malformed
+ */
+export function parseAuditLine(line: string): AuditEntry | undefined {
+	if (!line.trim()) return undefined;
+	try {
+		const data = JSON.parse(line) as SerializedAuditEntry;
+		if (
+			typeof data?.timestamp !== "string" ||
+			typeof data.actor !== "string" ||
+			typeof data.command !== "string"
+		)
+			return undefined;
+		const entry = deserializeAuditEntry(data);
+		if (isNaN(entry.timestamp.getTime())) return undefined;
+		return entry;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Checks whether an audit entry matches a search.
+ *
+ * @param entry The entry
+ * @param query The search
+ * @returns true if the entry matches every part of the query
+ */
+export function matchesAuditQuery(
+	entry: AuditEntry,
+	query: AuditQuery
+): boolean {
+	if (query.since && entry.timestamp < query.since) return false;
+	if (query.player) {
+		const name = query.player.toLowerCase();
+		if (
+			entry.actor.toLowerCase() !== name &&
+			entry.target?.toLowerCase() !== name
+		)
+			return false;
+	}
+	return true;
+}
+
+/**
+ * Parses the start of an audit search window. Accepts a duration to look
+ * back over (`2h`, `7d`) or a date (`2024-06-01`).
+ *
+ * @param text Duration or date text
+ * @param now The current time
+ * @returns The start time, or undefined if the text is neither
+ */
+export function parseAuditSince(
+	text: string,
+	now: Date = new Date()
+): Date | undefined {
+	const duration = parseDuration(text);
+	if (duration !== undefined) return new Date(now.getTime() - duration);
+	if (!/^\d{4}-\d{2}-\d{2}/.test(text.trim())) return undefined;
+	const date = new Date(text.trim());
+	return isNaN(date.getTime()) ? undefined : date;
+}
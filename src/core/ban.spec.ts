@@ -0,0 +1,116 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	Ban,
+	BAN_TYPE,
+	addressMatchesBan,
+	deserializeBan,
+	getAddressIp,
+	isBanExpired,
+	parseBanTerms,
+	parseCidr,
+	serializeBan,
+} from "./ban.js";
+
+function ipBan(target: string): Ban {
+	return {
+		type: BAN_TYPE.IP,
+		target,
+		bannedBy: "admin",
+		createdAt: new Date("2024-01-01T00:00:00.000Z"),
+	};
+}
+
+suite("ban.ts", () => {
+	suite("getAddressIp", () => {
+		test("should strip ports and unwrap mapped addresses", () => {
+			assert.strictEqual(getAddressIp("203.0.113.7:4000"), "203.0.113.7");
+			assert.strictEqual(getAddressIp("203.0.113.7"), "203.0.113.7");
+			assert.strictEqual(getAddressIp("::ffff:127.0.0.1:4000"), "127.0.0.1");
+			assert.strictEqual(getAddressIp("[2001:db8::1]:4000"), "2001:db8::1");
+			assert.strictEqual(getAddressIp("::1"), "::1");
+		});
+
+		test("should strip the web client prefix", () => {
+			assert.strictEqual(getAddressIp("websocket:203.0.113.7"), "203.0.113.7");
+			assert.strictEqual(
+				getAddressIp("websocket:::ffff:203.0.113.7"),
+				"203.0.113.7"
+			);
+		});
+	});
+
+	suite("parseCidr", () => {
+		test("should parse blocks and single addresses", () => {
+			assert.deepStrictEqual(parseCidr("203.0.113.0/24"), {
+				address: "203.0.113.0",
+				prefix: 24,
+				family: "ipv4",
+			});
+			assert.deepStrictEqual(parseCidr("2001:db8::1"), {
+				address: "2001:db8::1",
+				prefix: 128,
+				family: "ipv6",
+			});
+		});
+
+		test("should reject invalid blocks", () => {
+			assert.strictEqual(parseCidr("203.0.113.0/33"), undefined);
+			assert.strictEqual(parseCidr("alice"), undefined);
+			assert.strictEqual(parseCidr("10.0.0.0/8/8"), undefined);
+		});
+	});
+
+	suite("addressMatchesBan", () => {
+		test("should match addresses inside the block", () => {
+			const ban = ipBan("203.0.113.0/24");
+			assert.strictEqual(addressMatchesBan("203.0.113.7:53211", ban), true);
+			assert.strictEqual(addressMatchesBan("::ffff:203.0.113.9", ban), true);
+			assert.strictEqual(addressMatchesBan("203.0.114.7:53211", ban), false);
+		});
+
+		test("should never match account bans", () => {
+			const ban: Ban = { ...ipBan("alice"), type: BAN_TYPE.ACCOUNT };
+			assert.strictEqual(addressMatchesBan("203.0.113.7", ban), false);
+		});
+	});
+
+	suite("parseBanTerms", () => {
+		test("should read an optional duration before the reason", () => {
+			assert.deepStrictEqual(parseBanTerms("7d spamming the channels"), {
+				duration: 7 * 24 * 60 * 60 * 1000,
+				reason: "spamming the channels",
+			});
+			assert.deepStrictEqual(parseBanTerms("spamming"), { reason: "spamming" });
+			assert.deepStrictEqual(parseBanTerms("2h"), {
+				duration: 2 * 60 * 60 * 1000,
+			});
+			assert.deepStrictEqual(parseBanTerms(undefined), {});
+		});
+	});
+
+	suite("isBanExpired", () => {
+		test("should only expire bans with a past expiry", () => {
+			const now = new Date("2024-06-01T00:00:00.000Z");
+			const ban = ipBan("203.0.113.7");
+			assert.strictEqual(isBanExpired(ban, now), false);
+			ban.expiresAt = new Date("2024-07-01T00:00:00.000Z");
+			assert.strictEqual(isBanExpired(ban, now), false);
+			ban.expiresAt = new Date("2024-05-01T00:00:00.000Z");
+			assert.strictEqual(isBanExpired(ban, now), true);
+		});
+	});
+
+	suite("serialization", () => {
+		test("should round-trip bans", () => {
+			const ban: Ban = {
+				...ipBan("203.0.113.0/24"),
+				reason: "spam",
+				expiresAt: new Date("2024-02-01T00:00:00.000Z"),
+			};
+			const data = serializeBan(ban);
+			assert.strictEqual(data.expiresAt, "2024-02-01T00:00:00.000Z");
+			assert.deepStrictEqual(deserializeBan(data), ban);
+		});
+	});
+});
@@ -0,0 +1,233 @@
+/**
+ * Core ban module.
+ *
+ * A `Ban` keeps an account or a range of IP addresses out of the game, either
+ * permanently or until it expires. Account bans name the account username;
+ * IP bans name a CIDR block (`203.0.113.0/24`) or a single address.
+ *
+ * Typical usage
+ * ```ts
+ * import { BAN_TYPE, addressMatchesBan, isBanExpired } from "./ban.js";
+ *
+ * const ban = {
+ *   type: BAN_TYPE.IP,
+ *   target: "203.0.113.0/24",
+ *   bannedBy: "admin",
+ *   createdAt: new Date(),
+ * };
+ * addressMatchesBan("203.0.113.7:53211", ban); // true
+ * isBanExpired(ban); // false, no expiry
+ * ```
+ *
+ * Notes
+ * - Client addresses come from `MudClient.getAddress()`, which may include a
+ *   port; {@link getAddressIp} strips it.
+ * - IPv4-mapped IPv6 addresses (`::ffff:203.0.113.7`) match IPv4 bans.
+ *
+ * @module core/ban
+ */
+
+import { BlockList, isIP } from "net";
+import { formatDuration, parseDuration } from "./time.js";
+
+/** What a ban applies to. */
+export enum BAN_TYPE {
+	ACCOUNT = "account",
+	IP = "ip",
+}
+
+/**
+ * A ban on an account or an IP range (runtime form).
+ */
+export interface Ban {
+	type: BAN_TYPE;
+	/** Account username, or CIDR block for IP bans */
+	target: string;
+	/** Why the ban was placed, shown to the banned player */
+	reason?: string;
+	/** Who placed the ban */
+	bannedBy: string;
+	createdAt: Date;
+	/** When the ban lifts; permanent if absent */
+	expiresAt?: Date;
+}
+
+/**
+ * Serialized form of a Ban. Dates become ISO strings.
+ */
+export interface SerializedBan {
+	type: BAN_TYPE;
+	target: string;
+	reason?: string;
+	bannedBy: string;
+	createdAt: string;
+	expiresAt?: string;
+}
+
+/**
+ * A parsed CIDR block.
+ */
+export interface Cidr {
+	address: string;
+	prefix: number;
+	family: "ipv4" | "ipv6";
+}
+
+/**
+ * Checks whether a ban has run out.
+ *
+ * @param ban The ban to check
+ * @param now The time to check against (defaults to now)
+ * @returns true if the ban has an expiry that has passed
+ */
+export function isBanExpired(ban: Ban, now: Date = new Date()): boolean {
+	return !!ban.expiresAt && ban.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Splits the optional `[duration] [reason]` tail of a ban command.
+ * A first word that isn't a duration is taken as the start of the reason.
+ *
+ * @param text Text after the ban target
+ * @returns Duration in milliseconds (permanent if absent) and reason
+ *
+ * @example
+ * ```ts
+ * parseBanTerms("7d spamming"); // { duration: 604800000, reason: "spamming" }
+ * parseBanTerms("spamming");    // { reason: "spamming" }
+ * ```
+ */
+export function parseBanTerms(text?: string): {
+	duration?: number;
+	reason?: string;
+} {
+	const trimmed = text?.trim() ?? "";
+	if (!trimmed) return {};
+	const [first, ...rest] = trimmed.split(/\s+/);
+	const duration = parseDuration(first);
+	const reason =
+		(duration === undefined ? trimmed : rest.join(" ")) || undefined;
+	return {
+		...(duration !== undefined && { duration }),
+		...(reason && { reason }),
+	};
+}
+
+/**
+ * Describes how long a ban lasts, for messages to players and admins.
+ *
+ * @param ban The ban to describe
+ * @param now The time to measure from (defaults to now)
+ * @returns "permanently" or e.g. "for 3 days"
+ */
+export function formatBanLength(ban: Ban, now: Date = new Date()): string {
+	if (!ban.expiresAt) return "permanently";
+	return `for ${formatDuration(ban.expiresAt.getTime() - now.getTime())}`;
+}
+
+/**
+ * Extracts the IP from a client address, dropping any port and unwrapping
+ * IPv4-mapped IPv6 addresses.
+ *
+ * @param address Client address (`ip`, `ip:port`, `[ip]:port`, or any of those
+ *   behind the web client's `websocket:` prefix)
+ * @returns The bare IP address
+ *
+ * @example
+ * ```ts
+ * getAddressIp("203.0.113.7:4000"); // "203.0.113.7"
+ * getAddressIp("::ffff:127.0.0.1:4000"); // "127.0.0.1"
+ * getAddressIp("::1"); // "::1"
+ * ```
+ */
+export function getAddressIp(address: string): string {
+	let ip = address.trim().replace(/^websocket:/, "");
+	const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(ip);
+	if (bracketed) ip = bracketed[1];
+	else if (!isIP(ip)) {
+		const withoutPort = ip.replace(/:\d+$/, "");
+		if (isIP(withoutPort)) ip = withoutPort;
+	}
+
+	const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+	return mapped ? mapped[1] : ip;
+}
+
+/**
+ * Parses a CIDR block. A bare address is treated as a block of one.
+ *
+ * @param text CIDR text such as `203.0.113.0/24` or `2001:db8::/32`
+ * @returns The parsed block, or undefined if the text is invalid
+ */
+export function parseCidr(text: string): Cidr | undefined {
+	const [rawAddress, rawPrefix, ...rest] = text.trim().split("/");
+	if (rest.length > 0) return undefined;
+
+	const address = getAddressIp(rawAddress);
+	const version = isIP(address);
+	if (version === 0) return undefined;
+	const family = version === 4 ? "ipv4" : "ipv6";
+	const maxPrefix = version === 4 ? 32 : 128;
+
+	if (rawPrefix === undefined) return { address, prefix: maxPrefix, family };
+	if (!/^\d+$/.test(rawPrefix)) return undefined;
+	const prefix = parseInt(rawPrefix, 10);
+	if (prefix > maxPrefix) return undefined;
+	return { address, prefix, family };
+}
+
+/**
+ * Checks whether a client address falls inside an IP ban's block.
+ * Account bans never match an address.
+ *
+ * @param address Client address, with or without a port
+ * @param ban The ban to check
+ * @returns true if the address is covered by the ban
+ */
+export function addressMatchesBan(address: string, ban: Ban): boolean {
+	if (ban.type !== BAN_TYPE.IP) return false;
+	const cidr = parseCidr(ban.target);
+	if (!cidr) return false;
+
+	const ip = getAddressIp(address);
+	const version = isIP(ip);
+	if (version === 0) return false;
+
+	const list = new BlockList();
+	list.addSubnet(cidr.address, cidr.prefix, cidr.family);
+	return list.check(ip, version === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Serializes a ban for persistence.
+ *
+ * @param ban The ban to serialize
+ * @returns Serializable ban data
+ */
+export function serializeBan(ban: Ban): SerializedBan {
+	return {
+		type: ban.type,
+		target: ban.target,
+		...(ban.reason && { reason: ban.reason }),
+		bannedBy: ban.bannedBy,
+		createdAt: ban.createdAt.toISOString(),
+		...(ban.expiresAt && { expiresAt: ban.expiresAt.toISOString() }),
+	};
+}
+
+/**
+ * Restores a ban from serialized data.
+ *
+ * @param data Serialized ban data
+ * @returns The ban
+ */
+export function deserializeBan(data: SerializedBan): Ban {
+	return {
+		type: data.type,
+		target: data.target,
+		...(data.reason && { reason: data.reason }),
+		bannedBy: data.bannedBy,
+		createdAt: new Date(data.createdAt),
+		...(data.expiresAt && { expiresAt: new Date(data.expiresAt) }),
+	};
+}
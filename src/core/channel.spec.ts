@@ -1,13 +1,24 @@
 import { test, suite } from "node:test";
 import assert from "node:assert";
 import { COLOR, COLOR_TAG, colorToTag } from "./color.js";
+import { ROLE } from "./role.js";
 import {
 	CHANNEL,
-	CHANNELS,
-	CHANNEL_INFO,
+	CHANNEL_SCOPE,
+	ChannelDefinition,
+	DEFAULT_CHANNEL_DEFINITIONS,
+	DEFAULT_CHANNEL_MESSAGE_PATTERN,
+	deserializeChannelDefinition,
 	formatChannelMessage,
+	serializeChannelDefinition,
 } from "./channel.js";
 
+function getDefault(id: string): ChannelDefinition {
+	const channel = DEFAULT_CHANNEL_DEFINITIONS.find((c) => c.id === id);
+	assert.ok(channel, `no default channel ${id}`);
+	return channel;
+}
+
 suite("channel.ts", () => {
 	suite("COLOR_TAG constant", () => {
 		test("should have dark color tag values", () => {
@@ -74,74 +85,138 @@ suite("channel.ts", () => {
 	});
 
 	suite("CHANNEL enum", () => {
-		test("should have all expected channels", () => {
-			assert.strictEqual(CHANNEL.OOC, "OOC");
-			assert.strictEqual(CHANNEL.NEWBIE, "NEWBIE");
-			assert.strictEqual(CHANNEL.TRADE, "TRADE");
-			assert.strictEqual(CHANNEL.GOSSIP, "GOSSIP");
-			assert.strictEqual(CHANNEL.SAY, "SAY");
-			assert.strictEqual(CHANNEL.WHISPER, "WHISPER");
+		test("should have lowercase ids for the engine's channels", () => {
+			assert.strictEqual(CHANNEL.OOC, "ooc");
+			assert.strictEqual(CHANNEL.GOCIAL, "gocial");
+			assert.strictEqual(CHANNEL.SAY, "say");
+			assert.strictEqual(CHANNEL.WHISPER, "whisper");
 		});
 	});
 
-	suite("CHANNELS array", () => {
-		test("should contain all channel values", () => {
-			assert.strictEqual(CHANNELS.length, 7);
-			assert.ok(CHANNELS.includes(CHANNEL.OOC));
-			assert.ok(CHANNELS.includes(CHANNEL.NEWBIE));
-			assert.ok(CHANNELS.includes(CHANNEL.TRADE));
-			assert.ok(CHANNELS.includes(CHANNEL.GOSSIP));
-			assert.ok(CHANNELS.includes(CHANNEL.GOCIAL));
-			assert.ok(CHANNELS.includes(CHANNEL.SAY));
-			assert.ok(CHANNELS.includes(CHANNEL.WHISPER));
+	suite("DEFAULT_CHANNEL_DEFINITIONS", () => {
+		test("should define every channel the engine talks on", () => {
+			for (const id of Object.values(CHANNEL)) {
+				assert.ok(getDefault(id), `missing ${id}`);
+			}
 		});
-	});
 
-	suite("CHANNEL_INFO", () => {
-		test("should have configuration for all channels", () => {
-			assert.ok(CHANNEL_INFO[CHANNEL.OOC]);
-			assert.ok(CHANNEL_INFO[CHANNEL.NEWBIE]);
-			assert.ok(CHANNEL_INFO[CHANNEL.TRADE]);
-			assert.ok(CHANNEL_INFO[CHANNEL.GOSSIP]);
+		test("should have unique lowercase ids", () => {
+			const ids = DEFAULT_CHANNEL_DEFINITIONS.map((channel) => channel.id);
+			assert.strictEqual(new Set(ids).size, ids.length);
+			for (const id of ids) assert.strictEqual(id, id.toLowerCase());
 		});
 
 		test("OOC should have correct configuration", () => {
-			const ooc = CHANNEL_INFO[CHANNEL.OOC];
-			assert.strictEqual(ooc.channelName, "Out of Character");
-			assert.strictEqual(ooc.channelTag, "OOC");
+			const ooc = getDefault(CHANNEL.OOC);
+			assert.strictEqual(ooc.name, "Out of Character");
+			assert.strictEqual(ooc.tag, "OOC");
 			assert.strictEqual(ooc.primaryColor, COLOR.CYAN);
 			assert.strictEqual(ooc.highlightColor, COLOR.WHITE);
+			assert.strictEqual(ooc.subscribedByDefault, true);
+		});
+
+		test("NEWBIE and TRADE should be opt-in", () => {
+			assert.strictEqual(getDefault("newbie").subscribedByDefault, false);
+			assert.strictEqual(getDefault("trade").subscribedByDefault, false);
+		});
+
+		test("SAY should be scoped to the room", () => {
+			assert.strictEqual(getDefault(CHANNEL.SAY).scope, CHANNEL_SCOPE.ROOM);
+		});
+	});
+
+	suite("deserializeChannelDefinition()", () => {
+		test("should fill in defaults for optional fields", () => {
+			const channel = deserializeChannelDefinition({
+				id: "Roleplay",
+				name: "Roleplay",
+			});
+			assert.strictEqual(channel.id, "roleplay");
+			assert.strictEqual(channel.tag, "ROLEPLAY");
+			assert.strictEqual(channel.primaryColor, COLOR.CYAN);
+			assert.strictEqual(channel.highlightColor, COLOR.WHITE);
+			assert.strictEqual(
+				channel.messagePattern,
+				DEFAULT_CHANNEL_MESSAGE_PATTERN
+			);
+			assert.strictEqual(channel.subscribedByDefault, false);
+			assert.strictEqual(channel.scope, CHANNEL_SCOPE.GLOBAL);
+			assert.strictEqual(channel.minLevel, undefined);
+			assert.strictEqual(channel.minRole, undefined);
 		});
 
-		test("NEWBIE should have correct configuration", () => {
-			const newbie = CHANNEL_INFO[CHANNEL.NEWBIE];
-			assert.strictEqual(newbie.channelName, "Newbie Help");
-			assert.strictEqual(newbie.channelTag, "NEWBIE");
-			assert.strictEqual(newbie.primaryColor, COLOR.LIME);
-			assert.strictEqual(newbie.highlightColor, COLOR.YELLOW);
+		test("should read colors, requirements, scope and command", () => {
+			const channel = deserializeChannelDefinition({
+				id: "immtalk",
+				name: "Immortal Talk",
+				tag: "IMM",
+				primaryColor: "light blue",
+				highlightColor: "yellow",
+				default: true,
+				minLevel: 10,
+				minRole: "builder",
+				scope: "dungeon",
+				command: "Immtalk",
+			});
+			assert.strictEqual(channel.primaryColor, COLOR.LIGHT_BLUE);
+			assert.strictEqual(channel.highlightColor, COLOR.YELLOW);
+			assert.strictEqual(channel.subscribedByDefault, true);
+			assert.strictEqual(channel.minLevel, 10);
+			assert.strictEqual(channel.minRole, ROLE.BUILDER);
+			assert.strictEqual(channel.scope, CHANNEL_SCOPE.DUNGEON);
+			assert.strictEqual(channel.command, "immtalk");
 		});
 
-		test("TRADE should have correct configuration", () => {
-			const trade = CHANNEL_INFO[CHANNEL.TRADE];
-			assert.strictEqual(trade.channelName, "Trading");
-			assert.strictEqual(trade.channelTag, "TRADE");
-			assert.strictEqual(trade.primaryColor, COLOR.OLIVE);
-			assert.strictEqual(trade.highlightColor, COLOR.YELLOW);
+		test("should reject a missing id or name", () => {
+			assert.throws(() =>
+				deserializeChannelDefinition({ id: "", name: "Nothing" })
+			);
+			assert.throws(() =>
+				deserializeChannelDefinition({ id: "two words", name: "Spaces" })
+			);
+			assert.throws(() =>
+				deserializeChannelDefinition({ id: "clan", name: "" })
+			);
+		});
+
+		test("should reject unknown colors, roles and scopes", () => {
+			assert.throws(() =>
+				deserializeChannelDefinition({
+					id: "clan",
+					name: "Clan",
+					primaryColor: "plaid",
+				})
+			);
+			assert.throws(() =>
+				deserializeChannelDefinition({
+					id: "clan",
+					name: "Clan",
+					minRole: "god",
+				})
+			);
+			assert.throws(() =>
+				deserializeChannelDefinition({
+					id: "clan",
+					name: "Clan",
+					scope: "zone",
+				})
+			);
 		});
 
-		test("GOSSIP should have correct configuration", () => {
-			const gossip = CHANNEL_INFO[CHANNEL.GOSSIP];
-			assert.strictEqual(gossip.channelName, "Gossip");
-			assert.strictEqual(gossip.channelTag, "GOSSIP");
-			assert.strictEqual(gossip.primaryColor, COLOR.LIME);
-			assert.strictEqual(gossip.highlightColor, COLOR.WHITE);
+		test("should round-trip through serializeChannelDefinition()", () => {
+			for (const channel of DEFAULT_CHANNEL_DEFINITIONS) {
+				assert.deepStrictEqual(
+					deserializeChannelDefinition(serializeChannelDefinition(channel)),
+					channel
+				);
+			}
 		});
 	});
 
 	suite("formatChannelMessage()", () => {
 		test("should format OOC message with correct colors", () => {
 			const result = formatChannelMessage(
-				CHANNEL.OOC,
+				getDefault(CHANNEL.OOC),
 				"Alice",
 				"Hello everyone!"
 			);
@@ -150,7 +225,7 @@ suite("channel.ts", () => {
 
 		test("should format NEWBIE message with correct colors", () => {
 			const result = formatChannelMessage(
-				CHANNEL.NEWBIE,
+				getDefault("newbie"),
 				"Bob",
 				"How do I start?"
 			);
@@ -159,7 +234,7 @@ suite("channel.ts", () => {
 
 		test("should format TRADE message with correct colors", () => {
 			const result = formatChannelMessage(
-				CHANNEL.TRADE,
+				getDefault("trade"),
 				"Charlie",
 				"Selling sword!"
 			);
@@ -168,7 +243,7 @@ suite("channel.ts", () => {
 
 		test("should format GOSSIP message with correct colors", () => {
 			const result = formatChannelMessage(
-				CHANNEL.GOSSIP,
+				getDefault("gossip"),
 				"Diana",
 				"Did you hear?"
 			);
@@ -176,13 +251,13 @@ suite("channel.ts", () => {
 		});
 
 		test("should handle empty messages", () => {
-			const result = formatChannelMessage(CHANNEL.OOC, "User", "");
+			const result = formatChannelMessage(getDefault(CHANNEL.OOC), "User", "");
 			assert.strictEqual(result, "{C[OOC] {WUser{C: {W{x");
 		});
 
 		test("should handle messages with color codes", () => {
 			const result = formatChannelMessage(
-				CHANNEL.OOC,
+				getDefault(CHANNEL.OOC),
 				"User",
 				"{RRed text{x here"
 			);
@@ -1,39 +1,65 @@
 /**
  * Core channel module.
  *
- * Provides communication channel definitions, configurations, and formatting utilities.
+ * Communication channels are data: each one is described by a
+ * {@link ChannelDefinition} loaded from `data/channels.yaml` (see the channel
+ * package), so a roleplay or clan channel can be added without touching code.
+ * This module holds the definition types, the built-in defaults used to seed
+ * that file, validation of loaded definitions, and message formatting.
+ *
+ * Typical usage
+ * ```ts
+ * import { CHANNEL, DEFAULT_CHANNEL_DEFINITIONS, formatChannelMessage } from "./channel.js";
+ *
+ * const ooc = DEFAULT_CHANNEL_DEFINITIONS.find((c) => c.id === CHANNEL.OOC)!;
+ * formatChannelMessage(ooc, "Alice", "Hello everyone!");
+ * // "{C[OOC] {WAlice{C: {WHello everyone!{x"
+ * ```
  *
  * @module core/channel
  */
-import { COLOR, colorToTag, stickyColor } from "./color.js";
+import { COLOR, COLOR_NAMES, colorToTag, nameToColor } from "./color.js";
+import { parseRole, ROLE } from "./role.js";
+
+/**
+ * Identifier of a channel, as written in `data/channels.yaml` and saved in
+ * a character's subscriptions. Always lowercase.
+ */
+export type ChannelId = string;
 
 /**
- * Predefined communication channels that players can subscribe to.
- * Using an enum ensures type safety and restricts channels to a known set.
+ * Channels the engine's own commands talk on. These must exist in
+ * `data/channels.yaml`; any other channel is purely data.
  */
 export enum CHANNEL {
-	OOC = "OOC",
-	NEWBIE = "NEWBIE",
-	TRADE = "TRADE",
-	GOSSIP = "GOSSIP",
-	GOCIAL = "GOCIAL",
-	SAY = "SAY",
-	WHISPER = "WHISPER",
+	OOC = "ooc",
+	GOCIAL = "gocial",
+	SAY = "say",
+	WHISPER = "whisper",
 }
 
 /**
- * Array of all channel values for convenient runtime iteration.
+ * Who hears a message sent on a channel.
  */
-export const CHANNELS: readonly CHANNEL[] = Object.values(CHANNEL);
+export enum CHANNEL_SCOPE {
+	/** Everyone in the game */
+	GLOBAL = "global",
+	/** Everyone in the speaker's dungeon */
+	DUNGEON = "dungeon",
+	/** Everyone in the speaker's room */
+	ROOM = "room",
+}
 
 /**
- * Configuration information for a communication channel.
+ * A communication channel (runtime form).
  */
-export interface ChannelInfo {
+export interface ChannelDefinition {
+	/** Unique lowercase identifier */
+	id: ChannelId;
 	/** Full name of the channel */
-	channelName: string;
+	name: string;
 	/** Short tag displayed in brackets (e.g., "OOC") */
-	channelTag: string;
+	tag: string;
 	/** Primary color for the channel tag */
 	primaryColor: COLOR;
 	/** Highlight color for usernames or important text */
@@ -45,102 +71,245 @@ export interface ChannelInfo {
 	 * - $message: The message text
 	 * - $primary: Primary color tag
 	 * - $highlight: Highlight color tag
-	 * - $recipient: Recipient username (for whispers)
 	 */
 	messagePattern: string;
-	/**
-	 * Optional: pattern for recipient's view (used for WHISPER only)
-	 */
-	recipientMessagePattern?: string;
+	/** Whether new characters start subscribed */
+	subscribedByDefault: boolean;
+	/** Lowest character level that may use the channel */
+	minLevel?: number;
+	/** Lowest role that may use the channel */
+	minRole?: ROLE;
+	/** Who hears a message sent on the channel */
+	scope: CHANNEL_SCOPE;
+	/** Name of a talk command to generate for the channel */
+	command?: string;
+}
+
+/**
+ * A channel as written in `data/channels.yaml`. Colors are color names and
+ * everything but the id and name is optional.
+ */
+export interface SerializedChannelDefinition {
+	id: string;
+	name: string;
+	tag?: string;
+	primaryColor?: string;
+	highlightColor?: string;
+	messagePattern?: string;
+	default?: boolean;
+	minLevel?: number;
+	minRole?: string;
+	scope?: string;
+	command?: string;
 }
 
+/** Pattern used when a channel doesn't give its own. */
+export const DEFAULT_CHANNEL_MESSAGE_PATTERN =
+	"$primary[$tag] $highlight$speaker$primary: $highlight$message{x";
+
 /**
- * Default channel configurations with color schemes.
+ * Channels written to `data/channels.yaml` when it doesn't exist yet.
  */
-export const CHANNEL_INFO: Record<CHANNEL, ChannelInfo> = {
-	[CHANNEL.OOC]: {
-		channelName: "Out of Character",
-		channelTag: "OOC",
+export const DEFAULT_CHANNEL_DEFINITIONS: readonly ChannelDefinition[] = [
+	{
+		id: CHANNEL.OOC,
+		name: "Out of Character",
+		tag: "OOC",
 		primaryColor: COLOR.CYAN,
 		highlightColor: COLOR.WHITE,
-		messagePattern:
-			"$primary[$tag] $highlight$speaker$primary: $highlight$message{x",
+		messagePattern: DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: true,
+		scope: CHANNEL_SCOPE.GLOBAL,
 	},
-	[CHANNEL.NEWBIE]: {
-		channelName: "Newbie Help",
-		channelTag: "NEWBIE",
+	{
+		id: "newbie",
+		name: "Newbie Help",
+		tag: "NEWBIE",
 		primaryColor: COLOR.LIME,
 		highlightColor: COLOR.YELLOW,
-		messagePattern:
-			"$primary[$tag] $highlight$speaker$primary: $highlight$message{x",
+		messagePattern: DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: false,
+		scope: CHANNEL_SCOPE.GLOBAL,
+		command: "newbie",
 	},
-	[CHANNEL.TRADE]: {
-		channelName: "Trading",
-		channelTag: "TRADE",
+	{
+		id: "trade",
+		name: "Trading",
+		tag: "TRADE",
 		primaryColor: COLOR.OLIVE,
 		highlightColor: COLOR.YELLOW,
-		messagePattern:
-			"$primary[$tag] $highlight$speaker$primary: $highlight$message{x",
+		messagePattern: DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: false,
+		scope: CHANNEL_SCOPE.GLOBAL,
+		command: "tradechat",
 	},
-	[CHANNEL.GOSSIP]: {
-		channelName: "Gossip",
-		channelTag: "GOSSIP",
+	{
+		id: "gossip",
+		name: "Gossip",
+		tag: "GOSSIP",
 		primaryColor: COLOR.LIME,
 		highlightColor: COLOR.WHITE,
-		messagePattern:
-			"$primary[$tag] $highlight$speaker$primary: $highlight$message{x",
+		messagePattern: DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: true,
+		scope: CHANNEL_SCOPE.GLOBAL,
+		command: "gossip",
 	},
-	[CHANNEL.GOCIAL]: {
-		channelName: "Global Social",
-		channelTag: "GOCIAL",
+	{
+		id: CHANNEL.GOCIAL,
+		name: "Global Social",
+		tag: "GOCIAL",
 		primaryColor: COLOR.PURPLE,
 		highlightColor: COLOR.WHITE,
 		messagePattern: "$primary[$tag] $highlight$message{x",
+		subscribedByDefault: true,
+		scope: CHANNEL_SCOPE.GLOBAL,
 	},
-	[CHANNEL.SAY]: {
-		channelName: "Say",
-		channelTag: "SAY",
+	{
+		id: CHANNEL.SAY,
+		name: "Say",
+		tag: "SAY",
 		primaryColor: COLOR.MAROON,
 		highlightColor: COLOR.CRIMSON,
-		messagePattern:
-			"$primary[$tag] $highlight$speaker$primary: $highlight$message{x",
+		messagePattern: DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: true,
+		scope: CHANNEL_SCOPE.ROOM,
 	},
-	[CHANNEL.WHISPER]: {
-		channelName: "Whisper",
-		channelTag: "WHISPER",
+	{
+		id: CHANNEL.WHISPER,
+		name: "Whisper",
+		tag: "WHISPER",
 		primaryColor: COLOR.PINK,
 		highlightColor: COLOR.WHITE,
-		messagePattern:
-			"$primary[$tag] $highlight$speaker$primary: $highlight$message{x",
+		messagePattern: DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: true,
+		scope: CHANNEL_SCOPE.GLOBAL,
 	},
-};
+];
+
+/**
+ * Normalizes a channel id or id-like name for lookup and storage.
+ *
+ * @param id The id as written
+ * @returns The lowercase id
+ */
+export function normalizeChannelId(id: string): ChannelId {
+	return id.trim().toLowerCase();
+}
+
+function isChannelScope(value: unknown): value is CHANNEL_SCOPE {
+	return Object.values(CHANNEL_SCOPE).includes(value as CHANNEL_SCOPE);
+}
+
+function parseChannelColor(
+	value: string | undefined,
+	fallback: COLOR,
+	field: string,
+	id: string
+): COLOR {
+	if (value === undefined) return fallback;
+	const parsed = nameToColor(value);
+	if (parsed === undefined)
+		throw new Error(`Channel "${id}" has an unknown ${field} "${value}"`);
+	return parsed;
+}
+
+/**
+ * Validates a channel read from `data/channels.yaml` and converts it to its
+ * runtime form.
+ *
+ * @param data The channel as written
+ * @returns The channel definition
+ * @throws Error if the id or name is missing, or a color, role or scope is unknown
+ */
+export function deserializeChannelDefinition(
+	data: SerializedChannelDefinition
+): ChannelDefinition {
+	const id = typeof data?.id === "string" ? normalizeChannelId(data.id) : "";
+	if (!id || /\s/.test(id))
+		throw new Error(`Channel id "${data?.id}" is invalid`);
+	if (!data.name) throw new Error(`Channel "${id}" has no name`);
+
+	const scope = data.scope ?? CHANNEL_SCOPE.GLOBAL;
+	if (!isChannelScope(scope))
+		throw new Error(`Channel "${id}" has an unknown scope "${data.scope}"`);
+
+	const minRole =
+		data.minRole !== undefined ? parseRole(data.minRole) : undefined;
+	if (data.minRole !== undefined && !minRole)
+		throw new Error(`Channel "${id}" has an unknown role "${data.minRole}"`);
+
+	return {
+		id,
+		name: data.name,
+		tag: data.tag ?? id.toUpperCase(),
+		primaryColor: parseChannelColor(
+			data.primaryColor,
+			COLOR.CYAN,
+			"primaryColor",
+			id
+		),
+		highlightColor: parseChannelColor(
+			data.highlightColor,
+			COLOR.WHITE,
+			"highlightColor",
+			id
+		),
+		messagePattern: data.messagePattern ?? DEFAULT_CHANNEL_MESSAGE_PATTERN,
+		subscribedByDefault: data.default ?? false,
+		scope,
+		...(data.minLevel !== undefined && { minLevel: data.minLevel }),
+		...(minRole && { minRole }),
+		...(data.command && { command: data.command.trim().toLowerCase() }),
+	};
+}
+
+/**
+ * Converts a channel definition to the form written in `data/channels.yaml`.
+ *
+ * @param definition The channel
+ * @returns The channel as written
+ */
+export function serializeChannelDefinition(
+	definition: ChannelDefinition
+): SerializedChannelDefinition {
+	return {
+		id: definition.id,
+		name: definition.name,
+		tag: definition.tag,
+		primaryColor: COLOR_NAMES[definition.primaryColor],
+		highlightColor: COLOR_NAMES[definition.highlightColor],
+		messagePattern: definition.messagePattern,
+		default: definition.subscribedByDefault,
+		scope: definition.scope,
+		...(definition.minLevel !== undefined && {
+			minLevel: definition.minLevel,
+		}),
+		...(definition.minRole && { minRole: definition.minRole }),
+		...(definition.command && { command: definition.command }),
+	};
+}
 
 /**
  * Formats a channel message with appropriate colors using the channel's pattern.
- * @param channel The channel enum value
+ * @param channel The channel definition
  * @param username The username of the speaker
  * @param message The message text
- * @param recipient The username of the recipient
  * @returns A formatted string with color tags
  *
  * @example
- * formatChannelMessage(CHANNEL.OOC, "Alice", "Hello everyone!")
- * // returns "{C[OOC] {WAlice{x: {WHello everyone!{x"
- *
- * formatChannelMessage(CHANNEL.SAY, "Bob", "Nice day!")
- * // returns "{rBob says, '{RNice day!{r'{x"
+ * formatChannelMessage(ooc, "Alice", "Hello everyone!")
+ * // returns "{C[OOC] {WAlice{C: {WHello everyone!{x"
  */
 export function formatChannelMessage(
-	channel: CHANNEL,
+	channel: ChannelDefinition,
 	username: string,
 	message: string
 ): string {
-	const info = CHANNEL_INFO[channel];
-	const primary = colorToTag(info.primaryColor);
-	const highlight = colorToTag(info.highlightColor);
+	const primary = colorToTag(channel.primaryColor);
+	const highlight = colorToTag(channel.highlightColor);
 
-	let formatted = info.messagePattern
-		.replace(/\$tag/g, info.channelTag)
+	let formatted = channel.messagePattern
+		.replace(/\$tag/g, channel.tag)
 		.replace(/\$speaker/g, username)
 		.replace(/\$message/g, message)
 		.replace(/\$primary/g, primary)
@@ -5,10 +5,8 @@
  * world model (`Mob` in `dungeon.ts`).
  *
  * What you get
- * - `Character`: persistent credentials, settings, and stats + runtime session handling
+ * - `Character`: persistent profile, settings, and stats + runtime session handling
  * - `MESSAGE_GROUP`: controls how messages are grouped to show prompts cleanly
- * - `CHANNEL`: enum of predefined communication channels
- * - `CHANNELS`: array of all channel values for runtime reference
  * - Defaults: `DEFAULT_PLAYER_SETTINGS`, `DEFAULT_PLAYER_CREDENTIALS`, `DEFAULT_PLAYER_STATS`
  * - Types: `PlayerSettings`, `PlayerCredentials`, `PlayerStats`, `PlayerSession`,
  *   `CharacterOptions`, `SerializedCharacter`, and related helpers
@@ -26,9 +24,8 @@
  *   mob: new Mob(),
  * });
  *
- * // 2) Set a password (stored as a salted SHA-256 hash)
- * import { setCharacterPassword } from "./package/character.js";
- * setCharacterPassword(hero, "super-secret");
+ * // 2) Attach the owning account (done by the login flow)
+ * // hero.account = account;
  *
  * // 3) Start a session when a client connects
  * // const client: MudClient = ... (created by the game server)
@@ -46,7 +43,8 @@
  * ```
  *
  * Notes
- * - Password hashing uses `CONFIG.security.password_salt` - ensure it is configured.
+ * - Passwords and the admin/ban flags live on the owning `Account`
+ *   (@see {@link core/account}); a character only records its account's username.
  * - `Character.mob` establishes a bidirectional link with `Mob.character` so the
  *   in-world entity can reference its player (and vice versa).
  * - `serialize()` returns a plain object suitable for JSON/YAML persistence; runtime
@@ -54,12 +52,33 @@
  * @module core/character
  */
 
-import { Mob, SerializedMob } from "./dungeon.js";
+import { Mob, Room, SerializedMob } from "./dungeon.js";
 import type { MudClient } from "./io.js";
-import { CHANNEL, formatChannelMessage } from "./channel.js";
+import type { Account } from "./account.js";
+import {
+	CHANNEL,
+	ChannelDefinition,
+	ChannelId,
+	formatChannelMessage,
+} from "./channel.js";
 import { formatPlaytime } from "./time.js";
+import {
+	getRoleRank,
+	highestRole,
+	PERMISSION,
+	ROLE,
+	roleHasPermission,
+} from "./role.js";
+import { sendGMCPChannel, sendGMCPPrompt } from "../gmcp.js";
 import { color, COLOR, COLOR_NAMES, stickyColor } from "./color.js";
+import {
+	QuestLog,
+	SerializedQuestLog,
+	createQuestLog,
+	serializeQuestLog,
+} from "./quest.js";
 import type { ActionState } from "../registry/command.js";
+import { getChannel, getDefaultChannelIds } from "../registry/channel.js";
 
 /**
  * Message groups categorize outbound messages and control prompt emission.
@@ -109,9 +128,13 @@ export interface PlayerSettings {
 	/** Brief mode for room descriptions */
 	briefMode?: boolean;
 	/** Channels the player is subscribed to */
-	channels?: Set<CHANNEL>;
+	channels?: Set<ChannelId>;
 	/** Set of blocked usernames (players who cannot send messages to this character) */
 	blockedUsers?: Set<string>;
+	/** Set of friends' usernames (told when they log in or out) */
+	friends?: Set<string>;
+	/** Whether friends can see which dungeon this character is in */
+	showDungeonToFriends?: boolean;
 	/** Default terminal color for all messages sent to this character */
 	defaultColor?: COLOR;
 	/** Input echo preference */
@@ -128,21 +151,10 @@ export interface PlayerSettings {
 	autoloot?: boolean;
 	/** Whether to automatically sacrifice mob corpses when killing them */
 	autosacrifice?: boolean;
+	/** Command aliases, by lowercase name */
+	aliases?: Map<string, string>;
 }
 
-/**
- * Default channels that new characters are subscribed to.
- * Players start subscribed to OOC, GOSSIP, GOCIAL, SAY, and WHISPER channels by default.
- * They must opt-in to NEWBIE and TRADE channels.
- */
-export const DEFAULT_CHANNELS: readonly CHANNEL[] = [
-	CHANNEL.OOC,
-	CHANNEL.GOSSIP,
-	CHANNEL.GOCIAL,
-	CHANNEL.SAY,
-	CHANNEL.WHISPER,
-] as const;
-
 /**
  * Default player settings applied to new characters.
  *
@@ -170,6 +182,7 @@ export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
 	echoMode: "client",
 	busyModeEnabled: false,
 	combatBusyModeEnabled: true,
+	showDungeonToFriends: true,
 	busyForwardedGroups: new Set([MESSAGE_GROUP.CHANNELS]),
 	combatBusyForwardedGroups: new Set([MESSAGE_GROUP.CHANNELS]),
 	autoloot: false,
@@ -185,47 +198,41 @@ export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
 export interface PlayerCredentials {
 	/** Unique character ID (assigned on creation) */
 	characterId: number;
-	/** Player's username/login name */
+	/** Character name */
 	username: string;
-	/** Hashed password (never store plain text) */
-	passwordHash: string;
-	/** Email address for account recovery */
-	email?: string;
-	/** Account creation timestamp */
+	/** Username of the owning account */
+	account?: string;
+	/** Character creation timestamp */
 	createdAt: Date;
 	/** Last login timestamp (updated by startSession) */
 	lastLogin: Date;
 	/** Character is active / playable */
 	isActive: boolean;
-	/** Character is banned */
-	isBanned: boolean;
-	/** Character is an admin */
-	isAdmin: boolean;
+	/** Channels are blocked until this time (set by the `mute` command) */
+	mutedUntil?: Date;
+	/** All commands are blocked (set by the `freeze` command) */
+	isFrozen?: boolean;
+	/** Staff role; a plain player if absent */
+	role?: ROLE;
 }
 
 /**
- * Default credential flags for new accounts.
+ * Default credential flags for new characters.
  *
  * @example
  * ```ts
  * // Default flags
- * const DEFAULT_PLAYER_CREDENTIALS: Pick<PlayerCredentials, "isActive" | "isBanned" | "isAdmin"> = {
+ * const DEFAULT_PLAYER_CREDENTIALS: Pick<PlayerCredentials, "isActive"> = {
  *   isActive: true,
- *   isBanned: false,
- *   isAdmin: false,
  * };
  * // Other fields are set by Character constructor:
- * // passwordHash: "", createdAt: now, lastLogin: now
+ * // createdAt: now, lastLogin: now
  * ```
  */
-export const DEFAULT_PLAYER_CREDENTIALS: Pick<
-	PlayerCredentials,
-	"isActive" | "isBanned" | "isAdmin"
-> = {
-	isActive: true,
-	isBanned: false,
-	isAdmin: false,
-} as const;
+export const DEFAULT_PLAYER_CREDENTIALS: Pick<PlayerCredentials, "isActive"> =
+	{
+		isActive: true,
+	} as const;
 
 /**
  * Character progression and gameplay statistics.
@@ -272,8 +279,10 @@ export interface PlayerSession {
 	startTime: Date;
 	/** Connection identifier for this session */
 	connectionId: number;
-	/** The connected client for this session (if any) */
-	client: MudClient;
+	/** The connected client for this session (if any; none while link-dead) */
+	client?: MudClient;
+	/** When the client dropped, if the character is link-dead */
+	linkDeadSince?: Date;
 	/** Last message group received in this session */
 	lastMessageGroup?: MESSAGE_GROUP;
 	/** Queued messages waiting to be read (busy mode) */
@@ -305,6 +314,10 @@ export interface CharacterOptions {
 	settings?: Partial<PlayerSettings>;
 	/** Optional initial stats (defaults applied if not provided) */
 	stats?: Partial<PlayerStats>;
+	/** Optional quest log (an empty log is created if not provided) */
+	quests?: QuestLog;
+	/** Optional references of the rooms already visited */
+	visited?: Set<string>;
 	/** The mob instance that represents this character in the game world */
 	mob?: Mob;
 }
@@ -316,22 +329,22 @@ export interface CharacterOptions {
 export interface SerializedPlayerCredentials {
 	/** Unique character ID (assigned on creation) */
 	characterId: number;
-	/** Player's username/login name */
+	/** Character name */
 	username: string;
-	/** Hashed password (never store plain text) */
-	passwordHash: string;
-	/** Email address for account recovery */
-	email?: string;
-	/** Account creation timestamp (ISO string) */
+	/** Username of the owning account */
+	account?: string;
+	/** Character creation timestamp (ISO string) */
 	createdAt: string;
 	/** Last login timestamp (ISO string) */
 	lastLogin: string;
 	/** Character is active / playable */
 	isActive: boolean;
-	/** Character is banned */
-	isBanned: boolean;
-	/** Character is an admin */
-	isAdmin: boolean;
+	/** Channels are blocked until this time (ISO string) */
+	mutedUntil?: string;
+	/** All commands are blocked */
+	isFrozen?: boolean;
+	/** Staff role; a plain player if absent */
+	role?: ROLE;
 }
 
 /**
@@ -350,12 +363,16 @@ export interface SerializedPlayerSettings {
 	autoLook?: boolean;
 	/** Brief mode for room descriptions */
 	briefMode?: boolean;
-	/** Channels the player is subscribed to (serialized as array of enum values) */
-	channels?: CHANNEL[];
+	/** Channels the player is subscribed to (serialized as array of channel ids) */
+	channels?: ChannelId[];
 	/** Input echo preference */
 	echoMode?: EchoMode;
 	/** Blocked usernames (serialized as array) */
 	blockedUsers?: string[];
+	/** Friends' usernames (serialized as array) */
+	friends?: string[];
+	/** Whether friends can see which dungeon this character is in */
+	showDungeonToFriends?: boolean;
 	/** Default terminal color for all messages sent to this character (serialized as color name string) */
 	defaultColor?: string;
 	/** Whether busy mode is enabled */
@@ -370,6 +387,8 @@ export interface SerializedPlayerSettings {
 	autoloot?: boolean;
 	/** Whether to automatically sacrifice mob corpses when killing them */
 	autosacrifice?: boolean;
+	/** Command aliases (serialized as an object) */
+	aliases?: Record<string, string>;
 }
 
 export interface SerializedCharacter {
@@ -379,6 +398,10 @@ export interface SerializedCharacter {
 	settings: SerializedPlayerSettings;
 	/** Player's gameplay statistics and progression */
 	stats: PlayerStats;
+	/** Accepted and completed quests */
+	quests?: SerializedQuestLog;
+	/** References of every room visited, in the order first entered */
+	visited?: string[];
 	/** Serialized mob data for reconstructing the character's mob representation */
 	mob?: Omit<SerializedMob, "type">;
 }
@@ -399,11 +422,9 @@ export interface SerializedCharacter {
  * import { Mob } from "./mob.js";
  *
  * const c = new Character({
- *   credentials: { username: "playerOne" },
+ *   credentials: { username: "playerOne", account: "playerone" },
  *   mob: new Mob(),
  * });
- * import { setCharacterPassword } from "./package/character.js";
- * setCharacterPassword(c, "secretPassword");
  *
  * // Typically called by the Game when a client connects
  * // c.startSession(1, client);
@@ -450,9 +471,21 @@ export class Character {
 	/** Player's gameplay statistics and progression */
 	public stats: PlayerStats;
 
+	/** Accepted quests with their progress, and completed quest IDs */
+	public quests: QuestLog;
+
+	/**
+	 * Places this character has visited, used as travel destinations.
+	 * Holds the reference of every room entered, in the order first entered.
+	 */
+	public visited: Set<string>;
+
 	/** Current session information (runtime data, not persisted) */
 	public session?: PlayerSession;
 
+	/** Owning account, attached at login (runtime link, persisted by username) */
+	public account?: Account;
+
 	/** Runtime command action state (cooldowns/queues) */
 	public actionState?: ActionState;
 
@@ -475,10 +508,6 @@ export class Character {
 	 *   mob: new Mob(),
 	 * });
 	 *
-	 * // Set a password (stored as a salted SHA-256 hash)
-	 * import { setCharacterPassword } from "./package/character.js";
-	 * setCharacterPassword(character, "super-secret");
-	 *
 	 * // Optional: customize settings/stats on creation
 	 * const c2 = new Character({
 	 *   credentials: { username: "mage" },
@@ -501,7 +530,6 @@ export class Character {
 		}
 		this.credentials = {
 			characterId: options.credentials.characterId, // Explicitly set required field
-			...{ passwordHash: "" },
 			...{ createdAt: now, lastLogin: now },
 			...DEFAULT_PLAYER_CREDENTIALS, // defaults
 			...options.credentials,
@@ -513,9 +541,9 @@ export class Character {
 			...options.settings,
 		};
 
-		// Initialize channels with defaults if not provided
+		// Initialize channels with the channels marked default in data/channels.yaml
 		if (!this.settings.channels) {
-			this.settings.channels = new Set<CHANNEL>(DEFAULT_CHANNELS);
+			this.settings.channels = new Set<ChannelId>(getDefaultChannelIds());
 		}
 
 		// Initialize blockedUsers if not provided
@@ -523,12 +551,25 @@ export class Character {
 			this.settings.blockedUsers = new Set<string>();
 		}
 
+		// Initialize friends if not provided
+		if (!this.settings.friends) {
+			this.settings.friends = new Set<string>();
+		}
+
+		// Initialize aliases if not provided
+		if (!this.settings.aliases) {
+			this.settings.aliases = new Map<string, string>();
+		}
+
 		// Apply default stats
 		this.stats = {
 			...DEFAULT_PLAYER_STATS,
 			...options.stats,
 		};
 
+		this.quests = options.quests ?? createQuestLog();
+		this.visited = options.visited ?? new Set();
+
 		// Set up the provided mob
 		if (options.mob) this.mob = options.mob;
 	}
@@ -558,6 +599,9 @@ export class Character {
 
 	/**
 	 * Starts a new session for this character. Called by the game when a player logs in.
+	 * If a session is already running (the character is link-dead or its session
+	 * is being taken over), the new client is attached to it instead, keeping the
+	 * session start time and any queued messages.
 	 *
 	 * @param connectionId Numeric connection identifier for this session
 	 * @param client The connected MudClient for this session
@@ -568,19 +612,48 @@ export class Character {
 	 * ```
 	 */
 	public startSession(connectionId: number, client: MudClient): void {
-		this.session = {
-			startTime: new Date(),
-			connectionId,
-			client,
-		};
-		this.updateLastLogin(this.session.startTime);
+		if (this.session) {
+			this.session.connectionId = connectionId;
+			this.session.client = client;
+			this.session.linkDeadSince = undefined;
+			this.session.lastMessageGroup = undefined;
+			this.updateLastLogin();
+		} else {
+			this.session = {
+				startTime: new Date(),
+				connectionId,
+				client,
+			};
+			this.updateLastLogin(this.session.startTime);
+		}
 
 		// Grant admin privileges to localhost connections
-		if (client.isLocalhost()) {
-			this.credentials.isAdmin = true;
+		if (client.isLocalhost() && this.account) {
+			this.account.isAdmin = true;
 		}
 	}
 
+	/**
+	 * Detaches the client from the current session, leaving the character
+	 * link-dead: still in the world, but with nobody at the keyboard.
+	 * The session continues until it is resumed with `startSession()` or
+	 * ended with `endSession()`.
+	 */
+	public detachClient(): void {
+		if (!this.session) return;
+		this.session.client = undefined;
+		this.session.linkDeadSince = new Date();
+	}
+
+	/**
+	 * Checks if the character is in the world without a connected client.
+	 *
+	 * @returns true if the character is link-dead
+	 */
+	public isLinkDead(): boolean {
+		return this.session?.linkDeadSince !== undefined;
+	}
+
 	/**
 	 * Ends the current session for this character.
 	 * Should be called by the game engine when the player logs out.
@@ -686,10 +759,9 @@ export class Character {
 	 * If defaultColor is set in settings, applies stickyColor to the text.
 	 */
 	public send(text: string) {
-		if (!this.session?.client) return;
-
 		const session = this.session;
-		const client = session.client;
+		const client = session?.client;
+		if (!session || !client) return;
 
 		if (session.lastMessageGroup === MESSAGE_GROUP.PROMPT) {
 			client.sendLine(" ", false);
@@ -709,10 +781,9 @@ export class Character {
 	 * If no client is connected, this is a no-op.
 	 */
 	public sendLine(text: string) {
-		if (!this.session?.client) return;
-
 		const session = this.session;
-		const client = session.client;
+		const client = session?.client;
+		if (!session || !client) return;
 
 		if (session.lastMessageGroup === MESSAGE_GROUP.PROMPT) {
 			client.sendLine(" ", false);
@@ -823,6 +894,32 @@ export class Character {
 		session.lastMessageGroup = group;
 	}
 
+	/**
+	 * Sends a notification (such as a friend logging in) in the SYSTEM group.
+	 * SYSTEM messages are normally shown at once, but notifications wait in
+	 * the busy mode queue whenever busy mode is active.
+	 *
+	 * @param text The notification
+	 */
+	public sendNotification(text: string): void {
+		const session = this.session;
+		if (!session?.client?.isConnected()) return;
+
+		if (this.isBusyModeActive()) {
+			if (!session.queuedMessages) {
+				session.queuedMessages = [];
+			}
+			session.queuedMessages.push({
+				text,
+				group: MESSAGE_GROUP.SYSTEM,
+				timestamp: new Date(),
+			});
+			return;
+		}
+
+		this.sendMessage(text, MESSAGE_GROUP.SYSTEM);
+	}
+
 	public showPrompt(): void {
 		const session = this.session;
 		const client = session?.client;
@@ -838,12 +935,21 @@ export class Character {
 		if (callWaitingLine) {
 			this.sendLine(callWaitingLine);
 		}
-		this.send(this.formatPrompt(promptText));
+		const prompt = this.formatPrompt(promptText);
+		this.send(prompt);
+		sendGMCPPrompt(this, prompt);
 		session.lastMessageGroup = MESSAGE_GROUP.PROMPT;
 	}
 
 	private formatQueuedActionLine(): string | undefined {
 		const state = this.actionState;
+		if (state?.casting) {
+			const remainingMs = Math.max(0, state.casting.completesAt - Date.now());
+			return stickyColor(
+				`[CASTING] '${color(state.casting.input, COLOR.WHITE)}' in ${color(`~${Math.ceil(remainingMs / 1000)}s`, COLOR.CRIMSON)}`,
+				COLOR.OLIVE
+			);
+		}
 		if (!state || state.queue.length === 0) {
 			return undefined;
 		}
@@ -975,7 +1081,36 @@ export class Character {
 	}
 
 	/**
-	 * Checks if the character has administrative privileges.
+	 * Gets the character's effective role: its own role, raised to `admin`
+	 * if its account has administrative privileges.
+	 *
+	 * @returns The character's role
+	 */
+	public getRole(): ROLE {
+		const role = this.credentials.role ?? ROLE.PLAYER;
+		return this.account?.isAdmin ? highestRole(role, ROLE.ADMIN) : role;
+	}
+
+	/**
+	 * Checks if the character's role grants a permission.
+	 *
+	 * @param permission The permission to check
+	 * @returns true if the character has the permission
+	 *
+	 * @example
+	 * ```typescript
+	 * if (character.hasPermission(PERMISSION.BAN)) {
+	 *   // Allow banning players
+	 * }
+	 * ```
+	 */
+	public hasPermission(permission: PERMISSION): boolean {
+		return roleHasPermission(this.getRole(), permission);
+	}
+
+	/**
+	 * Checks if the character has administrative privileges, either through
+	 * its role or its account.
 	 *
 	 * @returns true if character is an admin
 	 *
@@ -987,7 +1122,17 @@ export class Character {
 	 * ```
 	 */
 	public isAdmin(): boolean {
-		return this.credentials.isAdmin;
+		return this.hasPermission(PERMISSION.ADMIN);
+	}
+
+	/**
+	 * Records a visit to a room.
+	 *
+	 * @param room The room that was entered
+	 */
+	public recordVisit(room: Room): void {
+		const ref = room.getRoomRef();
+		if (ref) this.visited.add(ref);
 	}
 
 	/**
@@ -1004,24 +1149,22 @@ export class Character {
 	 * ```
 	 */
 	public canPlay(): boolean {
-		return this.credentials.isActive && !this.credentials.isBanned;
+		if (this.account && !this.account.canPlay()) return false;
+		return this.credentials.isActive;
 	}
 
 	/**
-	 * Updates the character's password hash.
-	 * Note: This method sets the hash directly. Use setCharacterPassword from package/character
-	 * to hash a plain text password.
+	 * Checks if the character is muted. An expired mute is cleared.
 	 *
-	 * @param passwordHash The hashed password to store
-	 *
-	 * @example
-	 * ```typescript
-	 * import { setCharacterPassword } from "./package/character.js";
-	 * setCharacterPassword(character, "newSecurePassword123");
-	 * ```
+	 * @param now The time to check against (defaults to now)
+	 * @returns true if the character may not use channels
 	 */
-	public setPasswordHash(passwordHash: string): void {
-		this.credentials.passwordHash = passwordHash;
+	public isMuted(now: Date = new Date()): boolean {
+		const until = this.credentials.mutedUntil;
+		if (!until) return false;
+		if (until.getTime() > now.getTime()) return true;
+		this.credentials.mutedUntil = undefined;
+		return false;
 	}
 
 	/**
@@ -1032,12 +1175,12 @@ export class Character {
 	 * @example
 	 * ```typescript
 	 * character.joinChannel(CHANNEL.OOC);
-	 * character.joinChannel(CHANNEL.NEWBIE);
+	 * character.joinChannel("newbie");
 	 * ```
 	 */
-	public joinChannel(channel: CHANNEL): void {
+	public joinChannel(channel: ChannelId): void {
 		if (!this.settings.channels) {
-			this.settings.channels = new Set<CHANNEL>();
+			this.settings.channels = new Set<ChannelId>();
 		}
 		this.settings.channels.add(channel);
 	}
@@ -1052,7 +1195,7 @@ export class Character {
 	 * character.leaveChannel(CHANNEL.OOC);
 	 * ```
 	 */
-	public leaveChannel(channel: CHANNEL): void {
+	public leaveChannel(channel: ChannelId): void {
 		if (!this.settings.channels) return;
 		this.settings.channels.delete(channel);
 	}
@@ -1070,11 +1213,39 @@ export class Character {
 	 * }
 	 * ```
 	 */
-	public isInChannel(channel: CHANNEL): boolean {
+	public isInChannel(channel: ChannelId): boolean {
 		if (!this.settings.channels) return false;
 		return this.settings.channels.has(channel);
 	}
 
+	/**
+	 * Checks if the character meets a channel's level and role requirements.
+	 *
+	 * @param channel The channel to check
+	 * @returns true if the character may talk on and listen to the channel
+	 *
+	 * @example
+	 * ```typescript
+	 * const channel = findChannel("newbie");
+	 * if (channel && character.canUseChannel(channel)) {
+	 *   character.joinChannel(channel.id);
+	 * }
+	 * ```
+	 */
+	public canUseChannel(channel: ChannelDefinition): boolean {
+		if (
+			channel.minLevel !== undefined &&
+			(this.mob?.level ?? 0) < channel.minLevel
+		)
+			return false;
+		if (
+			channel.minRole !== undefined &&
+			getRoleRank(this.getRole()) < getRoleRank(channel.minRole)
+		)
+			return false;
+		return true;
+	}
+
 	/**
 	 * Sends a chat message to this character if they are subscribed to the channel.
 	 *
@@ -1090,8 +1261,26 @@ export class Character {
 	 * }
 	 * ```
 	 */
-	public sendChat(speaker: Character, message: string, channel: CHANNEL): void {
-		if (!this.isInChannel(channel)) return;
+	public sendChat(
+		speaker: Character,
+		message: string,
+		channel: ChannelId
+	): void {
+		const definition = getChannel(channel);
+		if (!definition) return;
+
+		// Muted speakers only hear about their mute, once
+		if (speaker.isMuted()) {
+			if (speaker === this) {
+				this.sendMessage(
+					"You have been muted and cannot use channels.",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+			}
+			return;
+		}
+
+		if (!this.isInChannel(channel) || !this.canUseChannel(definition)) return;
 
 		// Check if the speaker is blocked by this character
 		if (
@@ -1108,11 +1297,12 @@ export class Character {
 		}
 
 		const formatted = formatChannelMessage(
-			channel,
+			definition,
 			speaker.credentials.username,
 			message
 		);
 		this.sendMessage(formatted, MESSAGE_GROUP.CHANNELS);
+		sendGMCPChannel(this, channel, speaker.credentials.username, message);
 	}
 
 	/**
@@ -1161,23 +1351,64 @@ export class Character {
 	}
 
 	/**
-	 * Verifies a password hash against the character's stored password hash.
-	 * Note: This method compares hashes directly. Use verifyCharacterPassword from package/character
-	 * to verify a plain text password.
+	 * Checks if the specified username is on this character's friends list.
+	 *
+	 * @param username The username to check
+	 * @returns true if the username is a friend
+	 */
+	public isFriend(username: string): boolean {
+		return this.settings.friends?.has(username.toLowerCase()) ?? false;
+	}
+
+	/**
+	 * Adds a user to the friends list by username. Automatically converts to lowercase.
+	 * Friends are announced to this character when they log in or out.
+	 *
+	 * @param username The username to add
+	 */
+	public addFriend(username: string): void {
+		if (!this.settings.friends) {
+			this.settings.friends = new Set<string>();
+		}
+		this.settings.friends.add(username.toLowerCase());
+	}
+
+	/**
+	 * Removes a user from the friends list by username. Automatically converts to lowercase.
+	 *
+	 * @param username The username to remove
+	 */
+	public removeFriend(username: string): void {
+		if (!this.settings.friends) return;
+		this.settings.friends.delete(username.toLowerCase());
+	}
+
+	/**
+	 * Defines or replaces a command alias. Names are stored in lowercase.
 	 *
-	 * @param passwordHash The hashed password to verify
-	 * @returns true if the hash matches
+	 * @param name The alias name
+	 * @param expansion The commands the alias expands to
 	 *
 	 * @example
 	 * ```typescript
-	 * import { verifyCharacterPassword } from "./package/character.js";
-	 * if (verifyCharacterPassword(character, "userInputPassword")) {
-	 *   console.log("Password correct!");
-	 * }
+	 * character.setAlias("mc", "'mimic call' $1");
 	 * ```
 	 */
-	public verifyPasswordHash(passwordHash: string): boolean {
-		return this.credentials.passwordHash === passwordHash;
+	public setAlias(name: string, expansion: string): void {
+		if (!this.settings.aliases) {
+			this.settings.aliases = new Map<string, string>();
+		}
+		this.settings.aliases.set(name.toLowerCase(), expansion);
+	}
+
+	/**
+	 * Removes a command alias.
+	 *
+	 * @param name The alias name
+	 * @returns true if the alias existed
+	 */
+	public removeAlias(name: string): boolean {
+		return this.settings.aliases?.delete(name.toLowerCase()) ?? false;
 	}
 
 	/**
@@ -1198,16 +1429,16 @@ export class Character {
 		const serializedCreds: SerializedPlayerCredentials = {
 			characterId: c.characterId,
 			username: c.username,
-			passwordHash: c.passwordHash,
-			email: c.email,
+			account: c.account,
 			createdAt: c.createdAt.toISOString(),
 			lastLogin: c.lastLogin.toISOString(),
 			isActive: c.isActive,
-			isBanned: c.isBanned,
-			isAdmin: c.isAdmin,
+			...(c.mutedUntil && { mutedUntil: c.mutedUntil.toISOString() }),
+			...(c.isFrozen && { isFrozen: true }),
+			...(c.role && c.role !== ROLE.PLAYER && { role: c.role }),
 		};
 
-		// Convert channels and blockedUsers Sets to arrays for serialization
+		// Convert channels, blockedUsers and friends Sets to arrays for serialization
 		const serializedSettings: SerializedPlayerSettings = {
 			...this.settings,
 			channels: this.settings.channels
@@ -1216,6 +1447,7 @@ export class Character {
 			blockedUsers: this.settings.blockedUsers
 				? Array.from(this.settings.blockedUsers)
 				: [],
+			friends: this.settings.friends ? Array.from(this.settings.friends) : [],
 			busyForwardedGroups: this.settings.busyForwardedGroups
 				? Array.from(this.settings.busyForwardedGroups)
 				: [],
@@ -1227,12 +1459,17 @@ export class Character {
 				this.settings.defaultColor !== undefined
 					? COLOR_NAMES[this.settings.defaultColor]
 					: undefined,
+			aliases: this.settings.aliases
+				? Object.fromEntries(this.settings.aliases)
+				: {},
 		};
 
 		const result: SerializedCharacter = {
 			credentials: serializedCreds,
 			settings: serializedSettings,
 			stats: this.stats,
+			quests: serializeQuestLog(this.quests),
+			visited: Array.from(this.visited),
 		};
 
 		if (this.mob) {
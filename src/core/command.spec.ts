@@ -1,12 +1,18 @@
 import { suite, test, before } from "node:test";
 import assert from "node:assert";
 import {
+	AbilityCommand,
 	Command,
 	CommandContext,
 	CommandRegistry,
 	ParseResult,
 	PRIORITY,
+	rejectCommand,
 } from "./command.js";
+import { Ability } from "./ability.js";
+import { CROWD_CONTROL } from "./crowd-control.js";
+import { CrowdControlEffectTemplate } from "./effect.js";
+import { AUDIT_OUTCOME } from "./audit.js";
 import { JavaScriptCommandAdapter } from "../package/commands.js";
 import { createMob } from "../package/dungeon.js";
 import archetypePkg from "../package/archetype.js";
@@ -20,6 +26,10 @@ import {
 	unregisterCommand,
 	executeCommand,
 	getCommands,
+	clearActions,
+	castForMob,
+	interruptCast,
+	isCasting,
 } from "../registry/command.js";
 import { getDefaultJob, getDefaultRace } from "../registry/archetype.js";
 
@@ -957,6 +967,178 @@ suite("command.ts", () => {
 			unregisterCommand(task);
 			unregisterCommand(queueAdapter);
 		});
+
+		class ChantCommand extends Command {
+			executions = 0;
+			constructor() {
+				super({ pattern: "chant" });
+			}
+			execute(): void {
+				this.executions++;
+			}
+			getActionCooldownMs(): number {
+				return 20;
+			}
+			getCastTimeMs(): number {
+				return 30;
+			}
+		}
+
+		test("cast times delay the command until the cast completes", async () => {
+			const chant = new ChantCommand();
+			registerCommand(chant);
+
+			const actor = createMob();
+			const character = attachCharacterToMob(actor, "chanter");
+			const context: CommandContext = { actor };
+
+			assert.strictEqual(executeCommand("chant", context), true);
+			assert.strictEqual(chant.executions, 0);
+			assert.ok(isCasting(actor));
+			assert.strictEqual(character.actionState?.casting?.input, "chant");
+
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			assert.strictEqual(chant.executions, 1);
+			assert.strictEqual(isCasting(actor), false);
+
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			unregisterCommand(chant);
+		});
+
+		test("actions queued behind a cast run after it", async () => {
+			const chant = new ChantCommand();
+			registerCommand(chant);
+
+			const actor = createMob();
+			const character = attachCharacterToMob(actor, "chant-queue");
+			const context: CommandContext = { actor };
+
+			assert.strictEqual(executeCommand("chant", context), true);
+			assert.strictEqual(executeCommand("chant", context), true);
+			assert.strictEqual(character.actionState?.queue.length, 1);
+
+			// First cast (30ms), its cooldown (20ms), then the second cast (30ms)
+			await new Promise((resolve) => setTimeout(resolve, 120));
+			assert.strictEqual(chant.executions, 2);
+			assert.strictEqual(character.actionState?.queue.length, 0);
+
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			unregisterCommand(chant);
+		});
+
+		test("interrupted casts never execute", async () => {
+			const chant = new ChantCommand();
+			registerCommand(chant);
+
+			const actor = createMob();
+			attachCharacterToMob(actor, "interrupted");
+			const context: CommandContext = { actor };
+
+			assert.strictEqual(executeCommand("chant", context), true);
+			assert.strictEqual(interruptCast(actor), true);
+			assert.strictEqual(isCasting(actor), false);
+
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			assert.strictEqual(chant.executions, 0);
+			unregisterCommand(chant);
+		});
+
+		test("NPCs without a character cast too", async () => {
+			const chant = new ChantCommand();
+			registerCommand(chant);
+
+			const actor = createMob();
+			const context: CommandContext = { actor };
+
+			assert.strictEqual(executeCommand("chant", context), true);
+			assert.strictEqual(chant.executions, 0);
+			assert.ok(isCasting(actor));
+
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			assert.strictEqual(chant.executions, 1);
+			assert.strictEqual(isCasting(actor), false);
+			unregisterCommand(chant);
+		});
+
+		test("clearActions drops a player's cast and queue", async () => {
+			const chant = new ChantCommand();
+			registerCommand(chant);
+
+			const actor = createMob();
+			const character = attachCharacterToMob(actor, "cleared");
+			const context: CommandContext = { actor };
+
+			assert.strictEqual(executeCommand("chant", context), true);
+			assert.strictEqual(executeCommand("chant", context), true);
+
+			clearActions(actor);
+			assert.strictEqual(isCasting(actor), false);
+			assert.strictEqual(character.actionState?.queue.length, 0);
+			assert.strictEqual(character.actionState?.cooldownTimer, undefined);
+
+			await new Promise((resolve) => setTimeout(resolve, 100));
+			assert.strictEqual(chant.executions, 0);
+			unregisterCommand(chant);
+		});
+
+		test("clearActions cancels an NPC cast", async () => {
+			const chant = new ChantCommand();
+			registerCommand(chant);
+
+			const actor = createMob();
+			assert.strictEqual(executeCommand("chant", { actor }), true);
+			assert.ok(isCasting(actor));
+
+			clearActions(actor);
+			assert.strictEqual(isCasting(actor), false);
+
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			assert.strictEqual(chant.executions, 0);
+			unregisterCommand(chant);
+		});
+
+		const BOLT: Ability = {
+			id: "test_bolt",
+			name: "Bolt",
+			description: "A test bolt.",
+			proficiencyCurve: [25, 50, 75, 100],
+		};
+
+		const STUN: CrowdControlEffectTemplate = {
+			id: "test_stun",
+			name: "Stun",
+			description: "A test stun.",
+			type: "crowd-control",
+			stackable: false,
+			control: CROWD_CONTROL.STUN,
+			duration: 5,
+		};
+
+		test("stunned NPCs can't use or cast abilities", () => {
+			let uses = 0;
+			const bolt = new AbilityCommand(BOLT, {
+				pattern: "bolt",
+				execute() {
+					uses++;
+				},
+			});
+
+			const npc = createMob();
+			const stun = npc.addEffect(STUN, npc)!;
+			assert.ok(npc.hasCrowdControl(CROWD_CONTROL.STUN));
+
+			bolt.execute({ actor: npc }, new Map());
+			assert.strictEqual(uses, 0);
+			assert.strictEqual(
+				castForMob(bolt, { actor: npc }, new Map(), 30),
+				false
+			);
+			assert.strictEqual(isCasting(npc), false);
+
+			npc.removeEffect(stun);
+			bolt.execute({ actor: npc }, new Map());
+			assert.strictEqual(uses, 1);
+		});
 	});
 
 	suite("Example Commands", () => {
@@ -1273,4 +1455,43 @@ suite("command.ts", () => {
 			assert.strictEqual(result.error, "Input does not match command pattern");
 		});
 	});
+
+	suite("Outcomes", () => {
+		test("rejectCommand tells the actor and records the refusal", () => {
+			const actor = createMob();
+			const captured: string[] = [];
+			actor.sendMessage = ((text: string) => {
+				captured.push(text);
+			}) as typeof actor.sendMessage;
+			const context: CommandContext = { actor };
+
+			rejectCommand(context, "That player is not online.");
+
+			assert.deepStrictEqual(captured, ["That player is not online."]);
+			assert.deepStrictEqual(context.outcome, {
+				result: AUDIT_OUTCOME.INVALID,
+				error: "That player is not online.",
+			});
+		});
+
+		test("async command objects pass on their promise", async () => {
+			let finished = false;
+			const command = new JavaScriptCommandAdapter({
+				pattern: "slow",
+				async execute() {
+					await Promise.resolve();
+					finished = true;
+				},
+			});
+
+			const result: unknown = command.execute(
+				{ actor: createMob() },
+				new Map()
+			);
+
+			assert.ok(result instanceof Promise);
+			await result;
+			assert.strictEqual(finished, true);
+		});
+	});
 });
@@ -50,6 +50,11 @@ import { Mob, Equipment } from "./dungeon.js";
 import { Character } from "./character.js";
 import { MESSAGE_GROUP } from "./character.js";
 import { forEachCharacter } from "../game.js";
+import { Ability } from "./ability.js";
+import { PERMISSION } from "./role.js";
+import { CROWD_CONTROL } from "./crowd-control.js";
+import { AUDIT_OUTCOME } from "./audit.js";
+import { stripColors } from "./color.js";
 import logger from "../logger.js";
 
 /**
@@ -61,6 +66,7 @@ import logger from "../logger.js";
  *
  * @property actor - The Mob entity executing the command (typically a player or NPC)
  * @property room - The current room where the actor is located (undefined if not in a room)
+ * @property outcome - Set by the command when it didn't do what was asked (see {@link rejectCommand})
  *
  * @example
  * ```typescript
@@ -125,6 +131,38 @@ export enum PRIORITY {
 export interface CommandContext {
 	actor: Mob;
 	room?: Room;
+	outcome?: CommandOutcome;
+}
+
+/**
+ * How a command turned out when it didn't do what was asked.
+ * Privileged commands are recorded in the audit log with this outcome
+ * instead of as a success.
+ */
+export interface CommandOutcome {
+	result: AUDIT_OUTCOME.INVALID | AUDIT_OUTCOME.FAILURE;
+	/** What went wrong, as told to the actor */
+	error: string;
+}
+
+/**
+ * Refuse to carry out a command: tell the actor why and record the refusal
+ * on the context so the audit log doesn't report it as a success.
+ *
+ * @param context The context the command is executing in
+ * @param message Why the command was refused
+ *
+ * @example
+ * ```typescript
+ * if (!target) return rejectCommand(context, "That player is not online.");
+ * ```
+ */
+export function rejectCommand(context: CommandContext, message: string): void {
+	context.outcome = {
+		result: AUDIT_OUTCOME.INVALID,
+		error: stripColors(message),
+	};
+	context.actor.sendMessage(message, MESSAGE_GROUP.COMMAND_RESPONSE);
 }
 
 /**
@@ -211,7 +249,12 @@ export interface CommandOptions {
 	pattern: string;
 	aliases?: string[];
 	priority?: PRIORITY;
+	/** Permission a character needs to use the command */
+	permission?: PERMISSION;
+	/** @deprecated Use `permission`; `adminOnly` requires `PERMISSION.ADMIN` */
 	adminOnly?: boolean;
+	/** Whether the command can be used while stunned */
+	allowWhileStunned?: boolean;
 }
 
 /**
@@ -451,13 +494,30 @@ export abstract class Command {
 	 */
 	readonly priority: PRIORITY = PRIORITY.NORMAL;
 
+	/**
+	 * Permission a character needs to use this command.
+	 * The command will not be parsed for actors without it.
+	 * Defaults to none (anyone may use it).
+	 */
+	readonly permission?: PERMISSION;
+
 	/**
 	 * Whether this command is admin-only.
-	 * If true, the command will not be parsed for non-admin characters.
+	 * Kept for older commands; it is the same as requiring `PERMISSION.ADMIN`.
 	 * Defaults to false.
+	 *
+	 * @deprecated Use `permission`
 	 */
 	readonly adminOnly: boolean = false;
 
+	/**
+	 * Whether this command can be used while stunned.
+	 * Meant for commands that don't act on the world, like looking around,
+	 * talking or checking your status. Commands that need a permission are
+	 * always usable. Defaults to false.
+	 */
+	readonly allowWhileStunned: boolean = false;
+
 	/**
 	 * Cached pattern information for efficient parsing.
 	 * Built once during construction to avoid rebuilding regex patterns on every parse.
@@ -505,11 +565,37 @@ export abstract class Command {
 			if (options.pattern) this.pattern = options.pattern;
 			if (options.aliases) this.aliases = options.aliases;
 			if (options.priority !== undefined) this.priority = options.priority;
+			if (options.permission !== undefined)
+				this.permission = options.permission;
 			if (options.adminOnly !== undefined) this.adminOnly = options.adminOnly;
+			if (options.allowWhileStunned !== undefined)
+				this.allowWhileStunned = options.allowWhileStunned;
 		}
 		this.buildPatternCache();
 	}
 
+	/**
+	 * The permission needed to use this command, if any.
+	 * Commands flagged `adminOnly` need `PERMISSION.ADMIN`.
+	 */
+	get requiredPermission(): PERMISSION | undefined {
+		return this.permission ?? (this.adminOnly ? PERMISSION.ADMIN : undefined);
+	}
+
+	/**
+	 * Check whether an actor may use this command.
+	 * Commands that need a permission are only available to characters whose
+	 * role grants it; NPCs never have permissions.
+	 *
+	 * @param actor The mob trying to use the command
+	 * @returns true if the actor may use the command
+	 */
+	canUse(actor: Mob): boolean {
+		const permission = this.requiredPermission;
+		if (!permission) return true;
+		return actor.character?.hasPermission(permission) ?? false;
+	}
+
 	/**
 	 * Build cached regex patterns for efficient parsing.
 	 * This is called once during construction.
@@ -578,6 +664,22 @@ export abstract class Command {
 		return undefined;
 	}
 
+	/**
+	 * Optional cast time (in milliseconds) for action commands.
+	 *
+	 * Commands that return a positive cast time are routed through the action
+	 * queue and only execute once the cast completes. Casts can be interrupted
+	 * (for example by taking damage), in which case the command never executes.
+	 *
+	 * Returning 0 or undefined means the command executes without casting.
+	 */
+	getCastTimeMs(
+		_context: CommandContext,
+		_args: Map<string, any>
+	): number | undefined {
+		return undefined;
+	}
+
 	/**
 	 * Handle parsing errors with custom messaging.
 	 *
@@ -1633,10 +1735,16 @@ export type { ActionQueueEntry, ActionState } from "../registry/command.js";
  * Ability commands are only matched if the actor knows the associated ability.
  * This prevents players from using commands for abilities they haven't learned.
  *
+ * Ability costs are handled here rather than in each ability file: the cost is
+ * checked before the ability runs and deducted only if the ability actually
+ * recorded a use (via `Mob.useAbility()`), so failed targeting doesn't cost
+ * anything. Abilities with a cast time report it through `getCastTimeMs()` so
+ * the action queue can delay execution until the cast completes.
+ *
  * @example
  * ```typescript
  * const command = new AbilityCommand(
- *   "whirlwind",
+ *   whirlwindAbility,
  *   {
  *     pattern: "whirlwind",
  *     execute: (ctx, args) => {
@@ -1648,9 +1756,10 @@ export type { ActionQueueEntry, ActionState } from "../registry/command.js";
  */
 export class AbilityCommand extends Command {
 	readonly abilityId: string;
+	readonly ability: Ability;
 
 	constructor(
-		abilityId: string,
+		ability: Ability,
 		commandObj: {
 			pattern: string;
 			aliases?: string[];
@@ -1670,7 +1779,8 @@ export class AbilityCommand extends Command {
 			aliases: commandObj.aliases,
 			priority: commandObj.priority,
 		});
-		this.abilityId = abilityId;
+		this.ability = ability;
+		this.abilityId = ability.id;
 		this.executeFunction = commandObj.execute;
 		this.errorFunction = commandObj.onError;
 		if (typeof commandObj.cooldown === "function") {
@@ -1694,8 +1804,79 @@ export class AbilityCommand extends Command {
 		args: Map<string, any>
 	) => number | undefined;
 
+	/**
+	 * Checks whether the actor can currently pay this ability's cost.
+	 * Tells the actor what they're missing when they can't.
+	 *
+	 * @param context The command context
+	 * @returns true if the cost can be paid (or there is no cost)
+	 */
+	canAfford(context: CommandContext): boolean {
+		const lacking = context.actor.getAbilityCostShortfall(this.ability.cost);
+		if (!lacking) return true;
+		context.actor.sendMessage(
+			`You don't have enough ${lacking} to use ${this.ability.name}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return false;
+	}
+
+	/**
+	 * Checks whether the actor is silenced.
+	 * Tells the actor they can't use the ability when they are.
+	 *
+	 * @param context The command context
+	 * @returns true if the actor is silenced
+	 */
+	isSilenced(context: CommandContext): boolean {
+		if (!context.actor.hasCrowdControl(CROWD_CONTROL.SILENCE)) return false;
+		context.actor.sendMessage(
+			`You are silenced and cannot use ${this.ability.name}!`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return true;
+	}
+
+	/**
+	 * Checks whether the actor is stunned or feared, either of which keeps
+	 * them from using abilities. Tells the actor why when they are.
+	 *
+	 * @param context The command context
+	 * @returns true if the actor can't act
+	 */
+	isIncapacitated(context: CommandContext): boolean {
+		const { actor } = context;
+		if (actor.hasCrowdControl(CROWD_CONTROL.STUN)) {
+			actor.sendMessage(
+				`You are stunned and cannot use ${this.ability.name}!`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return true;
+		}
+		if (actor.hasCrowdControl(CROWD_CONTROL.FEAR)) {
+			actor.sendMessage(
+				`You are too frightened to use ${this.ability.name}!`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			return true;
+		}
+		return false;
+	}
+
 	execute(context: CommandContext, args: Map<string, any>): void {
+		const { actor } = context;
+		if (this.isIncapacitated(context)) return;
+		if (this.isSilenced(context)) return;
+		if (!this.canAfford(context)) return;
+
+		const before = actor.lastAbilityUse;
 		this.executeFunction(context, args);
+		const after = actor.lastAbilityUse;
+
+		// Only charge the cost if the ability was actually used
+		if (after && after !== before && after.ability.id === this.abilityId) {
+			actor.payAbilityCost(this.ability.cost);
+		}
 	}
 
 	onError(context: CommandContext, result: ParseResult): void {
@@ -1713,6 +1894,25 @@ export class AbilityCommand extends Command {
 		const value = this.cooldownResolver(context, args);
 		return typeof value === "number" ? value : undefined;
 	}
+
+	/**
+	 * Returns the ability's cast time.
+	 * When the ability has a cooldown resolver, a resolved cooldown of 0 means
+	 * the ability can't be used right now (no target, etc.), so no cast is
+	 * started and the command executes immediately to report the problem.
+	 */
+	override getCastTimeMs(
+		context: CommandContext,
+		args: Map<string, any>
+	): number | undefined {
+		const castTime = this.ability.castTime ?? 0;
+		if (castTime <= 0) return undefined;
+		if (this.cooldownResolver) {
+			const cooldown = this.cooldownResolver(context, args);
+			if (!cooldown || cooldown <= 0) return undefined;
+		}
+		return castTime;
+	}
 }
 
 // Command registry functions moved to src/registry/command.ts
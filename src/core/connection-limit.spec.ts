@@ -0,0 +1,59 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	CONNECTION_RATE_WINDOW_MS,
+	CONNECTION_REFUSAL,
+	ConnectionLimiter,
+} from "./connection-limit.js";
+
+suite("connection-limit.ts", () => {
+	suite("ConnectionLimiter", () => {
+		test("should cap open connections per address", () => {
+			const limiter = new ConnectionLimiter(() => ({
+				maxPerAddress: 2,
+				maxPerMinute: 0,
+			}));
+			assert.strictEqual(limiter.acquire("203.0.113.7:5000"), undefined);
+			assert.strictEqual(limiter.acquire("203.0.113.7:5001"), undefined);
+			assert.strictEqual(
+				limiter.acquire("203.0.113.7:5002"),
+				CONNECTION_REFUSAL.TOO_MANY
+			);
+			assert.strictEqual(limiter.acquire("198.51.100.1:5000"), undefined);
+
+			limiter.release("203.0.113.7:5000");
+			assert.strictEqual(limiter.getOpenCount("203.0.113.7"), 1);
+			assert.strictEqual(limiter.acquire("203.0.113.7:5003"), undefined);
+		});
+
+		test("should count web and telnet connections together", () => {
+			const limiter = new ConnectionLimiter(() => ({
+				maxPerAddress: 1,
+				maxPerMinute: 0,
+			}));
+			assert.strictEqual(limiter.acquire("203.0.113.7:5000"), undefined);
+			assert.strictEqual(
+				limiter.acquire("websocket:203.0.113.7"),
+				CONNECTION_REFUSAL.TOO_MANY
+			);
+		});
+
+		test("should limit the connection rate", () => {
+			const limiter = new ConnectionLimiter(() => ({
+				maxPerAddress: 0,
+				maxPerMinute: 2,
+			}));
+			const now = 1_000_000;
+			assert.strictEqual(limiter.acquire("203.0.113.7", now), undefined);
+			assert.strictEqual(limiter.acquire("203.0.113.7", now + 1), undefined);
+			assert.strictEqual(
+				limiter.acquire("203.0.113.7", now + 2),
+				CONNECTION_REFUSAL.TOO_FAST
+			);
+			assert.strictEqual(
+				limiter.acquire("203.0.113.7", now + CONNECTION_RATE_WINDOW_MS + 2),
+				undefined
+			);
+		});
+	});
+});
@@ -0,0 +1,143 @@
+/**
+ * Core connection limit module.
+ *
+ * `ConnectionLimiter` decides at accept time whether a new connection from an
+ * address may proceed: it caps how many connections one address may hold at
+ * once and how many it may open per minute. One limiter can be shared by
+ * several servers so the telnet and web client ports count together.
+ *
+ * Typical usage
+ * ```ts
+ * import {
+ *   ConnectionLimiter,
+ *   CONNECTION_REFUSAL_MESSAGE,
+ * } from "./connection-limit.js";
+ *
+ * const limiter = new ConnectionLimiter(() => ({ maxPerAddress: 5, maxPerMinute: 20 }));
+ * const refusal = limiter.acquire("203.0.113.7:53211");
+ * if (refusal) socket.end(CONNECTION_REFUSAL_MESSAGE[refusal]);
+ * // ...when the connection closes
+ * limiter.release("203.0.113.7:53211");
+ * ```
+ *
+ * Notes
+ * - Limits are read on every call, so config changes apply straight away.
+ * - A limit of 0 turns that check off.
+ * - Refused attempts count toward the per-minute rate, so hammering the port
+ *   keeps an address refused.
+ *
+ * @module core/connection-limit
+ */
+
+import { getAddressIp } from "./ban.js";
+
+/** Length of the connection rate window. */
+export const CONNECTION_RATE_WINDOW_MS = 60 * 1000;
+
+/** Why a connection was refused. */
+export enum CONNECTION_REFUSAL {
+	/** The address already holds its share of connections */
+	TOO_MANY = "too-many",
+	/** The address is opening connections too quickly */
+	TOO_FAST = "too-fast",
+}
+
+/** What a refused client is told before it is disconnected. */
+export const CONNECTION_REFUSAL_MESSAGE: Readonly<
+	Record<CONNECTION_REFUSAL, string>
+> = {
+	[CONNECTION_REFUSAL.TOO_MANY]: "Too many connections from your address.",
+	[CONNECTION_REFUSAL.TOO_FAST]:
+		"Too many connection attempts from your address. Try again in a minute.",
+};
+
+/**
+ * Per-address connection limits.
+ */
+export interface ConnectionLimits {
+	/** Simultaneous connections per address (0 for no limit) */
+	maxPerAddress: number;
+	/** New connections per address per minute (0 for no limit) */
+	maxPerMinute: number;
+}
+
+/**
+ * Tracks open connections and recent connection attempts per address.
+ */
+export class ConnectionLimiter {
+	private readonly open = new Map<string, number>();
+	private readonly attempts = new Map<string, number[]>();
+
+	/**
+	 * @param getLimits Supplies the limits to apply to each new connection
+	 */
+	constructor(private readonly getLimits: () => ConnectionLimits) {}
+
+	/**
+	 * Ask to open a connection. Allowed connections are counted until
+	 * {@link release} is called for them.
+	 *
+	 * @param address Client address (a port or `websocket:` prefix is ignored)
+	 * @param now The current time in milliseconds
+	 * @returns Why the connection is refused, or undefined if it may proceed
+	 */
+	public acquire(
+		address: string,
+		now: number = Date.now()
+	): CONNECTION_REFUSAL | undefined {
+		const ip = getAddressIp(address);
+		const limits = this.getLimits();
+
+		const recent = (this.attempts.get(ip) ?? []).filter(
+			(time) => now - time < CONNECTION_RATE_WINDOW_MS
+		);
+		recent.push(now);
+		this.attempts.set(ip, recent);
+		if (limits.maxPerMinute > 0 && recent.length > limits.maxPerMinute)
+			return CONNECTION_REFUSAL.TOO_FAST;
+
+		const open = this.open.get(ip) ?? 0;
+		if (limits.maxPerAddress > 0 && open >= limits.maxPerAddress)
+			return CONNECTION_REFUSAL.TOO_MANY;
+
+		this.open.set(ip, open + 1);
+		return undefined;
+	}
+
+	/**
+	 * Count a connection allowed by {@link acquire} as closed.
+	 *
+	 * @param address The address passed to {@link acquire}
+	 */
+	public release(address: string): void {
+		const ip = getAddressIp(address);
+		const open = (this.open.get(ip) ?? 0) - 1;
+		if (open > 0) this.open.set(ip, open);
+		else this.open.delete(ip);
+	}
+
+	/**
+	 * Get how many connections an address holds.
+	 *
+	 * @param address Client address
+	 * @returns Open connection count
+	 */
+	public getOpenCount(address: string): number {
+		return this.open.get(getAddressIp(address)) ?? 0;
+	}
+
+	/**
+	 * Forget attempts that have left the rate window.
+	 *
+	 * @param now The current time in milliseconds
+	 */
+	public prune(now: number = Date.now()): void {
+		for (const [ip, times] of this.attempts) {
+			const recent = times.filter(
+				(time) => now - time < CONNECTION_RATE_WINDOW_MS
+			);
+			if (recent.length > 0) this.attempts.set(ip, recent);
+			else this.attempts.delete(ip);
+		}
+	}
+}
@@ -0,0 +1,52 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	applyDiminishingReturns,
+	DIMINISHING_RETURNS_RESET_MS,
+	DiminishingReturnsState,
+} from "./crowd-control.js";
+
+const NOW = 1_000_000;
+
+suite("crowd-control.ts", () => {
+	test("applyDiminishingReturns gives the full duration the first time", () => {
+		const { durationMs, state } = applyDiminishingReturns(undefined, 4000, NOW);
+		assert.strictEqual(durationMs, 4000);
+		assert.deepStrictEqual(state, {
+			applications: 1,
+			resetsAt: NOW + 4000 + DIMINISHING_RETURNS_RESET_MS,
+		});
+	});
+
+	test("applyDiminishingReturns halves each repeat until immune", () => {
+		let state: DiminishingReturnsState | undefined;
+		const durations: number[] = [];
+		for (let i = 0; i < 4; i++) {
+			const result = applyDiminishingReturns(state, 4000, NOW + i);
+			durations.push(result.durationMs);
+			state = result.state;
+		}
+		assert.deepStrictEqual(durations, [4000, 2000, 1000, 0]);
+	});
+
+	test("applyDiminishingReturns does not extend immunity", () => {
+		const immune: DiminishingReturnsState = {
+			applications: 3,
+			resetsAt: NOW + 5000,
+		};
+		const result = applyDiminishingReturns(immune, 4000, NOW);
+		assert.strictEqual(result.durationMs, 0);
+		assert.deepStrictEqual(result.state, immune);
+	});
+
+	test("applyDiminishingReturns resets after the window", () => {
+		const state: DiminishingReturnsState = {
+			applications: 3,
+			resetsAt: NOW,
+		};
+		assert.strictEqual(
+			applyDiminishingReturns(state, 4000, NOW).durationMs,
+			4000
+		);
+	});
+});
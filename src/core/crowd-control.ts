@@ -0,0 +1,109 @@
+/**
+ * Core crowd-control module.
+ *
+ * Crowd-control effects take away part of a mob's ability to act: a stun
+ * stops every action, a root stops movement, a silence stops abilities, a slow
+ * stretches action cooldowns and a fear sends the mob running from combat.
+ *
+ * Repeated crowd control of the same kind on the same target is subject to
+ * diminishing returns: each application within the reset window lasts a
+ * fraction of the one before, until the target is briefly immune. The window
+ * starts over once the target has been free of that kind of control for
+ * {@link DIMINISHING_RETURNS_RESET_MS}.
+ *
+ * Typical usage
+ * ```ts
+ * import { applyDiminishingReturns } from "./crowd-control.js";
+ *
+ * const { durationMs, state } = applyDiminishingReturns(previous, 4000);
+ * // durationMs: 4000, then 2000, then 1000, then 0 (immune)
+ * ```
+ *
+ * @module core/crowd-control
+ */
+
+/**
+ * Kinds of crowd control.
+ */
+export enum CROWD_CONTROL {
+	/** Can't act, attack or move */
+	STUN = "stun",
+	/** Can't move or flee */
+	ROOT = "root",
+	/** Can't use abilities */
+	SILENCE = "silence",
+	/** Action cooldowns take longer */
+	SLOW = "slow",
+	/** Flees from combat and can't fight back */
+	FEAR = "fear",
+}
+
+/** Cooldown multiplier for slows that don't give their own */
+export const DEFAULT_SLOW_MULTIPLIER = 1.5;
+
+/** Duration multipliers for each application within the reset window */
+export const DIMINISHING_RETURNS_MULTIPLIERS = [1, 0.5, 0.25];
+
+/** Time free of a kind of crowd control before its diminishing returns reset */
+export const DIMINISHING_RETURNS_RESET_MS = 18000;
+
+/**
+ * Diminishing returns of one kind of crowd control on one target.
+ */
+export interface DiminishingReturnsState {
+	/** Applications since the window last reset */
+	applications: number;
+	/** Time at which the window resets (milliseconds since epoch) */
+	resetsAt: number;
+}
+
+/**
+ * Works out how long a crowd-control effect lasts after diminishing returns.
+ *
+ * @param state The target's diminishing returns for this kind of control, if any
+ * @param durationMs The full duration of the effect
+ * @param now The current time
+ * @returns The diminished duration (0 if the target is immune) and the new state
+ */
+export function applyDiminishingReturns(
+	state: DiminishingReturnsState | undefined,
+	durationMs: number,
+	now: number = Date.now()
+): { durationMs: number; state: DiminishingReturnsState } {
+	const applications = state && now < state.resetsAt ? state.applications : 0;
+	const multiplier = DIMINISHING_RETURNS_MULTIPLIERS[applications] ?? 0;
+	if (multiplier <= 0) {
+		// Immune: the window keeps running from the last application
+		return { durationMs: 0, state: state! };
+	}
+
+	const diminished = Math.round(durationMs * multiplier);
+	return {
+		durationMs: diminished,
+		state: {
+			applications: applications + 1,
+			resetsAt: now + diminished + DIMINISHING_RETURNS_RESET_MS,
+		},
+	};
+}
+
+/**
+ * Describes what a kind of crowd control does to the mob suffering it.
+ *
+ * @param control The kind of crowd control
+ * @returns A short description (e.g. "cannot act")
+ */
+export function describeCrowdControl(control: CROWD_CONTROL): string {
+	switch (control) {
+		case CROWD_CONTROL.STUN:
+			return "cannot act";
+		case CROWD_CONTROL.ROOT:
+			return "cannot move";
+		case CROWD_CONTROL.SILENCE:
+			return "cannot use abilities";
+		case CROWD_CONTROL.SLOW:
+			return "actions take longer";
+		case CROWD_CONTROL.FEAR:
+			return "fleeing in terror";
+	}
+}
@@ -0,0 +1,157 @@
+import { test, suite, beforeEach } from "node:test";
+import assert from "node:assert";
+import { createDoor, Dungeon, DOOR_STATE, Mob, Room } from "./dungeon.js";
+import { Job, Race } from "./archetype.js";
+import { EFFECT_CATEGORY, PassiveEffectTemplate } from "./effect.js";
+import { DIRECTION } from "../direction.js";
+import { createTunnel } from "../registry/dungeon.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+let dungeonCount = 0;
+
+suite("dungeon.ts", () => {
+	suite("Room doors", () => {
+		let dungeon: Dungeon;
+		let west: Room;
+		let east: Room;
+
+		beforeEach(() => {
+			dungeon = Dungeon.generateEmptyDungeon({
+				id: `doors-test-${dungeonCount++}`,
+				dimensions: { width: 2, height: 1, layers: 1 },
+			});
+			west = dungeon.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+			east = dungeon.getRoom({ x: 1, y: 0, z: 0 }) as Room;
+		});
+
+		test("setDoor mirrors the door onto the other side of the exit", () => {
+			const door = createDoor({ name: "gate" });
+			west.setDoor(DIRECTION.EAST, door);
+
+			assert.strictEqual(east.getDoor(DIRECTION.WEST), door);
+			assert.strictEqual(west.isDoorClosed(DIRECTION.EAST), true);
+			assert.strictEqual(east.isDoorClosed(DIRECTION.WEST), true);
+
+			door.state = DOOR_STATE.OPEN;
+			assert.strictEqual(east.isDoorClosed(DIRECTION.WEST), false);
+		});
+
+		test("replacing or removing a door updates both sides", () => {
+			west.setDoor(DIRECTION.EAST, createDoor({}));
+			const replacement = createDoor({ name: "portcullis" });
+
+			east.setDoor(DIRECTION.WEST, replacement);
+			assert.strictEqual(west.getDoor(DIRECTION.EAST), replacement);
+
+			west.setDoor(DIRECTION.EAST, undefined);
+			assert.strictEqual(west.getDoor(DIRECTION.EAST), undefined);
+			assert.strictEqual(east.getDoor(DIRECTION.WEST), undefined);
+			assert.strictEqual(east.getDoors().size, 0);
+		});
+
+		test("doors on one-way links are not mirrored", () => {
+			const other = Dungeon.generateEmptyDungeon({
+				id: `doors-test-${dungeonCount++}`,
+				dimensions: { width: 1, height: 1, layers: 1 },
+			});
+			const far = other.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+			createTunnel(west, DIRECTION.NORTH, far, true);
+
+			const door = createDoor({});
+			west.setDoor(DIRECTION.NORTH, door);
+
+			assert.strictEqual(west.getDoor(DIRECTION.NORTH), door);
+			assert.strictEqual(far.getDoor(DIRECTION.SOUTH), undefined);
+		});
+
+		test("closed doors block movement until opened", () => {
+			const door = createDoor({ state: "closed" });
+			west.setDoor(DIRECTION.EAST, door);
+			const mob = new Mob({ race: testRace, job: testJob });
+			west.add(mob);
+
+			assert.strictEqual(mob.canStep(DIRECTION.EAST), false);
+
+			door.state = DOOR_STATE.OPEN;
+			assert.strictEqual(mob.canStep(DIRECTION.EAST), true);
+		});
+
+		test("doors serialize their default state and reset to it", () => {
+			const door = createDoor({
+				name: "vault door",
+				state: "locked",
+				keyTemplateId: "vault-key",
+				pickDifficulty: 80,
+			});
+			west.setDoor(DIRECTION.EAST, door);
+			door.state = DOOR_STATE.OPEN;
+
+			assert.deepStrictEqual(west.serialize().doors, {
+				east: {
+					name: "vault door",
+					state: "locked",
+					keyTemplateId: "vault-key",
+					pickDifficulty: 80,
+				},
+			});
+
+			assert.strictEqual(west.resetDoors(), 1);
+			assert.strictEqual(door.state, DOOR_STATE.LOCKED);
+			assert.strictEqual(east.resetDoors(), 0);
+		});
+	});
+
+	suite("Mob dispelEffects", () => {
+		const WARCRY: PassiveEffectTemplate = {
+			id: "test_warcry",
+			name: "Warcry",
+			description: "A test warcry.",
+			type: "passive",
+			stackable: false,
+			category: EFFECT_CATEGORY.PHYSICAL,
+		};
+		const BRAWN: PassiveEffectTemplate = { ...WARCRY, id: "test_brawn" };
+
+		test("leaves race and job passives alone", () => {
+			const mob = new Mob({
+				display: "Brawler",
+				keywords: "brawler",
+				race: { ...testRace, passives: [BRAWN.id] },
+				job: testJob,
+			});
+			mob.applyArchetypePassive(BRAWN);
+			mob.addEffect(WARCRY, mob);
+
+			const removed = mob.dispelEffects([EFFECT_CATEGORY.PHYSICAL]);
+
+			assert.deepStrictEqual(
+				removed.map((effect) => effect.template.id),
+				[WARCRY.id]
+			);
+			assert.strictEqual(mob.getEffectsById(BRAWN.id).length, 1);
+		});
+	});
+});
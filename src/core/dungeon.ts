@@ -70,7 +70,7 @@ import { color, COLOR, COLOR_NAMES, COLOR_NAME_TO_COLOR } from "./color.js";
 import logger from "../logger.js";
 import { Race, Job, evaluateGrowthModifier } from "../core/archetype.js";
 import { Character, MESSAGE_GROUP } from "../core/character.js";
-import { act } from "../act.js";
+import { act, ActMessageTemplates } from "../act.js";
 import { forEachCharacter } from "../game.js";
 import {
 	removeFromCombatQueue,
@@ -79,6 +79,7 @@ import {
 	addToCombatQueue,
 	processThreatSwitching,
 	handleNPCLeavingCombat,
+	triggerProcs,
 } from "../combat.js";
 import { setAbsoluteInterval, clearCustomInterval } from "accurate-intervals";
 import {
@@ -89,9 +90,11 @@ import {
 	DamageTypeRelationships,
 	DAMAGE_TYPE,
 } from "./damage-types.js";
-import { Ability } from "./ability.js";
+import { Ability, AbilityCost, AbilityUse } from "./ability.js";
 import { getProficiencyAtUses } from "./ability.js";
 import { addToRegenerationSet } from "../regeneration.js";
+import { moveFollowers, removeFromGroups } from "../group.js";
+import { GMCP_PACKAGE, markGMCPDirty } from "../gmcp.js";
 import {
 	EffectInstance,
 	EffectTemplate,
@@ -100,15 +103,34 @@ import {
 	isDamageOverTimeEffect,
 	isHealOverTimeEffect,
 	isShieldEffect,
+	isCrowdControlEffect,
+	isDispellable,
 	isEffectExpired,
+	stackEffect,
 	SerializedEffect,
+	EFFECT_CATEGORY,
+	ZoneInstance,
+	ZoneTemplate,
 } from "./effect.js";
+import {
+	applyDiminishingReturns,
+	CROWD_CONTROL,
+	DEFAULT_SLOW_MULTIPLIER,
+	DiminishingReturnsState,
+} from "./crowd-control.js";
 import {
 	addToEffectsSet,
 	removeFromEffectsSet,
 	setupEffectTimers,
 	clearEffectTimersForEffect,
+	applyCrowdControl,
 } from "../effects.js";
+import {
+	clearZoneTimer,
+	removeZonesOf,
+	setupZoneTimer,
+	updateRoomAuras,
+} from "../auras.js";
 import {
 	PrimaryAttributeSet,
 	SecondaryAttributeSet,
@@ -155,6 +177,17 @@ let testObjectIdCounter = -1;
  */
 const THREAT_EXPIRATION_INTERVAL_MS = 10 * 1000; // 10 seconds
 
+/**
+ * World events for systems that react to things happening in dungeons
+ * without this module depending on them (e.g. quest progress).
+ *
+ * Events:
+ * - `"room-entered"` `(mob: Mob, room: Room)` - a mob entered a room
+ * - `"item-moved"` `(item: Item, from?: DungeonObject, to?: DungeonObject)` -
+ *   an item changed containers
+ */
+export const dungeonEvents = new EventEmitter();
+
 /**
  * Defines the dimensions of a dungeon's room grid.
  * Represents a three-dimensional space where rooms can exist.
@@ -824,6 +857,24 @@ export class Dungeon {
 		return room;
 	}
 
+	/**
+	 * Restores every door in this dungeon to its default state.
+	 * Doors shared with rooms in other dungeons are restored as well.
+	 *
+	 * @returns The number of doors whose state changed
+	 */
+	resetDoors(): number {
+		let changed = 0;
+		for (const layer of this._rooms) {
+			for (const row of layer) {
+				for (const room of row) {
+					if (room) changed += room.resetDoors();
+				}
+			}
+		}
+		return changed;
+	}
+
 	/**
 	 * Gets a copy of the resets array.
 	 *
@@ -971,6 +1022,97 @@ export interface DungeonObjectOptions {
 	isContainer?: boolean;
 }
 
+/**
+ * States a door on a room exit can be in.
+ * Closed and locked doors both block movement and vision; only locked doors
+ * require a key (or a successful pick) before they can be opened.
+ */
+export enum DOOR_STATE {
+	OPEN = "open",
+	CLOSED = "closed",
+	LOCKED = "locked",
+}
+
+/**
+ * A door, gate or similar barrier sitting on a room exit.
+ *
+ * A single Door instance is shared by both sides of an exit (see
+ * `Room.setDoor()`), so opening it from one room opens it in the other.
+ *
+ * @property name - What the door is called in messages (e.g. "door", "gate")
+ * @property state - Current state of the door
+ * @property defaultState - State restored by dungeon resets
+ * @property keyTemplateId - Template ID of the item that locks/unlocks this door
+ * @property pickDifficulty - Difficulty (0-100) of picking the lock; undefined means unpickable
+ */
+export interface Door {
+	name: string;
+	state: DOOR_STATE;
+	defaultState: DOOR_STATE;
+	keyTemplateId?: string;
+	pickDifficulty?: number;
+}
+
+/**
+ * Serialized form of a door (for templates, exit overrides and room data).
+ * `state` is the default state the door is created in and reset to.
+ */
+export interface SerializedDoor {
+	name?: string;
+	state?: `${DOOR_STATE}`;
+	keyTemplateId?: string;
+	pickDifficulty?: number;
+}
+
+/** Name used for doors that don't specify one. */
+export const DEFAULT_DOOR_NAME = "door";
+
+/**
+ * Creates a Door from its serialized form.
+ *
+ * @param data The serialized door data
+ * @returns A new Door in its default state
+ *
+ * @example
+ * ```typescript
+ * const gate = createDoor({ name: "iron gate", state: "locked", keyTemplateId: "@tower:gate-key" });
+ * room.setDoor(DIRECTION.NORTH, gate);
+ * ```
+ */
+export function createDoor(data: SerializedDoor): Door {
+	const state = (Object.values(DOOR_STATE) as string[]).includes(
+		data.state ?? ""
+	)
+		? (data.state as DOOR_STATE)
+		: DOOR_STATE.CLOSED;
+	const door: Door = {
+		name: data.name ?? DEFAULT_DOOR_NAME,
+		state,
+		defaultState: state,
+	};
+	if (data.keyTemplateId) door.keyTemplateId = data.keyTemplateId;
+	if (data.pickDifficulty !== undefined)
+		door.pickDifficulty = data.pickDifficulty;
+	return door;
+}
+
+/**
+ * Serializes a Door, recording its default state.
+ *
+ * @param door The door to serialize
+ * @returns The serialized door, omitting default values
+ */
+export function serializeDoor(door: Door): SerializedDoor {
+	return {
+		...(door.name !== DEFAULT_DOOR_NAME && { name: door.name }),
+		state: door.defaultState,
+		...(door.keyTemplateId && { keyTemplateId: door.keyTemplateId }),
+		...(door.pickDifficulty !== undefined && {
+			pickDifficulty: door.pickDifficulty,
+		}),
+	};
+}
+
 /**
  * Options for creating a `Room`.
  *
@@ -1038,6 +1180,7 @@ export interface SerializedRoom extends SerializedDungeonObject {
 	coordinates: Coordinates;
 	allowedExits: DIRECTION; // Mandatory field - always present
 	dense?: boolean; // Whether this room is dense (solid/impassable)
+	doors?: Partial<Record<DirectionText, SerializedDoor>>; // Doors on this room's exits
 }
 
 /**
@@ -1093,10 +1236,32 @@ export interface LevelUpChanges {
  * Currently identical to base form but defined for type safety and future extensions.
  */
 export interface SerializedItem extends SerializedDungeonObject {
-	type: "Item" | equipmentType;
+	type: "Item" | "Consumable" | equipmentType;
 	isContainer?: boolean;
 }
 
+/**
+ * Serialized form for Consumable objects.
+ *
+ * @property consumableType - How the consumable is used (potion, food or scroll)
+ * @property effects - Effects applied to the user when consumed
+ * @property restore - Instant health/mana/exhaustion restoration
+ * @property cleanse - Effect categories removed from the user when consumed
+ * @property charges - Remaining uses before the item is used up
+ * @property cooldownGroup - Consumables sharing a group share a cooldown
+ * @property cooldown - Cooldown applied to the group after use, in seconds
+ */
+export interface SerializedConsumable extends SerializedItem {
+	type: "Consumable";
+	consumableType: ConsumableType;
+	effects?: ConsumableEffect[];
+	restore?: ConsumableRestore;
+	cleanse?: EFFECT_CATEGORY[];
+	charges: number;
+	cooldownGroup?: string;
+	cooldown?: number;
+}
+
 /**
  * Serialized form for Prop objects.
  * Currently identical to base form but defined for type safety and future extensions.
@@ -1120,6 +1285,7 @@ export type equipmentType = "Equipment" | "Armor" | "Weapon";
  * @property attributeBonuses - Optional primary attribute bonuses
  * @property resourceBonuses - Optional resource capacity bonuses
  * @property secondaryAttributeBonuses - Optional secondary attribute bonuses
+ * @property procs - Optional procs set off in combat
  */
 export interface SerializedEquipment extends SerializedItem {
 	type: equipmentType;
@@ -1127,6 +1293,7 @@ export interface SerializedEquipment extends SerializedItem {
 	attributeBonuses?: Partial<PrimaryAttributeSet>;
 	resourceBonuses?: Partial<ResourceCapacities>;
 	secondaryAttributeBonuses?: Partial<SecondaryAttributeSet>;
+	procs?: EquipmentProc[];
 }
 
 export interface SerializedArmor extends SerializedEquipment {
@@ -1209,6 +1376,7 @@ export type SerializedDungeonObjectType =
 	| "Mob"
 	| "Item"
 	| "Prop"
+	| "Consumable"
 	| "Equipment"
 	| "Armor"
 	| "Weapon";
@@ -1223,6 +1391,7 @@ export type AnySerializedDungeonObject =
 	| SerializedMob
 	| SerializedItem
 	| SerializedProp
+	| SerializedConsumable
 	| SerializedEquipment
 	| SerializedArmor
 	| SerializedWeapon;
@@ -1288,15 +1457,45 @@ export interface RoomTemplate extends DungeonObjectTemplate {
 	 * Links are processed after all dungeons are loaded, and bidirectional links are automatically detected.
 	 */
 	roomLinks?: Record<DirectionText, string>;
+	/**
+	 * Doors on this template's exits.
+	 * Keys are direction names and values describe the door. Doors are installed
+	 * after room links are processed so they can be mirrored onto the room on the
+	 * other side of the exit.
+	 */
+	doors?: Partial<Record<DirectionText, SerializedDoor>>;
 }
 
-export type ItemType = "Item" | equipmentType;
+export type ItemType = "Item" | "Consumable" | equipmentType;
 
 export interface ItemTemplate extends DungeonObjectTemplate {
 	type: ItemType;
 	isContainer?: boolean;
 }
 
+/**
+ * Template definition specifically for Consumable objects.
+ * Extends ItemTemplate with consumable-specific properties.
+ *
+ * @property consumableType - How the consumable is used (defaults to "potion")
+ * @property effects - Effect template ids (with optional durations) applied on use
+ * @property restore - Instant health/mana/exhaustion restoration
+ * @property cleanse - Effect categories removed from the user when consumed
+ * @property charges - Number of uses before the item is used up (defaults to 1)
+ * @property cooldownGroup - Consumables sharing a group share a cooldown
+ * @property cooldown - Cooldown applied to the group after use, in seconds
+ */
+export interface ConsumableTemplate extends ItemTemplate {
+	type: "Consumable";
+	consumableType?: ConsumableType;
+	effects?: ConsumableEffect[];
+	restore?: ConsumableRestore;
+	cleanse?: EFFECT_CATEGORY[];
+	charges?: number;
+	cooldownGroup?: string;
+	cooldown?: number;
+}
+
 /**
  * Template definition specifically for Equipment objects.
  * Extends DungeonObjectTemplate with equipment-specific properties.
@@ -1305,6 +1504,7 @@ export interface ItemTemplate extends DungeonObjectTemplate {
  * @property attributeBonuses - Optional primary attribute bonuses
  * @property resourceBonuses - Optional resource capacity bonuses
  * @property secondaryAttributeBonuses - Optional secondary attribute bonuses
+ * @property procs - Optional procs set off in combat
  */
 export interface EquipmentTemplate extends ItemTemplate {
 	type: equipmentType;
@@ -1312,6 +1512,7 @@ export interface EquipmentTemplate extends ItemTemplate {
 	attributeBonuses?: Partial<PrimaryAttributeSet>;
 	resourceBonuses?: Partial<ResourceCapacities>;
 	secondaryAttributeBonuses?: Partial<SecondaryAttributeSet>;
+	procs?: EquipmentProc[];
 }
 
 /**
@@ -1402,6 +1603,8 @@ export interface MobTemplate extends DungeonObjectTemplate {
 	aiScript?: string;
 	/** Shopkeeper inventory ID (local or globalized @dungeon-id<inventory-id>) */
 	shopkeeperInventoryId?: string;
+	/** IDs of quests this mob offers to players */
+	quests?: string[];
 }
 
 /**
@@ -2329,6 +2532,21 @@ export class Room extends DungeonObject {
 	 */
 	private _links?: RoomLink[];
 
+	/**
+	 * Doors on this room's exits, keyed by direction.
+	 * Like `_links`, this is left undefined for the vast majority of rooms that
+	 * have no doors.
+	 * @private
+	 */
+	private _doors?: Map<DIRECTION, Door>;
+
+	/**
+	 * Zones anchored to this room, such as burning ground or a sanctuary.
+	 * Like `_doors`, this is left undefined while the room has no zones.
+	 * @private
+	 */
+	private _zones?: Set<ZoneInstance>;
+
 	/**
 	 * Bitmask of allowed exit directions from this room.
 	 * By default, only NSEW are allowed. UP and DOWN must be explicitly enabled.
@@ -2535,6 +2753,9 @@ export class Room extends DungeonObject {
 	canExit(movable: Movable, direction?: DIRECTION) {
 		if (direction === undefined) return true;
 
+		// Closed and locked doors block the exit
+		if (this.isDoorClosed(direction)) return false;
+
 		// Links override allowedExits - if there's a link in this direction, allow exit
 		if (this._links) {
 			for (const link of this._links) {
@@ -2549,6 +2770,193 @@ export class Room extends DungeonObject {
 		return (this.allowedExits & direction) !== 0;
 	}
 
+	/**
+	 * Gets the door on the exit in the given direction, if any.
+	 *
+	 * @param direction The exit direction
+	 * @returns The Door on that exit, or undefined if there is none
+	 */
+	getDoor(direction: DIRECTION): Door | undefined {
+		return this._doors?.get(direction);
+	}
+
+	/**
+	 * Returns all doors on this room's exits, keyed by direction.
+	 *
+	 * @returns A read-only map of direction to Door (empty when the room has no doors)
+	 */
+	getDoors(): ReadonlyMap<DIRECTION, Door> {
+		return this._doors ?? new Map();
+	}
+
+	/**
+	 * Places a door on the exit in the given direction, or removes it.
+	 * The same Door instance is also placed on the reciprocal exit of the room
+	 * on the other side (including across two-way RoomLinks), so both sides
+	 * always agree on the door's state.
+	 *
+	 * @param direction The exit direction
+	 * @param door The door to place, or undefined to remove the door
+	 *
+	 * @example
+	 * ```typescript
+	 * const room = dungeon.getRoom({ x: 1, y: 1, z: 0 });
+	 * room.setDoor(DIRECTION.NORTH, createDoor({ name: "gate", state: "closed" }));
+	 * const north = room.getStep(DIRECTION.NORTH);
+	 * console.log(north.getDoor(DIRECTION.SOUTH) === room.getDoor(DIRECTION.NORTH)); // true
+	 * ```
+	 */
+	setDoor(direction: DIRECTION, door: Door | undefined) {
+		const previous = this.getDoor(direction);
+		const reciprocal = this.getReciprocalExit(direction);
+		this._setDoorOnly(direction, door);
+		if (reciprocal) {
+			const other = reciprocal.room.getDoor(reciprocal.direction);
+			// Only touch the other side if it is unset or shares our old door
+			if (!other || other === previous) {
+				reciprocal.room._setDoorOnly(reciprocal.direction, door);
+			}
+		}
+	}
+
+	/**
+	 * Stores a door for a single side of an exit without mirroring it.
+	 * @private
+	 */
+	private _setDoorOnly(direction: DIRECTION, door: Door | undefined) {
+		if (door) {
+			if (!this._doors) this._doors = new Map();
+			this._doors.set(direction, door);
+			return;
+		}
+		if (!this._doors) return;
+		this._doors.delete(direction);
+		if (this._doors.size === 0) this._doors = undefined;
+	}
+
+	/**
+	 * Checks whether the exit in the given direction is blocked by a door.
+	 *
+	 * @param direction The exit direction
+	 * @returns true if there is a closed or locked door on that exit
+	 */
+	isDoorClosed(direction: DIRECTION): boolean {
+		const door = this.getDoor(direction);
+		return door !== undefined && door.state !== DOOR_STATE.OPEN;
+	}
+
+	/**
+	 * Finds the room and direction on the other side of an exit that lead back
+	 * to this room. Works for both spatial neighbours and two-way RoomLinks.
+	 *
+	 * @param direction The exit direction from this room
+	 * @returns The reciprocal room and direction, or undefined if the exit is one-way or leads nowhere
+	 */
+	getReciprocalExit(
+		direction: DIRECTION
+	): { room: Room; direction: DIRECTION } | undefined {
+		const destination = this.getStep(direction);
+		if (!destination) return undefined;
+
+		let reverse = dir2reverse(direction);
+		if (this._links) {
+			for (const link of this._links) {
+				if (!getRoomLinkDestination(link, this, direction)) continue;
+				if (link.oneWay) return undefined;
+				reverse =
+					link.from.room === this && link.from.direction === direction
+						? link.to.direction
+						: link.from.direction;
+				break;
+			}
+		}
+
+		if (destination.getStep(reverse) !== this) return undefined;
+		return { room: destination, direction: reverse };
+	}
+
+	/**
+	 * Restores every door in this room to its default state.
+	 * Called by dungeon resets.
+	 *
+	 * @returns The number of doors whose state changed
+	 */
+	resetDoors(): number {
+		if (!this._doors) return 0;
+		let changed = 0;
+		for (const door of this._doors.values()) {
+			if (door.state === door.defaultState) continue;
+			door.state = door.defaultState;
+			changed++;
+		}
+		return changed;
+	}
+
+	/**
+	 * Returns the zones anchored to this room.
+	 *
+	 * @returns A read-only set of zones (empty when the room has none)
+	 */
+	getZones(): ReadonlySet<ZoneInstance> {
+		return this._zones ?? new Set();
+	}
+
+	/**
+	 * Anchors a zone to this room. Its aura is projected onto the room's
+	 * occupants (and anyone who enters) until the zone fades.
+	 *
+	 * @param template The zone template to instantiate
+	 * @param caster The mob creating the zone
+	 * @param duration How long the zone lasts in seconds (defaults to the template's)
+	 * @returns The created zone
+	 *
+	 * @example
+	 * ```typescript
+	 * room.addZone(burningGround, actor);
+	 * ```
+	 */
+	addZone(
+		template: ZoneTemplate,
+		caster: Mob,
+		duration: number = template.duration
+	): ZoneInstance {
+		const now = Date.now();
+		const zone: ZoneInstance = {
+			template,
+			caster,
+			room: this,
+			createdAt: now,
+			expiresAt: now + duration * 1000,
+		};
+		if (!this._zones) this._zones = new Set();
+		this._zones.add(zone);
+		setupZoneTimer(zone);
+		updateRoomAuras(this);
+		return zone;
+	}
+
+	/**
+	 * Removes a zone from this room, along with the effects it projects.
+	 *
+	 * @param zone The zone to remove
+	 * @param showExpireMessage Whether to tell the room the zone has faded (default: true)
+	 */
+	removeZone(zone: ZoneInstance, showExpireMessage: boolean = true) {
+		if (!this._zones?.delete(zone)) return;
+		if (this._zones.size === 0) this._zones = undefined;
+		clearZoneTimer(zone);
+
+		if (showExpireMessage && zone.template.onExpire) {
+			for (const obj of this.contents) {
+				if (obj instanceof Mob) {
+					obj.sendMessage(zone.template.onExpire, MESSAGE_GROUP.INFO);
+				}
+			}
+		}
+
+		updateRoomAuras(this);
+	}
+
 	/**
 	 * Hook called when a movable object enters this room.
 	 * Override this method to implement custom entry behavior.
@@ -2593,6 +3001,18 @@ export class Room extends DungeonObject {
 					}
 				}
 			}
+
+			// Let other systems (e.g. quests) react to the arrival
+			dungeonEvents.emit("room-entered", enterer, this);
+
+			// Remember the place as a travel destination
+			enterer.character?.recordVisit(this);
+
+			// Project auras and zones onto the newcomer, and its auras onto others
+			updateRoomAuras(this);
+
+			markGMCPDirty(enterer, GMCP_PACKAGE.ROOM);
+			markGMCPDirty(enterer, GMCP_PACKAGE.MAP);
 		}
 	}
 
@@ -2641,6 +3061,9 @@ export class Room extends DungeonObject {
 					}
 				}
 			}
+
+			// Leave the room's auras and zones behind, and take its own auras along
+			updateRoomAuras(this, exiter);
 		}
 	}
 
@@ -2708,6 +3131,13 @@ export class Room extends DungeonObject {
 			allowedExits: this.allowedExits, // Mandatory field
 			...(this.dense && { dense: this.dense }), // Only include if true
 		};
+		if (this._doors) {
+			const doors: Partial<Record<DirectionText, SerializedDoor>> = {};
+			for (const [direction, door] of this._doors) {
+				doors[dir2text(direction)] = serializeDoor(door);
+			}
+			result.doors = doors;
+		}
 		return result;
 	}
 }
@@ -3195,6 +3625,11 @@ export class Item extends Movable {
 
 		// Call parent setter to handle the actual location change
 		super.location = dobj;
+
+		// Let other systems (e.g. quests) see items changing hands
+		if (oldLocation !== dobj) {
+			dungeonEvents.emit("item-moved", this, oldLocation, dobj);
+		}
 	}
 
 	/**
@@ -3263,6 +3698,186 @@ export class Currency extends Item {
 	}
 }
 
+/**
+ * How a consumable is used. Each type has its own command (`quaff`, `eat`,
+ * `recite`); `use` works with any of them.
+ */
+export type ConsumableType = "potion" | "food" | "scroll";
+
+/**
+ * Array of all valid consumable types.
+ * Used for validation and UI dropdowns.
+ */
+export const CONSUMABLE_TYPES: readonly ConsumableType[] = [
+	"potion",
+	"food",
+	"scroll",
+] as const;
+
+/**
+ * An effect applied by a consumable.
+ *
+ * @property id - Effect template id
+ * @property duration - Optional duration override in seconds
+ */
+export interface ConsumableEffect {
+	id: string;
+	duration?: number;
+}
+
+/**
+ * Instant resource restoration provided by a consumable.
+ * Exhaustion is restored by reducing it.
+ */
+export interface ConsumableRestore {
+	health?: number;
+	mana?: number;
+	exhaustion?: number;
+}
+
+/**
+ * Creation options for {@link Consumable}.
+ *
+ * @property consumableType - How the consumable is used (defaults to "potion")
+ * @property effects - Effects applied to the user when consumed
+ * @property restore - Instant health/mana/exhaustion restoration
+ * @property cleanse - Effect categories removed from the user when consumed
+ * @property charges - Number of uses before the item is used up (defaults to 1)
+ * @property cooldownGroup - Consumables sharing a group share a cooldown
+ * @property cooldown - Cooldown applied to the group after use, in seconds
+ */
+export interface ConsumableOptions extends ItemOptions {
+	consumableType?: ConsumableType;
+	effects?: ConsumableEffect[];
+	restore?: ConsumableRestore;
+	cleanse?: EFFECT_CATEGORY[];
+	charges?: number;
+	cooldownGroup?: string;
+	cooldown?: number;
+}
+
+/**
+ * Consumables are items that are used up: potions, food and scrolls.
+ * Using one removes the effects it cleanses, applies its effects and restores,
+ * then spends a charge; the item is destroyed when it runs out of charges. The
+ * consuming logic lives in `src/consumable.ts`.
+ *
+ * @example
+ * ```typescript
+ * import { Consumable } from "./dungeon.js";
+ *
+ * const potion = new Consumable({
+ *   keywords: "red potion healing",
+ *   display: "a red potion",
+ *   consumableType: "potion",
+ *   restore: { health: 50 },
+ *   cooldownGroup: "potion",
+ *   cooldown: 30
+ * });
+ * ```
+ */
+export class Consumable extends Item {
+	private _consumableType: ConsumableType;
+	private _effects: ConsumableEffect[];
+	private _restore: ConsumableRestore;
+	private _cleanse: EFFECT_CATEGORY[];
+	private _cooldownGroup?: string;
+	private _cooldown: number;
+
+	/** Remaining uses before the item is used up. */
+	charges: number;
+
+	constructor(options?: ConsumableOptions) {
+		super(options);
+		this._consumableType = options?.consumableType ?? "potion";
+		this._effects = options?.effects ?? [];
+		this._restore = options?.restore ?? {};
+		this._cleanse = options?.cleanse ?? [];
+		this._cooldownGroup = options?.cooldownGroup;
+		this._cooldown = options?.cooldown ?? 0;
+		this.charges = Math.max(1, options?.charges ?? 1);
+	}
+
+	/**
+	 * Gets how this consumable is used.
+	 */
+	public get consumableType(): ConsumableType {
+		return this._consumableType;
+	}
+
+	/**
+	 * Gets the effects applied when this consumable is used.
+	 */
+	public get effects(): readonly Readonly<ConsumableEffect>[] {
+		return this._effects;
+	}
+
+	/**
+	 * Gets the instant restoration provided when this consumable is used.
+	 */
+	public get restore(): Readonly<ConsumableRestore> {
+		return this._restore;
+	}
+
+	/**
+	 * Gets the effect categories removed when this consumable is used.
+	 */
+	public get cleanse(): readonly EFFECT_CATEGORY[] {
+		return this._cleanse;
+	}
+
+	/**
+	 * Gets the cooldown group shared with other consumables, if any.
+	 */
+	public get cooldownGroup(): string | undefined {
+		return this._cooldownGroup;
+	}
+
+	/**
+	 * Gets the cooldown applied to the group after use, in seconds.
+	 */
+	public get cooldown(): number {
+		return this._cooldown;
+	}
+
+	/**
+	 * Serialize this Consumable instance to a serializable format.
+	 * Returns SerializedConsumable with type "Consumable".
+	 *
+	 * @returns Serialized consumable object
+	 */
+	public override serialize(options?: {
+		compress?: boolean;
+		version?: string;
+	}): SerializedConsumable {
+		const base = {
+			...(options?.version && { version: options.version }),
+			...super.serialize(options),
+		};
+		const uncompressed: SerializedConsumable = {
+			...(base as SerializedDungeonObject),
+			type: "Consumable",
+			consumableType: this._consumableType,
+			...(this._effects.length > 0 && { effects: this._effects }),
+			...(Object.keys(this._restore).length > 0 && {
+				restore: this._restore,
+			}),
+			...(this._cleanse.length > 0 && { cleanse: this._cleanse }),
+			charges: this.charges,
+			...(this._cooldownGroup !== undefined && {
+				cooldownGroup: this._cooldownGroup,
+			}),
+			...(this._cooldown > 0 && { cooldown: this._cooldown }),
+		};
+		return options?.compress
+			? (compressSerializedObject(
+					uncompressed,
+					(base as SerializedDungeonObject).templateId
+			  ) as SerializedConsumable)
+			: uncompressed;
+	}
+}
+
 /**
  * Equipment slot types that items can be equipped to on a mob.
  * Each slot can hold one piece of equipment. Weapons can only be equipped in mainHand/offHand,
@@ -3368,6 +3983,57 @@ export enum EQUIPMENT_SLOT {
 	FEET = "feet",
 }
 
+/**
+ * Combat events that can set off an equipment proc.
+ */
+export enum PROC_TRIGGER {
+	/** The wearer lands a hit */
+	HIT = "hit",
+	/** The wearer lands a critical hit */
+	CRIT = "crit",
+	/** The wearer is hit */
+	STRUCK = "struck",
+	/** The wearer kills something */
+	KILL = "kill",
+}
+
+/**
+ * A chance-based effect or burst of extra damage set off by equipment in
+ * combat. Weapon hit and crit procs only fire on blows struck with that
+ * weapon; every other proc fires from anything the wearer has equipped.
+ *
+ * @property trigger - The combat event that sets the proc off
+ * @property chance - Chance to fire each time it is set off (percent, 0-100)
+ * @property effect - Optional effect template id to apply
+ * @property duration - Optional effect duration override in seconds
+ * @property self - Apply the effect to the wearer instead of the other mob
+ *   (kill procs always apply to the wearer)
+ * @property damage - Optional extra damage dealt to the other mob
+ * @property damageType - Damage type of the extra damage
+ * @property message - Optional act messages shown when the proc fires, with
+ *   the wearer as {user} and the other mob as {target}
+ *
+ * @example
+ * ```yaml
+ * procs:
+ *   - trigger: hit
+ *     chance: 10
+ *     effect: poison
+ *     message:
+ *       user: "Your blade's venom seeps into {target}'s wound!"
+ * ```
+ */
+export interface EquipmentProc {
+	trigger: PROC_TRIGGER;
+	chance: number;
+	effect?: string;
+	duration?: number;
+	self?: boolean;
+	damage?: number;
+	damageType?: DAMAGE_TYPE;
+	message?: ActMessageTemplates;
+}
+
 /**
  * Creation options for {@link Equipment}.
  * Base equipment can provide attribute bonuses, resource bonuses, and secondary attribute bonuses,
@@ -3378,6 +4044,7 @@ export enum EQUIPMENT_SLOT {
  * @property attributeBonuses - Primary attribute bonuses (e.g., +5 strength)
  * @property resourceBonuses - Resource capacity bonuses (e.g., +20 maxHealth)
  * @property secondaryAttributeBonuses - Secondary attribute bonuses (e.g., +3 critRate)
+ * @property procs - Procs set off in combat (e.g., a chance to poison on hit)
  *
  * @example
  * ```typescript
@@ -3405,6 +4072,8 @@ export interface EquipmentOptions extends ItemOptions {
 	resourceBonuses?: Partial<ResourceCapacities>;
 	/** Secondary attribute bonuses provided by this equipment (for rare equipment). */
 	secondaryAttributeBonuses?: Partial<SecondaryAttributeSet>;
+	/** Procs set off in combat by this equipment. */
+	procs?: EquipmentProc[];
 }
 
 /**
@@ -3440,6 +4109,7 @@ export class Equipment extends Item {
 	protected _attributeBonuses: Partial<PrimaryAttributeSet>;
 	protected _resourceBonuses: Partial<ResourceCapacities>;
 	protected _secondaryAttributeBonuses: Partial<SecondaryAttributeSet>;
+	protected _procs: EquipmentProc[];
 
 	constructor(options?: EquipmentOptions) {
 		super(options);
@@ -3447,6 +4117,7 @@ export class Equipment extends Item {
 		this._attributeBonuses = options?.attributeBonuses ?? {};
 		this._resourceBonuses = options?.resourceBonuses ?? {};
 		this._secondaryAttributeBonuses = options?.secondaryAttributeBonuses ?? {};
+		this._procs = options?.procs ?? [];
 	}
 
 	/**
@@ -3569,6 +4240,25 @@ export class Equipment extends Item {
 		return this._secondaryAttributeBonuses;
 	}
 
+	/**
+	 * Gets the procs this equipment sets off in combat.
+	 *
+	 * @returns Readonly array of procs
+	 *
+	 * @example
+	 * ```typescript
+	 * const sword = new Weapon({
+	 *   slot: EQUIPMENT_SLOT.MAIN_HAND,
+	 *   procs: [{ trigger: PROC_TRIGGER.HIT, chance: 10, effect: "poison" }]
+	 * });
+	 *
+	 * console.log(sword.procs.length); // 1
+	 * ```
+	 */
+	public get procs(): readonly EquipmentProc[] {
+		return this._procs;
+	}
+
 	/**
 	 * Serialize this Equipment instance to a serializable format.
 	 * Includes all equipment-specific properties: slot, defense, and all bonus types.
@@ -3608,6 +4298,7 @@ export class Equipment extends Item {
 			...(Object.keys(this._secondaryAttributeBonuses).length > 0
 				? { secondaryAttributeBonuses: this._secondaryAttributeBonuses }
 				: {}),
+			...(this._procs.length > 0 ? { procs: this._procs } : {}),
 		};
 		const etc = options?.compress
 			? compressSerializedObject(uncompressed, base.templateId)
@@ -4076,6 +4767,13 @@ export class Mob extends Movable {
 	/** Active effects on this mob */
 	/** @internal - Public for package deserializers */
 	public _effects: Set<EffectInstance>;
+	/** Diminishing returns of crowd control on this mob, by kind */
+	private _diminishingReturns = new Map<
+		CROWD_CONTROL,
+		DiminishingReturnsState
+	>();
+	/** Record of the most recent useAbility() call */
+	private _lastAbilityUse?: AbilityUse;
 	constructor(options: MobOptions) {
 		super(options);
 
@@ -4747,6 +5445,7 @@ export class Mob extends Movable {
 	 * @param amount The amount to increment by (defaults to 1)
 	 */
 	public useAbility(ability: Ability, amount: number = 1): void {
+		this._lastAbilityUse = { ability, amount, usedAt: Date.now() };
 		if (!this._learnedAbilities.has(ability)) {
 			// If ability not learned, add it with the increment amount
 			this.addAbility(ability, amount);
@@ -4771,6 +5470,55 @@ export class Mob extends Movable {
 		}
 	}
 
+	/**
+	 * The most recent ability use recorded by useAbility().
+	 * A new record is created on every call, so callers can compare records by
+	 * identity to find out whether an ability was used while running some code.
+	 *
+	 * @returns The last ability use, or undefined if no ability has been used
+	 */
+	public get lastAbilityUse(): AbilityUse | undefined {
+		return this._lastAbilityUse;
+	}
+
+	/**
+	 * Finds the first resource this mob doesn't have enough of to pay an ability cost.
+	 * Health costs can never reduce a mob to 0 health, and exhaustion costs
+	 * can't push exhaustion past its maximum.
+	 *
+	 * @param cost The ability cost to check
+	 * @returns The resource that is lacking, or undefined if the cost can be paid
+	 *
+	 * @example
+	 * ```typescript
+	 * const lacking = mob.getAbilityCostShortfall({ mana: 20 });
+	 * if (lacking) mob.sendMessage(`You don't have enough ${lacking}.`);
+	 * ```
+	 */
+	public getAbilityCostShortfall(
+		cost: AbilityCost | undefined
+	): keyof AbilityCost | undefined {
+		if (!cost) return undefined;
+		if ((cost.mana ?? 0) > this.mana) return "mana";
+		if ((cost.health ?? 0) > 0 && cost.health! >= this.health) return "health";
+		if (this.exhaustion + (cost.exhaustion ?? 0) > this.maxExhaustion)
+			return "exhaustion";
+		return undefined;
+	}
+
+	/**
+	 * Deducts an ability cost from this mob's resources.
+	 * Does not check affordability; use getAbilityCostShortfall() first.
+	 *
+	 * @param cost The ability cost to pay
+	 */
+	public payAbilityCost(cost: AbilityCost | undefined): void {
+		if (!cost) return;
+		if (cost.mana) this.mana = this.mana - cost.mana;
+		if (cost.health) this.health = Math.max(1, this.health - cost.health);
+		if (cost.exhaustion) this.gainExhaustion(cost.exhaustion);
+	}
+
 	/**
 	 * Increments the use count for an ability by ID. This is a convenience method.
 	 * For better performance, use useAbility(ability, amount).
@@ -5033,6 +5781,7 @@ export class Mob extends Movable {
 		const ratios = this.captureResourceRatios();
 		this._level = Math.max(1, this._level + delta);
 		this.recalculateDerivedAttributes(ratios);
+		markGMCPDirty(this, GMCP_PACKAGE.STATUS);
 
 		// Note: Newly learned abilities are checked by package layer helper
 		// (checkMobArchetypeAbilities) that has access to the registry
@@ -5322,6 +6071,7 @@ export class Mob extends Movable {
 
 		// Store experience as integer
 		this._experience = Math.floor(numeric);
+		markGMCPDirty(this, GMCP_PACKAGE.STATUS);
 	}
 
 	/**
@@ -5369,6 +6119,7 @@ export class Mob extends Movable {
 
 		// Store experience as integer
 		this._experience = Math.floor(total);
+		markGMCPDirty(this, GMCP_PACKAGE.STATUS);
 		if (levels > 0) {
 			const levelUpData = this.applyLevelDelta(levels);
 			if (levelUpData && this.character) {
@@ -5384,7 +6135,11 @@ export class Mob extends Movable {
 	 * Baseline is 10 XP, with bonuses for higher-level targets (+2 per level above)
 	 * and penalties for lower-level targets. Experience is adjusted by growth modifiers.
 	 *
+	 * When the kill is shared (e.g. by a group), the experience is divided
+	 * between the participants, with a minimum of 1.
+	 *
 	 * @param targetLevel - Level of the defeated target
+	 * @param shareCount - Number of mobs sharing the kill (default: 1)
 	 * @returns Adjusted experience actually applied after modifiers
 	 *
 	 * @example
@@ -5392,15 +6147,20 @@ export class Mob extends Movable {
 	 * const mob = new Mob({ level: 5 });
 	 * const xp = mob.awardKillExperience(7); // Higher level target
 	 * console.log(`Gained ${xp} adjusted XP`); // More than base 10
+	 * const shared = mob.awardKillExperience(7, 3); // A third of that
 	 * ```
 	 */
-	public awardKillExperience(targetLevel: number): number {
+	public awardKillExperience(
+		targetLevel: number,
+		shareCount: number = 1
+	): number {
 		const sanitizedTarget = Math.max(1, Math.floor(Number(targetLevel) || 1));
 		const diff = sanitizedTarget - this._level;
 		let amount = 10;
 		if (diff > 0) amount += diff * 2;
 		else if (diff < 0) amount = Math.max(1, amount + diff);
-		return this.gainExperience(amount);
+		const shares = Math.max(1, Math.floor(shareCount));
+		return this.gainExperience(Math.max(1, Math.floor(amount / shares)));
 	}
 
 	/**
@@ -5721,6 +6481,7 @@ export class Mob extends Movable {
 		if (this._health < this.maxHealth) {
 			addToRegenerationSet(this);
 		}
+		markGMCPDirty(this, GMCP_PACKAGE.VITALS);
 	}
 
 	/**
@@ -5752,6 +6513,7 @@ export class Mob extends Movable {
 		if (this._mana < this.maxMana) {
 			addToRegenerationSet(this);
 		}
+		markGMCPDirty(this, GMCP_PACKAGE.VITALS);
 	}
 
 	/**
@@ -5776,6 +6538,7 @@ export class Mob extends Movable {
 		if (this._exhaustion > 0) {
 			addToRegenerationSet(this);
 		}
+		markGMCPDirty(this, GMCP_PACKAGE.VITALS);
 	}
 
 	/**
@@ -5934,6 +6697,23 @@ export class Mob extends Movable {
 		this._shopkeeperInventory = inventory;
 	}
 
+	/**
+	 * Checks if this mob can move in a direction.
+	 * Stunned and rooted mobs can't move at all.
+	 *
+	 * @param dir The direction to check
+	 * @returns true if the mob can step that way
+	 */
+	public override canStep(dir: DIRECTION): boolean {
+		if (
+			this.hasCrowdControl(CROWD_CONTROL.STUN) ||
+			this.hasCrowdControl(CROWD_CONTROL.ROOT)
+		) {
+			return false;
+		}
+		return super.canStep(dir);
+	}
+
 	/**
 	 * @overload
 	 * @param options - StepOptions object with direction and optional scripts
@@ -6017,6 +6797,10 @@ export class Mob extends Movable {
 				...{ beforeOnEnter: tellDestinationRoomWeEntered },
 			},
 		});
+		if (!moved) return false;
+
+		// Bring along anyone following us
+		if (sourceRoom) moveFollowers(this, sourceRoom, direction);
 		return true;
 	}
 
@@ -6352,6 +7136,9 @@ export class Mob extends Movable {
 		// Handle death
 		if (this.health <= 0) {
 			handleDeath(this, attacker);
+			if (attacker !== this) {
+				triggerProcs(attacker, this, PROC_TRIGGER.KILL);
+			}
 			return; // Don't initiate combat if target died
 		}
 	}
@@ -6396,25 +7183,123 @@ export class Mob extends Movable {
 		return results;
 	}
 
+	/**
+	 * Checks if this mob is under a kind of crowd control.
+	 *
+	 * @param control The kind of crowd control
+	 * @returns True if an unexpired crowd-control effect of that kind is active
+	 */
+	public hasCrowdControl(control: CROWD_CONTROL): boolean {
+		return this.getCrowdControlRemaining(control) > 0;
+	}
+
+	/**
+	 * Gets how much longer this mob is under a kind of crowd control.
+	 *
+	 * @param control The kind of crowd control
+	 * @returns Milliseconds until the longest effect of that kind expires (0 if none)
+	 */
+	public getCrowdControlRemaining(control: CROWD_CONTROL): number {
+		const now = Date.now();
+		let remaining = 0;
+		for (const effect of this._effects) {
+			if (
+				isCrowdControlEffect(effect.template) &&
+				effect.template.control === control
+			) {
+				remaining = Math.max(remaining, effect.expiresAt - now);
+			}
+		}
+		return remaining;
+	}
+
+	/**
+	 * Gets the multiplier slows apply to this mob's action cooldowns.
+	 * Only the strongest slow counts.
+	 *
+	 * @returns The cooldown multiplier (1 when not slowed)
+	 */
+	public getCooldownMultiplier(): number {
+		const now = Date.now();
+		let multiplier = 1;
+		for (const effect of this._effects) {
+			if (
+				isCrowdControlEffect(effect.template) &&
+				effect.template.control === CROWD_CONTROL.SLOW &&
+				!isEffectExpired(effect, now)
+			) {
+				multiplier = Math.max(
+					multiplier,
+					effect.template.cooldownMultiplier ?? DEFAULT_SLOW_MULTIPLIER
+				);
+			}
+		}
+		return multiplier;
+	}
+
 	/**
 	 * Adds an effect to this mob.
 	 * If the effect is not stackable and an instance already exists, it replaces the old one.
-	 * For stackable effects, multiple instances can coexist.
+	 * For stackable effects, multiple instances can coexist. Effects with stacking
+	 * rules instead reapply to the existing instance (see {@link stackEffect}).
+	 * Aura effects project their effect onto the mob's room as soon as they apply.
+	 *
+	 * Crowd-control effects are shortened by diminishing returns. When the mob
+	 * is immune to further crowd control of that kind, nothing is applied and
+	 * the caster is told so.
 	 *
 	 * @param template The effect template to instantiate
 	 * @param caster The mob that applied this effect
 	 * @param overrides Optional overrides for effect properties (e.g., custom damage/heal amounts)
-	 * @returns The created effect instance
+	 * @returns The created or reapplied effect instance, or undefined if the mob was immune
 	 */
 	public addEffect(
 		template: EffectTemplate,
 		caster: Mob,
 		overrides?: EffectOverrides
-	): EffectInstance {
+	): EffectInstance | undefined {
 		const now = Date.now();
+		const restoring = overrides?.expiresAt !== undefined;
+
+		// Work out crowd-control duration before replacing anything, so an
+		// immune target keeps the effect it already has
+		let crowdControlExpiresAt: number | undefined;
+		if (isCrowdControlEffect(template)) {
+			if (overrides?.expiresAt !== undefined) {
+				// Restoration mode: diminishing returns were applied originally
+				crowdControlExpiresAt = overrides.expiresAt;
+			} else {
+				const { durationMs, state } = applyDiminishingReturns(
+					this._diminishingReturns.get(template.control),
+					(overrides?.duration ?? template.duration) * 1000,
+					now
+				);
+				this._diminishingReturns.set(template.control, state);
+				if (durationMs <= 0) {
+					if (caster !== this) {
+						caster.sendMessage(
+							`${this.display} is immune to ${template.name} for now.`,
+							MESSAGE_GROUP.COMBAT
+						);
+					}
+					return undefined;
+				}
+				crowdControlExpiresAt = now + durationMs;
+			}
+		}
+
+		// Effects with stacking rules reapply to the instance already on the mob
+		// (the caster's own, if each caster keeps a separate instance)
+		const stacking = template.stacking;
+		const existing =
+			stacking && !restoring
+				? this.getEffectsById(template.id).find(
+						(effect) => !stacking.perCaster || effect.caster === caster
+				  )
+				: undefined;
 
 		// Handle non-stackable effects: remove existing instances
-		if (!template.stackable) {
+		if (!stacking && !template.stackable) {
 			const existing = this.getEffectsById(template.id);
 			for (const effect of existing) {
 				this._effects.delete(effect);
@@ -6483,6 +7368,8 @@ export class Mob extends Movable {
 			instance.expiresAt = overrides?.expiresAt ?? Number.MAX_SAFE_INTEGER;
 			instance.remainingAbsorption =
 				overrides?.remainingAbsorption ?? template.absorption;
+		} else if (isCrowdControlEffect(template)) {
+			instance.expiresAt = crowdControlExpiresAt!;
 		} else {
 			// Passive effects: check if duration is provided via overrides
 			// If expiresAt is explicitly provided (restoration), use it
@@ -6500,19 +7387,43 @@ export class Mob extends Movable {
 			}
 		}
 
-		// Add to effects set
-		this._effects.add(instance);
-		addToEffectsSet(this);
+		if (overrides?.stacks !== undefined) {
+			instance.stacks = overrides.stacks;
+		}
+
+		let applied = instance;
+		let changed = true;
+		if (existing) {
+			// Reapply to the existing instance and restart its timers
+			applied = existing;
+			changed = stackEffect(stacking!, existing, instance);
+			if (changed) {
+				clearEffectTimersForEffect(existing);
+				setupEffectTimers(this, existing);
+				markGMCPDirty(this, GMCP_PACKAGE.EFFECTS);
+			}
+		} else {
+			// Add to effects set
+			this._effects.add(instance);
+			addToEffectsSet(this);
+			markGMCPDirty(this, GMCP_PACKAGE.EFFECTS);
 
-		// Set up timers for this effect
-		setupEffectTimers(this, instance);
+			// Set up timers for this effect
+			setupEffectTimers(this, instance);
+		}
 
 		// Check if this is a restoration (appliedAt is in the past or explicitly set)
 		const isRestoration =
 			overrides?.appliedAt !== undefined && overrides.appliedAt < now;
 
-		// Send onApply act message if template has one (skip during restoration)
-		if (!isRestoration && template.onApply && this.location instanceof Room) {
+		// Send onApply act message if template has one (skip during restoration
+		// and reapplications that changed nothing)
+		if (
+			!isRestoration &&
+			changed &&
+			template.onApply &&
+			this.location instanceof Room
+		) {
 			act(
 				template.onApply,
 				{
@@ -6534,7 +7445,8 @@ export class Mob extends Movable {
 		if (!isRestoration) {
 			const isOffensive =
 				(isPassiveEffect(template) && template.isOffensive) ||
-				(isDamageOverTimeEffect(template) && template.isOffensive);
+				(isDamageOverTimeEffect(template) && template.isOffensive) ||
+				(isCrowdControlEffect(template) && template.isOffensive);
 			if (
 				isOffensive &&
 				!this.isInCombat() &&
@@ -6544,9 +7456,19 @@ export class Mob extends Movable {
 			) {
 				initiateCombat(this, caster, true);
 			}
+
+			// Stop whatever the crowd control prevents (casting, fighting)
+			if (isCrowdControlEffect(template) && changed) {
+				applyCrowdControl(this, applied);
+			}
+		}
+
+		// Project a newly carried aura onto the room
+		if (template.aura && changed && this.location instanceof Room) {
+			updateRoomAuras(this.location);
 		}
 
-		return instance;
+		return applied;
 	}
 
 	/**
@@ -6584,12 +7506,22 @@ export class Mob extends Movable {
 
 			// Clear timers for this effect
 			clearEffectTimersForEffect(effect);
+			markGMCPDirty(this, GMCP_PACKAGE.EFFECTS);
 
 			// Recalculate attributes if this was a passive effect with modifiers
 			if (isPassiveEffect(effect.template)) {
 				this.recalculateDerivedAttributes();
 			}
 
+			// Withdraw whatever this aura projected onto the room
+			if (
+				effect.template.aura &&
+				!effect.projectedFrom &&
+				this.location instanceof Room
+			) {
+				updateRoomAuras(this.location);
+			}
+
 			// If no effects remain, remove from effects set
 			if (this._effects.size === 0) {
 				removeFromEffectsSet(this);
@@ -6615,6 +7547,7 @@ export class Mob extends Movable {
 			}
 		}
 		if (removed > 0) {
+			markGMCPDirty(this, GMCP_PACKAGE.EFFECTS);
 			// Recalculate attributes in case any were passive effects with modifiers
 			this.recalculateDerivedAttributes();
 
@@ -6626,6 +7559,31 @@ export class Mob extends Movable {
 		return removed;
 	}
 
+	/**
+	 * Removes effects of the given categories, as a dispel or cleanse does.
+	 * Each dispellable effect is removed with the given chance, and removed
+	 * effects show their expiration messages. Race and job passives are never
+	 * removed.
+	 *
+	 * @param categories The categories of effect to remove
+	 * @param chance Chance to remove each effect, between 0 and 1 (defaults to 1)
+	 * @returns The effect instances that were removed
+	 */
+	public dispelEffects(
+		categories: readonly EFFECT_CATEGORY[],
+		chance: number = 1
+	): EffectInstance[] {
+		const removed: EffectInstance[] = [];
+		for (const effect of Array.from(this._effects)) {
+			if (!isDispellable(effect.template, categories)) continue;
+			if (this.isArchetypePassive(effect)) continue;
+			if (Math.random() >= chance) continue;
+			this.removeEffect(effect, true);
+			removed.push(effect);
+		}
+		return removed;
+	}
+
 	/**
 	 * Removes all effects from this mob.
 	 */
@@ -6634,6 +7592,7 @@ export class Mob extends Movable {
 			isPassiveEffect(e.template)
 		);
 		this._effects.clear();
+		markGMCPDirty(this, GMCP_PACKAGE.EFFECTS);
 		if (hadPassiveEffects) {
 			this.recalculateDerivedAttributes();
 		}
@@ -6653,22 +7612,10 @@ export class Mob extends Movable {
 	 * @internal
 	 */
 	public removeArchetypePassives(): void {
-		// Remove any existing archetype passives first (in case race/job changed)
-		const archetypePassiveIds = new Set<string>();
-		for (const passiveId of this._race.passives) {
-			archetypePassiveIds.add(passiveId);
-		}
-		for (const passiveId of this._job.passives) {
-			archetypePassiveIds.add(passiveId);
-		}
-
 		// Remove existing archetype passives (identified by caster being self)
 		const toRemove: EffectInstance[] = [];
 		for (const effect of this._effects) {
-			if (
-				effect.caster === this &&
-				archetypePassiveIds.has(effect.template.id)
-			) {
+			if (this.isArchetypePassive(effect)) {
 				toRemove.push(effect);
 			}
 		}
@@ -6677,6 +7624,17 @@ export class Mob extends Movable {
 		}
 	}
 
+	/**
+	 * Checks whether an effect is one of this mob's race or job passives.
+	 */
+	private isArchetypePassive(effect: EffectInstance): boolean {
+		const id = effect.template.id;
+		return (
+			effect.caster === this &&
+			(this._race.passives.includes(id) || this._job.passives.includes(id))
+		);
+	}
+
 	/**
 	 * Apply a single archetype passive effect template.
 	 * This method is called by package layer helpers that have registry access.
@@ -6800,6 +7758,10 @@ export class Mob extends Movable {
 			if (archetypePassiveIds.has(effect.template.id)) {
 				continue;
 			}
+			// Skip projected effects; they return when their aura or zone reaches the mob again
+			if (effect.projectedFrom) {
+				continue;
+			}
 			const serialized: SerializedEffect = {
 				effectId: effect.template.id,
 				casterOid: effect.caster.oid,
@@ -6835,6 +7797,9 @@ export class Mob extends Movable {
 			if (effect.remainingAbsorption !== undefined) {
 				serialized.remainingAbsorption = effect.remainingAbsorption;
 			}
+			if (effect.stacks !== undefined && effect.stacks > 1) {
+				serialized.stacks = effect.stacks;
+			}
 
 			serializedEffects.push(serialized);
 		}
@@ -6898,6 +7863,8 @@ export class Mob extends Movable {
 	 * - Clear character reference
 	 * - Clear equipped items
 	 * - Stop threat expiration timer
+	 * - Drop any cast or queued actions
+	 * - Withdraw its auras and remove its zones
 	 */
 	override destroy(destroyContents: boolean = true): void {
 		logger.debug("Mob being destroyed", {
@@ -6910,6 +7877,21 @@ export class Mob extends Movable {
 		// Stop threat expiration timer
 		this._stopThreatExpirationCycle();
 
+		// Drop any cast or queued actions so their timers don't fire later
+		// (dynamic import to avoid circular dependency)
+		const character = this.character;
+		const display = this.display; // destroy() renames the object below
+		import("../registry/command.js")
+			.then((module) => {
+				module.clearActions(this, character);
+			})
+			.catch((error) => {
+				logger.error(`Failed to clear actions of ${display}: ${error}`);
+			});
+
+		// Leave any group and drop follow relationships
+		removeFromGroups(this);
+
 		// Clear character reference (this will also clear character.mob)
 		this.character = undefined;
 
@@ -6925,11 +7907,20 @@ export class Mob extends Movable {
 		// Clean up AI system (if initialized)
 		if (this._aiEventEmitter) {
 			// Dynamic import to avoid circular dependency
-			import("../mob-ai.js").then((module) => {
-				module.cleanupMobAI(this);
-			});
+			import("../mob-ai.js")
+				.then((module) => {
+					module.cleanupMobAI(this);
+				})
+				.catch((error) => {
+					logger.error(`Failed to clean up AI of ${display}: ${error}`);
+				});
 		}
 
+		// Withdraw its auras while it can still be found in the room, and
+		// don't leave its zones behind with a destroyed caster
+		if (this.location instanceof Room) updateRoomAuras(this.location, this);
+		removeZonesOf(this);
+
 		// Call parent destroy
 		super.destroy(destroyContents);
 	}
@@ -7094,6 +8085,7 @@ const baseSerializedTypes: Partial<
 	Equipment: new Equipment({ oid: -1 }).serialize(),
 	Armor: new Armor({ oid: -1 }).serialize(),
 	Weapon: new Weapon({ oid: -1 }).serialize(),
+	Consumable: new Consumable({ oid: -1 }).serialize(),
 	Item: new Item({ oid: -1 }).serialize(),
 	Prop: new Prop({ oid: -1 }).serialize(),
 	Room: new Room({ oid: -1, coordinates: { x: 0, y: 0, z: 0 } }).serialize(),
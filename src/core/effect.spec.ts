@@ -0,0 +1,129 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	BASE_DISPEL_CHANCE,
+	EFFECT_CATEGORY,
+	EffectInstance,
+	EffectTemplate,
+	getDispelChance,
+	getEffectStacks,
+	isDispellable,
+	stackEffect,
+} from "./effect.js";
+import type { Mob } from "./dungeon.js";
+
+const HEX: EffectTemplate = {
+	id: "hex",
+	name: "Hex",
+	description: "A minor curse.",
+	type: "passive",
+	stackable: false,
+	category: EFFECT_CATEGORY.CURSE,
+};
+
+const CASTER = {} as Mob;
+const OTHER_CASTER = {} as Mob;
+
+function instance(overrides: Partial<EffectInstance> = {}): EffectInstance {
+	return {
+		template: HEX,
+		caster: CASTER,
+		appliedAt: 1000,
+		expiresAt: 5000,
+		nextTickAt: 2000,
+		ticksRemaining: 4,
+		tickAmount: 10,
+		...overrides,
+	};
+}
+
+suite("effect.ts", () => {
+	test("isDispellable matches the effect's category", () => {
+		assert.strictEqual(isDispellable(HEX, [EFFECT_CATEGORY.CURSE]), true);
+		assert.strictEqual(
+			isDispellable(HEX, [EFFECT_CATEGORY.MAGIC, EFFECT_CATEGORY.CURSE]),
+			true
+		);
+		assert.strictEqual(isDispellable(HEX, [EFFECT_CATEGORY.POISON]), false);
+	});
+
+	test("isDispellable never removes uncategorized effects", () => {
+		const { category, ...uncategorized } = HEX;
+		assert.strictEqual(
+			isDispellable(uncategorized, Object.values(EFFECT_CATEGORY)),
+			false
+		);
+	});
+
+	test("isDispellable respects dispellable: false", () => {
+		assert.strictEqual(
+			isDispellable({ ...HEX, dispellable: false }, [EFFECT_CATEGORY.CURSE]),
+			false
+		);
+	});
+
+	test("stackEffect adds stacks up to the maximum", () => {
+		const existing = instance();
+		assert.strictEqual(
+			stackEffect({ maxStacks: 2 }, existing, instance()),
+			true
+		);
+		assert.strictEqual(getEffectStacks(existing), 2);
+		assert.strictEqual(
+			stackEffect({ maxStacks: 2 }, existing, instance()),
+			false
+		);
+		assert.strictEqual(getEffectStacks(existing), 2);
+	});
+
+	test("stackEffect only resets timers when refreshing", () => {
+		const existing = instance();
+		const incoming = instance({
+			appliedAt: 3000,
+			expiresAt: 7000,
+			nextTickAt: 4000,
+			ticksRemaining: 4,
+		});
+		stackEffect({ maxStacks: 3 }, existing, incoming);
+		assert.strictEqual(existing.expiresAt, 5000);
+
+		stackEffect({ maxStacks: 3, refresh: true }, existing, incoming);
+		assert.strictEqual(existing.expiresAt, 7000);
+		assert.strictEqual(existing.nextTickAt, 4000);
+		assert.strictEqual(getEffectStacks(existing), 3);
+	});
+
+	test("stackEffect replaces weaker effects when replaceIfStronger", () => {
+		const existing = instance();
+		const stronger = instance({
+			caster: OTHER_CASTER,
+			expiresAt: 9000,
+			tickAmount: 20,
+		});
+		assert.strictEqual(
+			stackEffect(
+				{ replaceIfStronger: true },
+				existing,
+				instance({ tickAmount: 5 })
+			),
+			false
+		);
+		assert.strictEqual(existing.tickAmount, 10);
+
+		assert.strictEqual(
+			stackEffect({ replaceIfStronger: true }, existing, stronger),
+			true
+		);
+		assert.strictEqual(existing.tickAmount, 20);
+		assert.strictEqual(existing.caster, OTHER_CASTER);
+		assert.strictEqual(existing.expiresAt, 9000);
+		assert.strictEqual(getEffectStacks(existing), 1);
+	});
+
+	test("getDispelChance scales with proficiency", () => {
+		assert.strictEqual(getDispelChance(0), BASE_DISPEL_CHANCE);
+		assert.strictEqual(getDispelChance(50), 0.75);
+		assert.strictEqual(getDispelChance(100), 1);
+		assert.strictEqual(getDispelChance(150), 1);
+	});
+});
@@ -2,7 +2,8 @@
  * Effect system for mobs, including passive and active effects.
  *
  * Effects can modify mob state, deal damage over time, heal over time, or
- * provide dynamic modifiers that other systems can check.
+ * provide dynamic modifiers that other systems can check. Aura effects and
+ * room-anchored zones project an effect onto the mobs around them.
  *
  * @module core/effect
  */
@@ -12,9 +13,10 @@ import {
 	SecondaryAttributeSet,
 	ResourceCapacities,
 } from "./attribute.js";
-import { Mob } from "./dungeon.js";
+import { Mob, Room } from "./dungeon.js";
 import { ActMessageTemplates } from "../act.js";
 import { DAMAGE_TYPE, HitType } from "./damage-types.js";
+import { CROWD_CONTROL } from "./crowd-control.js";
 
 /**
  * Message templates for effects (onApply/onTick/onExpire).
@@ -22,6 +24,60 @@ import { DAMAGE_TYPE, HitType } from "./damage-types.js";
  */
 export type EffectMessageTemplates = Omit<ActMessageTemplates, "target">;
 
+/**
+ * Effect categories.
+ * Dispels and cleanses remove effects by category.
+ */
+export enum EFFECT_CATEGORY {
+	MAGIC = "magic",
+	CURSE = "curse",
+	POISON = "poison",
+	DISEASE = "disease",
+	PHYSICAL = "physical",
+}
+
+/** Chance to remove each effect with a dispel at 0% proficiency */
+export const BASE_DISPEL_CHANCE = 0.5;
+
+/**
+ * Who an aura or zone affects, relative to the mob that carries or created it.
+ */
+export enum AURA_TARGET {
+	/** The carrier, its group mates and (for NPCs) other NPCs */
+	ALLIES = "allies",
+	/** Everyone the carrier could fight */
+	ENEMIES = "enemies",
+}
+
+/**
+ * An effect projected onto mobs in a room for as long as they stay in range.
+ */
+export interface EffectAura {
+	/** The effect applied to each affected mob */
+	effect: EffectTemplate;
+	/** Who is affected */
+	targets: AURA_TARGET;
+}
+
+/**
+ * Rules for reapplying an effect to a mob that already has it.
+ *
+ * With stacking rules, a mob keeps at most one instance of the effect (or one
+ * per caster) and reapplications change that instance instead of adding new
+ * ones. A reapplication that neither adds a stack, refreshes nor replaces the
+ * instance has no effect.
+ */
+export interface EffectStackingRules {
+	/** Maximum number of stacks; each reapplication adds one (default: 1) */
+	maxStacks?: number;
+	/** Whether reapplying resets the duration and ticks (default: false) */
+	refresh?: boolean;
+	/** Whether a stronger application replaces a weaker one (default: false) */
+	replaceIfStronger?: boolean;
+	/** Whether each caster keeps a separate instance (default: false) */
+	perCaster?: boolean;
+}
+
 /**
  * Base effect template that defines the properties of an effect.
  * This is the template used when creating effect instances.
@@ -35,6 +91,14 @@ export interface BaseEffectTemplate {
 	description: string;
 	/** Whether multiple instances of this effect can stack */
 	stackable: boolean;
+	/** How reapplications combine with an existing instance (overrides stackable) */
+	stacking?: EffectStackingRules;
+	/** Effect this one projects onto others in the carrier's room */
+	aura?: EffectAura;
+	/** What kind of effect this is; uncategorized effects can't be dispelled */
+	category?: EFFECT_CATEGORY;
+	/** Whether dispels and cleanses can remove this effect (default: true) */
+	dispellable?: boolean;
 	/** Act message templates shown when this effect is applied */
 	onApply?: EffectMessageTemplates;
 	/** Act message templates shown when this effect expires */
@@ -129,6 +193,23 @@ export interface ShieldEffectTemplate extends BaseEffectTemplate {
 	absorptionRate?: number;
 }
 
+/**
+ * Crowd-control effect template.
+ * Takes away part of the affected mob's ability to act for a duration.
+ * Repeated applications on the same target are subject to diminishing returns.
+ */
+export interface CrowdControlEffectTemplate extends BaseEffectTemplate {
+	type: "crowd-control";
+	/** What the effect stops the mob from doing */
+	control: CROWD_CONTROL;
+	/** Total duration of the effect in seconds (before diminishing returns) */
+	duration: number;
+	/** For slows: multiplier for action cooldowns (default: 1.5) */
+	cooldownMultiplier?: number;
+	/** Whether this effect is offensive (initiates combat when applied) */
+	isOffensive?: boolean;
+}
+
 /**
  * Union type of all effect templates.
  */
@@ -136,7 +217,8 @@ export type EffectTemplate =
 	| PassiveEffectTemplate
 	| DamageOverTimeEffectTemplate
 	| HealOverTimeEffectTemplate
-	| ShieldEffectTemplate;
+	| ShieldEffectTemplate
+	| CrowdControlEffectTemplate;
 
 /**
  * Active effect instance that is applied to a mob.
@@ -159,6 +241,48 @@ export interface EffectInstance {
 	tickAmount?: number;
 	/** For shield effects: remaining absorption capacity */
 	remainingAbsorption?: number;
+	/** Number of stacks, for effects with stacking rules (default: 1) */
+	stacks?: number;
+	/** The aura effect or zone this instance is projected from, if any */
+	projectedFrom?: EffectInstance | ZoneInstance;
+}
+
+/**
+ * Zone template for an area effect anchored to a room, such as burning
+ * ground or a sanctuary. While the zone lasts, its aura is projected onto
+ * the room's occupants.
+ */
+export interface ZoneTemplate {
+	/** Unique identifier for this zone type */
+	id: string;
+	/** Display name of the zone */
+	name: string;
+	/** Description of what the zone does */
+	description: string;
+	/** How long the zone lasts (seconds) */
+	duration: number;
+	/** The effect projected onto the room's occupants */
+	aura: EffectAura;
+	/** Line shown in the room's contents while the zone lasts */
+	roomDescription?: string;
+	/** Message shown to the room when the zone fades */
+	onExpire?: string;
+}
+
+/**
+ * Active zone anchored to a room.
+ */
+export interface ZoneInstance {
+	/** The zone template this instance is based on */
+	template: ZoneTemplate;
+	/** The mob that created the zone */
+	caster: Mob;
+	/** The room the zone is anchored to */
+	room: Room;
+	/** Timestamp when the zone was created (milliseconds since epoch) */
+	createdAt: number;
+	/** Timestamp when the zone fades (milliseconds since epoch) */
+	expiresAt: number;
 }
 
 /**
@@ -197,6 +321,102 @@ export function isShieldEffect(
 	return effect.type === "shield";
 }
 
+/**
+ * Checks if an effect template is a crowd-control effect.
+ */
+export function isCrowdControlEffect(
+	effect: EffectTemplate
+): effect is CrowdControlEffectTemplate {
+	return effect.type === "crowd-control";
+}
+
+/**
+ * Checks if a dispel or cleanse of the given categories can remove an effect.
+ *
+ * @param effect The effect template
+ * @param categories The categories being removed
+ * @returns true if the effect is dispellable and in one of the categories
+ */
+export function isDispellable(
+	effect: EffectTemplate,
+	categories: readonly EFFECT_CATEGORY[]
+): boolean {
+	if (!effect.category || effect.dispellable === false) return false;
+	return categories.includes(effect.category);
+}
+
+/**
+ * Gets the chance a dispel removes each effect, rising from
+ * {@link BASE_DISPEL_CHANCE} at 0% proficiency to certain at 100%.
+ *
+ * @param proficiency The dispelling ability's proficiency (0-100)
+ * @returns Chance between 0 and 1
+ */
+export function getDispelChance(proficiency: number): number {
+	const clamped = Math.min(100, Math.max(0, proficiency));
+	return BASE_DISPEL_CHANCE + ((1 - BASE_DISPEL_CHANCE) * clamped) / 100;
+}
+
+/**
+ * Gets the number of stacks on an effect instance.
+ */
+export function getEffectStacks(effect: EffectInstance): number {
+	return effect.stacks ?? 1;
+}
+
+/**
+ * Gets how strong one stack of an effect instance is: its tick amount for
+ * DoT/HoT effects or its remaining absorption for shields.
+ */
+function getEffectStrength(effect: EffectInstance): number {
+	return effect.tickAmount ?? effect.remainingAbsorption ?? 0;
+}
+
+/**
+ * Reapplies an effect to an existing instance according to stacking rules.
+ * A stronger application (with replaceIfStronger) takes over the instance's
+ * caster, strength and timers; otherwise the timers are reset if the rules
+ * refresh. Either way a stack is added, up to the maximum.
+ *
+ * @param rules The effect's stacking rules
+ * @param existing The instance already on the mob (updated in place)
+ * @param incoming The newly created instance being applied
+ * @returns true if the existing instance changed
+ */
+export function stackEffect(
+	rules: EffectStackingRules,
+	existing: EffectInstance,
+	incoming: EffectInstance
+): boolean {
+	let changed = false;
+
+	if (
+		rules.replaceIfStronger &&
+		getEffectStrength(incoming) > getEffectStrength(existing)
+	) {
+		existing.caster = incoming.caster;
+		existing.tickAmount = incoming.tickAmount;
+		existing.remainingAbsorption = incoming.remainingAbsorption;
+		changed = true;
+	}
+
+	if (changed || rules.refresh) {
+		existing.appliedAt = incoming.appliedAt;
+		existing.expiresAt = incoming.expiresAt;
+		existing.nextTickAt = incoming.nextTickAt;
+		existing.ticksRemaining = incoming.ticksRemaining;
+		changed = true;
+	}
+
+	const stacks = getEffectStacks(existing);
+	if (stacks < (rules.maxStacks ?? 1)) {
+		existing.stacks = stacks + 1;
+		changed = true;
+	}
+
+	return changed;
+}
+
 /**
  * Checks if an effect instance has expired.
  */
@@ -237,6 +457,8 @@ export interface EffectOverrides {
 	remainingAbsorption?: number;
 	/** Restoration field: time until next tick (for DoT/HoT effects, used during deserialization) */
 	nextTickIn?: number;
+	/** Restoration field: number of stacks (for effects with stacking rules) */
+	stacks?: number;
 }
 
 /**
@@ -259,4 +481,6 @@ export interface SerializedEffect {
 	tickAmount?: number;
 	/** For shield effects: remaining absorption capacity */
 	remainingAbsorption?: number;
+	/** Number of stacks, if more than one */
+	stacks?: number;
 }
@@ -6,6 +6,9 @@
  * @module core/help
  */
 
+import type { Character } from "./character.js";
+import type { PERMISSION } from "./role.js";
+
 /**
  * Represents a single helpfile entry.
  */
@@ -20,6 +23,25 @@ export interface Helpfile {
 	topic?: string[];
 	/** The help content (supports multiline text) */
 	content: string;
+	/** Permission needed to read this helpfile; readable by anyone if absent */
+	permission?: PERMISSION;
+}
+
+/**
+ * Checks whether a character may read a helpfile.
+ * Restricted helpfiles are hidden from NPCs and from characters whose role
+ * lacks the helpfile's permission.
+ *
+ * @param helpfile The helpfile
+ * @param character The reader, if any
+ * @returns true if the helpfile may be shown
+ */
+export function canReadHelpfile(
+	helpfile: Helpfile,
+	character?: Character
+): boolean {
+	if (!helpfile.permission) return true;
+	return character?.hasPermission(helpfile.permission) ?? false;
 }
 
 /**
@@ -31,4 +53,5 @@ export interface SerializedHelpfile {
 	related?: string | string[];
 	topic?: string | string[];
 	content: string;
+	permission?: string;
 }
@@ -622,5 +622,15 @@ describe("io.ts", () => {
 
 			assert.deepStrictEqual(inputs, ["command with spaces"]);
 		});
+
+		it("should not send GMCP to clients that refused it", async () => {
+			assert.notStrictEqual(mudClient, null);
+			await new Promise((resolve) => trackedSetTimeout(resolve, 50));
+
+			assert.strictEqual(
+				mudClient!.sendGMCP?.("Char.Vitals", { hp: 10 }),
+				false
+			);
+		});
 	});
 });
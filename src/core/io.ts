@@ -43,12 +43,18 @@ import { string } from "mud-ext";
 import { colorize as _colorize, stripColors } from "./color.js";
 import { buildIACCommand, IAC, LINEBREAK, TELNET_OPTION } from "./telnet.js";
 import { TelnetNegotiationManager } from "./telnet-negotiation.js";
+import {
+	ConnectionLimiter,
+	CONNECTION_REFUSAL_MESSAGE,
+} from "./connection-limit.js";
 import {
 	SGAHandler,
 	TTYPEHandler,
 	MCCP1Handler,
 	MCCP2Handler,
 	NAWSHandler,
+	GMCPHandler,
+	sendGMCPMessage,
 } from "./telnet-protocol-handlers.js";
 import { constants } from "zlib";
 
@@ -69,6 +75,8 @@ export interface MudClient {
 	getAddress(): string;
 	isConnected(): boolean;
 	isLocalhost(): boolean;
+	/** Send out-of-band GMCP data, if the client negotiated it */
+	sendGMCP?(packageName: string, data?: unknown): boolean;
 	on(event: "input", listener: (line: string) => void): this;
 	on(event: "close", listener: () => void): this;
 	on(event: "error", listener: (err: Error) => void): this;
@@ -181,6 +189,7 @@ export class StandardMudClient extends EventEmitter implements MudClient {
 		manager.registerHandler(new MCCP1Handler());
 		manager.registerHandler(new MCCP2Handler());
 		manager.registerHandler(new NAWSHandler());
+		manager.registerHandler(new GMCPHandler());
 
 		// Configure default protocols
 		// SGA is enabled by default (we want it)
@@ -204,6 +213,12 @@ export class StandardMudClient extends EventEmitter implements MudClient {
 			enabled: true,
 		});
 
+		// GMCP is enabled (structured data for client gauges and mappers)
+		manager.configureProtocol(TELNET_OPTION.GMCP, {
+			enabled: true,
+			initiateOnConnect: true,
+		});
+
 		// Register callback for when all telnet negotiations complete
 		manager.onAllNegotiationsComplete(() => {
 			logger.debug("All telnet negotiations complete", {
@@ -294,6 +309,17 @@ export class StandardMudClient extends EventEmitter implements MudClient {
 		}
 	}
 
+	/**
+	 * Send a GMCP message to the client.
+	 * Does nothing unless the client negotiated GMCP and supports the package.
+	 * @param packageName Full package name, e.g. "Char.Vitals"
+	 * @param data Optional message body, sent as JSON
+	 * @returns true if the message was sent
+	 */
+	public sendGMCP(packageName: string, data?: unknown): boolean {
+		return sendGMCPMessage(this.negotiationManager, packageName, data);
+	}
+
 	/**
 	 * Send a line of text to the client (adds newline)
 	 * @param text The text to send
@@ -430,7 +456,8 @@ export function isLocalhost(address: string): boolean {
  *
  * Use `start()` and `stop()` to control the server lifecycle. The server
  * maintains a registry of connected `MudClient` instances and provides simple
- * broadcast helpers.
+ * broadcast helpers. Pass a `ConnectionLimiter` to refuse addresses that hold
+ * or open too many connections before any telnet negotiation starts.
  *
  * Example
  * ```ts
@@ -446,9 +473,11 @@ export class MudServer extends EventEmitter {
 	private clients: Set<MudClient> = new Set();
 	private port?: number;
 	private isListening: boolean = false;
+	private limiter?: ConnectionLimiter;
 
-	constructor() {
+	constructor(limiter?: ConnectionLimiter) {
 		super();
+		this.limiter = limiter;
 		this.server = createServer((socket: Socket) => {
 			this.handleConnection(socket);
 		});
@@ -521,6 +550,15 @@ export class MudServer extends EventEmitter {
 	}
 
 	private handleConnection(socket: Socket): void {
+		const address = socket.remoteAddress ?? "unknown";
+		const refusal = this.limiter?.acquire(address);
+		if (refusal) {
+			logger.warn(`Refused connection from ${address}: ${refusal}`);
+			socket.on("error", () => socket.destroy());
+			socket.end(`${CONNECTION_REFUSAL_MESSAGE[refusal]}\r\n`);
+			return;
+		}
+
 		const client = new StandardMudClient(socket);
 		this.clients.add(client);
 
@@ -613,6 +651,7 @@ export class MudServer extends EventEmitter {
 
 		client.on("close", () => {
 			this.clients.delete(client);
+			this.limiter?.release(address);
 			logger.info(
 				`Client disconnected: ${client.getAddress()} (${
 					this.clients.size
@@ -0,0 +1,109 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	LOCKOUT_TYPE,
+	LockoutPolicy,
+	LoginFailureRecord,
+	deserializeLoginFailure,
+	formatLockoutRemaining,
+	getLockoutLength,
+	isLockedOut,
+	isLoginFailureStale,
+	recordLoginFailure,
+	serializeLoginFailure,
+} from "./lockout.js";
+
+const MINUTE = 60 * 1000;
+const POLICY: LockoutPolicy = {
+	maxFailures: 3,
+	baseLockoutMs: MINUTE,
+	maxLockoutMs: 60 * MINUTE,
+};
+
+function fail(
+	times: number,
+	record: LoginFailureRecord | undefined,
+	now: Date
+): LoginFailureRecord {
+	for (let i = 0; i < times; i++) {
+		record = recordLoginFailure(
+			record,
+			POLICY,
+			LOCKOUT_TYPE.ADDRESS,
+			"203.0.113.7",
+			now
+		);
+	}
+	return record!;
+}
+
+suite("lockout.ts", () => {
+	suite("recordLoginFailure", () => {
+		test("should count failures below the threshold", () => {
+			const now = new Date("2024-06-01T12:00:00Z");
+			const record = fail(2, undefined, now);
+			assert.strictEqual(record.failures, 2);
+			assert.strictEqual(isLockedOut(record, now), false);
+		});
+
+		test("should lock out at the threshold", () => {
+			const now = new Date("2024-06-01T12:00:00Z");
+			const record = fail(3, undefined, now);
+			assert.strictEqual(record.failures, 0);
+			assert.strictEqual(record.lockouts, 1);
+			assert.strictEqual(isLockedOut(record, now), true);
+			assert.deepStrictEqual(
+				record.lockedUntil,
+				new Date(now.getTime() + MINUTE)
+			);
+			assert.strictEqual(
+				isLockedOut(record, new Date(now.getTime() + MINUTE)),
+				false
+			);
+		});
+
+		test("should double each lockout up to the cap", () => {
+			let now = new Date("2024-06-01T12:00:00Z");
+			let record = fail(3, undefined, now);
+			now = record.lockedUntil!;
+			record = fail(3, record, now);
+			assert.deepStrictEqual(
+				record.lockedUntil,
+				new Date(now.getTime() + 2 * MINUTE)
+			);
+			assert.strictEqual(getLockoutLength(10, POLICY), 60 * MINUTE);
+		});
+
+		test("should start over once the record has gone stale", () => {
+			const now = new Date("2024-06-01T12:00:00Z");
+			const record = fail(3, undefined, now);
+			const later = new Date(now.getTime() + 2 * 60 * MINUTE);
+			assert.strictEqual(isLoginFailureStale(record, POLICY, later), true);
+			const fresh = fail(3, record, later);
+			assert.strictEqual(fresh.lockouts, 1);
+		});
+	});
+
+	suite("formatLockoutRemaining", () => {
+		test("should round up to the minute", () => {
+			const now = new Date("2024-06-01T12:00:00Z");
+			const record = fail(3, undefined, now);
+			assert.strictEqual(
+				formatLockoutRemaining(record, new Date(now.getTime() + 30 * 1000)),
+				"1 minute"
+			);
+		});
+	});
+
+	suite("serializeLoginFailure", () => {
+		test("should round-trip records", () => {
+			const now = new Date("2024-06-01T12:00:00Z");
+			for (const record of [fail(1, undefined, now), fail(3, undefined, now)]) {
+				assert.deepStrictEqual(
+					deserializeLoginFailure(serializeLoginFailure(record)),
+					record
+				);
+			}
+		});
+	});
+});
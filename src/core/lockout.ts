@@ -0,0 +1,212 @@
+/**
+ * Core lockout module.
+ *
+ * Counts failed logins per client address and per account name, and locks a
+ * key out once it reaches a threshold. Each lockout lasts twice as long as the
+ * one before it, up to a cap, so a patient attacker gets slower and slower
+ * while a player who mistypes a password a few times is barely delayed.
+ *
+ * Typical usage
+ * ```ts
+ * import { LOCKOUT_TYPE, recordLoginFailure, isLockedOut } from "./lockout.js";
+ *
+ * const policy = { maxFailures: 5, baseLockoutMs: 60_000, maxLockoutMs: 3_600_000 };
+ * let record;
+ * for (let i = 0; i < 5; i++)
+ *   record = recordLoginFailure(record, policy, LOCKOUT_TYPE.ADDRESS, "203.0.113.7");
+ * isLockedOut(record); // true, for one minute
+ * ```
+ *
+ * Notes
+ * - A record is forgotten once it has been quiet for {@link LockoutPolicy.maxLockoutMs}
+ *   and isn't locked, so the doubling starts over for occasional mistakes.
+ *
+ * @module core/lockout
+ */
+
+import { formatDuration } from "./time.js";
+
+/** What a failure counter is keyed on. */
+export enum LOCKOUT_TYPE {
+	ADDRESS = "address",
+	ACCOUNT = "account",
+}
+
+/**
+ * Thresholds for locking out failed logins.
+ */
+export interface LockoutPolicy {
+	/** Failures in a row that trigger a lockout */
+	maxFailures: number;
+	/** Length of the first lockout */
+	baseLockoutMs: number;
+	/** Longest a single lockout may last */
+	maxLockoutMs: number;
+}
+
+/**
+ * Failed login history for one address or account name (runtime form).
+ */
+export interface LoginFailureRecord {
+	type: LOCKOUT_TYPE;
+	/** Client IP or lowercase account name */
+	key: string;
+	/** Failures since the last lockout */
+	failures: number;
+	/** Lockouts so far; each doubles the next one's length */
+	lockouts: number;
+	lastFailureAt: Date;
+	lockedUntil?: Date;
+}
+
+/**
+ * Serialized form of a failure record.
+ */
+export interface SerializedLoginFailureRecord {
+	type: LOCKOUT_TYPE;
+	key: string;
+	failures: number;
+	lockouts: number;
+	lastFailureAt: string;
+	lockedUntil?: string;
+}
+
+/**
+ * Checks whether a record is currently locked out.
+ *
+ * @param record The record
+ * @param now The current time
+ * @returns true if logins for the record's key should be refused
+ */
+export function isLockedOut(
+	record: LoginFailureRecord | undefined,
+	now: Date = new Date()
+): boolean {
+	return record?.lockedUntil !== undefined && record.lockedUntil > now;
+}
+
+/**
+ * Checks whether a record can be dropped: not locked, and no failures for as
+ * long as the longest lockout.
+ *
+ * @param record The record
+ * @param policy Lockout thresholds
+ * @param now The current time
+ * @returns true if the record no longer matters
+ */
+export function isLoginFailureStale(
+	record: LoginFailureRecord,
+	policy: LockoutPolicy,
+	now: Date = new Date()
+): boolean {
+	if (isLockedOut(record, now)) return false;
+	const quietSince = record.lockedUntil ?? record.lastFailureAt;
+	return now.getTime() - quietSince.getTime() >= policy.maxLockoutMs;
+}
+
+/**
+ * Gets the length of a record's next lockout.
+ *
+ * @param lockouts Lockouts the key has already served
+ * @param policy Lockout thresholds
+ * @returns Lockout length in milliseconds
+ */
+export function getLockoutLength(
+	lockouts: number,
+	policy: LockoutPolicy
+): number {
+	return Math.min(
+		policy.baseLockoutMs * 2 ** Math.max(0, lockouts),
+		policy.maxLockoutMs
+	);
+}
+
+/**
+ * Records a failed login, locking the key out when it reaches the threshold.
+ *
+ * @param record The existing record, if any (left unchanged)
+ * @param policy Lockout thresholds
+ * @param type What the key is (only used for new records)
+ * @param key The address or account name (only used for new records)
+ * @param now The current time
+ * @returns The updated record
+ */
+export function recordLoginFailure(
+	record: LoginFailureRecord | undefined,
+	policy: LockoutPolicy,
+	type: LOCKOUT_TYPE,
+	key: string,
+	now: Date = new Date()
+): LoginFailureRecord {
+	const current: LoginFailureRecord =
+		record && !isLoginFailureStale(record, policy, now)
+			? { ...record }
+			: { type, key, failures: 0, lockouts: 0, lastFailureAt: now };
+
+	current.failures++;
+	current.lastFailureAt = now;
+	if (current.failures >= policy.maxFailures) {
+		current.lockedUntil = new Date(
+			now.getTime() + getLockoutLength(current.lockouts, policy)
+		);
+		current.lockouts++;
+		current.failures = 0;
+	}
+	return current;
+}
+
+/**
+ * Describes how long a lockout has left, rounded up to the minute.
+ *
+ * @param record A locked record
+ * @param now The current time
+ * @returns Text such as "5 minutes" or "1 hour"
+ */
+export function formatLockoutRemaining(
+	record: LoginFailureRecord,
+	now: Date = new Date()
+): string {
+	const remaining = (record.lockedUntil?.getTime() ?? 0) - now.getTime();
+	const minute = 60 * 1000;
+	return formatDuration(Math.max(1, Math.ceil(remaining / minute)) * minute);
+}
+
+/**
+ * Converts a failure record to its serialized form.
+ *
+ * @param record The record
+ * @returns Serialized record data
+ */
+export function serializeLoginFailure(
+	record: LoginFailureRecord
+): SerializedLoginFailureRecord {
+	return {
+		type: record.type,
+		key: record.key,
+		failures: record.failures,
+		lockouts: record.lockouts,
+		lastFailureAt: record.lastFailureAt.toISOString(),
+		...(record.lockedUntil && {
+			lockedUntil: record.lockedUntil.toISOString(),
+		}),
+	};
+}
+
+/**
+ * Restores a failure record from serialized data.
+ *
+ * @param data Serialized record data
+ * @returns The record
+ */
+export function deserializeLoginFailure(
+	data: SerializedLoginFailureRecord
+): LoginFailureRecord {
+	return {
+		type: data.type,
+		key: data.key,
+		failures: data.failures,
+		lockouts: data.lockouts,
+		lastFailureAt: new Date(data.lastFailureAt),
+		...(data.lockedUntil && { lockedUntil: new Date(data.lockedUntil) }),
+	};
+}
@@ -0,0 +1,124 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	MailMessage,
+	MailPolicy,
+	createReturnedMail,
+	deserializeMail,
+	getPostage,
+	hasAttachments,
+	isMailExpired,
+	serializeMail,
+	shouldReturnMail,
+} from "./mail.js";
+import type { AnySerializedDungeonObject } from "./dungeon.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const POLICY: MailPolicy = {
+	postage: 10,
+	postagePerItem: 5,
+	maxAttachments: 5,
+	mailboxSize: 50,
+	expiryMs: 30 * DAY,
+};
+const SENT = new Date("2026-01-01T00:00:00.000Z");
+const GEM: AnySerializedDungeonObject = {
+	type: "Item",
+	keywords: "gem",
+	display: "a gem",
+};
+
+function letter(overrides: Partial<MailMessage> = {}): MailMessage {
+	return {
+		id: 1,
+		from: "Alice",
+		to: "bob",
+		subject: "Hello",
+		content: "How are you?",
+		sentAt: SENT,
+		read: false,
+		gold: 0,
+		items: [],
+		...overrides,
+	};
+}
+
+suite("mail.ts", () => {
+	test("getPostage charges extra for each attached item", () => {
+		assert.strictEqual(getPostage(POLICY, 0), 10);
+		assert.strictEqual(getPostage(POLICY, 3), 25);
+	});
+
+	test("hasAttachments checks gold and items", () => {
+		assert.strictEqual(hasAttachments(letter()), false);
+		assert.strictEqual(hasAttachments(letter({ gold: 5 })), true);
+		assert.strictEqual(hasAttachments(letter({ items: [GEM] })), true);
+	});
+
+	test("isMailExpired respects the expiry time", () => {
+		const before = new Date(SENT.getTime() + 30 * DAY - 1);
+		const after = new Date(SENT.getTime() + 30 * DAY);
+		assert.strictEqual(isMailExpired(letter(), POLICY, before), false);
+		assert.strictEqual(isMailExpired(letter(), POLICY, after), true);
+	});
+
+	test("isMailExpired never expires mail when expiry is disabled", () => {
+		const later = new Date(SENT.getTime() + 1000 * DAY);
+		assert.strictEqual(
+			isMailExpired(letter(), { ...POLICY, expiryMs: 0 }, later),
+			false
+		);
+	});
+
+	test("shouldReturnMail returns unread mail and mail with attachments", () => {
+		assert.strictEqual(shouldReturnMail(letter()), true);
+		assert.strictEqual(shouldReturnMail(letter({ read: true })), false);
+		assert.strictEqual(
+			shouldReturnMail(letter({ read: true, gold: 10 })),
+			true
+		);
+	});
+
+	test("shouldReturnMail never returns a letter twice", () => {
+		assert.strictEqual(
+			shouldReturnMail(letter({ returned: true, gold: 10 })),
+			false
+		);
+	});
+
+	test("createReturnedMail addresses the letter back to its sender", () => {
+		const now = new Date(SENT.getTime() + 30 * DAY);
+		const items = [GEM];
+		const returned = createReturnedMail(letter({ gold: 10, items }), now);
+		assert.strictEqual(returned.from, "bob");
+		assert.strictEqual(returned.to, "alice");
+		assert.strictEqual(returned.subject, "Returned: Hello");
+		assert.strictEqual(returned.sentAt, now);
+		assert.strictEqual(returned.read, false);
+		assert.strictEqual(returned.gold, 10);
+		assert.deepStrictEqual(returned.items, items);
+		assert.strictEqual(returned.returned, true);
+	});
+
+	test("serializeMail omits empty optional fields", () => {
+		const data = serializeMail(letter());
+		assert.deepStrictEqual(data, {
+			id: 1,
+			from: "Alice",
+			to: "bob",
+			subject: "Hello",
+			content: "How are you?",
+			sentAt: SENT.toISOString(),
+		});
+	});
+
+	test("deserializeMail round-trips serializeMail", () => {
+		const original = letter({
+			read: true,
+			gold: 25,
+			items: [GEM],
+			returned: true,
+		});
+		assert.deepStrictEqual(deserializeMail(serializeMail(original)), original);
+	});
+});
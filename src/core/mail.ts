@@ -0,0 +1,204 @@
+/**
+ * Core mail module.
+ *
+ * Private letters between players, delivered whether or not the recipient is
+ * online. A letter may carry gold and items; they are held in escrow (the
+ * items as serialized data) until the recipient collects them. Sending costs
+ * postage, mailboxes have a size limit, and letters left too long go back to
+ * their sender with their attachments.
+ *
+ * Typical usage
+ * ```ts
+ * import {
+ *   createReturnedMail,
+ *   getPostage,
+ *   isMailExpired,
+ *   shouldReturnMail,
+ * } from "./mail.js";
+ *
+ * const policy = { postage: 10, postagePerItem: 5, maxAttachments: 5, mailboxSize: 50, expiryMs: 30 * DAY };
+ * getPostage(policy, 2); // 20
+ * if (isMailExpired(letter, policy) && shouldReturnMail(letter))
+ *   deliver(createReturnedMail(letter));
+ * ```
+ *
+ * Notes
+ * - Returned letters are never returned again. Once expired they are deleted,
+ *   unless they still hold attachments, which wait for the sender to collect.
+ * - Letters that have been read and carry nothing are deleted on expiry
+ *   rather than sent back.
+ *
+ * @module core/mail
+ */
+
+import type { AnySerializedDungeonObject } from "./dungeon.js";
+
+/**
+ * Postage, size and expiry rules for mail.
+ */
+export interface MailPolicy {
+	/** Gold charged for every letter */
+	postage: number;
+	/** Extra gold charged for each attached item */
+	postagePerItem: number;
+	/** Most items one letter may carry */
+	maxAttachments: number;
+	/** Most letters a mailbox holds before refusing new mail */
+	mailboxSize: number;
+	/** How long a letter waits before it expires (0 to keep forever) */
+	expiryMs: number;
+}
+
+/**
+ * A letter (runtime form).
+ */
+export interface MailMessage {
+	/** Unique letter ID */
+	id: number;
+	/** Username of the sender */
+	from: string;
+	/** Lowercase username of the recipient */
+	to: string;
+	subject: string;
+	content: string;
+	sentAt: Date;
+	/** Whether the recipient has read the letter */
+	read: boolean;
+	/** Gold held in escrow */
+	gold: number;
+	/** Items held in escrow */
+	items: AnySerializedDungeonObject[];
+	/** Set on letters sent back to their sender after expiring */
+	returned?: boolean;
+}
+
+/**
+ * Serialized form of a letter.
+ */
+export interface SerializedMailMessage {
+	id: number;
+	from: string;
+	to: string;
+	subject: string;
+	content: string;
+	sentAt: string;
+	read?: boolean;
+	gold?: number;
+	items?: AnySerializedDungeonObject[];
+	returned?: boolean;
+}
+
+/**
+ * Gets the postage for a letter.
+ *
+ * @param policy Mail rules
+ * @param itemCount Number of attached items
+ * @returns Postage in gold
+ */
+export function getPostage(policy: MailPolicy, itemCount: number): number {
+	return policy.postage + policy.postagePerItem * itemCount;
+}
+
+/**
+ * Checks whether a letter still holds gold or items.
+ *
+ * @param mail The letter
+ * @returns true if there is something to collect
+ */
+export function hasAttachments(mail: MailMessage): boolean {
+	return mail.gold > 0 || mail.items.length > 0;
+}
+
+/**
+ * Checks whether a letter has waited longer than the policy allows.
+ *
+ * @param mail The letter
+ * @param policy Mail rules
+ * @param now The current time
+ * @returns true if the letter has expired
+ */
+export function isMailExpired(
+	mail: MailMessage,
+	policy: MailPolicy,
+	now: Date = new Date()
+): boolean {
+	if (policy.expiryMs <= 0) return false;
+	return now.getTime() - mail.sentAt.getTime() >= policy.expiryMs;
+}
+
+/**
+ * Checks whether an expired letter should go back to its sender: it hasn't
+ * been returned already, and it is either unread or still holds attachments.
+ *
+ * @param mail The expired letter
+ * @returns true to return the letter, false to delete it
+ */
+export function shouldReturnMail(mail: MailMessage): boolean {
+	return !mail.returned && (!mail.read || hasAttachments(mail));
+}
+
+/**
+ * Creates the letter that carries an expired letter back to its sender.
+ *
+ * @param mail The expired letter
+ * @param now The time it is returned
+ * @returns The returned letter (without an ID), addressed to the original sender
+ */
+export function createReturnedMail(
+	mail: MailMessage,
+	now: Date = new Date()
+): Omit<MailMessage, "id"> {
+	return {
+		from: mail.to,
+		to: mail.from.toLowerCase(),
+		subject: `Returned: ${mail.subject}`,
+		content: mail.content,
+		sentAt: now,
+		read: false,
+		gold: mail.gold,
+		items: mail.items,
+		returned: true,
+	};
+}
+
+/**
+ * Converts a letter to its serialized form.
+ *
+ * @param mail The letter
+ * @returns Serialized letter data
+ */
+export function serializeMail(mail: MailMessage): SerializedMailMessage {
+	return {
+		id: mail.id,
+		from: mail.from,
+		to: mail.to,
+		subject: mail.subject,
+		content: mail.content,
+		sentAt: mail.sentAt.toISOString(),
+		...(mail.read && { read: true }),
+		...(mail.gold > 0 && { gold: mail.gold }),
+		...(mail.items.length > 0 && { items: mail.items }),
+		...(mail.returned && { returned: true }),
+	};
+}
+
+/**
+ * Restores a letter from serialized data.
+ *
+ * @param data Serialized letter data
+ * @returns The letter
+ */
+export function deserializeMail(data: SerializedMailMessage): MailMessage {
+	return {
+		id: data.id,
+		from: data.from,
+		to: data.to.toLowerCase(),
+		subject: data.subject,
+		content: data.content,
+		sentAt: new Date(data.sentAt),
+		read: data.read ?? false,
+		gold: data.gold ?? 0,
+		items: data.items ?? [],
+		...(data.returned && { returned: true }),
+	};
+}
@@ -0,0 +1,67 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	createQuestLog,
+	createQuestProgress,
+	deserializeQuestLog,
+	serializeQuestLog,
+	QuestDefinition,
+	QUEST_OBJECTIVE_TYPE,
+} from "./quest.js";
+
+const QUEST: QuestDefinition = {
+	id: "test-quest",
+	name: "Test Quest",
+	minLevel: 1,
+	prerequisites: [],
+	repeatable: false,
+	objectives: [
+		{ type: QUEST_OBJECTIVE_TYPE.KILL, target: "@test:rat", count: 3 },
+		{ type: QUEST_OBJECTIVE_TYPE.VISIT, room: "@test{0,0,0}", count: 1 },
+	],
+	rewards: { experience: 10 },
+};
+
+suite("quest.ts", () => {
+	suite("createQuestProgress", () => {
+		test("should start every objective at zero", () => {
+			const progress = createQuestProgress(QUEST);
+			assert.strictEqual(progress.questId, "test-quest");
+			assert.deepStrictEqual(progress.counts, [0, 0]);
+			assert.ok(progress.acceptedAt instanceof Date);
+		});
+	});
+
+	suite("serializeQuestLog / deserializeQuestLog", () => {
+		test("should round-trip active and completed quests", () => {
+			const log = createQuestLog();
+			const progress = createQuestProgress(QUEST);
+			progress.counts[0] = 2;
+			log.active.set(QUEST.id, progress);
+			log.completed.add("earlier-quest");
+
+			const restored = deserializeQuestLog(serializeQuestLog(log));
+
+			assert.strictEqual(restored.active.size, 1);
+			const restoredProgress = restored.active.get(QUEST.id)!;
+			assert.deepStrictEqual(restoredProgress.counts, [2, 0]);
+			assert.strictEqual(
+				restoredProgress.acceptedAt.toISOString(),
+				progress.acceptedAt.toISOString()
+			);
+			assert.ok(restored.completed.has("earlier-quest"));
+		});
+
+		test("should tolerate missing and malformed fields", () => {
+			const restored = deserializeQuestLog({
+				active: [
+					{ id: "a", counts: ["x" as any, 1], acceptedAt: "not a date" },
+				],
+			});
+			const progress = restored.active.get("a")!;
+			assert.deepStrictEqual(progress.counts, [0, 1]);
+			assert.ok(!isNaN(progress.acceptedAt.getTime()));
+			assert.strictEqual(restored.completed.size, 0);
+		});
+	});
+});
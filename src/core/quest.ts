@@ -0,0 +1,192 @@
+/**
+ * Core quest module.
+ *
+ * Provides quest definition types and the per-character quest log used to
+ * track accepted quests, objective progress and completed quests.
+ *
+ * Quest definitions are loaded from `data/quests` by the quest package and
+ * stored in the quest registry. Runtime progress tracking lives in `src/quest.ts`.
+ *
+ * @module core/quest
+ */
+
+/**
+ * Kinds of objectives a quest can require.
+ */
+export enum QUEST_OBJECTIVE_TYPE {
+	/** Kill mobs created from a template */
+	KILL = "kill",
+	/** Carry items created from a template */
+	COLLECT = "collect",
+	/** Give items created from a template to a mob created from a template */
+	DELIVER = "deliver",
+	/** Enter a specific room */
+	VISIT = "visit",
+}
+
+/**
+ * A single quest objective.
+ *
+ * @property type - Objective type
+ * @property target - Template ID of the mob to kill, or the mob to deliver to
+ * @property item - Template ID of the item to collect or deliver
+ * @property room - Room reference (`@dungeon-id{x,y,z}`) to visit
+ * @property count - Number required (defaults to 1)
+ * @property description - Optional text shown in progress listings
+ * @property consume - Whether collected items are taken on completion (defaults to true)
+ */
+export interface QuestObjective {
+	readonly type: QUEST_OBJECTIVE_TYPE;
+	readonly target?: string;
+	readonly item?: string;
+	readonly room?: string;
+	readonly count: number;
+	readonly description?: string;
+	readonly consume?: boolean;
+}
+
+/**
+ * Rewards granted when a quest is completed.
+ *
+ * @property experience - Experience awarded via `Mob.gainExperience`
+ * @property gold - Gold added to the character's mob value
+ * @property items - Template IDs of items created in the character's inventory
+ */
+export interface QuestRewards {
+	readonly experience?: number;
+	readonly gold?: number;
+	readonly items?: ReadonlyArray<string>;
+}
+
+/**
+ * A quest definition loaded from YAML.
+ *
+ * @property id - Unique quest identifier
+ * @property name - Display name
+ * @property description - Text shown when the quest is offered
+ * @property minLevel - Minimum level required to accept (defaults to 1)
+ * @property maxLevel - Maximum level allowed to accept (optional)
+ * @property prerequisites - Quest IDs that must be completed first
+ * @property repeatable - Whether the quest can be accepted again after completion
+ * @property objectives - Objectives that must all be met
+ * @property rewards - Rewards granted on completion
+ * @property completionMessage - Optional text sent on completion
+ */
+export interface QuestDefinition {
+	readonly id: string;
+	readonly name: string;
+	readonly description?: string;
+	readonly minLevel: number;
+	readonly maxLevel?: number;
+	readonly prerequisites: ReadonlyArray<string>;
+	readonly repeatable: boolean;
+	readonly objectives: ReadonlyArray<QuestObjective>;
+	readonly rewards: QuestRewards;
+	readonly completionMessage?: string;
+}
+
+/**
+ * Progress on a single accepted quest.
+ *
+ * @property questId - The quest being tracked
+ * @property counts - Progress per objective, indexed like `QuestDefinition.objectives`
+ * @property acceptedAt - When the quest was accepted
+ */
+export interface QuestProgress {
+	questId: string;
+	counts: number[];
+	acceptedAt: Date;
+}
+
+/**
+ * A character's quest log.
+ *
+ * @property active - Accepted quests keyed by quest ID
+ * @property completed - IDs of quests that have been completed
+ */
+export interface QuestLog {
+	active: Map<string, QuestProgress>;
+	completed: Set<string>;
+}
+
+/**
+ * Serialized quest progress with the date as an ISO string.
+ */
+export interface SerializedQuestProgress {
+	id: string;
+	counts: number[];
+	acceptedAt: string;
+}
+
+/**
+ * Serialized quest log with maps and sets as arrays.
+ */
+export interface SerializedQuestLog {
+	active?: SerializedQuestProgress[];
+	completed?: string[];
+}
+
+/**
+ * Creates an empty quest log.
+ */
+export function createQuestLog(): QuestLog {
+	return { active: new Map(), completed: new Set() };
+}
+
+/**
+ * Creates fresh progress for a newly accepted quest.
+ *
+ * @param quest The quest being accepted
+ * @returns Progress with every objective at zero
+ */
+export function createQuestProgress(quest: QuestDefinition): QuestProgress {
+	return {
+		questId: quest.id,
+		counts: quest.objectives.map(() => 0),
+		acceptedAt: new Date(),
+	};
+}
+
+/**
+ * Serializes a quest log for persistence.
+ *
+ * @param log The quest log to serialize
+ * @returns Plain data suitable for YAML
+ */
+export function serializeQuestLog(log: QuestLog): SerializedQuestLog {
+	return {
+		active: Array.from(log.active.values()).map((progress) => ({
+			id: progress.questId,
+			counts: [...progress.counts],
+			acceptedAt: progress.acceptedAt.toISOString(),
+		})),
+		completed: Array.from(log.completed),
+	};
+}
+
+/**
+ * Restores a quest log from serialized data.
+ * Quests that no longer exist are kept so progress isn't lost if a quest file
+ * is temporarily removed; they are simply ignored at runtime.
+ *
+ * @param data The serialized quest log
+ * @returns A runtime quest log
+ */
+export function deserializeQuestLog(data: SerializedQuestLog): QuestLog {
+	const log = createQuestLog();
+	for (const entry of data.active ?? []) {
+		if (!entry?.id) continue;
+		const acceptedAt = new Date(entry.acceptedAt);
+		log.active.set(entry.id, {
+			questId: entry.id,
+			counts: Array.isArray(entry.counts)
+				? entry.counts.map((value) => Number(value) || 0)
+				: [],
+			acceptedAt: isNaN(acceptedAt.getTime()) ? new Date() : acceptedAt,
+		});
+	}
+	for (const id of data.completed ?? []) {
+		if (typeof id === "string" && id) log.completed.add(id);
+	}
+	return log;
+}
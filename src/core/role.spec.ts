@@ -0,0 +1,97 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	PERMISSION,
+	ROLE,
+	canAssignRole,
+	highestRole,
+	outranks,
+	parseRole,
+	roleHasPermission,
+} from "./role.js";
+
+suite("role.ts", () => {
+	suite("roleHasPermission", () => {
+		test("should grant staff permissions by role", () => {
+			assert.strictEqual(
+				roleHasPermission(ROLE.PLAYER, PERMISSION.MUTE),
+				false
+			);
+			assert.strictEqual(roleHasPermission(ROLE.HELPER, PERMISSION.MUTE), true);
+			assert.strictEqual(roleHasPermission(ROLE.HELPER, PERMISSION.BAN), false);
+			assert.strictEqual(
+				roleHasPermission(ROLE.MODERATOR, PERMISSION.BAN),
+				true
+			);
+			assert.strictEqual(
+				roleHasPermission(ROLE.MODERATOR, PERMISSION.EXEC),
+				false
+			);
+			assert.strictEqual(
+				roleHasPermission(ROLE.BUILDER, PERMISSION.BUILD),
+				true
+			);
+		});
+
+		test("should give admins and owners the admin permission", () => {
+			assert.strictEqual(roleHasPermission(ROLE.ADMIN, PERMISSION.ADMIN), true);
+			for (const permission of Object.values(PERMISSION)) {
+				assert.strictEqual(roleHasPermission(ROLE.OWNER, permission), true);
+			}
+		});
+	});
+
+	suite("parseRole", () => {
+		test("should parse role names ignoring case", () => {
+			assert.strictEqual(parseRole(" Moderator "), ROLE.MODERATOR);
+			assert.strictEqual(parseRole("wizard"), undefined);
+		});
+	});
+
+	suite("highestRole", () => {
+		test("should pick the higher rank", () => {
+			assert.strictEqual(highestRole(ROLE.HELPER, ROLE.ADMIN), ROLE.ADMIN);
+			assert.strictEqual(highestRole(ROLE.OWNER, ROLE.PLAYER), ROLE.OWNER);
+		});
+	});
+
+	suite("canAssignRole", () => {
+		test("should only allow roles below the actor's own", () => {
+			assert.strictEqual(
+				canAssignRole(ROLE.ADMIN, ROLE.PLAYER, ROLE.MODERATOR),
+				true
+			);
+			assert.strictEqual(
+				canAssignRole(ROLE.ADMIN, ROLE.PLAYER, ROLE.ADMIN),
+				false
+			);
+			assert.strictEqual(
+				canAssignRole(ROLE.ADMIN, ROLE.ADMIN, ROLE.PLAYER),
+				false
+			);
+		});
+
+		test("should let owners assign anything", () => {
+			assert.strictEqual(
+				canAssignRole(ROLE.OWNER, ROLE.OWNER, ROLE.PLAYER),
+				true
+			);
+		});
+
+		test("should refuse roles without the roles permission", () => {
+			assert.strictEqual(
+				canAssignRole(ROLE.MODERATOR, ROLE.PLAYER, ROLE.HELPER),
+				false
+			);
+		});
+	});
+
+	suite("outranks", () => {
+		test("should only be true for strictly higher roles", () => {
+			assert.strictEqual(outranks(ROLE.MODERATOR, ROLE.PLAYER), true);
+			assert.strictEqual(outranks(ROLE.MODERATOR, ROLE.MODERATOR), false);
+			assert.strictEqual(outranks(ROLE.MODERATOR, ROLE.ADMIN), false);
+			assert.strictEqual(outranks(ROLE.OWNER, ROLE.ADMIN), true);
+		});
+	});
+});
@@ -0,0 +1,183 @@
+/**
+ * Core role module.
+ *
+ * Staff powers are granted through named roles, each of which carries a set
+ * of permissions. Commands and helpfiles name the permission they need; a
+ * character may use them if its role grants that permission.
+ *
+ * Roles are ranked from `player` up to `owner`. Rank decides who may change
+ * whose role: staff can only hand out or take away roles below their own, and
+ * can only moderate characters ranked below them.
+ *
+ * Typical usage
+ * ```ts
+ * import { ROLE, PERMISSION, roleHasPermission } from "./role.js";
+ *
+ * roleHasPermission(ROLE.MODERATOR, PERMISSION.BAN); // true
+ * roleHasPermission(ROLE.HELPER, PERMISSION.BAN); // false
+ * ```
+ *
+ * @module core/role
+ */
+
+/**
+ * Named roles, lowest to highest.
+ */
+export enum ROLE {
+	PLAYER = "player",
+	HELPER = "helper",
+	BUILDER = "builder",
+	MODERATOR = "moderator",
+	ADMIN = "admin",
+	OWNER = "owner",
+}
+
+/**
+ * Individual powers a role can grant.
+ */
+export enum PERMISSION {
+	/** Silence players on channels (`mute`, `unmute`) */
+	MUTE = "mute",
+	/** Disconnect players (`kick`) */
+	KICK = "kick",
+	/** Stop players from acting (`freeze`) */
+	FREEZE = "freeze",
+	/** Ban accounts and addresses (`ban`, `ipban`, `unban`, `bans`) */
+	BAN = "ban",
+	/** Reach any room to work on it (`travel @dungeon{x,y,z}`) */
+	BUILD = "build",
+	/** Change other characters' roles (`role`) */
+	ROLES = "roles",
+	/** Stop the server (`shutdown`) */
+	SHUTDOWN = "shutdown",
+	/** Run code on the server (`exec`) */
+	EXEC = "exec",
+	/** Search the audit log of staff actions (`audit`) */
+	AUDIT = "audit",
+	/** General administration; commands flagged `adminOnly` require this */
+	ADMIN = "admin",
+}
+
+/** Roles in rank order, lowest first. */
+export const ROLES: readonly ROLE[] = [
+	ROLE.PLAYER,
+	ROLE.HELPER,
+	ROLE.BUILDER,
+	ROLE.MODERATOR,
+	ROLE.ADMIN,
+	ROLE.OWNER,
+];
+
+const MODERATOR_PERMISSIONS = [
+	PERMISSION.MUTE,
+	PERMISSION.KICK,
+	PERMISSION.FREEZE,
+	PERMISSION.BAN,
+];
+
+/**
+ * Permissions granted by each role.
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<ROLE, ReadonlySet<PERMISSION>>> =
+	{
+		[ROLE.PLAYER]: new Set(),
+		[ROLE.HELPER]: new Set([PERMISSION.MUTE]),
+		[ROLE.BUILDER]: new Set([PERMISSION.BUILD]),
+		[ROLE.MODERATOR]: new Set(MODERATOR_PERMISSIONS),
+		[ROLE.ADMIN]: new Set([
+			...MODERATOR_PERMISSIONS,
+			PERMISSION.BUILD,
+			PERMISSION.ROLES,
+			PERMISSION.SHUTDOWN,
+			PERMISSION.EXEC,
+			PERMISSION.AUDIT,
+			PERMISSION.ADMIN,
+		]),
+		[ROLE.OWNER]: new Set(Object.values(PERMISSION)),
+	};
+
+/**
+ * Checks whether a value names a role.
+ *
+ * @param value The value to check
+ * @returns true if the value is a role
+ */
+export function isRole(value: unknown): value is ROLE {
+	return ROLES.includes(value as ROLE);
+}
+
+/**
+ * Parses a role name, ignoring case.
+ *
+ * @param text The role name
+ * @returns The role, or undefined if there is no such role
+ */
+export function parseRole(text: string): ROLE | undefined {
+	const normalized = text.trim().toLowerCase();
+	return isRole(normalized) ? normalized : undefined;
+}
+
+/**
+ * Gets a role's rank; higher ranks outrank lower ones.
+ *
+ * @param role The role
+ * @returns The rank, starting at 0 for `player`
+ */
+export function getRoleRank(role: ROLE): number {
+	return ROLES.indexOf(role);
+}
+
+/**
+ * Picks the higher-ranked of two roles.
+ *
+ * @param a A role
+ * @param b Another role
+ * @returns Whichever role ranks higher
+ */
+export function highestRole(a: ROLE, b: ROLE): ROLE {
+	return getRoleRank(a) >= getRoleRank(b) ? a : b;
+}
+
+/**
+ * Checks whether one role outranks another. Staff can only use moderation
+ * commands (kick, mute, freeze, ban) on characters ranked below them.
+ *
+ * @param actorRole Role of the character taking action
+ * @param targetRole Role of the character it is aimed at
+ * @returns true if the actor ranks strictly higher
+ */
+export function outranks(actorRole: ROLE, targetRole: ROLE): boolean {
+	return getRoleRank(targetRole) < getRoleRank(actorRole);
+}
+
+/**
+ * Checks whether a role grants a permission.
+ *
+ * @param role The role
+ * @param permission The permission
+ * @returns true if the role grants the permission
+ */
+export function roleHasPermission(role: ROLE, permission: PERMISSION): boolean {
+	return ROLE_PERMISSIONS[role].has(permission);
+}
+
+/**
+ * Checks whether a character with one role may give another character a role.
+ * Owners may assign any role; other staff with the `roles` permission may only
+ * manage characters below them and hand out roles below their own.
+ *
+ * @param actorRole Role of the character making the change
+ * @param currentRole The target's current role
+ * @param newRole The role to give the target
+ * @returns true if the change is allowed
+ */
+export function canAssignRole(
+	actorRole: ROLE,
+	currentRole: ROLE,
+	newRole: ROLE
+): boolean {
+	if (!roleHasPermission(actorRole, PERMISSION.ROLES)) return false;
+	if (actorRole === ROLE.OWNER) return true;
+	const rank = getRoleRank(actorRole);
+	return getRoleRank(currentRole) < rank && getRoleRank(newRole) < rank;
+}
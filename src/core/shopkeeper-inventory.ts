@@ -127,6 +127,7 @@ export function cycleInventory(inventory: ShopkeeperInventory): void {
 				if (
 					template &&
 					(template.type === "Item" ||
+						template.type === "Consumable" ||
 						template.type === "Equipment" ||
 						template.type === "Armor" ||
 						template.type === "Weapon")
@@ -167,7 +168,10 @@ export function cycleInventory(inventory: ShopkeeperInventory): void {
 		// Restock items
 		if (toRestock > 0) {
 			const template = resolveTemplateById(templateId);
-			if (!template || template.type !== "Item") {
+			if (
+				!template ||
+				(template.type !== "Item" && template.type !== "Consumable")
+			) {
 				continue;
 			}
 
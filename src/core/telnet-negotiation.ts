@@ -68,6 +68,13 @@ export interface ProtocolData {
 		width?: number;
 		height?: number;
 	};
+	/** GMCP client information and supported packages */
+	gmcp?: {
+		client?: string;
+		version?: string;
+		/** Lowercased package names from Core.Supports (undefined until the client sends them) */
+		supports?: Set<string>;
+	};
 }
 
 /**
@@ -6,6 +6,7 @@
  * - TTYPE (Terminal Type)
  * - MCCP1/MCCP2 (Mud Client Compression Protocol)
  * - NAWS (Negotiate About Window Size)
+ * - GMCP (Generic Mud Communication Protocol)
  *
  * @module core/telnet-protocol-handlers
  */
@@ -460,3 +461,164 @@ export class NAWSHandler implements ProtocolHandler {
 		logger.debug(`NAWS disabled for ${manager.getAddress()}`);
 	}
 }
+
+/**
+ * Check whether a GMCP client accepts a package.
+ * Clients that never sent Core.Supports are assumed to accept everything;
+ * otherwise the package or one of its parent modules must be listed.
+ *
+ * @param manager The client's negotiation manager
+ * @param packageName Full package name, e.g. "Char.Vitals"
+ * @returns true if the package may be sent
+ */
+export function isGMCPPackageSupported(
+	manager: TelnetNegotiationManager,
+	packageName: string
+): boolean {
+	const supports = manager.getData().gmcp?.supports;
+	if (!supports) return true;
+	const parts = packageName.toLowerCase().split(".");
+	if (parts[0] === "core") return true;
+	for (let i = parts.length; i > 0; i--) {
+		if (supports.has(parts.slice(0, i).join("."))) return true;
+	}
+	return false;
+}
+
+/**
+ * Send a GMCP message: IAC SB GMCP <package> <json> IAC SE.
+ * Nothing is sent unless GMCP was negotiated and the client supports the
+ * package. UTF-8 text never contains 0xFF, so the payload needs no escaping.
+ *
+ * @param manager The client's negotiation manager
+ * @param packageName Full package name, e.g. "Char.Vitals"
+ * @param data Optional message body, sent as JSON
+ * @returns true if the message was sent
+ */
+export function sendGMCPMessage(
+	manager: TelnetNegotiationManager,
+	packageName: string,
+	data?: unknown
+): boolean {
+	if (manager.getState(TELNET_OPTION.GMCP) !== "negotiated") return false;
+	if (!isGMCPPackageSupported(manager, packageName)) return false;
+	const body =
+		data === undefined ? packageName : `${packageName} ${JSON.stringify(data)}`;
+	return manager.write(
+		Buffer.concat([
+			Buffer.from([IAC.IAC, IAC.SB, TELNET_OPTION.GMCP]),
+			Buffer.from(body, "utf8"),
+			Buffer.from([IAC.IAC, IAC.SE]),
+		])
+	);
+}
+
+/**
+ * GMCP (Generic Mud Communication Protocol) Handler
+ * Server offers: sends WILL GMCP
+ * Handles the Core package (Hello, Supports.Set/Add/Remove, Ping); game data
+ * is pushed with {@link sendGMCPMessage}.
+ */
+export class GMCPHandler implements ProtocolHandler {
+	public option = TELNET_OPTION.GMCP;
+	public serverWillsOption = true;
+
+	public handleCommand(
+		command: IAC.DO | IAC.DONT | IAC.WILL | IAC.WONT,
+		manager: TelnetNegotiationManager,
+		socket: Socket
+	): void {
+		const state = manager.getState(this.option);
+		const address = manager.getAddress();
+
+		if (command === IAC.DO) {
+			if (state === "none") {
+				// Client asked before we offered - accept
+				manager.write(buildIACCommand(IAC.WILL, this.option));
+			}
+			if (state === "none" || state === "pending_send") {
+				manager.setState(this.option, "negotiated");
+				logger.debug(
+					`GMCP negotiation (${address}): received IAC DO GMCP, negotiation complete`
+				);
+				this.onNegotiated?.(manager, socket);
+			}
+		} else if (command === IAC.DONT) {
+			if (state === "pending_send" || state === "negotiated") {
+				manager.setState(this.option, "rejected");
+				logger.debug(
+					`GMCP negotiation (${address}): received IAC DON'T GMCP, negotiation rejected`
+				);
+				this.onRejected?.(manager, socket);
+			}
+		}
+	}
+
+	public handleSubnegotiation(
+		data: Buffer,
+		manager: TelnetNegotiationManager,
+		socket: Socket
+	): void {
+		const address = manager.getAddress();
+		const text = data.toString("utf8").trim();
+		if (!text) return;
+
+		// GMCP subnegotiation format: <package> [json]
+		const space = text.indexOf(" ");
+		const packageName = space === -1 ? text : text.slice(0, space);
+		let payload: any;
+		if (space !== -1) {
+			try {
+				payload = JSON.parse(text.slice(space + 1));
+			} catch {
+				logger.warn(`GMCP (${address}): invalid JSON for ${packageName}`);
+				return;
+			}
+		}
+
+		const protocolData = manager.getData();
+		if (!protocolData.gmcp) {
+			protocolData.gmcp = {};
+		}
+		const gmcp = protocolData.gmcp;
+
+		switch (packageName.toLowerCase()) {
+			case "core.hello":
+				gmcp.client = String(payload?.client ?? "");
+				gmcp.version = String(payload?.version ?? "");
+				logger.info(`GMCP (${address}): client ${gmcp.client} ${gmcp.version}`);
+				break;
+			case "core.supports.set":
+				gmcp.supports = new Set();
+			// falls through
+			case "core.supports.add":
+				if (!gmcp.supports) gmcp.supports = new Set();
+				for (const entry of Array.isArray(payload) ? payload : []) {
+					// Entries are "<Module> <version>", e.g. "Char 1"
+					gmcp.supports.add(String(entry).split(" ")[0].toLowerCase());
+				}
+				break;
+			case "core.supports.remove":
+				for (const entry of Array.isArray(payload) ? payload : []) {
+					gmcp.supports?.delete(String(entry).split(" ")[0].toLowerCase());
+				}
+				break;
+			case "core.ping":
+				sendGMCPMessage(manager, "Core.Ping");
+				break;
+			default:
+				logger.debug(`GMCP (${address}): ignoring ${packageName}`);
+		}
+	}
+
+	public onNegotiated?(
+		manager: TelnetNegotiationManager,
+		socket: Socket
+	): void {
+		logger.debug(`GMCP enabled for ${manager.getAddress()}`);
+	}
+
+	public onRejected?(manager: TelnetNegotiationManager, socket: Socket): void {
+		logger.debug(`GMCP disabled for ${manager.getAddress()}`);
+	}
+}
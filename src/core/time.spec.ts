@@ -0,0 +1,21 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import { parseDuration } from "./time.js";
+
+suite("time.ts", () => {
+	suite("parseDuration", () => {
+		test("should parse single and combined units", () => {
+			assert.strictEqual(parseDuration("30s"), 30 * 1000);
+			assert.strictEqual(parseDuration("10m"), 10 * 60 * 1000);
+			assert.strictEqual(parseDuration("1D12h"), 36 * 60 * 60 * 1000);
+			assert.strictEqual(parseDuration("2w"), 14 * 24 * 60 * 60 * 1000);
+		});
+
+		test("should reject anything else", () => {
+			assert.strictEqual(parseDuration("10"), undefined);
+			assert.strictEqual(parseDuration("0m"), undefined);
+			assert.strictEqual(parseDuration("soon"), undefined);
+			assert.strictEqual(parseDuration("10m spam"), undefined);
+		});
+	});
+});
@@ -59,3 +59,37 @@ export function formatPlaytime(ms: number): string {
 		return `${seconds} seconds`;
 	}
 }
+
+/** Milliseconds per duration unit accepted by {@link parseDuration}. */
+const DURATION_UNITS: Record<string, number> = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a short duration such as `30m`, `2h`, `7d` or `1d12h` into milliseconds.
+ * Units are `s`, `m`, `h`, `d` and `w`.
+ *
+ * @param text - Duration text
+ * @returns Duration in milliseconds, or undefined if the text isn't a duration
+ *
+ * @example
+ * ```typescript
+ * parseDuration("10m");   // 600000
+ * parseDuration("1d12h"); // 129600000
+ * parseDuration("soon");  // undefined
+ * ```
+ */
+export function parseDuration(text: string): number | undefined {
+	const normalized = text.trim().toLowerCase();
+	if (!/^(\d+[smhdw])+$/.test(normalized)) return undefined;
+
+	let total = 0;
+	for (const [, amount, unit] of normalized.matchAll(/(\d+)([smhdw])/g)) {
+		total += parseInt(amount, 10) * DURATION_UNITS[unit];
+	}
+	return total > 0 ? total : undefined;
+}
@@ -157,6 +157,26 @@ async function handleRequest(
 			return;
 		}
 
+		// Set an account's password
+		if (
+			pathname.startsWith("/api/accounts/") &&
+			pathname.endsWith("/password") &&
+			req.method === "PUT"
+		) {
+			const account = decodeURIComponent(
+				pathname.replace("/api/accounts/", "").replace(/\/password$/, "")
+			);
+			let body = "";
+			for await (const chunk of req) {
+				body += chunk.toString();
+			}
+
+			const { password } = JSON.parse(body);
+			await service.setAccountPassword(account, password);
+			sendJSON(res, 200, { success: true });
+			return;
+		}
+
 		// Get weapon types
 		if (pathname === "/api/weapon-types" && req.method === "GET") {
 			const weaponTypes = service.getWeaponTypes();
@@ -23,6 +23,17 @@ import {
 	type SerializedDungeonObject,
 	type AnySerializedDungeonObject,
 } from "../../core/dungeon.js";
+import type { SerializedCharacter } from "../../core/character.js";
+import {
+	loadAccount,
+	saveAccount,
+	setAccountPassword,
+} from "../../package/account.js";
+import { recordAudit } from "../../audit.js";
+import { AUDIT_OUTCOME } from "../../core/audit.js";
+
+/** Actor name recorded in the audit log for character file writes */
+const AUDIT_ACTOR = "character-editor";
 
 export interface CharacterListResponse {
 	characters: string[];
@@ -111,10 +122,14 @@ export class CharacterEditorService {
 			}
 		}
 
+		await this.linkAccount(yaml);
+
 		// Compress contents before saving
 		const compressedYaml = this.compressCharacterContents(yaml);
 
-		await this.writeCharacterFile(filePath, compressedYaml);
+		await this.auditWrite(`create character ${id}`, id, () =>
+			this.writeCharacterFile(filePath, compressedYaml)
+		);
 		logger.info("Created character file", { id, filePath });
 	}
 
@@ -123,16 +138,40 @@ export class CharacterEditorService {
 		this.validateCharacterId(id);
 		this.validateYaml(yaml);
 
-		// Compress contents before saving
-		const compressedYaml = this.compressCharacterContents(yaml);
-
 		const filePath = this.getCharacterFilePath(id);
 		await this.validateCharacterPath(filePath);
+		await this.linkAccount(yaml);
+
+		// Compress contents before saving
+		const compressedYaml = this.compressCharacterContents(yaml);
 
-		await this.writeCharacterFile(filePath, compressedYaml);
+		await this.auditWrite(`save character ${id}`, id, () =>
+			this.writeCharacterFile(filePath, compressedYaml)
+		);
 		logger.info("Updated character file", { id, filePath });
 	}
 
+	/**
+	 * Make sure the account a character belongs to exists and lists the
+	 * character, so characters made or reassigned here can be logged into.
+	 */
+	private async linkAccount(yaml: string): Promise<void> {
+		const data = YAML.load(yaml) as SerializedCharacter | undefined;
+		const username = data?.credentials?.username;
+		const accountName = data?.credentials?.account;
+		if (!username || !accountName) {
+			throw new Error("Character must belong to an account");
+		}
+
+		const account = await loadAccount(accountName);
+		if (!account) {
+			throw new Error(`Account '${accountName}' does not exist`);
+		}
+		if (account.hasCharacter(username)) return;
+		account.addCharacter(username);
+		await saveAccount(account);
+	}
+
 	private compressCharacterContents(yaml: string): string {
 		try {
 			const data = YAML.load(yaml) as any;
@@ -182,10 +221,65 @@ export class CharacterEditorService {
 		const filePath = this.getCharacterFilePath(id);
 		await this.validateCharacterPath(filePath);
 
-		await unlink(filePath);
+		await this.auditWrite(`delete character ${id}`, id, () => unlink(filePath));
 		logger.info("Deleted character file", { id, filePath });
 	}
 
+	/**
+	 * Give an account a new password. The password is stored as an scrypt
+	 * hash on the account right away; the editor never sees the hash.
+	 */
+	async setAccountPassword(
+		accountName: string,
+		password: string
+	): Promise<void> {
+		if (!password) {
+			throw new Error("Password must not be empty");
+		}
+		const account = await loadAccount(accountName);
+		if (!account) {
+			throw new Error(`Account '${accountName}' does not exist`);
+		}
+
+		await this.auditWrite(
+			`set account password ${account.username}`,
+			account.username,
+			async () => {
+				await setAccountPassword(account, password);
+				await saveAccount(account);
+			}
+		);
+		logger.info("Set account password", { account: account.username });
+	}
+
+	/**
+	 * Run a character or account file write and record it in the audit log.
+	 */
+	private async auditWrite(
+		command: string,
+		target: string,
+		write: () => Promise<void>
+	): Promise<void> {
+		try {
+			await write();
+		} catch (error) {
+			await recordAudit({
+				actor: AUDIT_ACTOR,
+				target,
+				command,
+				outcome: AUDIT_OUTCOME.FAILURE,
+				error: String(error),
+			});
+			throw error;
+		}
+		await recordAudit({
+			actor: AUDIT_ACTOR,
+			target,
+			command,
+			outcome: AUDIT_OUTCOME.SUCCESS,
+		});
+	}
+
 	private getCharacterFilePath(id: string): string {
 		// Sanitize the ID to prevent directory traversal
 		const safeId = id.replace(/[^a-z0-9_-]/gi, "").toLowerCase();
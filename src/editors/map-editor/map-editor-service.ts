@@ -30,6 +30,11 @@ import {
 import logger from "../../logger.js";
 import { getSafeRootDirectory } from "../../utils/path.js";
 import { migrateDungeonData } from "../../migrations/dungeon/runner.js";
+import { recordAudit } from "../../audit.js";
+import { AUDIT_OUTCOME } from "../../core/audit.js";
+
+/** Actor name recorded in the audit log for dungeon saves */
+const AUDIT_ACTOR = "map-editor";
 
 export interface DungeonListResponse {
 	dungeons: string[];
@@ -158,7 +163,9 @@ export class MapEditorService {
 
 		const filePath = this.getDungeonFilePath(payload.id);
 		await this.ensureDungeonDoesNotExist(filePath);
-		await this.writeDungeonFile(filePath, payload.yaml);
+		await this.auditWrite(`create dungeon ${payload.id}`, payload.id, () =>
+			this.writeDungeonFile(filePath, payload.yaml)
+		);
 		logger.debug(`Created dungeon YAML: ${payload.id}`);
 		return { id: payload.id, success: true };
 	}
@@ -170,7 +177,9 @@ export class MapEditorService {
 			throw new Error("YAML data is required for updates");
 		}
 		const filePath = this.getDungeonFilePath(payload.id);
-		await this.writeDungeonFile(filePath, payload.yaml);
+		await this.auditWrite(`save dungeon ${payload.id}`, payload.id, () =>
+			this.writeDungeonFile(filePath, payload.yaml)
+		);
 		logger.debug(`Saved dungeon YAML: ${payload.id}`);
 		return { success: true };
 	}
@@ -309,6 +318,34 @@ export class MapEditorService {
 		}
 	}
 
+	/**
+	 * Run a dungeon file write and record it in the audit log.
+	 */
+	private async auditWrite(
+		command: string,
+		target: string,
+		write: () => Promise<void>
+	): Promise<void> {
+		try {
+			await write();
+		} catch (error) {
+			await recordAudit({
+				actor: AUDIT_ACTOR,
+				target,
+				command,
+				outcome: AUDIT_OUTCOME.FAILURE,
+				error: String(error),
+			});
+			throw error;
+		}
+		await recordAudit({
+			actor: AUDIT_ACTOR,
+			target,
+			command,
+			outcome: AUDIT_OUTCOME.SUCCESS,
+		});
+	}
+
 	private getDungeonFilePath(id: string): string {
 		return join(this.dungeonDir, `${id}.yaml`);
 	}
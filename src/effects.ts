@@ -12,13 +12,22 @@ import { MESSAGE_GROUP } from "./core/character.js";
 import { COLOR, color } from "./core/color.js";
 import {
 	EffectInstance,
+	getEffectStacks,
+	isCrowdControlEffect,
 	isDamageOverTimeEffect,
 	isHealOverTimeEffect,
 	isEffectExpired,
 	shouldEffectTick,
 } from "./core/effect.js";
+import { CROWD_CONTROL } from "./core/crowd-control.js";
 import { act, ActMessageTemplates } from "./act.js";
-import { initiateCombat, processEffectDamage } from "./combat.js";
+import {
+	fleeFromCombat,
+	healMob,
+	initiateCombat,
+	processEffectDamage,
+} from "./combat.js";
+import { interruptCast } from "./registry/command.js";
 import { Room } from "./core/dungeon.js";
 
 /**
@@ -131,10 +140,11 @@ function processEffectTick(mob: Mob, effect: EffectInstance): void {
 		const baseDamage = effect.tickAmount ?? effect.template.damage;
 		if (baseDamage > 0) {
 			// Send onTick act message if template has one (before damage calculation)
-			// This allows the message to show the base damage amount
+			// This allows the message to show the base damage amount of all stacks
+			const stackedDamage = baseDamage * getEffectStacks(effect);
 			if (effect.template.onTick && mob.location instanceof Room) {
 				const templates = replaceActPlaceholders(effect.template.onTick, {
-					damage: String(baseDamage),
+					damage: String(stackedDamage),
 				});
 
 				act(
@@ -151,7 +161,7 @@ function processEffectTick(mob: Mob, effect: EffectInstance): void {
 				);
 			} else {
 				// Fallback to old message format if no onTick template
-				const damageStr = color(String(baseDamage), COLOR.CRIMSON);
+				const damageStr = color(String(stackedDamage), COLOR.CRIMSON);
 				const effectName = color(effect.template.name, COLOR.LIME);
 				mob.sendMessage(
 					`You take ${damageStr} damage from ${effectName}.`,
@@ -188,11 +198,10 @@ function processEffectTick(mob: Mob, effect: EffectInstance): void {
 		}
 	} else if (isHealOverTimeEffect(effect.template)) {
 		// Process heal over time tick
-		const heal = effect.tickAmount ?? effect.template.heal;
+		const heal =
+			(effect.tickAmount ?? effect.template.heal) * getEffectStacks(effect);
 		if (heal > 0) {
-			const oldHealth = mob.health;
-			mob.health = Math.min(mob.maxHealth, mob.health + heal);
-			const actualHeal = mob.health - oldHealth;
+			const actualHeal = healMob(effect.caster, mob, heal);
 
 			if (actualHeal > 0) {
 				// Send onTick act message if template has one
@@ -351,3 +360,26 @@ export function setupEffectTimers(mob: Mob, effect: EffectInstance): void {
 export function clearEffectTimersForEffect(effect: EffectInstance): void {
 	clearEffectTimers(effect);
 }
+
+/**
+ * Carries out the immediate consequences of a newly applied crowd-control
+ * effect. Stuns, silences and fears interrupt the mob's cast in progress, and
+ * fears send the mob fleeing if it is fighting.
+ *
+ * @param mob The mob that received the effect
+ * @param effect The crowd-control effect instance
+ */
+export function applyCrowdControl(mob: Mob, effect: EffectInstance): void {
+	if (!isCrowdControlEffect(effect.template)) return;
+	const control = effect.template.control;
+	if (
+		control === CROWD_CONTROL.STUN ||
+		control === CROWD_CONTROL.SILENCE ||
+		control === CROWD_CONTROL.FEAR
+	) {
+		interruptCast(mob);
+	}
+	if (control === CROWD_CONTROL.FEAR && mob.isInCombat()) {
+		fleeFromCombat(mob);
+	}
+}
@@ -0,0 +1,42 @@
+/**
+ * Burning effect template - Flames from burning ground.
+ *
+ * This damage over time effect is projected by Burning Ground zones onto
+ * enemies standing in them, and ends when they leave the flames.
+ */
+
+import {
+	DamageOverTimeEffectTemplate,
+	EFFECT_DAMAGE_CATEGORY,
+	EFFECT_CATEGORY,
+} from "../core/effect.js";
+import { COMMON_HIT_TYPES } from "../core/damage-types.js";
+
+export const EFFECT_TEMPLATE_ID = "burning";
+
+export const effectTemplate: DamageOverTimeEffectTemplate = {
+	id: EFFECT_TEMPLATE_ID,
+	name: "Burning",
+	description: "Deals fire damage over time while standing in flames.",
+	type: "damage-over-time",
+	stackable: false,
+	category: EFFECT_CATEGORY.MAGIC,
+	damage: 8,
+	interval: 2, // 2 second interval
+	duration: 12, // 12 seconds total (6 ticks)
+	hitType: COMMON_HIT_TYPES.get("burn")!,
+	damageCategory: EFFECT_DAMAGE_CATEGORY.MAGICAL,
+	isOffensive: true,
+	onApply: {
+		user: "Flames lick at your feet!",
+		room: "{User} is caught in the flames!",
+	},
+	onTick: {
+		user: "The flames burn you for {damage} fire damage!",
+		room: "{User} is scorched by the flames.",
+	},
+	onExpire: {
+		user: "You are no longer burning.",
+		room: "{User} is no longer burning.",
+	},
+};
@@ -7,7 +7,7 @@
  * Used by the "nobility" race archetype.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "daylight-curse";
 
@@ -18,5 +18,7 @@ export const effectTemplate: PassiveEffectTemplate = {
 		"Nobility suffer from exposure to direct sunlight due to their vampiric nature.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.CURSE,
+	dispellable: false,
 	incomingDamageMultiplier: 1.08,
 };
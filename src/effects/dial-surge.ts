@@ -4,7 +4,7 @@
  * This passive effect provides enhanced attributes and damage output.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "dial-surge";
 
@@ -14,6 +14,7 @@ export const effectTemplate: PassiveEffectTemplate = {
 	description: "Release a surge of dial power to enhance your abilities.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.MAGIC,
 	primaryAttributeModifiers: {
 		strength: 3,
 		agility: 3,
@@ -4,7 +4,7 @@
  * This shield absorbs damage until its absorption capacity is depleted.
  */
 
-import { ShieldEffectTemplate } from "../core/effect.js";
+import { ShieldEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "earthen-ward";
 
@@ -14,6 +14,7 @@ export const effectTemplate: ShieldEffectTemplate = {
 	description: "A protective ward of earth that absorbs incoming damage.",
 	type: "shield",
 	stackable: true,
+	category: EFFECT_CATEGORY.MAGIC,
 	absorption: 150,
 	onApply: {
 		user: "You create a protective ward of earth around yourself!",
@@ -1,11 +1,11 @@
 /**
  * Inspire effect template - Inspire your allies.
  *
- * This passive effect provides enhanced attributes to nearby allies.
- * Note: This is a self-buff for now, but could be extended to affect allies.
+ * This passive effect provides enhanced attributes. Allies receive it from
+ * the Inspiring Presence aura while they share a room with its carrier.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "inspire";
 
@@ -15,6 +15,7 @@ export const effectTemplate: PassiveEffectTemplate = {
 	description: "Inspire your allies with your presence and leadership.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.PHYSICAL,
 	primaryAttributeModifiers: {
 		strength: 2,
 		agility: 2,
@@ -26,10 +27,10 @@ export const effectTemplate: PassiveEffectTemplate = {
 	},
 	onApply: {
 		user: "You feel inspired and ready for battle!",
-		room: "{User} inspires those around them!",
+		room: "{User} looks inspired and ready for battle!",
 	},
 	onExpire: {
-		user: "Your inspiring presence begins to fade.",
-		room: "{User}'s inspiring presence fades.",
+		user: "Your inspiration fades.",
+		room: "{User} looks less inspired.",
 	},
 };
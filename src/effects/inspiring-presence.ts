@@ -0,0 +1,37 @@
+/**
+ * Inspiring Presence effect template - Rally the allies around you.
+ *
+ * This aura projects Inspire onto the carrier and its allies in the same room
+ * for as long as it lasts. Allies are inspired when they join the carrier and
+ * lose it when they leave.
+ */
+
+import {
+	PassiveEffectTemplate,
+	EFFECT_CATEGORY,
+	AURA_TARGET,
+} from "../core/effect.js";
+import { effectTemplate as inspire } from "./inspire.js";
+
+export const EFFECT_TEMPLATE_ID = "inspiring-presence";
+
+export const effectTemplate: PassiveEffectTemplate = {
+	id: EFFECT_TEMPLATE_ID,
+	name: "Inspiring Presence",
+	description: "Your presence inspires the allies around you.",
+	type: "passive",
+	stackable: false,
+	category: EFFECT_CATEGORY.PHYSICAL,
+	aura: {
+		effect: inspire,
+		targets: AURA_TARGET.ALLIES,
+	},
+	onApply: {
+		user: "You raise your voice to rally your allies!",
+		room: "{User} raises their voice to rally those around them!",
+	},
+	onExpire: {
+		user: "You stop rallying your allies.",
+		room: "{User} stops rallying those around them.",
+	},
+};
@@ -4,7 +4,7 @@
  * This shield absorbs physical damage until its absorption capacity is depleted.
  */
 
-import { ShieldEffectTemplate } from "../core/effect.js";
+import { ShieldEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "integrated-armor";
 
@@ -14,6 +14,8 @@ export const effectTemplate: ShieldEffectTemplate = {
 	description: "Armor integrated into your body that absorbs incoming damage.",
 	type: "shield",
 	stackable: false,
+	category: EFFECT_CATEGORY.PHYSICAL,
+	dispellable: false,
 	absorption: 200,
 	onApply: {
 		user: "You activate your integrated armor!",
@@ -4,7 +4,7 @@
  * This shield absorbs damage until its absorption capacity is depleted.
  */
 
-import { ShieldEffectTemplate } from "../core/effect.js";
+import { ShieldEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "mana-shield";
 
@@ -14,6 +14,7 @@ export const effectTemplate: ShieldEffectTemplate = {
 	description: "A protective shield of pure mana that absorbs incoming damage.",
 	type: "shield",
 	stackable: true,
+	category: EFFECT_CATEGORY.MAGIC,
 	absorption: 100,
 	onApply: {
 		user: "You create a shield of pure mana around yourself!",
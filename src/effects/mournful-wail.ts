@@ -4,7 +4,7 @@
  * This passive effect weakens enemies by reducing their attributes.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "mournful-wail";
 
@@ -14,6 +14,7 @@ export const effectTemplate: PassiveEffectTemplate = {
 	description: "Emit a mournful wail that weakens your enemies.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.CURSE,
 	primaryAttributeModifiers: {
 		strength: -2,
 		agility: -2,
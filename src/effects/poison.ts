@@ -2,12 +2,14 @@
  * Poison effect template - A damage over time effect that deals poison damage.
  *
  * This effect deals damage over time and includes act messages for when
- * the poison is applied and when it ticks.
+ * the poison is applied and when it ticks. Each caster's poison stacks up to
+ * five times, and every new dose resets the duration.
  */
 
 import {
 	DamageOverTimeEffectTemplate,
 	EFFECT_DAMAGE_CATEGORY,
+	EFFECT_CATEGORY,
 } from "../core/effect.js";
 import { COMMON_HIT_TYPES } from "../core/damage-types.js";
 
@@ -19,6 +21,8 @@ export const effectTemplate: DamageOverTimeEffectTemplate = {
 	description: "Deals damage over time from poison.",
 	type: "damage-over-time",
 	stackable: true,
+	stacking: { maxStacks: 5, refresh: true, perCaster: true },
+	category: EFFECT_CATEGORY.POISON,
 	damage: 10,
 	interval: 2, // 2 second interval
 	duration: 12, // 12 seconds total (6 ticks)
@@ -33,4 +37,8 @@ export const effectTemplate: DamageOverTimeEffectTemplate = {
 		user: "You feel your insides burning, dealing {damage} poison damage!",
 		room: "{User} writhes in pain from the poison.",
 	},
+	onExpire: {
+		user: "The poison drains from your veins.",
+		room: "{User} no longer looks poisoned.",
+	},
 };
@@ -4,7 +4,7 @@
  * This passive effect provides enhanced vitality and health regeneration.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "relentless-endurance";
 
@@ -14,6 +14,8 @@ export const effectTemplate: PassiveEffectTemplate = {
 	description: "Push beyond your limits with relentless determination.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.PHYSICAL,
+	dispellable: false,
 	secondaryAttributeModifiers: {
 		vitality: 12,
 		endurance: 8,
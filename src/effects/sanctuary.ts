@@ -0,0 +1,28 @@
+/**
+ * Sanctuary effect template - The peace of a sanctuary.
+ *
+ * This passive effect is projected by Sanctuary zones onto allies standing in
+ * them, reducing the damage they take until they leave.
+ */
+
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
+
+export const EFFECT_TEMPLATE_ID = "sanctuary";
+
+export const effectTemplate: PassiveEffectTemplate = {
+	id: EFFECT_TEMPLATE_ID,
+	name: "Sanctuary",
+	description: "Take less damage while standing in a sanctuary.",
+	type: "passive",
+	stackable: false,
+	category: EFFECT_CATEGORY.MAGIC,
+	incomingDamageMultiplier: 0.75,
+	onApply: {
+		user: "A sense of peace settles over you.",
+		room: "{User} is bathed in a soft light.",
+	},
+	onExpire: {
+		user: "The sense of peace leaves you.",
+		room: "The soft light around {User} fades.",
+	},
+};
@@ -4,7 +4,7 @@
  * This passive effect provides enhanced defense and vitality.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "stone-endurance";
 
@@ -14,6 +14,8 @@ export const effectTemplate: PassiveEffectTemplate = {
 	description: "Channel the endurance of stone to bolster your defenses.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.PHYSICAL,
+	dispellable: false,
 	secondaryAttributeModifiers: {
 		defense: 15,
 		vitality: 10,
@@ -4,7 +4,7 @@
  * This passive effect provides enhanced mobility and agility.
  */
 
-import { PassiveEffectTemplate } from "../core/effect.js";
+import { PassiveEffectTemplate, EFFECT_CATEGORY } from "../core/effect.js";
 
 export const EFFECT_TEMPLATE_ID = "windstep-chorus";
 
@@ -14,6 +14,7 @@ export const effectTemplate: PassiveEffectTemplate = {
 	description: "Move with the chorus of the wind, enhancing your mobility.",
 	type: "passive",
 	stackable: false,
+	category: EFFECT_CATEGORY.MAGIC,
 	primaryAttributeModifiers: {
 		agility: 2,
 	},
@@ -168,6 +168,13 @@ function registerHandlers() {
 		return { templates };
 	});
 
+	// Account passwords
+	ipcMain.handle(
+		"character-editor:set-account-password",
+		(_event, payload: { account: string; password: string }) =>
+			service.setAccountPassword(payload.account, payload.password)
+	);
+
 	// Weapon types
 	ipcMain.handle("character-editor:get-weapon-types", () => ({
 		weaponTypes: service.getWeaponTypes(),
@@ -18,6 +18,9 @@ const api = {
 	getTemplate: (templateId: string) =>
 		ipcRenderer.invoke("character-editor:get-template", templateId),
 	getAllTemplates: () => ipcRenderer.invoke("character-editor:get-all-templates"),
+	// Account passwords
+	setAccountPassword: (payload: { account: string; password: string }) =>
+		ipcRenderer.invoke("character-editor:set-account-password", payload),
 	// Weapon types
 	getWeaponTypes: () => ipcRenderer.invoke("character-editor:get-weapon-types"),
 };
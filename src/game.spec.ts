@@ -0,0 +1,174 @@
+import { test, suite, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { EventEmitter } from "events";
+import { Dungeon, Mob, Room } from "./core/dungeon.js";
+import { Character } from "./core/character.js";
+import { Job, Race } from "./core/archetype.js";
+import { MudClient } from "./core/io.js";
+import { registerDungeonInstance } from "./package/dungeon.js";
+import {
+	LOGIN_STATE,
+	LoginSession,
+	resumePlayerSession,
+	setLinkDead,
+} from "./game.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+/** Records what the game sends instead of writing to a socket. */
+class TestClient extends EventEmitter implements MudClient {
+	lines: string[] = [];
+	connected = true;
+
+	send(text: string): void {
+		this.lines.push(text);
+	}
+	sendLine(text: string): void {
+		this.lines.push(text);
+	}
+	close(): void {
+		this.connected = false;
+	}
+	ask(): void {}
+	yesno(): void {}
+	getAddress(): string {
+		return "192.0.2.1";
+	}
+	isConnected(): boolean {
+		return this.connected;
+	}
+	isLocalhost(): boolean {
+		return false;
+	}
+}
+
+let dungeonCount = 0;
+let characterCount = 0;
+
+suite("game.ts", () => {
+	suite("link-dead sessions", () => {
+		let room: Room;
+		let character: Character;
+		let oldClient: TestClient;
+		let previous: LoginSession;
+
+		function newSession(client: TestClient): LoginSession {
+			return {
+				client,
+				state: LOGIN_STATE.CONNECTED,
+				lastActivity: new Date(),
+			};
+		}
+
+		beforeEach(() => {
+			mock.timers.enable({ apis: ["setTimeout"] });
+			const dungeon = Dungeon.generateEmptyDungeon({
+				id: `game-test-${dungeonCount++}`,
+				dimensions: { width: 1, height: 1, layers: 1 },
+			});
+			registerDungeonInstance(dungeon);
+			room = dungeon.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+
+			const mob = new Mob({
+				display: "Player",
+				keywords: "player",
+				race: testRace,
+				job: testJob,
+			});
+			character = new Character({
+				credentials: {
+					username: `player-${characterCount}`,
+					characterId: characterCount++,
+				},
+				mob,
+			});
+			room.add(mob);
+
+			oldClient = new TestClient();
+			character.startSession(1, oldClient);
+			previous = {
+				...newSession(oldClient),
+				state: LOGIN_STATE.PLAYING,
+				character,
+			};
+		});
+
+		afterEach(() => {
+			mock.timers.reset();
+		});
+
+		test("a dropped connection leaves the character in the world", () => {
+			setLinkDead(previous);
+
+			assert.strictEqual(previous.state, LOGIN_STATE.LINKDEAD);
+			assert.ok(character.isLinkDead());
+			assert.strictEqual(character.session?.client, undefined);
+			assert.strictEqual(character.mob?.location, room);
+			assert.ok(previous.linkDeadTimer);
+		});
+
+		test("logging in again reattaches to the link-dead character", () => {
+			setLinkDead(previous);
+			const startTime = character.session?.startTime;
+			const newClient = new TestClient();
+			const session = newSession(newClient);
+
+			resumePlayerSession(session, previous);
+
+			assert.strictEqual(session.state, LOGIN_STATE.PLAYING);
+			assert.strictEqual(session.character, character);
+			assert.strictEqual(previous.character, undefined);
+			assert.strictEqual(previous.linkDeadTimer, undefined);
+			assert.strictEqual(character.isLinkDead(), false);
+			assert.strictEqual(character.session?.client, newClient);
+			assert.strictEqual(character.session?.startTime, startTime);
+			assert.strictEqual(character.mob?.location, room);
+			assert.ok(newClient.lines.some((line) => line.includes("Reconnecting")));
+		});
+
+		test("taking over an active session closes the old connection", () => {
+			const newClient = new TestClient();
+			const session = newSession(newClient);
+
+			resumePlayerSession(session, previous);
+
+			assert.strictEqual(oldClient.isConnected(), false);
+			assert.ok(
+				oldClient.lines.some((line) =>
+					line.includes("Your session has been taken over.")
+				)
+			);
+			assert.strictEqual(session.state, LOGIN_STATE.PLAYING);
+			assert.strictEqual(session.character, character);
+			assert.strictEqual(previous.character, undefined);
+			assert.strictEqual(character.session?.client, newClient);
+			assert.ok(
+				newClient.lines.some((line) =>
+					line.includes("You take over your old session.")
+				)
+			);
+		});
+	});
+});
@@ -30,7 +30,7 @@
 
 import { MudServer, MudClient } from "./core/io.js";
 import { CommandContext } from "./core/command.js";
-import { executeCommand } from "./registry/command.js";
+import { clearActions, executeCommand } from "./registry/command.js";
 import {
 	Character,
 	SerializedCharacter,
@@ -50,12 +50,18 @@ import {
 	isCharacterActive,
 	registerActiveCharacter,
 	unregisterActiveCharacter,
-	checkCharacterPassword,
 	loadCharacterFromSerialized,
+	loadSerializedCharacter,
 	saveCharacter,
-	setCharacterPassword,
 	createCharacter,
 } from "./package/character.js";
+import {
+	accountExists,
+	checkAccountPassword,
+	createAccount,
+	saveAccount,
+} from "./package/account.js";
+import { Account, MAX_CHARACTERS_PER_ACCOUNT } from "./core/account.js";
 import { loadBoards, saveBoard } from "./package/board.js";
 import { getBoards } from "./registry/board.js";
 import { Board } from "./core/board.js";
@@ -78,6 +84,26 @@ import { EventEmitter } from "events";
 import { calendarEvents, getCurrentTime } from "./registry/calendar.js";
 import { cycleShopkeeperInventories } from "./core/shopkeeper-inventory.js";
 import { processAITick } from "./mob-ai.js";
+import { sendGMCPState } from "./gmcp.js";
+import { expandAliases } from "./alias.js";
+import { act } from "./act.js";
+import { findAccountBan, findAddressBan } from "./registry/ban.js";
+import { formatBanLength } from "./core/ban.js";
+import {
+	addLoginFailure,
+	clearLoginFailures,
+	findLockout,
+} from "./registry/lockout.js";
+import {
+	formatLockoutRemaining,
+	isLockedOut,
+	LOCKOUT_TYPE,
+} from "./core/lockout.js";
+import { saveLockouts } from "./package/lockout.js";
+import { expireAndSaveMail } from "./package/mail.js";
+import { countUnreadMail, getMailbox } from "./registry/mail.js";
+import { hasAttachments } from "./core/mail.js";
+import { ConnectionLimiter } from "./core/connection-limit.js";
 
 // Default intervals/timeouts (milliseconds)
 export const DEFAULT_SAVE_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
@@ -94,11 +120,14 @@ export const DEFAULT_GAME_TICK_INTERVAL_MS = 60 * 1000; // 1 minute
  * - CONNECTED: Initial connection, going through login prompts via nanny()
  * - CHARACTER_CREATION: Creating a new character (currently unused, may be used for extended creation)
  * - PLAYING: Authenticated and actively playing in the game world
+ * - LINKDEAD: The connection dropped while playing; the character stays in the
+ *   world until the player reconnects or the grace period runs out
  */
 export enum LOGIN_STATE {
 	CONNECTED = "connected",
 	CHARACTER_CREATION = "character_creation",
 	PLAYING = "playing",
+	LINKDEAD = "linkdead",
 }
 
 export interface LoginSession {
@@ -108,14 +137,25 @@ export interface LoginSession {
 	lastActivity: Date;
 	inactivityTimer?: NodeJS.Timeout;
 	inactivityWarningTimer?: NodeJS.Timeout;
-	// in case the connection closes, we need access to the name being created somewhere on the session
+	/** Logs the character out when a link-dead session isn't resumed in time */
+	linkDeadTimer?: NodeJS.Timeout;
+	/** Account that has logged in on this connection */
+	account?: Account;
+	// in case the connection closes, we need access to the names being created somewhere on the session
 	creatingName?: string;
+	creatingAccount?: string;
 }
 
 // Module-level game state
 let server: MudServer;
 const config = CONFIG;
 
+/** Per-address connection limits shared by the telnet and web client servers */
+const connectionLimiter = new ConnectionLimiter(() => ({
+	maxPerAddress: config.security.max_connections_per_address,
+	maxPerMinute: config.security.max_connections_per_minute,
+}));
+
 /** Active login sessions (players going through authentication) */
 const loginSessions = new Set<LoginSession>();
 
@@ -125,6 +165,9 @@ const activeCharacters = new Set<Character>();
 /** Names currently being created (to prevent simultaneous creation conflicts) */
 const namesInCreation = new Set<string>();
 
+/** Account names currently being created (lowercase) */
+const accountsInCreation = new Set<string>();
+
 /** Track last command time per character to detect rapid successive commands */
 const lastCommandTime = new Map<Character, number>();
 
@@ -233,6 +276,36 @@ function findSessionByClient(client: MudClient): LoginSession | undefined {
 	for (const s of loginSessions) if (s.client === client) return s;
 }
 
+/**
+ * Find the login session that is playing a character (connected or link-dead).
+ */
+function findSessionByCharacterName(
+	username: string
+): LoginSession | undefined {
+	const key = username.toLowerCase();
+	for (const s of loginSessions) {
+		if (s.character?.credentials.username.toLowerCase() === key) return s;
+	}
+}
+
+/**
+ * Clear a session's inactivity and link-dead timers.
+ */
+function clearSessionTimers(session: LoginSession): void {
+	if (session.inactivityTimer) {
+		clearTimeout(session.inactivityTimer);
+		session.inactivityTimer = undefined;
+	}
+	if (session.inactivityWarningTimer) {
+		clearTimeout(session.inactivityWarningTimer);
+		session.inactivityWarningTimer = undefined;
+	}
+	if (session.linkDeadTimer) {
+		clearTimeout(session.linkDeadTimer);
+		session.linkDeadTimer = undefined;
+	}
+}
+
 /**
  * Save all active characters.
  */
@@ -437,20 +510,72 @@ async function checkUnreadMessages(
 	}
 }
 
+/**
+ * Tell a character about unread letters and uncollected attachments in their
+ * mailbox at login.
+ *
+ * @param character - The character to check for mail
+ */
+function checkUnreadMail(character: Character): void {
+	const username = character.credentials.username;
+	const unread = countUnreadMail(username);
+	const uncollected = getMailbox(username).filter(hasAttachments).length;
+	if (unread === 0 && uncollected === 0) return;
+
+	const messageLines: string[] = [];
+	messageLines.push(color("=== Mail ===", COLOR.PURPLE));
+	if (unread > 0) {
+		messageLines.push(
+			`  ${color("*", COLOR.CYAN)} You have ${color(
+				unread.toString(),
+				COLOR.YELLOW
+			)} unread ${unread === 1 ? "letter" : "letters"}.`
+		);
+	}
+	if (uncollected > 0) {
+		messageLines.push(
+			`  ${color("*", COLOR.CYAN)} ${color(
+				uncollected.toString(),
+				COLOR.YELLOW
+			)} ${
+				uncollected === 1 ? "letter holds" : "letters hold"
+			} attachments waiting to be collected.`
+		);
+	}
+	messageLines.push(
+		`    ${color("Type:", COLOR.SILVER)} ${color("mail", COLOR.CYAN)}`
+	);
+	messageLines.push("");
+	character.sendMessage(messageLines.join("\n"), MESSAGE_GROUP.SYSTEM);
+}
+
+/**
+ * Tell the online characters who count a character as a friend that it has
+ * logged in or out. Characters the friend is blocking are not told.
+ *
+ * @param character - The character that logged in or out
+ * @param loggedIn - true for a login, false for a logout
+ */
+function notifyFriends(character: Character, loggedIn: boolean): void {
+	const username = character.credentials.username;
+	const text = `${color("Friend:", COLOR.YELLOW)} ${color(
+		username,
+		COLOR.LIME
+	)} has ${loggedIn ? "logged in" : "logged out"}.`;
+	for (const other of activeCharacters) {
+		if (other === character || !other.isFriend(username)) continue;
+		if (character.isBlocking(other.credentials.username)) continue;
+		other.sendNotification(text);
+	}
+}
+
 /**
  * End a player's session.
  * Persists the character and removes tracking.
  */
 async function endPlayerSession(session: LoginSession): Promise<void> {
-	// Find the session for this character and clear its inactivity timers
-	if (session.inactivityTimer) {
-		clearTimeout(session.inactivityTimer);
-		session.inactivityTimer = undefined;
-	}
-	if (session.inactivityWarningTimer) {
-		clearTimeout(session.inactivityWarningTimer);
-		session.inactivityWarningTimer = undefined;
-	}
+	// Find the session for this character and clear its timers
+	clearSessionTimers(session);
 
 	// Remove from loginSessions BEFORE closing client to prevent handleDisconnection
 	// from trying to process this session again when the close event fires
@@ -459,8 +584,10 @@ async function endPlayerSession(session: LoginSession): Promise<void> {
 		loginSessions.delete(session);
 	}
 
-	// Clean up name in creation if they were creating a character
+	// Clean up names in creation if they were creating a character or account
 	if (session.creatingName) unblockName(session.creatingName);
+	if (session.creatingAccount)
+		accountsInCreation.delete(session.creatingAccount.toLowerCase());
 
 	// End character session
 	if (!session.character) {
@@ -471,9 +598,11 @@ async function endPlayerSession(session: LoginSession): Promise<void> {
 		return;
 	}
 	session.character.endSession();
+	if (session.character.mob) clearActions(session.character.mob);
 
-	// Save character
+	// Save character and its account
 	if (session.character.mob) await saveCharacterFile(session.character);
+	if (session.account) await saveAccount(session.account);
 
 	logger.info(`${session.character} has left the game`);
 	const name = session.character.toString();
@@ -481,6 +610,7 @@ async function endPlayerSession(session: LoginSession): Promise<void> {
 	// Remove from activeCharacters BEFORE destroying the mob to prevent race conditions
 	// with saveAllCharacters() which might try to serialize the character
 	activeCharacters.delete(session.character);
+	notifyFriends(session.character, false);
 
 	// Clean up command tracking
 	lastCommandTime.delete(session.character);
@@ -512,6 +642,32 @@ function handleNewConnection(client: MudClient): void {
 
 	logger.info(`New connection: ${clientAddress}`);
 
+	// Turn away banned addresses before they get a login prompt
+	const ban = findAddressBan(clientAddress);
+	if (ban) {
+		logger.info(`Refused banned address: ${clientAddress}`);
+		client.sendLine(
+			`Your address has been banned ${formatBanLength(ban)}${
+				ban.reason ? ` (${ban.reason})` : ""
+			}.`
+		);
+		client.close();
+		return;
+	}
+
+	// Turn away addresses locked out for failed logins
+	const lockout = findLockout(LOCKOUT_TYPE.ADDRESS, clientAddress);
+	if (lockout) {
+		logger.info(`Refused locked out address: ${clientAddress}`);
+		client.sendLine(
+			`Too many failed logins from your address. Try again in ${formatLockoutRemaining(
+				lockout
+			)}.`
+		);
+		client.close();
+		return;
+	}
+
 	// Create login session
 	const session: LoginSession = {
 		client,
@@ -529,7 +685,8 @@ function handleNewConnection(client: MudClient): void {
 }
 
 /**
- * Handle client disconnection: clean session and end active gameplay session (if any).
+ * Handle client disconnection: players in the world go link-dead, any other
+ * session is cleaned up right away.
  */
 async function handleDisconnection(client: MudClient): Promise<void> {
 	logger.info(`Client disconnected: ${client}`);
@@ -538,19 +695,121 @@ async function handleDisconnection(client: MudClient): Promise<void> {
 	const session = findSessionByClient(client);
 	if (!session) return;
 	// Clear inactivity timers if set
-	if (session.inactivityTimer) {
-		clearTimeout(session.inactivityTimer);
-		session.inactivityTimer = undefined;
-	}
-	if (session.inactivityWarningTimer) {
-		clearTimeout(session.inactivityWarningTimer);
-		session.inactivityWarningTimer = undefined;
+	clearSessionTimers(session);
+
+	// leave players in the world for a while in case they reconnect
+	if (session.state === LOGIN_STATE.PLAYING && session.character) {
+		setLinkDead(session);
+		return;
 	}
 
 	// end player session if they were playing
 	await endPlayerSession(session);
 }
 
+/**
+ * Leave a player's character in the world without a connection.
+ * The session ends when the link-dead grace period runs out, unless the
+ * player logs in again and resumes it first.
+ */
+export function setLinkDead(session: LoginSession): void {
+	const character = session.character!;
+	character.detachClient();
+	session.state = LOGIN_STATE.LINKDEAD;
+	logger.info(`${character} has gone link-dead`);
+
+	const room = character.mob?.location;
+	if (room instanceof Room) {
+		act(
+			{ room: "{User} has lost the link." },
+			{ user: character.mob!, room },
+			{ messageGroup: MESSAGE_GROUP.ACTION }
+		);
+	}
+
+	const timeoutSeconds = config.server.linkdead_timeout ?? 300;
+	session.linkDeadTimer = setTimeout(async () => {
+		logger.info(`${character} was link-dead for too long`);
+		await endPlayerSession(session);
+	}, Math.max(0, timeoutSeconds) * 1000);
+}
+
+/**
+ * Move a character that is already in the world to a new connection.
+ * Used when a link-dead player logs in again, or when a player takes over a
+ * session that is still connected. The old connection, if any, is closed.
+ *
+ * @param session The new login session
+ * @param previous The session currently holding the character
+ */
+export function resumePlayerSession(
+	session: LoginSession,
+	previous: LoginSession
+): void {
+	const character = previous.character!;
+	const wasLinkDead = character.isLinkDead();
+
+	// the previous session no longer owns the character
+	clearSessionTimers(previous);
+	previous.character = undefined;
+	loginSessions.delete(previous);
+	if (previous.client.isConnected()) {
+		previous.client.sendLine("Your session has been taken over.");
+		previous.client.close();
+	}
+
+	character.account = session.account ?? character.account;
+	character.startSession(nextConnectionId++, session.client);
+	session.state = LOGIN_STATE.PLAYING;
+	session.character = character;
+
+	character.sendLine(
+		wasLinkDead ? "Reconnecting..." : "You take over your old session."
+	);
+	logger.info(`${character} has reconnected`);
+
+	const room = character.mob?.location;
+	if (room instanceof Room) {
+		act(
+			{ room: "{User} has reconnected." },
+			{ user: character.mob!, room },
+			{ messageGroup: MESSAGE_GROUP.ACTION }
+		);
+		showRoom(character.mob!, room);
+	}
+	sendGMCPState(character);
+	character.showPrompt();
+
+	session.client.on("input", (line: string) => {
+		handleClientInput(session, line);
+	});
+}
+
+/**
+ * Remove a character from the game against their will (moderation): tell them
+ * why, then log them out after a short delay so the message arrives first.
+ *
+ * @param character The character to remove
+ * @param message What to tell the player
+ */
+export function kickCharacter(character: Character, message: string): void {
+	character.sendMessage(message, MESSAGE_GROUP.SYSTEM);
+	setTimeout(() => {
+		void logoutCharacter(character);
+	}, 100);
+}
+
+/**
+ * Log a character out on purpose (e.g. the `quit` command): save it and remove
+ * it from the world right away instead of leaving it link-dead.
+ *
+ * @param character The character to log out
+ */
+export async function logoutCharacter(character: Character): Promise<void> {
+	const session = findSessionByCharacterName(character.credentials.username);
+	if (session) await endPlayerSession(session);
+}
+
 /**
  * Handle input from a client.
  * Routes input to the login flow until `PLAYING`, then to gameplay handler.
@@ -600,17 +859,34 @@ function handleGameplayInput(session: LoginSession, input: string): void {
 		input,
 	});
 
-	// generate the context
-	const context: CommandContext = {
-		actor: character.mob!,
-		room:
-			character.mob!.location instanceof Room
-				? character.mob!.location
-				: undefined,
-	};
-	const executed = executeCommand(input, context);
-	if (!executed) {
-		character.sendMessage("Do what?", MESSAGE_GROUP.COMMAND_RESPONSE);
+	// frozen characters can't do anything until an admin thaws them
+	if (character.credentials.isFrozen) {
+		character.sendMessage(
+			"You are frozen solid and cannot act.",
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		return;
+	}
+
+	// expand aliases; each resulting command goes through the registry (and
+	// the action queue) on its own
+	const { commands, error } = expandAliases(character.settings.aliases, input);
+	if (error) {
+		character.sendMessage(error, MESSAGE_GROUP.COMMAND_RESPONSE);
+	}
+	for (const command of commands) {
+		// generate the context
+		const context: CommandContext = {
+			actor: character.mob!,
+			room:
+				character.mob!.location instanceof Room
+					? character.mob!.location
+					: undefined,
+		};
+		const executed = executeCommand(command, context);
+		if (!executed) {
+			character.sendMessage("Do what?", MESSAGE_GROUP.COMMAND_RESPONSE);
+		}
 	}
 	character.showPrompt();
 }
@@ -710,12 +986,15 @@ function startPlayerSession(
 
 	// Check for unread messages
 	checkUnreadMessages(character, lastLoginDate);
+	checkUnreadMail(character);
+	notifyFriends(character, true);
 
 	// Move the character to the target room and show it
 	if (targetRoom) {
 		targetRoom.add(character.mob!);
 		showRoom(character.mob!, targetRoom);
 	}
+	sendGMCPState(character);
 	character.showPrompt();
 
 	// Wire gameplay input handler now that the player is in the world
@@ -725,12 +1004,13 @@ function startPlayerSession(
 }
 
 /**
- * New login/creation flow using callbacks rather than a rigid state machine.
- * This asks for username, then password, authenticates, and starts play.
- * Extend this with additional prompts for character creation as needed.
+ * Login flow using callbacks rather than a rigid state machine.
+ * Asks for an account name and password (creating the account if it is new),
+ * then offers the account's characters to play or a new one to create.
  */
 function nanny(session: LoginSession): void {
 	const client = session.client;
+	let accountName = "";
 	let username = "";
 	let password = "";
 	let colorEnabled = true;
@@ -958,93 +1238,123 @@ function nanny(session: LoginSession): void {
 
 	sendLine("Welcome to the MUD!");
 
-	const askName = () => {
-		ask("What is your name?", async (input) => {
-			if (!input) return askName();
+	const askAccountName = () => {
+		ask("What is your account name?", async (input) => {
+			if (!input) return askAccountName();
 
 			const trimmed = input.trim();
 			if (trimmed.length === 0) {
-				return askName();
+				return askAccountName();
 			}
 
 			// Check if name is blocked
 			if (isNameBlocked(trimmed)) {
 				sendLine("That name is not allowed. Please choose a different name.");
-				return askName();
-			}
-
-			// can't login to character that's online
-			if (isCharacterActive(trimmed)) {
-				sendLine("That character is already playing.");
-				return askName();
+				return askAccountName();
 			}
 
-			// Check if name is currently being created by someone else
-			if (namesInCreation.has(trimmed.toLowerCase())) {
+			// Check if the account is currently being created by someone else
+			if (accountsInCreation.has(trimmed.toLowerCase())) {
 				sendLine("That name is currently in use. Please choose another name.");
-				return askName();
+				return askAccountName();
 			}
 
-			username = trimmed; // save username
+			accountName = trimmed; // save account name
 
-			// new name, start making a character
-			if (!(await characterExists(trimmed))) {
-				return confirmCharacterCreation();
-			} else {
-				return confirmExistingCharacterPassword();
+			// new name, start making an account
+			if (!(await accountExists(trimmed))) {
+				return confirmAccountCreation();
 			}
+
+			// don't let anyone keep guessing at a locked out account
+			const lockout = findLockout(LOCKOUT_TYPE.ACCOUNT, trimmed);
+			if (lockout) {
+				sendLine(
+					`Too many failed logins for that account. Try again in ${formatLockoutRemaining(
+						lockout
+					)}. Disconnecting.`
+				);
+				client.close();
+				return;
+			}
+			return confirmExistingAccountPassword();
 		});
 	};
 
-	const confirmExistingCharacterPassword = () => {
+	const confirmExistingAccountPassword = () => {
 		ask("Password:", async (_password) => {
-			// Check password and get serialized character data
-			const serializedCharacter = await checkCharacterPassword(
-				username,
-				_password
-			);
-			if (!serializedCharacter) {
+			const account = await checkAccountPassword(accountName, _password);
+			if (!account) {
+				await recordFailedLogin();
 				sendLine("Invalid password. Disconnecting.");
 				client.close();
 				return;
 			}
 
-			if (!serializedCharacter.mob) {
-				sendLine("Character data is corrupted. Disconnecting.");
+			// a correct password resets the account's failure count
+			if (clearLoginFailures(LOCKOUT_TYPE.ACCOUNT, account.username))
+				await saveLockouts();
+
+			if (account.isBanned) {
+				sendLine("This account has been banned. Disconnecting.");
 				client.close();
 				return;
 			}
 
-			// Load the character from serialized data
-			const loadedCharacter = await loadCharacterFromSerialized(
-				serializedCharacter
-			);
+			const ban = findAccountBan(account.username);
+			if (ban) {
+				sendLine(
+					`This account has been banned ${formatBanLength(ban)}${
+						ban.reason ? ` (${ban.reason})` : ""
+					}. Disconnecting.`
+				);
+				client.close();
+				return;
+			}
 
-			// Get the saved location reference from the serialized data
-			const savedLocationRef = serializedCharacter.mob?.location as
-				| string
-				| undefined;
+			if (!account.isActive) {
+				sendLine("This account is disabled. Disconnecting.");
+				client.close();
+				return;
+			}
 
-			// Password is correct, show MOTD and start session
-			MOTD(loadedCharacter, savedLocationRef);
+			await enterAccount(account);
 		});
 	};
 
-	const confirmCharacterCreation = () => {
+	const recordFailedLogin = async () => {
+		const address = client.getAddress();
+		const records = [
+			addLoginFailure(LOCKOUT_TYPE.ADDRESS, address),
+			addLoginFailure(LOCKOUT_TYPE.ACCOUNT, accountName),
+		];
+		logger.info(`Failed login for '${accountName}' from ${address}`);
+		for (const record of records) {
+			if (record.failures === 0 && isLockedOut(record)) {
+				logger.warn(
+					`Locked out ${record.type} '${
+						record.key
+					}' for ${formatLockoutRemaining(
+						record
+					)} after repeated failed logins (lockout #${record.lockouts})`
+				);
+			}
+		}
+		await saveLockouts();
+	};
+
+	const confirmAccountCreation = () => {
 		yesno(
-			`Do you wish to create a character named '${username}'?`,
+			`Do you wish to create an account named '${accountName}'?`,
 			(yesorno) => {
 				if (yesorno === true) {
-					// Add name to in-creation set and track in session
-					blockName(username);
-					session.creatingName = username;
+					// Reserve the account name while the password is chosen
+					accountsInCreation.add(accountName.toLowerCase());
+					session.creatingAccount = accountName;
 					return getNewPassword();
 				} else if (yesorno === false) {
-					// User cancelled, clean up if name was being created
-					unblockName(username);
-					delete session.creatingName;
-					return askName();
-				} else return confirmCharacterCreation();
+					return askAccountName();
+				} else return confirmAccountCreation();
 			}
 		);
 	};
@@ -1062,15 +1372,182 @@ function nanny(session: LoginSession): void {
 	};
 
 	const confirmNewPassword = () => {
-		ask("Please re-type your password:", (_password) => {
+		ask("Please re-type your password:", async (_password) => {
 			if (_password != password) {
 				sendLine("Those passwords don't match! Try again.");
 				return getNewPassword();
 			}
-			chooseRace();
+			const account = await createAccount(accountName, password);
+			await saveAccount(account);
+			accountsInCreation.delete(accountName.toLowerCase());
+			delete session.creatingAccount;
+			logger.info(`Account created: ${account.username}`);
+			await enterAccount(account);
+		});
+	};
+
+	const enterAccount = async (account: Account) => {
+		session.account = account;
+		account.updateLastLogin();
+		await saveAccount(account);
+		chooseCharacter(true);
+	};
+
+	const chooseCharacter = (showList: boolean = false) => {
+		const account = session.account!;
+		const characters = account.getCharacters();
+
+		if (showList) {
+			sendLine("");
+			if (characters.length === 0) {
+				sendLine("You have no characters yet.");
+			} else {
+				sendLine("Your characters:");
+				characters.forEach((name, index) => {
+					const prefix = String(index + 1).padStart(2, " ");
+					const existing = findSessionByCharacterName(name);
+					const playing =
+						existing?.state === LOGIN_STATE.LINKDEAD
+							? " (linkdead)"
+							: isCharacterActive(name)
+							? " (playing)"
+							: "";
+					sendLine(`  ${prefix}. ${name}${playing}`);
+				});
+			}
+			sendLine("");
+		}
+
+		ask(
+			"Choose a character (name or number), 'new' to create one, or 'quit':",
+			async (input) => {
+				const trimmed = input?.trim().toLowerCase();
+				if (!trimmed) return chooseCharacter(false);
+				if (trimmed === "quit") {
+					sendLine("Goodbye!");
+					client.close();
+					return;
+				}
+				if (trimmed === "new") {
+					if (characters.length >= MAX_CHARACTERS_PER_ACCOUNT) {
+						sendLine(
+							`You cannot have more than ${MAX_CHARACTERS_PER_ACCOUNT} characters.`
+						);
+						return chooseCharacter(false);
+					}
+					return askCharacterName();
+				}
+				if (trimmed === "!list") return chooseCharacter(true);
+
+				const choice = resolveSelection(
+					input,
+					characters.map((name) => ({ id: name, name }))
+				);
+				if (!choice) {
+					sendLine("That character wasn't recognized. Please pick again.");
+					return chooseCharacter(false);
+				}
+				await playCharacter(choice.name);
+			}
+		);
+	};
+
+	const playCharacter = async (name: string) => {
+		// characters still in the world are picked up where they are
+		const existing = findSessionByCharacterName(name);
+		if (existing?.state === LOGIN_STATE.LINKDEAD) {
+			return resumePlayerSession(session, existing);
+		}
+		if (existing) return confirmTakeover(existing);
+
+		// can't login to character that's online
+		if (isCharacterActive(name)) {
+			sendLine("That character is already playing.");
+			return chooseCharacter(false);
+		}
+
+		const serializedCharacter = await loadSerializedCharacter(name);
+		if (!serializedCharacter?.mob) {
+			logger.warn(`Account ${session.account} lists missing character ${name}`);
+			sendLine("That character could not be loaded.");
+			return chooseCharacter(false);
+		}
+
+		// Load the character from serialized data
+		const loadedCharacter = await loadCharacterFromSerialized(
+			serializedCharacter
+		);
+		loadedCharacter.account = session.account;
+
+		// Get the saved location reference from the serialized data
+		const savedLocationRef = serializedCharacter.mob?.location as
+			| string
+			| undefined;
+
+		MOTD(loadedCharacter, savedLocationRef);
+	};
+
+	const confirmTakeover = (existing: LoginSession) => {
+		yesno(
+			"That character is already playing. Take over the old session?",
+			(yesorno) => {
+				if (yesorno === true) {
+					// the old session may have ended while we were asking
+					if (!existing.character) {
+						sendLine("That session has ended. Please choose again.");
+						return chooseCharacter(true);
+					}
+					return resumePlayerSession(session, existing);
+				} else if (yesorno === false) {
+					return chooseCharacter(false);
+				} else return confirmTakeover(existing);
+			}
+		);
+	};
+
+	const askCharacterName = () => {
+		ask("What will your character be named?", async (input) => {
+			const trimmed = input?.trim();
+			if (!trimmed) return chooseCharacter(true);
+
+			// Check if name is blocked
+			if (isNameBlocked(trimmed)) {
+				sendLine("That name is not allowed. Please choose a different name.");
+				return askCharacterName();
+			}
+
+			// Check if name is currently being created by someone else
+			if (namesInCreation.has(trimmed.toLowerCase())) {
+				sendLine("That name is currently in use. Please choose another name.");
+				return askCharacterName();
+			}
+
+			if (await characterExists(trimmed)) {
+				sendLine("That name is already taken. Please choose another name.");
+				return askCharacterName();
+			}
+
+			username = trimmed; // save character name
+			confirmCharacterCreation();
 		});
 	};
 
+	const confirmCharacterCreation = () => {
+		yesno(
+			`Do you wish to create a character named '${username}'?`,
+			(yesorno) => {
+				if (yesorno === true) {
+					// Add name to in-creation set and track in session
+					blockName(username);
+					session.creatingName = username;
+					return chooseRace();
+				} else if (yesorno === false) {
+					return askCharacterName();
+				} else return confirmCharacterCreation();
+			}
+		);
+	};
+
 	const MOTD = async (
 		existingCharacter?: Character,
 		savedLocationRef?: string
@@ -1080,6 +1557,7 @@ function nanny(session: LoginSession): void {
 			let character: Character;
 			let isNewCharacter = false;
 			let locationRef: string | undefined;
+			const account = session.account!;
 
 			if (existingCharacter) {
 				// Use the loaded existing character
@@ -1088,9 +1566,16 @@ function nanny(session: LoginSession): void {
 			} else {
 				// Create a new character
 				isNewCharacter = true;
-				character = await createCharacter(username, selectedRace, selectedJob);
-				setCharacterPassword(character, password);
-				saveCharacterFile(character);
+				character = await createCharacter(
+					username,
+					selectedRace,
+					selectedJob,
+					account.username
+				);
+				character.account = account;
+				account.addCharacter(username);
+				await saveCharacterFile(character);
+				await saveAccount(account);
 				// Remove name from in-creation set now that character is created
 				unblockName(username);
 				delete session.creatingName;
@@ -1104,9 +1589,7 @@ function nanny(session: LoginSession): void {
 		address: client.getAddress(),
 	});
 
-	// We check by username after they enter it, or we can check immediately
-	// For now, we'll check after they enter their name
-	askName();
+	askAccountName();
 }
 
 /**
@@ -1139,7 +1622,7 @@ async function start(): Promise<void> {
 	const webClientEnabled = true;
 	if (webClientEnabled) {
 		const webClientPort = 8080;
-		webClientServer = new WebClientServer(webClientPort);
+		webClientServer = new WebClientServer(webClientPort, connectionLimiter);
 		webClientServer.on("connection", (client: MudClient) => {
 			handleNewConnection(client);
 		});
@@ -1193,6 +1676,31 @@ async function start(): Promise<void> {
 		processAITick();
 	});
 
+	// Forget connection attempts that have left the rate window
+	gameTickEmitter.on("tick", () => {
+		connectionLimiter.prune();
+	});
+
+	// Send expired mail back to its senders
+	gameTickEmitter.on("tick", async () => {
+		const returned = await expireAndSaveMail();
+		for (const letter of returned) {
+			forEachCharacter((character) => {
+				if (character.credentials.username.toLowerCase() !== letter.to) return;
+				character.sendMessage(
+					`Your letter to ${color(
+						letter.from,
+						COLOR.LIME
+					)} went unclaimed and has been returned. Type ${color(
+						"mail",
+						COLOR.CYAN
+					)} to read it.`,
+					MESSAGE_GROUP.SYSTEM
+				);
+			});
+		}
+	});
+
 	// Connect shopkeeper inventory restock cycle to game tick events
 	gameTickEmitter.on("tick", () => {
 		cycleShopkeeperInventories();
@@ -1322,8 +1830,12 @@ export function getGameStats(): {
 	activeConnections: number;
 	playersOnline: number;
 } {
+	let activeConnections = 0;
+	for (const session of loginSessions) {
+		if (session.state !== LOGIN_STATE.LINKDEAD) activeConnections++;
+	}
 	return {
-		activeConnections: loginSessions.size,
+		activeConnections,
 		playersOnline: activeCharacters.size,
 	};
 }
@@ -1431,7 +1943,7 @@ export function getStopGameFunction(): (() => Promise<void>) | null {
 
 export async function startGame(): Promise<() => Promise<void>> {
 	// Initialize server
-	server = new MudServer();
+	server = new MudServer(connectionLimiter);
 
 	// Handle graceful shutdown
 	process.on("SIGINT", async () => {
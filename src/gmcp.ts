@@ -0,0 +1,299 @@
+/**
+ * GMCP (Generic MUD Communication Protocol) game data.
+ *
+ * Builds the structured messages sent to clients that negotiated GMCP and
+ * pushes them when the underlying values change. Telnet negotiation and the
+ * Core.* packages live in `core/telnet-protocol-handlers.ts`; this module only
+ * deals with game state. The web client receives the same packages through
+ * `MudClient.sendGMCP` and forwards them as JSON messages, so both transports
+ * are fed by the same hooks.
+ *
+ * - `Char.Vitals` - health, mana and exhaustion
+ * - `Char.Status` - name, level, experience, race and job
+ * - `Char.Effects` - active effects and their remaining time
+ * - `Room.Info` - room reference, name, area, coordinates and exits
+ * - `Room.Map` - minimap cells around the current room
+ * - `Comm.Channel.Text` - channel messages
+ * - `Char.Prompt` - the prompt, each time it is shown
+ *
+ * Game code calls {@link markGMCPDirty} whenever a value changes. Updates are
+ * coalesced and flushed once per tick, so a burst of changes (a combat round,
+ * a level up) sends a single message per package.
+ *
+ * @module gmcp
+ */
+
+import { Character } from "./core/character.js";
+import type { ChannelId } from "./core/channel.js";
+import { COLOR_NAMES, stripColors } from "./core/color.js";
+import { Coordinates, Mob, Room } from "./core/dungeon.js";
+import { DIRECTIONS, dir2text } from "./direction.js";
+import { generateMinimapCells } from "./minimap.js";
+
+/** GMCP packages pushed by the game. */
+export enum GMCP_PACKAGE {
+	VITALS = "Char.Vitals",
+	STATUS = "Char.Status",
+	EFFECTS = "Char.Effects",
+	ROOM = "Room.Info",
+	MAP = "Room.Map",
+}
+
+/** Package used for channel messages. */
+export const GMCP_CHANNEL_PACKAGE = "Comm.Channel.Text";
+
+/** Package used for the prompt. */
+export const GMCP_PROMPT_PACKAGE = "Char.Prompt";
+
+/** Experience needed per level, matching `Mob.experienceToLevel`. */
+const EXPERIENCE_PER_LEVEL = 100;
+
+/** Minimap size sent in `Room.Map`, matching the one shown by `look`. */
+const MINIMAP_SIZE = 5;
+
+/** `Char.Vitals` payload. */
+export interface GMCPVitals {
+	hp: number;
+	maxhp: number;
+	mana: number;
+	maxmana: number;
+	exhaustion: number;
+	maxexhaustion: number;
+}
+
+/** `Char.Status` payload. */
+export interface GMCPStatus {
+	name: string;
+	level: number;
+	xp: number;
+	tnl: number;
+	maxxp: number;
+	race: string;
+	job: string;
+}
+
+/** One entry of the `Char.Effects` payload. */
+export interface GMCPEffect {
+	id: string;
+	name: string;
+	remaining: number;
+}
+
+/** `Room.Info` payload. */
+export interface GMCPRoomInfo {
+	ref?: string;
+	name: string;
+	area?: string;
+	coordinates: Coordinates;
+	exits: Record<string, string>;
+}
+
+/**
+ * `Room.Map` payload.
+ * Rows run north to south; cell colors are color names such as "dark green".
+ */
+export interface GMCPRoomMap {
+	rows: Array<Array<{ text: string; color: string }>>;
+}
+
+/** `Comm.Channel.Text` payload. */
+export interface GMCPChannelText {
+	channel: string;
+	talker: string;
+	text: string;
+}
+
+/** `Char.Prompt` payload. */
+export interface GMCPPrompt {
+	text: string;
+}
+
+/** Packages waiting to be sent, by mob. */
+const dirty = new Map<Mob, Set<GMCP_PACKAGE>>();
+let flushScheduled = false;
+
+function sendGMCP(
+	character: Character,
+	packageName: string,
+	data?: unknown
+): boolean {
+	return character.session?.client?.sendGMCP?.(packageName, data) ?? false;
+}
+
+/**
+ * Build the `Char.Vitals` payload for a mob.
+ */
+export function buildVitals(mob: Mob): GMCPVitals {
+	return {
+		hp: mob.health,
+		maxhp: mob.maxHealth,
+		mana: mob.mana,
+		maxmana: mob.maxMana,
+		exhaustion: mob.exhaustion,
+		maxexhaustion: mob.maxExhaustion,
+	};
+}
+
+/**
+ * Build the `Char.Status` payload for a mob.
+ */
+export function buildStatus(mob: Mob): GMCPStatus {
+	return {
+		name: mob.display,
+		level: mob.level,
+		xp: mob.experience,
+		tnl: mob.experienceToLevel,
+		maxxp: EXPERIENCE_PER_LEVEL,
+		race: mob.race.name,
+		job: mob.job.name,
+	};
+}
+
+/**
+ * Build the `Char.Effects` payload for a mob.
+ * Remaining time is in whole seconds.
+ */
+export function buildEffects(mob: Mob, now: number = Date.now()): GMCPEffect[] {
+	return [...mob.getEffects()].map((effect) => ({
+		id: effect.template.id,
+		name: effect.template.name,
+		remaining: Math.max(0, Math.ceil((effect.expiresAt - now) / 1000)),
+	}));
+}
+
+/**
+ * Build the `Room.Info` payload for a room.
+ * Exits map short direction names to the reference of the room they lead to.
+ */
+export function buildRoomInfo(room: Room): GMCPRoomInfo {
+	const exits: Record<string, string> = {};
+	for (const dir of DIRECTIONS) {
+		const ref = room.getStep(dir)?.getRoomRef();
+		if (ref) exits[dir2text(dir, true)] = ref;
+	}
+	return {
+		ref: room.getRoomRef(),
+		name: room.display,
+		area: room.dungeon?.name ?? room.dungeon?.id,
+		coordinates: { ...room.coordinates },
+		exits,
+	};
+}
+
+/**
+ * Build the `Room.Map` payload for a mob's view of a room.
+ */
+export function buildRoomMap(room: Room, mob: Mob): GMCPRoomMap {
+	const cells = generateMinimapCells(room, mob, MINIMAP_SIZE) ?? [];
+	return {
+		rows: cells.map((row) =>
+			row.map((cell) => ({ text: cell.text, color: COLOR_NAMES[cell.color] }))
+		),
+	};
+}
+
+function sendPackage(mob: Mob, pkg: GMCP_PACKAGE): void {
+	const character = mob.character;
+	if (!character) return;
+	switch (pkg) {
+		case GMCP_PACKAGE.VITALS:
+			sendGMCP(character, pkg, buildVitals(mob));
+			break;
+		case GMCP_PACKAGE.STATUS:
+			sendGMCP(character, pkg, buildStatus(mob));
+			break;
+		case GMCP_PACKAGE.EFFECTS:
+			sendGMCP(character, pkg, buildEffects(mob));
+			break;
+		case GMCP_PACKAGE.ROOM:
+			if (mob.location instanceof Room) {
+				sendGMCP(character, pkg, buildRoomInfo(mob.location));
+			}
+			break;
+		case GMCP_PACKAGE.MAP:
+			if (mob.location instanceof Room) {
+				sendGMCP(character, pkg, buildRoomMap(mob.location, mob));
+			}
+			break;
+	}
+}
+
+/**
+ * Send every pending update.
+ * Normally runs on its own once per tick; exposed for tests and shutdown.
+ */
+export function flushGMCP(): void {
+	flushScheduled = false;
+	const pending = [...dirty];
+	dirty.clear();
+	for (const [mob, packages] of pending) {
+		for (const pkg of packages) sendPackage(mob, pkg);
+	}
+}
+
+/**
+ * Mark a package as changed for a mob.
+ * Does nothing for mobs without a connected player, so it is cheap to call
+ * from hot paths like resource setters.
+ *
+ * @param mob The mob whose data changed
+ * @param pkg The package to resend
+ */
+export function markGMCPDirty(mob: Mob, pkg: GMCP_PACKAGE): void {
+	if (!mob.character?.session) return;
+	let packages = dirty.get(mob);
+	if (!packages) {
+		packages = new Set();
+		dirty.set(mob, packages);
+	}
+	packages.add(pkg);
+	if (!flushScheduled) {
+		flushScheduled = true;
+		setImmediate(flushGMCP);
+	}
+}
+
+/**
+ * Send the full GMCP state to a character, e.g. after logging in.
+ *
+ * @param character The character to update
+ */
+export function sendGMCPState(character: Character): void {
+	const mob = character.mob;
+	if (!mob) return;
+	dirty.delete(mob);
+	for (const pkg of Object.values(GMCP_PACKAGE)) sendPackage(mob, pkg);
+}
+
+/**
+ * Send a channel message to a character as `Comm.Channel.Text`.
+ *
+ * @param character The recipient
+ * @param channel The channel the message was sent on
+ * @param talker Username of the speaker
+ * @param text The plain message text
+ */
+export function sendGMCPChannel(
+	character: Character,
+	channel: ChannelId,
+	talker: string,
+	text: string
+): void {
+	const data: GMCPChannelText = {
+		channel,
+		talker,
+		text,
+	};
+	sendGMCP(character, GMCP_CHANNEL_PACKAGE, data);
+}
+
+/**
+ * Send the prompt to a character as `Char.Prompt`, without color codes.
+ *
+ * @param character The recipient
+ * @param prompt The formatted prompt
+ */
+export function sendGMCPPrompt(character: Character, prompt: string): void {
+	const data: GMCPPrompt = { text: stripColors(prompt) };
+	sendGMCP(character, GMCP_PROMPT_PACKAGE, data);
+}
@@ -0,0 +1,352 @@
+/**
+ * Group and follow system.
+ *
+ * Tracks which mobs are following which, and which player characters are
+ * grouped together. Both relationships are runtime-only and are cleared when a
+ * mob is destroyed (for example, when a player leaves the game).
+ *
+ * - Followers step after their leader whenever the leader's `Mob.step` succeeds.
+ * - Groups have a leader who invites members; members follow the leader.
+ * - Group members are treated as allies by combat (no friendly fire, assisting)
+ *   and by auras, and share kill experience and autolooted gold.
+ *
+ * @module group
+ */
+
+import { MESSAGE_GROUP } from "./core/character.js";
+import { COLOR, color } from "./core/color.js";
+import { Mob, Room } from "./core/dungeon.js";
+import { DIRECTION, dir2text } from "./direction.js";
+import { showRoom } from "./utils/display.js";
+import { updateRoomAuras } from "./auras.js";
+
+/**
+ * A group of player characters.
+ *
+ * @property leader - The mob leading the group
+ * @property members - All members, including the leader
+ */
+export interface Group {
+	leader: Mob;
+	members: Set<Mob>;
+}
+
+/** Maximum number of members in a group, including the leader. */
+export const MAX_GROUP_SIZE = 8;
+
+/** Maps each follower to the mob it is following. */
+const following = new Map<Mob, Mob>();
+
+/** Maps each grouped mob to its group. */
+const groups = new Map<Mob, Group>();
+
+/** Maps each invited mob to the leader who invited it. */
+const pendingInvites = new Map<Mob, Mob>();
+
+/**
+ * Get the mob this mob is following.
+ *
+ * @param mob The follower
+ * @returns The mob being followed, or undefined
+ */
+export function getFollowTarget(mob: Mob): Mob | undefined {
+	return following.get(mob);
+}
+
+/**
+ * Get every mob following this mob.
+ *
+ * @param leader The mob being followed
+ * @returns Followers in the order they started following
+ */
+export function getFollowers(leader: Mob): Mob[] {
+	const result: Mob[] = [];
+	for (const [follower, target] of following) {
+		if (target === leader) result.push(follower);
+	}
+	return result;
+}
+
+/**
+ * Start following a mob.
+ * Following someone who is (directly or indirectly) following you is refused.
+ *
+ * @param follower The mob that will follow
+ * @param leader The mob to follow
+ * @returns true if the follow was started
+ */
+export function startFollowing(follower: Mob, leader: Mob): boolean {
+	if (follower === leader) return false;
+	for (let cursor: Mob | undefined = leader; cursor; ) {
+		cursor = following.get(cursor);
+		if (cursor === follower) return false;
+	}
+	stopFollowing(follower, true);
+	following.set(follower, leader);
+	follower.sendMessage(
+		`You now follow ${leader.display}.`,
+		MESSAGE_GROUP.COMMAND_RESPONSE
+	);
+	leader.sendMessage(
+		`${follower.display} now follows you.`,
+		MESSAGE_GROUP.INFO
+	);
+	return true;
+}
+
+/**
+ * Stop following whoever this mob is following.
+ *
+ * @param follower The mob to stop following
+ * @param silent Skip the messages to both parties
+ * @returns true if the mob was following someone
+ */
+export function stopFollowing(follower: Mob, silent: boolean = false): boolean {
+	const leader = following.get(follower);
+	if (!leader) return false;
+	following.delete(follower);
+	if (!silent) {
+		follower.sendMessage(
+			`You stop following ${leader.display}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		leader.sendMessage(
+			`${follower.display} stops following you.`,
+			MESSAGE_GROUP.INFO
+		);
+	}
+	return true;
+}
+
+/**
+ * Move a leader's followers after the leader stepped out of a room.
+ * Called from `Mob.step` once the step has succeeded. Followers only move if
+ * they were in the room the leader left, are not fighting and can make the
+ * same step (which also carries them across any `RoomLink` the leader used).
+ *
+ * @param leader The mob that moved
+ * @param sourceRoom The room the leader left
+ * @param direction The direction the leader moved
+ */
+export function moveFollowers(
+	leader: Mob,
+	sourceRoom: Room,
+	direction: DIRECTION
+): void {
+	const directionText = dir2text(direction);
+	for (const follower of getFollowers(leader)) {
+		if (follower.location !== sourceRoom) continue;
+		if (follower.isInCombat()) continue;
+		if (!follower.canStep(direction)) {
+			follower.sendMessage(
+				`You cannot follow ${leader.display} ${directionText}.`,
+				MESSAGE_GROUP.COMMAND_RESPONSE
+			);
+			continue;
+		}
+		follower.sendMessage(
+			`You follow ${leader.display} ${directionText}.`,
+			MESSAGE_GROUP.COMMAND_RESPONSE
+		);
+		follower.step({
+			direction,
+			scripts: {
+				beforeOnEnter: (movable, room) => {
+					if (follower.character?.settings?.autoLook) {
+						showRoom(follower, room);
+					}
+				},
+			},
+		});
+	}
+}
+
+/**
+ * Get the group a mob belongs to.
+ *
+ * @param mob The mob to look up
+ * @returns The mob's group, or undefined if it isn't grouped
+ */
+export function getGroup(mob: Mob): Group | undefined {
+	return groups.get(mob);
+}
+
+/**
+ * Check whether two mobs are in the same group.
+ *
+ * @param a The first mob
+ * @param b The second mob
+ * @returns true if both are members of the same group
+ */
+export function areGroupMates(a: Mob, b: Mob): boolean {
+	if (a === b) return false;
+	const group = groups.get(a);
+	return !!group && group.members.has(b);
+}
+
+/**
+ * Get the members of a mob's group that are in a given room.
+ * Ungrouped mobs are treated as a group of one.
+ *
+ * @param mob The mob whose group to check
+ * @param room The room members must be in
+ * @returns Group members in the room (always includes `mob` if it is there)
+ */
+export function getGroupMembersInRoom(mob: Mob, room: Room): Mob[] {
+	const group = groups.get(mob);
+	if (!group) return mob.location === room ? [mob] : [];
+	return Array.from(group.members).filter((member) => member.location === room);
+}
+
+/**
+ * Send a message to every member of a group.
+ *
+ * @param group The group to message
+ * @param text The message text
+ * @param except Optional member to skip
+ */
+export function sendToGroup(group: Group, text: string, except?: Mob): void {
+	for (const member of group.members) {
+		if (member === except) continue;
+		member.sendMessage(text, MESSAGE_GROUP.INFO);
+	}
+}
+
+/**
+ * Get the pending group invite for a mob.
+ *
+ * @param mob The invited mob
+ * @returns The leader who sent the invite, or undefined
+ */
+export function getPendingInvite(mob: Mob): Mob | undefined {
+	const leader = pendingInvites.get(mob);
+	// Invites from mobs that have since lost the lead are discarded
+	const group = leader && groups.get(leader);
+	if (group && group.leader !== leader) {
+		pendingInvites.delete(mob);
+		return undefined;
+	}
+	return leader;
+}
+
+/**
+ * Invite a mob to the leader's group. The group itself is only created once
+ * the invite is accepted.
+ * Callers should validate that the leader may invite (not a non-leader member).
+ *
+ * @param leader The inviting mob
+ * @param target The invited mob
+ */
+export function inviteToGroup(leader: Mob, target: Mob): void {
+	pendingInvites.set(target, leader);
+}
+
+/**
+ * Join the group a mob was invited to, forming it if the leader isn't in one
+ * yet. The new member starts following the group leader.
+ *
+ * @param mob The invited mob
+ * @returns The joined group, or undefined if there was no valid invite
+ */
+export function acceptGroupInvite(mob: Mob): Group | undefined {
+	const leader = getPendingInvite(mob);
+	if (!leader) return undefined;
+	pendingInvites.delete(mob);
+	let group = groups.get(leader);
+	if (group && group.members.size >= MAX_GROUP_SIZE) return undefined;
+	if (!group) {
+		group = { leader, members: new Set([leader]) };
+		groups.set(leader, group);
+	}
+	leaveGroup(mob);
+	group.members.add(mob);
+	groups.set(mob, group);
+	if (mob.location instanceof Room) updateRoomAuras(mob.location);
+	sendToGroup(
+		group,
+		`${color(mob.display, COLOR.CYAN)} has joined the group.`,
+		mob
+	);
+	mob.sendMessage(
+		`You join ${group.leader.display}'s group.`,
+		MESSAGE_GROUP.COMMAND_RESPONSE
+	);
+	startFollowing(mob, group.leader);
+	return group;
+}
+
+/**
+ * Remove a mob from its group.
+ * If the leader leaves, leadership passes to the next member; groups with a
+ * single member left are disbanded.
+ *
+ * @param mob The mob leaving
+ * @returns true if the mob was in a group
+ */
+export function leaveGroup(mob: Mob): boolean {
+	const group = groups.get(mob);
+	if (!group) return false;
+	group.members.delete(mob);
+	groups.delete(mob);
+	if (following.get(mob) === group.leader) stopFollowing(mob, true);
+	sendToGroup(group, `${color(mob.display, COLOR.CYAN)} has left the group.`);
+
+	if (group.leader === mob && group.members.size > 0) {
+		const [newLeader] = group.members;
+		group.leader = newLeader;
+		stopFollowing(newLeader, true);
+		for (const member of group.members) {
+			if (member !== newLeader && following.get(member) === mob) {
+				following.set(member, newLeader);
+			}
+		}
+		sendToGroup(
+			group,
+			`${color(newLeader.display, COLOR.CYAN)} is now the group leader.`
+		);
+	}
+
+	if (group.members.size <= 1) {
+		for (const member of group.members) {
+			groups.delete(member);
+			member.sendMessage("Your group has disbanded.", MESSAGE_GROUP.INFO);
+		}
+		group.members.clear();
+	}
+
+	// Former allies may now be on opposite sides of each other's auras
+	if (mob.location instanceof Room) updateRoomAuras(mob.location);
+	return true;
+}
+
+/**
+ * Remove a mob from every follow and group relationship.
+ * Called when a mob is destroyed.
+ *
+ * @param mob The mob being removed
+ */
+export function removeFromGroups(mob: Mob): void {
+	pendingInvites.delete(mob);
+	for (const [invited, leader] of pendingInvites) {
+		if (leader === mob) pendingInvites.delete(invited);
+	}
+	leaveGroup(mob);
+	stopFollowing(mob, true);
+	for (const follower of getFollowers(mob)) stopFollowing(follower);
+}
+
+/**
+ * Split an amount as evenly as possible between a number of recipients.
+ * The first share receives any remainder.
+ *
+ * @param amount The total to split
+ * @param count The number of recipients
+ * @returns One share per recipient
+ */
+export function splitAmount(amount: number, count: number): number[] {
+	if (count <= 0) return [];
+	const base = Math.floor(amount / count);
+	const shares = new Array<number>(count).fill(base);
+	shares[0] += amount - base * count;
+	return shares;
+}
@@ -6,7 +6,8 @@
  */
 
 // Import migrations (they self-register via side effects)
-//import "./v1.0.0-to-v1.0.1.js";
+import "./v1.0.0-to-v1.1.0.js";
+import "./v1.1.0-to-v1.2.0.js";
 
 // Export public API
 export { migrateCharacterData } from "./runner.js";
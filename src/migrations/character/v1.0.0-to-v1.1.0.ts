@@ -0,0 +1,29 @@
+/**
+ * Character migration 1.0.0 → 1.1.0
+ *
+ * Characters used to be standalone logins. Their password hash, email and
+ * ban/admin flags now live on an account, so each legacy character is assigned
+ * to an account named after itself and those fields are dropped. The matching
+ * account files are created by the account package from the pre-migration
+ * data (see `migrateCharacterAccounts()` in `package/account`).
+ */
+
+import { registerMigration } from "./registry.js";
+
+/** Credential fields that moved from characters to accounts. */
+const ACCOUNT_FIELDS = ["passwordHash", "email", "isBanned", "isAdmin"];
+
+registerMigration({
+	from: "1.0.0",
+	to: "1.1.0",
+	description: "Moved login credentials from characters to accounts",
+	migrate: (data) => {
+		const credentials = data.credentials as typeof data.credentials &
+			Record<string, unknown>;
+		if (!credentials.account) {
+			credentials.account = credentials.username;
+		}
+		for (const field of ACCOUNT_FIELDS) delete credentials[field];
+		return data;
+	},
+});
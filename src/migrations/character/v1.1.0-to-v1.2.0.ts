@@ -0,0 +1,25 @@
+/**
+ * Character migration 1.1.0 → 1.2.0
+ *
+ * Channels used to be a fixed enum saved by its uppercase names ("OOC",
+ * "GOSSIP"). They are now defined in `data/channels.yaml` and identified by
+ * lowercase ids, so saved subscriptions are lowercased to match.
+ */
+
+import { registerMigration } from "./registry.js";
+
+registerMigration({
+	from: "1.1.0",
+	to: "1.2.0",
+	description: "Converted channel subscriptions to lowercase channel ids",
+	migrate: (data) => {
+		if (data.settings?.channels) {
+			data.settings.channels = [
+				...new Set(
+					data.settings.channels.map((channel) => channel.toLowerCase())
+				),
+			];
+		}
+		return data;
+	},
+});
@@ -4,7 +4,7 @@
  * Executes migrations to transform data from an old version to the current version.
  */
 
-import { findMigrationPath } from "./registry.js";
+import { findMigrationPath, getAllMigrations } from "./registry.js";
 import { getCurrentDungeonVersion, compareVersions } from "../version.js";
 import logger from "../../logger.js";
 
@@ -30,6 +30,12 @@ export async function migrateData<T extends { version?: string }>(
 		return data;
 	}
 
+	// Data types without any migrations of their own just move to the current version
+	if (getAllMigrations(dataType).length === 0) {
+		data.version = currentVersion;
+		return data;
+	}
+
 	// Check if file version is newer than current (shouldn't happen, but handle gracefully)
 	if (compareVersions(fileVersion, currentVersion) > 0) {
 		logger.warn(
@@ -42,10 +42,49 @@ export function blocksVision(
 	return !room || room.dense;
 }
 
+/**
+ * Maps a single-cell grid offset (dx, dy) to the horizontal direction it represents.
+ * @returns The direction, or undefined if the offset isn't a single step
+ */
+function offsetToDirection(dx: number, dy: number): DIRECTION | undefined {
+	for (const dir of DIRECTIONS) {
+		if (dir === DIRECTION.UP || dir === DIRECTION.DOWN) continue;
+		const offset = directionToOffset(dir);
+		if (offset.dx === dx && offset.dy === dy) return dir;
+	}
+	return undefined;
+}
+
+/**
+ * Checks if a closed door sits between two adjacent cells.
+ * @param dungeon The dungeon to check
+ * @param fromX X coordinate of the cell being left
+ * @param fromY Y coordinate of the cell being left
+ * @param toX X coordinate of the adjacent cell
+ * @param toY Y coordinate of the adjacent cell
+ * @param z Z coordinate (same for both)
+ * @returns true if a closed or locked door blocks vision between the cells
+ */
+export function doorBlocksVision(
+	dungeon: Dungeon | null,
+	fromX: number,
+	fromY: number,
+	toX: number,
+	toY: number,
+	z: number
+): boolean {
+	if (!dungeon) return false;
+	const dir = offsetToDirection(toX - fromX, toY - fromY);
+	if (!dir) return false;
+	const room = dungeon.getRoom({ x: fromX, y: fromY, z });
+	return room ? room.isDoorClosed(dir) : false;
+}
+
 /**
  * Checks if there's a clear line of sight from the center room to a target cell.
  * Traces the path from center to target and checks for blocking cells.
  * Dense rooms and non-existent rooms block vision of rooms behind them.
+ * Closed doors block vision of the cell on the other side of the door.
  * Directions without allowed exits or room links also block vision.
  * @param dungeon The dungeon to check
  * @param fromRoom The source room (for checking exits/links)
@@ -78,11 +117,18 @@ export function hasLineOfSight(
 	if (steps === 0) return true;
 
 	// Trace the path from center to target
+	let prevX = fromX;
+	let prevY = fromY;
 	for (let i = 1; i <= steps; i++) {
 		// Calculate the current position along the line
 		const x = Math.round(fromX + (dx * i) / steps);
 		const y = Math.round(fromY + (dy * i) / steps);
 
+		// A closed door between the previous cell and this one hides this cell
+		if (doorBlocksVision(dungeon, prevX, prevY, x, y, z)) return false;
+		prevX = x;
+		prevY = y;
+
 		// Check if this cell blocks vision (but don't check the starting cell)
 		if (blocksVision(dungeon, x, y, z)) {
 			// If we hit a blocking cell before reaching the target, vision is blocked
@@ -100,33 +146,43 @@ export function hasLineOfSight(
 }
 
 /**
- * Generates a minimap showing rooms around the current room.
- * Displays a grid of rooms with the current room marked.
+ * A single cell of a minimap.
+ *
+ * @property text - The character shown for the cell
+ * @property color - The color the character is drawn in
+ */
+export interface MinimapCell {
+	text: string;
+	color: COLOR;
+}
+
+/**
+ * Generates the cells of a minimap around the current room, row by row from
+ * north to south. Used by {@link generateMinimap} and by clients that draw
+ * their own map panel.
  * Dense rooms and non-existent rooms block vision of rooms behind them.
  *
  * @param room The center room for the minimap
  * @param mob The mob viewing the minimap (for checking exits)
  * @param size The number of tiles to show in each direction (size 1 = 3x3, size 2 = 5x5)
- * @returns A string representation of the minimap, or undefined if no dungeon
+ * @returns The rows of cells, or undefined if no dungeon
  */
-export function generateMinimap(
+export function generateMinimapCells(
 	room: Room,
 	mob: Mob,
 	size: number
-): string[] | undefined {
+): MinimapCell[][] | undefined {
 	const dungeon = room.dungeon;
 	if (!dungeon) return undefined;
 
 	const coords = room.coordinates;
-	const gridWidth = size * 2 + 1;
-	const gridHeight = (size - 2) * 2 + 1;
-	const lines: string[] = [];
+	const rows: MinimapCell[][] = [];
 
 	// Build the grid from top to bottom (north to south)
 	// Height is reduced: (size - 2) * 2 + 1 instead of size * 2 + 1
 	const heightSize = size - 2;
 	for (let y = coords.y - heightSize; y <= coords.y + heightSize; y++) {
-		const row: string[] = [];
+		const row: MinimapCell[] = [];
 		for (let x = coords.x - size; x <= coords.x + size; x++) {
 			let mapText = " ";
 			let mapColor = COLOR.DARK_GREEN;
@@ -188,11 +244,37 @@ export function generateMinimap(
 				mapColor = COLOR.DARK_GREEN;
 			}
 
-			row.push(color(mapText, mapColor));
+			row.push({ text: mapText, color: mapColor });
 		}
-		lines.push(row.join(""));
+		rows.push(row);
 	}
 
+	return rows;
+}
+
+/**
+ * Generates a minimap showing rooms around the current room.
+ * Displays a grid of rooms with the current room marked.
+ * Dense rooms and non-existent rooms block vision of rooms behind them.
+ *
+ * @param room The center room for the minimap
+ * @param mob The mob viewing the minimap (for checking exits)
+ * @param size The number of tiles to show in each direction (size 1 = 3x3, size 2 = 5x5)
+ * @returns A string representation of the minimap, or undefined if no dungeon
+ */
+export function generateMinimap(
+	room: Room,
+	mob: Mob,
+	size: number
+): string[] | undefined {
+	const cells = generateMinimapCells(room, mob, size);
+	if (!cells) return undefined;
+
+	const gridWidth = size * 2 + 1;
+	const lines = cells.map((row) =>
+		row.map((cell) => color(cell.text, cell.color)).join("")
+	);
+
 	const box = string.box({
 		input: lines,
 		width: gridWidth + 2,
@@ -269,6 +351,9 @@ export function generateMinimapFromSteps(
 
 		// Try stepping in all directions
 		for (const dir of DIRECTIONS) {
+			// Closed doors block vision of whatever lies beyond them
+			if (currentRoom.isDoorClosed(dir)) continue;
+
 			// Calculate relative position
 			const offset = directionToOffset(dir);
 			const newDx = dx + offset.dx;
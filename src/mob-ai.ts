@@ -21,11 +21,16 @@ import { readFile } from "fs/promises";
 import { getAbilityById } from "./registry/ability.js";
 import { resolveTemplateById } from "./registry/dungeon.js";
 import { AbilityCommand, CommandContext } from "./core/command.js";
-import { getCommands } from "./registry/command.js";
+import {
+	getCommands,
+	castForMob,
+	isCasting,
+} from "./registry/command.js";
 import { Ability } from "./core/ability.js";
 import { COLOR, color, COLOR_NAME_TO_COLOR, COLORS } from "./core/color.js";
 import { COMMON_HIT_TYPES } from "./core/damage-types.js";
 import { capitalize, capitalizeFirst } from "./utils/string.js";
+import { trackMob } from "./tracking.js";
 
 /**
  * Registry of all mobs with active AI scripts.
@@ -200,6 +205,9 @@ function createAISandbox(mob: Mob): Record<string, any> {
 		get maxMana() {
 			return mob.maxMana;
 		},
+		get isCasting() {
+			return isCasting(mob);
+		},
 		get combatTarget() {
 			return mob.combatTarget;
 		},
@@ -238,6 +246,18 @@ function createAISandbox(mob: Mob): Record<string, any> {
 		getMemory: (otherMob: Mob) => {
 			return getMemory(mob, otherMob);
 		},
+		// Direction towards a mob (or the nearest mob matching a name), subject
+		// to this mob's tracking accuracy; undefined if unreachable or here
+		track: (target: Mob | string) => {
+			return trackMob(mob, target)?.direction;
+		},
+		// Take one step along the trail towards a mob
+		hunt: (target: Mob | string) => {
+			if (mob.isInCombat()) return false;
+			const direction = trackMob(mob, target)?.direction;
+			if (direction === undefined || !mob.canStep(direction)) return false;
+			return mob.step(direction);
+		},
 		learnAbility: (ability: Ability) => {
 			mob.addAbility(ability, ability.proficiencyCurve[3]);
 		},
@@ -284,8 +304,17 @@ function createAISandbox(mob: Mob): Record<string, any> {
 			args.set("target", target);
 			// Execute the ability command
 			// Note: We bypass cooldowns for NPCs using abilities through AI scripts
-			// as the AI script can manage its own cooldown logic if needed
+			// as the AI script can manage its own cooldown logic if needed.
+			// Costs, crowd control and cast times still apply: AbilityCommand checks
+			// and pays the cost, refuses stunned, feared or silenced mobs, and
+			// abilities with a cast time are cast like a player's would be.
+			if (isCasting(mob)) return;
 			try {
+				const castTimeMs = abilityCommand.getCastTimeMs(context, args) ?? 0;
+				if (castTimeMs > 0) {
+					castForMob(abilityCommand, context, args, castTimeMs);
+					return;
+				}
 				abilityCommand.execute(context, args);
 			} catch (error) {
 				logger.error(
@@ -184,7 +184,7 @@ async function loadAbilities() {
 					// Load command if provided (named export)
 					const commandObj = abilityModule.command;
 					if (commandObj && commandObj.pattern && commandObj.execute) {
-						const command = new AbilityCommand(abilityId, commandObj);
+						const command = new AbilityCommand(ability, commandObj);
 						registerCommand(command);
 						totalCommandsRegistered++;
 
@@ -0,0 +1,470 @@
+/**
+ * Package: account - YAML persistence and authentication for Accounts
+ *
+ * Persists `Account` entities to `data/accounts/<username>.yaml` and restores
+ * them back. Accounts are the logins: they own characters (listed by
+ * username) and hold the password hash and the admin/ban flags.
+ *
+ * Behavior
+ * - Filenames are derived from a sanitized, lowercased username
+ * - Uses atomic writes (temp file + rename) to prevent corruption
+ * - On load, returns `undefined` if the account file doesn't exist
+ *
+ * Authentication helpers
+ * - `checkAccountPassword(username, password)` - Load an account if the password matches
+ * - `setAccountPassword(account, password)` / `verifyAccountPassword(account, password)`
+ * - Passwords are hashed with per-user salted scrypt (see `utils/password`).
+ *   Legacy SHA-256 hashes made with `CONFIG.security.password_salt` are still
+ *   accepted and are replaced with scrypt hashes on the next successful login.
+ *
+ * Migration
+ * - Characters saved before accounts existed were standalone logins. On load,
+ *   every such character gets an account named after itself, built from the
+ *   credentials it carried; the character migration system then moves the
+ *   character onto that account (`credentials.account`).
+ * - The scan only runs until it has completed once at a data version that has
+ *   accounts; `data/accounts/.data-version` records when it last ran.
+ *
+ * @example
+ * import accountPkg, { createAccount, saveAccount, checkAccountPassword } from './package/account.js';
+ * await accountPkg.loader();
+ * const account = await createAccount('alice', 'hunter22');
+ * await saveAccount(account);
+ * const loggedIn = await checkAccountPassword('alice', 'hunter22');
+ *
+ * @module package/account
+ */
+import { join, relative } from "path";
+import {
+	mkdir,
+	readFile,
+	writeFile,
+	access,
+	rename,
+	unlink,
+	readdir,
+} from "fs/promises";
+import { constants as FS_CONSTANTS } from "fs";
+import YAML from "js-yaml";
+import { Package } from "package-loader";
+import logger from "../logger.js";
+import { Account, SerializedAccount } from "../core/account.js";
+import type { SerializedCharacter } from "../core/character.js";
+import { getSafeRootDirectory } from "../utils/path.js";
+import { CONFIG } from "../registry/config.js";
+import {
+	compareVersions,
+	getCurrentDungeonVersion,
+} from "../migrations/version.js";
+import { migrateCharacterData } from "../migrations/character/runner.js";
+import {
+	hashPassword,
+	isLegacyPasswordHash,
+	needsRehash,
+	verifyPassword,
+} from "../utils/password.js";
+import { ROLE, highestRole } from "../core/role.js";
+import configPkg from "./config.js";
+import characterPkg, {
+	getActiveCharacters,
+	loadSerializedCharacter,
+	loadSerializedCharacters,
+} from "./character.js";
+
+const ROOT_DIRECTORY = getSafeRootDirectory();
+const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
+const ACCOUNT_DIR = join(DATA_DIRECTORY, "accounts");
+/** Data version the character account migration last completed at */
+const MIGRATION_MARKER_PATH = join(ACCOUNT_DIR, ".data-version");
+
+/** Data version in which characters moved onto accounts */
+const ACCOUNTS_DATA_VERSION = "1.1.0";
+
+/**
+ * Credentials carried by characters saved before accounts existed.
+ */
+interface LegacyCharacterCredentials {
+	passwordHash?: string;
+	email?: string;
+	isBanned?: boolean;
+	isAdmin?: boolean;
+}
+
+function sanitizeUsername(username: string): string {
+	// Allow alphanumerics, underscore, hyphen. Replace others with underscore.
+	return username
+		.trim()
+		.toLowerCase()
+		.replace(/[^a-z0-9_-]/gi, "_");
+}
+
+function getAccountFilePath(username: string): string {
+	const safe = sanitizeUsername(username);
+	return join(ACCOUNT_DIR, `${safe}.yaml`);
+}
+
+async function ensureDir() {
+	await mkdir(ACCOUNT_DIR, { recursive: true });
+}
+
+async function fileExists(path: string): Promise<boolean> {
+	try {
+		await access(path, FS_CONSTANTS.F_OK);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check whether an account exists.
+ *
+ * @param username The account username
+ * @returns true if an account file exists
+ */
+export async function accountExists(username: string): Promise<boolean> {
+	return await fileExists(getAccountFilePath(username));
+}
+
+/**
+ * Save an account to disk.
+ *
+ * @param account The account to save
+ */
+export async function saveAccount(account: Account): Promise<void> {
+	await ensureDir();
+	const data: SerializedAccount = account.serialize({
+		version: await getCurrentDungeonVersion(),
+	});
+	const filePath = getAccountFilePath(account.username);
+	const tempPath = `${filePath}.tmp`;
+
+	const yaml = YAML.dump(data, {
+		noRefs: true,
+		lineWidth: 120,
+	});
+
+	try {
+		// Write to temporary file first
+		await writeFile(tempPath, yaml, "utf-8");
+
+		// Atomically rename temp file to final location
+		await rename(tempPath, filePath);
+
+		logger.debug("Saved account file", {
+			filePath: relative(ROOT_DIRECTORY, filePath),
+			username: account.username,
+		});
+	} catch (error) {
+		// Clean up temp file if it exists
+		try {
+			await unlink(tempPath);
+		} catch {
+			// Ignore cleanup errors
+		}
+		throw error;
+	}
+}
+
+/**
+ * Load an account from disk.
+ *
+ * @param username The account username
+ * @returns The account, or undefined if it doesn't exist
+ */
+export async function loadAccount(
+	username: string
+): Promise<Account | undefined> {
+	const filePath = getAccountFilePath(username);
+	if (!(await fileExists(filePath))) {
+		logger.debug("Account file not found", {
+			filePath: relative(ROOT_DIRECTORY, filePath),
+			username,
+		});
+		return undefined;
+	}
+
+	const content = await readFile(filePath, "utf-8");
+	const data = YAML.load(content) as SerializedAccount;
+	return Account.deserialize(data);
+}
+
+/**
+ * Sets a password on an account by hashing it and storing the hash.
+ *
+ * @param account The account to set the password for
+ * @param password The plain text password to set
+ *
+ * @example
+ * ```typescript
+ * await setAccountPassword(account, "newSecurePassword123");
+ * ```
+ */
+export async function setAccountPassword(
+	account: Account,
+	password: string
+): Promise<void> {
+	account.passwordHash = await hashPassword(password);
+}
+
+/**
+ * Verifies a password against an account's stored password hash.
+ *
+ * @param account The account to verify the password for
+ * @param password The plain text password to verify
+ * @returns true if the password matches, false otherwise
+ */
+export async function verifyAccountPassword(
+	account: Account,
+	password: string
+): Promise<boolean> {
+	return verifyPassword(
+		password,
+		account.passwordHash,
+		CONFIG.security.password_salt
+	);
+}
+
+/**
+ * Create a new account with a password. The account is not saved.
+ *
+ * @param username The account username
+ * @param password The plain text password
+ * @returns The new account
+ */
+export async function createAccount(
+	username: string,
+	password: string
+): Promise<Account> {
+	const account = new Account({ username });
+	await setAccountPassword(account, password);
+	return account;
+}
+
+/**
+ * Load an account if the password matches its stored hash.
+ * Outdated hashes (including legacy SHA-256 ones) are replaced and the
+ * account is saved right away.
+ *
+ * @param username The account username
+ * @param password The plain text password to verify
+ * @returns The account if the password matches, undefined otherwise
+ */
+export async function checkAccountPassword(
+	username: string,
+	password: string
+): Promise<Account | undefined> {
+	const account = await loadAccount(username);
+	if (!account) return undefined;
+
+	if (!(await verifyAccountPassword(account, password))) {
+		logger.debug("Password mismatch", { username });
+		return undefined;
+	}
+
+	if (needsRehash(account.passwordHash)) {
+		await setAccountPassword(account, password);
+		await saveAccount(account);
+		logger.info("Upgraded password hash", { username });
+	}
+
+	return account;
+}
+
+/**
+ * Work out which account a name refers to: the account that owns a character
+ * by that name, or otherwise an account with that name.
+ *
+ * @param name A character or account name
+ * @returns The account username, or undefined if neither exists
+ */
+export async function resolveAccountName(
+	name: string
+): Promise<string | undefined> {
+	const key = name.toLowerCase();
+	const online = getActiveCharacters().find(
+		(character) => character.credentials.username.toLowerCase() === key
+	);
+	if (online) return online.credentials.account ?? online.credentials.username;
+
+	const saved = await loadSerializedCharacter(name);
+	if (saved) {
+		// characters from before accounts were given one named after themselves
+		const migrated = await migrateCharacterData(
+			{ ...saved, credentials: { ...saved.credentials } },
+			saved.credentials.username
+		);
+		return migrated.credentials.account ?? migrated.credentials.username;
+	}
+
+	const account = await loadAccount(name);
+	return account?.username;
+}
+
+/**
+ * Work out the highest role held on an account: the best role of any of its
+ * characters, raised to `admin` for admin accounts. Used to stop staff from
+ * banning accounts that rank as high as they do.
+ *
+ * @param username The account username
+ * @returns The account's highest role (`player` if it has none)
+ */
+export async function getAccountRole(username: string): Promise<ROLE> {
+	const account = await loadAccount(username);
+	let role = account?.isAdmin ? ROLE.ADMIN : ROLE.PLAYER;
+	for (const name of account?.getCharacters() ?? [username]) {
+		const key = name.toLowerCase();
+		const online = getActiveCharacters().find(
+			(character) => character.credentials.username.toLowerCase() === key
+		);
+		const characterRole = online
+			? online.getRole()
+			: (await loadSerializedCharacter(name))?.credentials.role;
+		if (characterRole) role = highestRole(role, characterRole);
+	}
+	return role;
+}
+
+/**
+ * Read every saved account.
+ *
+ * @returns All accounts on disk
+ */
+export async function loadAccounts(): Promise<Account[]> {
+	let files: string[];
+	try {
+		files = await readdir(ACCOUNT_DIR);
+	} catch {
+		return [];
+	}
+
+	const accounts: Account[] = [];
+	for (const file of files) {
+		if (!file.endsWith(".yaml")) continue;
+		try {
+			const content = await readFile(join(ACCOUNT_DIR, file), "utf-8");
+			accounts.push(
+				Account.deserialize(YAML.load(content) as SerializedAccount)
+			);
+		} catch (error) {
+			logger.warn("Skipping unreadable account file", { file, error });
+		}
+	}
+	return accounts;
+}
+
+/**
+ * Give every character saved before accounts existed an account.
+ *
+ * Each legacy character gets an account built from the credentials it
+ * carried, named by the character migration. Characters saved at a data
+ * version that has accounts are left alone, as are legacy characters with no
+ * password (an account without one could never be logged into).
+ *
+ * @returns Number of accounts created
+ */
+export async function migrateCharacterAccounts(): Promise<number> {
+	let changed = 0;
+	for (const raw of await loadSerializedCharacters()) {
+		const version = raw.version ?? "1.0.0";
+		if (compareVersions(version, ACCOUNTS_DATA_VERSION) >= 0) continue;
+
+		const username = raw.credentials.username;
+		// capture the credentials before the migration drops them
+		const legacy = {
+			...raw.credentials,
+		} as SerializedCharacter["credentials"] & LegacyCharacterCredentials;
+		const migrated = await migrateCharacterData(
+			{ ...raw, credentials: { ...raw.credentials } },
+			username
+		);
+		const accountName = migrated.credentials.account;
+		if (!accountName) continue;
+
+		const existing = await loadAccount(accountName);
+		if (existing) {
+			if (existing.hasCharacter(username)) continue;
+			// a legacy character must not be attached to someone else's login
+			logger.warn(
+				`Character '${username}' has no account and account '${accountName}' already exists; leaving it unassigned`
+			);
+			continue;
+		}
+		if (!legacy.passwordHash) {
+			logger.warn(
+				`Character '${username}' has no password; assign it to an existing account in the character editor`
+			);
+			continue;
+		}
+
+		const account = new Account({
+			username: accountName,
+			passwordHash: legacy.passwordHash,
+			email: legacy.email,
+			createdAt: legacy.createdAt ? new Date(legacy.createdAt) : undefined,
+			lastLogin: legacy.lastLogin ? new Date(legacy.lastLogin) : undefined,
+			isBanned: legacy.isBanned,
+			isAdmin: legacy.isAdmin,
+			characters: [username],
+		});
+		await saveAccount(account);
+		logger.info(`Created account '${accountName}' for character '${username}'`);
+		changed++;
+	}
+	return changed;
+}
+
+/**
+ * Check whether the character account migration still has to run: it hasn't
+ * completed yet at a data version that has accounts.
+ */
+async function needsCharacterAccountMigration(): Promise<boolean> {
+	let version: string;
+	try {
+		version = (await readFile(MIGRATION_MARKER_PATH, "utf-8")).trim();
+	} catch {
+		return true;
+	}
+	return !version || compareVersions(version, ACCOUNTS_DATA_VERSION) < 0;
+}
+
+/**
+ * Count saved accounts whose password hash is still a legacy global-salt
+ * SHA-256 digest.
+ *
+ * @returns Number of accounts with a legacy hash
+ */
+export async function countLegacyPasswordHashes(): Promise<number> {
+	const accounts = await loadAccounts();
+	return accounts.filter((account) =>
+		isLegacyPasswordHash(account.passwordHash)
+	).length;
+}
+
+export default {
+	name: "account",
+	dependencies: [configPkg, characterPkg],
+	loader: async () => {
+		await ensureDir();
+		logger.debug("Account storage directory ready", {
+			directory: relative(ROOT_DIRECTORY, ACCOUNT_DIR),
+		});
+		if (await needsCharacterAccountMigration()) {
+			const migrated = await migrateCharacterAccounts();
+			if (migrated > 0) {
+				logger.info(`Migrated ${migrated} character(s) onto accounts`);
+			}
+			await writeFile(
+				MIGRATION_MARKER_PATH,
+				await getCurrentDungeonVersion(),
+				"utf-8"
+			);
+		}
+		const legacy = await countLegacyPasswordHashes();
+		if (legacy > 0) {
+			logger.warn(
+				`${legacy} account(s) still use legacy SHA-256 password hashes with the global password_salt; they will be upgraded to scrypt on their next login`
+			);
+		}
+	},
+} as Package;
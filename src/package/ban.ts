@@ -0,0 +1,90 @@
+/**
+ * Package: ban - YAML persistence for account and IP bans
+ *
+ * Persists the ban registry to `data/bans.yaml` and restores it on startup.
+ * Moderation commands call `saveBans()` after changing the registry.
+ *
+ * Behavior
+ * - Expired bans are dropped on load and are not written back
+ * - Uses atomic writes (temp file + rename) to prevent corruption
+ * - If the file is absent, starts with no bans
+ *
+ * @example
+ * import banPkg, { saveBans } from './package/ban.js';
+ * import { addBan } from '../registry/ban.js';
+ * import { BAN_TYPE } from '../core/ban.js';
+ * await banPkg.loader();
+ * addBan({ type: BAN_TYPE.IP, target: "203.0.113.0/24", bannedBy: "admin", createdAt: new Date() });
+ * await saveBans();
+ *
+ * @module package/ban
+ */
+import { Package } from "package-loader";
+import { join, relative } from "path";
+import { readFile, writeFile, rename, unlink } from "fs/promises";
+import YAML from "js-yaml";
+import logger from "../logger.js";
+import { getSafeRootDirectory } from "../utils/path.js";
+import { deserializeBan, serializeBan, SerializedBan } from "../core/ban.js";
+import { getBans, setBans } from "../registry/ban.js";
+
+const ROOT_DIRECTORY = getSafeRootDirectory();
+const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
+const BANS_PATH = join(DATA_DIRECTORY, "bans.yaml");
+
+/**
+ * Load bans from disk into the registry.
+ */
+export async function loadBans(): Promise<void> {
+	try {
+		const content = await readFile(BANS_PATH, "utf-8");
+		const data = (YAML.load(content) as SerializedBan[] | undefined) ?? [];
+		setBans(data.map(deserializeBan));
+		logger.info(`Loaded ${getBans().length} ban(s)`);
+	} catch (error: any) {
+		if (error?.code === "ENOENT") {
+			logger.debug(
+				`No ban file at ${relative(ROOT_DIRECTORY, BANS_PATH)}, starting empty`
+			);
+			setBans([]);
+		} else {
+			logger.error(`Failed to load bans: ${error}`);
+		}
+	}
+}
+
+/**
+ * Save the bans in force to disk using atomic write (temp file + rename).
+ */
+export async function saveBans(): Promise<void> {
+	const tempPath = `${BANS_PATH}.tmp`;
+	try {
+		const yaml = YAML.dump(getBans().map(serializeBan), {
+			noRefs: true,
+			lineWidth: 120,
+		});
+
+		// Write to temporary file first
+		await writeFile(tempPath, yaml, "utf-8");
+
+		// Atomically rename temp file to final location
+		await rename(tempPath, BANS_PATH);
+
+		logger.debug(`Saved bans: ${relative(ROOT_DIRECTORY, BANS_PATH)}`);
+	} catch (error) {
+		// Clean up temp file if it exists
+		try {
+			await unlink(tempPath);
+		} catch {
+			// Ignore cleanup errors
+		}
+		logger.error(`Failed to save bans: ${error}`);
+	}
+}
+
+export default {
+	name: "ban",
+	loader: async () => {
+		await loadBans();
+	},
+} as Package;
@@ -0,0 +1,123 @@
+/**
+ * Package: channel - YAML loader for communication channels
+ *
+ * Loads `data/channels.yaml` (creating it from the built-in defaults if
+ * missing) into the channel registry. Each entry defines one channel: its
+ * name, tag, colors, message pattern, whether new characters start
+ * subscribed, who may use it, and how far its messages carry.
+ *
+ * Behavior
+ * - Invalid entries and duplicate ids are logged and skipped
+ * - If the file is absent, writes the defaults to disk (atomic temp file + rename)
+ * - If the file can't be parsed, keeps the built-in defaults
+ * - Warns when a channel the engine's commands talk on is missing
+ *
+ * @example
+ * import channelPkg from './package/channel.js';
+ * import { getChannels } from '../registry/channel.js';
+ * await channelPkg.loader();
+ * console.log(getChannels().map((channel) => channel.tag));
+ *
+ * @module package/channel
+ */
+import { Package } from "package-loader";
+import { join, relative } from "path";
+import { readFile, writeFile, rename, unlink } from "fs/promises";
+import YAML from "js-yaml";
+import logger from "../logger.js";
+import { getSafeRootDirectory } from "../utils/path.js";
+import {
+	CHANNEL,
+	ChannelDefinition,
+	DEFAULT_CHANNEL_DEFINITIONS,
+	deserializeChannelDefinition,
+	serializeChannelDefinition,
+	SerializedChannelDefinition,
+} from "../core/channel.js";
+import { getChannel, setChannels } from "../registry/channel.js";
+
+const ROOT_DIRECTORY = getSafeRootDirectory();
+const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
+const CHANNELS_PATH = join(DATA_DIRECTORY, "channels.yaml");
+
+/**
+ * Write the built-in channels to disk using atomic write (temp file + rename).
+ */
+async function writeDefaultChannels(): Promise<void> {
+	const tempPath = `${CHANNELS_PATH}.tmp`;
+	try {
+		const yaml = YAML.dump(
+			{ channels: DEFAULT_CHANNEL_DEFINITIONS.map(serializeChannelDefinition) },
+			{ noRefs: true, lineWidth: 120 }
+		);
+		await writeFile(tempPath, yaml, "utf-8");
+		await rename(tempPath, CHANNELS_PATH);
+		logger.info(
+			`Created default channels at ${relative(ROOT_DIRECTORY, CHANNELS_PATH)}`
+		);
+	} catch (error) {
+		try {
+			await unlink(tempPath);
+		} catch {
+			// Ignore cleanup errors
+		}
+		logger.error(`Failed to write default channels: ${error}`);
+	}
+}
+
+/**
+ * Load channel definitions from disk into the registry.
+ */
+export async function loadChannels(): Promise<void> {
+	let content: string;
+	try {
+		content = await readFile(CHANNELS_PATH, "utf-8");
+	} catch (error: any) {
+		if (error?.code === "ENOENT") {
+			setChannels(DEFAULT_CHANNEL_DEFINITIONS);
+			await writeDefaultChannels();
+		} else {
+			logger.error(`Failed to read channels: ${error}`);
+		}
+		return;
+	}
+
+	let entries: SerializedChannelDefinition[];
+	try {
+		const data = YAML.load(content) as
+			| { channels?: SerializedChannelDefinition[] }
+			| undefined;
+		entries = data?.channels ?? [];
+	} catch (error) {
+		logger.error(`Failed to parse channels, keeping defaults: ${error}`);
+		return;
+	}
+
+	const channels: ChannelDefinition[] = [];
+	for (const entry of entries) {
+		try {
+			const channel = deserializeChannelDefinition(entry);
+			if (channels.some((other) => other.id === channel.id)) {
+				logger.warn(`Skipping duplicate channel "${channel.id}"`);
+				continue;
+			}
+			channels.push(channel);
+		} catch (error) {
+			logger.warn(`Skipping invalid channel: ${error}`);
+		}
+	}
+	setChannels(channels);
+
+	for (const id of Object.values(CHANNEL)) {
+		if (!getChannel(id))
+			logger.warn(`Channel "${id}" is not defined; its command will not work`);
+	}
+	logger.info(`Loaded ${channels.length} channel(s)`);
+}
+
+export default {
+	name: "channel",
+	loader: async () => {
+		await loadChannels();
+	},
+} as Package;
@@ -20,12 +20,10 @@ describe("package/character.ts deserializer", () => {
 			credentials: {
 				characterId: 1,
 				username: "testuser",
-				passwordHash: "hashedpassword",
+				account: "testuser",
 				createdAt: "2024-01-01T00:00:00.000Z",
 				lastLogin: "2024-01-02T00:00:00.000Z",
 				isActive: true,
-				isBanned: false,
-				isAdmin: false,
 			},
 			settings: {
 				verboseMode: true,
@@ -33,7 +31,7 @@ describe("package/character.ts deserializer", () => {
 				colorEnabled: true,
 				autoLook: true,
 				briefMode: false,
-				channels: [CHANNEL.OOC, CHANNEL.GOSSIP],
+				channels: [CHANNEL.OOC, "gossip"],
 				blockedUsers: ["spammer"],
 			},
 			stats: {
@@ -59,6 +57,7 @@ describe("package/character.ts deserializer", () => {
 		assert.ok(character instanceof Character);
 		assert.strictEqual(character.credentials.username, "testuser");
 		assert.strictEqual(character.credentials.characterId, 1);
+		assert.strictEqual(character.credentials.account, "testuser");
 		assert.ok(character.credentials.createdAt instanceof Date);
 		assert.ok(character.credentials.lastLogin instanceof Date);
 		assert.strictEqual(character.settings.verboseMode, true);
@@ -71,20 +70,100 @@ describe("package/character.ts deserializer", () => {
 		assert.strictEqual(character.mob.level, 5);
 	});
 
+	it("moves legacy characters onto an account named after them", async () => {
+		const data = {
+			version: "1.0.0",
+			credentials: {
+				characterId: 2,
+				username: "Oldtimer",
+				passwordHash: "hash",
+				createdAt: "2024-01-01T00:00:00.000Z",
+				lastLogin: "2024-01-02T00:00:00.000Z",
+				isActive: true,
+				isBanned: false,
+				isAdmin: true,
+			},
+			settings: {},
+			stats: {
+				playtime: 0,
+				deaths: 0,
+				kills: 0,
+			},
+			mob: {
+				keywords: "oldtimer",
+				display: "Oldtimer",
+				level: 1,
+				experience: 0,
+				race: "human",
+				job: "warrior",
+				health: 100,
+				mana: 50,
+				exhaustion: 0,
+			},
+		} as unknown as SerializedCharacter;
+
+		const character = await deserializeCharacter(data);
+
+		assert.strictEqual(character.credentials.account, "Oldtimer");
+		assert.strictEqual(
+			(character.serialize().credentials as any).passwordHash,
+			undefined
+		);
+		assert.strictEqual(character.isAdmin(), false);
+	});
+
+	it("lowercases channel subscriptions saved before 1.2.0", async () => {
+		const data = {
+			version: "1.1.0",
+			credentials: {
+				characterId: 3,
+				username: "Chatter",
+				account: "chatter",
+				createdAt: "2024-01-01T00:00:00.000Z",
+				lastLogin: "2024-01-02T00:00:00.000Z",
+				isActive: true,
+			},
+			settings: {
+				channels: ["OOC", "GOSSIP", "NEWBIE"],
+			},
+			stats: {
+				playtime: 0,
+				deaths: 0,
+				kills: 0,
+			},
+			mob: {
+				keywords: "chatter",
+				display: "Chatter",
+				level: 1,
+				experience: 0,
+				race: "human",
+				job: "warrior",
+				health: 100,
+				mana: 50,
+				exhaustion: 0,
+			},
+		} as unknown as SerializedCharacter;
+
+		const character = await deserializeCharacter(data);
+
+		assert.deepStrictEqual(
+			[...(character.settings.channels ?? [])],
+			[CHANNEL.OOC, "gossip", "newbie"]
+		);
+	});
+
 	it("converts channels array to Set", async () => {
 		const data: SerializedCharacter = {
 			credentials: {
 				characterId: 1,
 				username: "testuser",
-				passwordHash: "hash",
+				account: "testuser",
 				createdAt: "2024-01-01T00:00:00.000Z",
 				lastLogin: "2024-01-01T00:00:00.000Z",
 				isActive: true,
-				isBanned: false,
-				isAdmin: false,
 			},
 			settings: {
-				channels: [CHANNEL.OOC, CHANNEL.GOSSIP, CHANNEL.SAY],
+				channels: [CHANNEL.OOC, "gossip", CHANNEL.SAY],
 			},
 			stats: {
 				playtime: 0,
@@ -109,7 +188,7 @@ describe("package/character.ts deserializer", () => {
 		assert.ok(character.settings.channels instanceof Set);
 		assert.strictEqual(character.settings.channels.size, 3);
 		assert.ok(character.settings.channels.has(CHANNEL.OOC));
-		assert.ok(character.settings.channels.has(CHANNEL.GOSSIP));
+		assert.ok(character.settings.channels.has("gossip"));
 		assert.ok(character.settings.channels.has(CHANNEL.SAY));
 	});
 
@@ -118,12 +197,10 @@ describe("package/character.ts deserializer", () => {
 			credentials: {
 				characterId: 1,
 				username: "testuser",
-				passwordHash: "hash",
+				account: "testuser",
 				createdAt: "2024-01-01T00:00:00.000Z",
 				lastLogin: "2024-01-01T00:00:00.000Z",
 				isActive: true,
-				isBanned: false,
-				isAdmin: false,
 			},
 			settings: {
 				blockedUsers: ["user1", "user2"],
@@ -154,16 +231,54 @@ describe("package/character.ts deserializer", () => {
 		assert.ok(character.settings.blockedUsers!.has("user2"));
 	});
 
+	it("converts friends array to Set and keeps the dungeon privacy setting", async () => {
+		const data: SerializedCharacter = {
+			credentials: {
+				characterId: 1,
+				username: "testuser",
+				account: "testuser",
+				createdAt: "2024-01-01T00:00:00.000Z",
+				lastLogin: "2024-01-01T00:00:00.000Z",
+				isActive: true,
+			},
+			settings: {
+				friends: ["alice", "bob"],
+				showDungeonToFriends: false,
+			},
+			stats: {
+				playtime: 0,
+				deaths: 0,
+				kills: 0,
+			},
+			mob: {
+				keywords: "testuser",
+				display: "Test User",
+				level: 1,
+				experience: 0,
+				race: "human",
+				job: "warrior",
+				health: 100,
+				mana: 50,
+				exhaustion: 0,
+			},
+		};
+
+		const character = await deserializeCharacter(data);
+
+		assert.ok(character.settings.friends instanceof Set);
+		assert.ok(character.isFriend("Alice"));
+		assert.ok(character.isFriend("bob"));
+		assert.strictEqual(character.settings.showDungeonToFriends, false);
+	});
+
 	it("handles missing characterId with default value", async () => {
 		const data: SerializedCharacter = {
 			credentials: {
 				username: "testuser",
-				passwordHash: "hash",
+				account: "testuser",
 				createdAt: "2024-01-01T00:00:00.000Z",
 				lastLogin: "2024-01-01T00:00:00.000Z",
 				isActive: true,
-				isBanned: false,
-				isAdmin: false,
 			} as any,
 			settings: {},
 			stats: {
@@ -199,12 +314,10 @@ describe("package/character.ts deserializer", () => {
 			credentials: {
 				characterId: 1,
 				username: "testuser",
-				passwordHash: "hash",
+				account: "testuser",
 				createdAt: new Date(),
 				lastLogin: new Date(),
 				isActive: true,
-				isBanned: false,
-				isAdmin: false,
 			},
 			settings: {
 				verboseMode: true,
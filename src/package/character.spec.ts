@@ -4,7 +4,7 @@ import { access, unlink } from "fs/promises";
 import { constants as FS_CONSTANTS } from "fs";
 import { join } from "path";
 import { Character } from "../core/character.js";
-import { saveCharacter, loadCharacter, hashPassword } from "./character.js";
+import { saveCharacter, loadCharacter } from "./character.js";
 import { createMob } from "./dungeon.js";
 import archetypePkg from "./archetype.js";
 
@@ -19,7 +19,6 @@ suite("package/character.ts", () => {
 
 	it("saves and loads a character round-trip via YAML", async () => {
 		const username = `specuser_${Date.now()}`;
-		const password = "specPassword123";
 
 		const mob = createMob();
 		mob.keywords = username;
@@ -29,12 +28,10 @@ suite("package/character.ts", () => {
 			credentials: {
 				characterId: 1,
 				username,
-				passwordHash: hashPassword(password),
+				account: username,
 				createdAt: new Date(),
 				lastLogin: new Date(),
 				isActive: true,
-				isBanned: false,
-				isAdmin: false,
 			},
 			settings: {
 				verboseMode: false,
@@ -59,10 +56,7 @@ suite("package/character.ts", () => {
 		const loaded = await loadCharacter(username);
 		assert.ok(loaded, "loaded character should not be null");
 		assert.strictEqual(loaded!.credentials.username, username);
-		assert.strictEqual(
-			loaded!.credentials.passwordHash,
-			hashPassword(password)
-		);
+		assert.strictEqual(loaded!.credentials.account, username);
 		// Dates parsed
 		assert.ok(loaded!.credentials.createdAt instanceof Date);
 
@@ -21,20 +21,20 @@
  *   - `unregisterActiveCharacter(username)`
  * - `isCharacterActive(username)` / `getActiveCharacters()`
  *
- * Authentication helpers
- * - `checkCharacterPassword(username, password)` - Verify password without full deserialization
- * - `loadCharacterFromSerialized(data)` - Load from already-verified serialized data
+ * Accounts
+ * - Characters don't have passwords of their own; they belong to an account
+ *   (`credentials.account`) that handles authentication and the admin/ban
+ *   flags. See {@link package/account}.
+ * - `loadSerializedCharacter(username)` / `loadSerializedCharacters()` read
+ *   character files without deserializing them, e.g. to restore a saved
+ *   location or for the account migration. Pass the result to
+ *   `loadCharacterFromSerialized()` to finish loading.
  *
  * @example
- * import characterPkg, { saveCharacter, loadCharacter, checkCharacterPassword, loadCharacterFromSerialized } from './package/character.js';
+ * import characterPkg, { saveCharacter, loadCharacter } from './package/character.js';
  * await characterPkg.loader();
  * await saveCharacter(player);
  * const reloaded = await loadCharacter(player.credentials.username);
- * // Efficient authentication:
- * const serialized = await checkCharacterPassword('username', 'password');
- * if (serialized) {
- *   const char = loadCharacterFromSerialized(serialized);
- * }
  *
  * @module package/character
  */
@@ -46,9 +46,9 @@ import {
 	access,
 	rename,
 	unlink,
+	readdir,
 } from "fs/promises";
 import { constants as FS_CONSTANTS } from "fs";
-import { createHash } from "crypto";
 import logger from "../logger.js";
 import {
 	nameToColor,
@@ -68,74 +68,19 @@ import archetypePkg from "../package/archetype.js";
 import configPkg from "../package/config.js";
 import { deserializeMob, createMob } from "./dungeon.js";
 import type { Mob } from "../core/dungeon.js";
+import { deserializeQuestLog } from "../core/quest.js";
+import { isRole } from "../core/role.js";
 import YAML from "js-yaml";
 import { Package } from "package-loader";
 import { getSafeRootDirectory } from "../utils/path.js";
-import { CONFIG } from "../registry/config.js";
 import { getCurrentDungeonVersion } from "../migrations/version.js";
 import { migrateCharacterData } from "../migrations/character/runner.js";
 import { getNextCharacterId } from "./gamestate.js";
 import { getDefaultJob, getDefaultRace } from "../registry/archetype.js";
-
 const ROOT_DIRECTORY = getSafeRootDirectory();
 const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
 const CHAR_DIR = join(DATA_DIRECTORY, "characters");
 
-/**
- * Hashes a password using SHA256 with the configured salt.
- *
- * @param password The plain text password to hash
- * @returns The SHA256 hash of the salted password
- *
- * @example
- * ```typescript
- * const hashedPassword = hashPassword("myPassword123");
- * ```
- */
-export function hashPassword(password: string): string {
-	const saltedPassword = password + CONFIG.security.password_salt;
-	return createHash("sha256").update(saltedPassword).digest("hex");
-}
-
-/**
- * Sets a password on a character by hashing it and storing the hash.
- *
- * @param character The character to set the password for
- * @param password The plain text password to set
- *
- * @example
- * ```typescript
- * setCharacterPassword(character, "newSecurePassword123");
- * ```
- */
-export function setCharacterPassword(
-	character: Character,
-	password: string
-): void {
-	character.credentials.passwordHash = hashPassword(password);
-}
-
-/**
- * Verifies a password against a character's stored password hash.
- *
- * @param character The character to verify the password for
- * @param password The plain text password to verify
- * @returns true if the password matches, false otherwise
- *
- * @example
- * ```typescript
- * if (verifyCharacterPassword(character, "myPassword")) {
- *   console.log("Password is correct");
- * }
- * ```
- */
-export function verifyCharacterPassword(
-	character: Character,
-	password: string
-): boolean {
-	return character.credentials.passwordHash === hashPassword(password);
-}
-
 // --- Active character registry (local lock) ---
 type ActiveEntry = { character: Character; since: Date };
 const ACTIVE_REGISTRY: Map<string, ActiveEntry> = new Map();
@@ -237,22 +182,24 @@ export function createCharacterMob(
  * @param username The character's username
  * @param race Optional race for the mob (defaults to default race)
  * @param job Optional job for the mob (defaults to default job)
+ * @param account Optional username of the owning account
  * @returns A new Character instance with an associated mob
  *
  * @example
  * ```typescript
- * const character = await createCharacter("hero123", selectedRace, selectedJob);
+ * const character = await createCharacter("hero123", selectedRace, selectedJob, account.username);
  * ```
  */
 export async function createCharacter(
 	username: string,
 	race?: Race,
-	job?: Job
+	job?: Job,
+	account?: string
 ): Promise<Character> {
 	const characterId = await getNextCharacterId();
 	const mob = createCharacterMob(username, race, job);
 	return new Character({
-		credentials: { username, characterId },
+		credentials: { username, characterId, account },
 		mob,
 	});
 }
@@ -323,45 +270,6 @@ export async function characterExists(username: string): Promise<boolean> {
 	return await fileExists(filePath);
 }
 
-/**
- * Check if a password matches the character's stored password hash.
- * Returns the serialized character data if the password matches, undefined otherwise.
- *
- * @param username The username to check
- * @param password The plaintext password to verify
- * @returns SerializedCharacter if password matches, undefined otherwise
- */
-export async function checkCharacterPassword(
-	username: string,
-	password: string
-): Promise<SerializedCharacter | undefined> {
-	const filePath = getCharacterFilePath(username);
-
-	if (!(await characterExists(username))) {
-		logger.debug("Character file not found", {
-			filePath: relative(ROOT_DIRECTORY, filePath),
-			username,
-		});
-		return undefined;
-	}
-
-	const content = await readFile(filePath, "utf-8");
-	const raw = YAML.load(content) as SerializedCharacter & { version?: string };
-
-	// Hash the input password and compare with stored hash
-	// Note: We don't migrate here - migration happens in deserializeCharacter
-	const hashedPassword = hashPassword(password);
-	if (raw.credentials.passwordHash !== hashedPassword) {
-		logger.debug("Password mismatch", {
-			username,
-		});
-		return undefined;
-	}
-
-	// Return raw data - migration will happen when deserializing
-	return raw;
-}
-
 /**
  * Deserialize a SerializedCharacter into a Character instance.
  * This is the package-layer deserializer that handles all package dependencies.
@@ -390,16 +298,20 @@ export async function deserializeCharacter(
 	const creds = {
 		characterId,
 		username: migratedData.credentials.username,
-		passwordHash: migratedData.credentials.passwordHash,
-		email: migratedData.credentials.email,
+		account: migratedData.credentials.account,
 		createdAt: new Date(migratedData.credentials.createdAt),
 		lastLogin: new Date(migratedData.credentials.lastLogin),
 		isActive: migratedData.credentials.isActive,
-		isBanned: migratedData.credentials.isBanned,
-		isAdmin: migratedData.credentials.isAdmin,
+		...(migratedData.credentials.mutedUntil && {
+			mutedUntil: new Date(migratedData.credentials.mutedUntil),
+		}),
+		...(migratedData.credentials.isFrozen && { isFrozen: true }),
+		...(isRole(migratedData.credentials.role) && {
+			role: migratedData.credentials.role,
+		}),
 	};
 
-	// Convert channels and blockedUsers arrays back to Sets
+	// Convert channels, blockedUsers and friends arrays back to Sets
 	const settings: PlayerSettings = {
 		receiveOOC: migratedData.settings.receiveOOC,
 		verboseMode: migratedData.settings.verboseMode,
@@ -417,6 +329,13 @@ export async function deserializeCharacter(
 			migratedData.settings.blockedUsers !== undefined
 				? new Set(migratedData.settings.blockedUsers)
 				: undefined,
+		friends:
+			migratedData.settings.friends !== undefined
+				? new Set(migratedData.settings.friends)
+				: undefined,
+		...(migratedData.settings.showDungeonToFriends !== undefined && {
+			showDungeonToFriends: migratedData.settings.showDungeonToFriends,
+		}),
 		busyForwardedGroups:
 			migratedData.settings.busyForwardedGroups !== undefined
 				? new Set(migratedData.settings.busyForwardedGroups)
@@ -431,12 +350,20 @@ export async function deserializeCharacter(
 				: undefined,
 		autoloot: migratedData.settings.autoloot,
 		autosacrifice: migratedData.settings.autosacrifice,
+		aliases:
+			migratedData.settings.aliases !== undefined
+				? new Map(Object.entries(migratedData.settings.aliases))
+				: undefined,
 	};
 
 	const character = new Character({
 		credentials: creds,
 		settings: settings,
 		stats: migratedData.stats,
+		quests: migratedData.quests
+			? deserializeQuestLog(migratedData.quests)
+			: undefined,
+		visited: migratedData.visited ? new Set(migratedData.visited) : undefined,
 		mob,
 	});
 
@@ -458,6 +385,60 @@ export async function loadCharacterFromSerialized(
 	return character;
 }
 
+/**
+ * Read a saved character file without deserializing or migrating it.
+ *
+ * @param username The character's username
+ * @returns Raw serialized data, or undefined if the character doesn't exist
+ */
+export async function loadSerializedCharacter(
+	username: string
+): Promise<(SerializedCharacter & { version?: string }) | undefined> {
+	const filePath = getCharacterFilePath(username);
+	if (!(await characterExists(username))) {
+		logger.debug("Character file not found", {
+			filePath: relative(ROOT_DIRECTORY, filePath),
+			username,
+		});
+		return undefined;
+	}
+
+	const content = await readFile(filePath, "utf-8");
+	return YAML.load(content) as SerializedCharacter & { version?: string };
+}
+
+/**
+ * Read every saved character file without deserializing or migrating it.
+ * Unreadable files are skipped.
+ *
+ * @returns Raw serialized data of all saved characters
+ */
+export async function loadSerializedCharacters(): Promise<
+	Array<SerializedCharacter & { version?: string }>
+> {
+	let files: string[];
+	try {
+		files = await readdir(CHAR_DIR);
+	} catch {
+		return [];
+	}
+
+	const characters: Array<SerializedCharacter & { version?: string }> = [];
+	for (const file of files) {
+		if (!file.endsWith(".yaml")) continue;
+		try {
+			const content = await readFile(join(CHAR_DIR, file), "utf-8");
+			const raw = YAML.load(content) as
+				| (SerializedCharacter & { version?: string })
+				| undefined;
+			if (raw?.credentials?.username) characters.push(raw);
+		} catch (error) {
+			logger.warn("Skipping unreadable character file", { file, error });
+		}
+	}
+	return characters;
+}
+
 export async function loadCharacter(
 	username: string
 ): Promise<Character | undefined> {
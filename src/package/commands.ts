@@ -41,6 +41,7 @@ import { runInNewContext } from "vm";
 import YAML from "js-yaml";
 import logger from "../logger.js";
 import { MESSAGE_GROUP } from "../core/character.js";
+import { PERMISSION } from "../core/role.js";
 import {
 	forEachCharacter,
 	broadcast,
@@ -56,6 +57,9 @@ import {
 	type SocialDefinition,
 } from "../social.js";
 import { executeSocial, onSocialError } from "../commands/_social.js";
+import { executeChannelTalk } from "../commands/_channel.js";
+import { getChannels } from "../registry/channel.js";
+import channelPkg from "./channel.js";
 import { Mob } from "../core/dungeon.js";
 import { getSafeRootDirectory } from "../utils/path.js";
 
@@ -63,7 +67,12 @@ export interface CommandObject {
 	pattern: string;
 	aliases?: string[];
 	priority?: PRIORITY;
+	/** Permission a character needs to use the command */
+	permission?: PERMISSION;
+	/** @deprecated Use `permission`; `adminOnly` requires `PERMISSION.ADMIN` */
 	adminOnly?: boolean;
+	/** Whether the command can be used while stunned */
+	allowWhileStunned?: boolean;
 	cooldown?:
 		| number
 		| ((context: CommandContext, args: Map<string, any>) => number | undefined);
@@ -97,7 +106,9 @@ export class JavaScriptCommandAdapter extends Command {
 			pattern: commandObj.pattern,
 			aliases: commandObj.aliases,
 			priority: commandObj.priority,
+			permission: commandObj.permission,
 			adminOnly: commandObj.adminOnly,
+			allowWhileStunned: commandObj.allowWhileStunned,
 		});
 		this.executeFunction = commandObj.execute;
 		this.errorFunction = commandObj.onError;
@@ -110,7 +121,8 @@ export class JavaScriptCommandAdapter extends Command {
 	}
 
 	execute(context: CommandContext, args: Map<string, any>): void {
-		this.executeFunction(context, args);
+		// pass on the promise of async commands so callers can wait for them
+		return this.executeFunction(context, args);
 	}
 
 	onError(context: CommandContext, result: ParseResult): void {
@@ -370,6 +382,9 @@ async function loadCommands() {
 	// Generate social commands from social.ts definitions
 	await generateSocialCommands();
 
+	// Generate talk commands for channels defined in data/channels.yaml
+	generateChannelCommands();
+
 	logger.debug(
 		`Command loading complete. Total commands registered: ${
 			getCommands().length
@@ -424,8 +439,41 @@ async function generateSocialCommands(): Promise<void> {
 	logger.info(`Generated ${getSocialCommandNames().length} social commands`);
 }
 
+/**
+ * Generates and registers a talk command for each channel that names one.
+ */
+function generateChannelCommands(): void {
+	const channels = getChannels().filter((channel) => channel.command);
+
+	for (const channel of channels) {
+		const pattern = `${channel.command}~ <message:text>`;
+		const commandObj: CommandObject = {
+			pattern,
+			priority: PRIORITY.LOW,
+			allowWhileStunned: true,
+			execute(context: CommandContext, args: Map<string, any>): void {
+				executeChannelTalk(context, channel.id, args.get("message") as string);
+			},
+			onError(context: CommandContext, result: ParseResult): void {
+				if (result.error === "Missing required argument: message") {
+					context.actor.sendMessage(
+						`What do you want to say on the ${channel.tag} channel?`,
+						MESSAGE_GROUP.COMMAND_RESPONSE
+					);
+				}
+			},
+		};
+
+		registerCommand(new JavaScriptCommandAdapter(commandObj));
+		logger.debug(`Generated channel command: ${pattern}`);
+	}
+
+	logger.info(`Generated ${channels.length} channel commands`);
+}
+
 export default {
 	name: "commands",
+	dependencies: [channelPkg],
 	loader: async () => {
 		await loadCommands();
 	},
@@ -54,7 +54,8 @@ export async function loadConfig() {
 						logger.debug(`DEFAULT game.${key} = ${config.game[key]}`);
 						continue;
 					}
-					safe.game[key] = config.game[key] as any;
+					(safe.game as Record<keyof GameConfig, unknown>)[key] =
+						config.game[key];
 					logger.debug(`Set game.${key} = ${config.game[key]}`, {
 						config: config,
 					});
@@ -88,7 +89,8 @@ export async function loadConfig() {
 						logger.debug(`DEFAULT security.${key} = ${config.security[key]}`);
 						continue;
 					}
-					safe.security[key] = config.security[key] as any;
+					(safe.security as Record<keyof SecurityConfig, unknown>)[key] =
+						config.security[key];
 					logger.debug(`Set security.${key} = ${config.security[key]}`);
 				}
 			}
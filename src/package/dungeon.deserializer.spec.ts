@@ -6,6 +6,7 @@ import {
 	deserializeMob,
 	deserializeMovable,
 	deserializeItem,
+	deserializeConsumable,
 	deserializeProp,
 	deserializeEquipment,
 	deserializeArmor,
@@ -17,6 +18,7 @@ import {
 	Mob,
 	Movable,
 	Item,
+	Consumable,
 	Prop,
 	Equipment,
 	Armor,
@@ -27,12 +29,14 @@ import {
 	SerializedMob,
 	SerializedMovable,
 	SerializedItem,
+	SerializedConsumable,
 	SerializedProp,
 	SerializedEquipment,
 	SerializedArmor,
 	SerializedWeapon,
 	MobOptions,
 } from "../core/dungeon.js";
+import { EFFECT_CATEGORY } from "../core/effect.js";
 import archetypePkg from "./archetype.js";
 import abilitiesPkg from "./ability.js";
 import { getAllAbilities } from "../registry/ability.js";
@@ -222,6 +226,71 @@ describe("package/dungeon.ts deserializers", () => {
 		});
 	});
 
+	describe("deserializeConsumable", () => {
+		it("deserializes a Consumable with restores, effects and cooldown", async () => {
+			const data: SerializedConsumable = {
+				type: "Consumable",
+				keywords: "potion",
+				display: "Potion",
+				consumableType: "potion",
+				restore: { health: 50 },
+				effects: [{ id: "inspire", duration: 60 }],
+				charges: 3,
+				cooldownGroup: "potion",
+				cooldown: 30,
+			};
+
+			const consumable = await deserializeConsumable(data);
+
+			assert.ok(consumable instanceof Consumable);
+			assert.strictEqual(consumable.consumableType, "potion");
+			assert.deepStrictEqual(consumable.restore, { health: 50 });
+			assert.deepStrictEqual(consumable.effects, [
+				{ id: "inspire", duration: 60 },
+			]);
+			assert.strictEqual(consumable.charges, 3);
+			assert.strictEqual(consumable.cooldownGroup, "potion");
+			assert.strictEqual(consumable.cooldown, 30);
+		});
+
+		it("round-trips through serialize", async () => {
+			const original = new Consumable({
+				keywords: "bread",
+				display: "Bread",
+				consumableType: "food",
+				restore: { exhaustion: 25 },
+				charges: 2,
+			});
+
+			const restored = (await deserializeDungeonObject(
+				original.serialize()
+			)) as Consumable;
+
+			assert.ok(restored instanceof Consumable);
+			assert.strictEqual(restored.consumableType, "food");
+			assert.deepStrictEqual(restored.restore, { exhaustion: 25 });
+			assert.strictEqual(restored.charges, 2);
+			assert.strictEqual(restored.cooldownGroup, undefined);
+		});
+
+		it("round-trips cleansed effect categories", async () => {
+			const original = new Consumable({
+				keywords: "antidote",
+				display: "Antidote",
+				cleanse: [EFFECT_CATEGORY.POISON, EFFECT_CATEGORY.DISEASE],
+			});
+
+			const restored = (await deserializeDungeonObject(
+				original.serialize()
+			)) as Consumable;
+
+			assert.deepStrictEqual(restored.cleanse, [
+				EFFECT_CATEGORY.POISON,
+				EFFECT_CATEGORY.DISEASE,
+			]);
+		});
+	});
+
 	describe("deserializeProp", () => {
 		it("deserializes a basic Prop", async () => {
 			const data: SerializedProp = {
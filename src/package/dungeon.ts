@@ -74,6 +74,8 @@ import {
 	BEHAVIOR,
 	Item,
 	Prop,
+	Consumable,
+	ConsumableOptions,
 	Equipment,
 	EquipmentOptions,
 	Armor,
@@ -94,18 +96,22 @@ import {
 	SerializedMob,
 	SerializedItem,
 	SerializedProp,
+	SerializedConsumable,
 	SerializedEquipment,
 	SerializedArmor,
 	SerializedWeapon,
 	EQUIPMENT_SLOT,
 	normalizeSerializedData,
 	compressSerializedObject,
+	type ConsumableTemplate,
 	type EquipmentTemplate,
 	type ArmorTemplate,
 	type WeaponTemplate,
 	type ItemType,
 	type equipmentType,
 	DungeonOptions,
+	SerializedDoor,
+	createDoor,
 } from "../core/dungeon.js";
 import YAML from "js-yaml";
 import { Package } from "package-loader";
@@ -145,6 +151,19 @@ const DUNGEON_DIR = join(DATA_DIRECTORY, "dungeons");
  */
 const pendingRoomLinks: PendingRoomLink[] = [];
 
+/**
+ * Pending doors to be installed after all dungeons (and their room links) are loaded.
+ * Doors are mirrored onto the room on the other side of the exit, which may
+ * live in another dungeon or only be reachable through a RoomLink.
+ */
+interface PendingDoor {
+	roomRef: string;
+	direction: DirectionText;
+	door: SerializedDoor;
+}
+
+const pendingDoors: PendingDoor[] = [];
+
 /**
  * Pending shopkeeper inventories to be processed after all dungeons are loaded.
  */
@@ -187,6 +206,7 @@ export interface SerializedDungeonFormat {
 			coordinates: { x: number; y: number; z: number };
 			allowedExits?: number;
 			roomLinks?: Record<DirectionText, string>;
+			doors?: Partial<Record<DirectionText, SerializedDoor>>;
 		}>;
 		shopkeeperInventories?: SerializedShopkeeperInventory[];
 	};
@@ -390,6 +410,16 @@ export function createProp(options?: DungeonObjectOptions): Prop {
 	});
 }
 
+/**
+ * Factory function to create a Consumable with an auto-generated OID.
+ */
+export function createConsumable(options?: ConsumableOptions): Consumable {
+	return new Consumable({
+		...options,
+		oid: options?.oid ?? getNextObjectId(),
+	});
+}
+
 /**
  * Factory function to create Equipment with an auto-generated OID.
  */
@@ -483,6 +513,27 @@ function itemTemplateToOptions(
 	};
 }
 
+/**
+ * Convert a ConsumableTemplate to ConsumableOptions for use with createConsumable.
+ */
+function consumableTemplateToOptions(
+	template: ConsumableTemplate,
+	oid: number
+): ConsumableOptions {
+	return {
+		...itemTemplateToOptions(template, oid),
+		templateId: template.id,
+		oid,
+		consumableType: template.consumableType,
+		effects: template.effects?.map((effect) => ({ ...effect })),
+		restore: template.restore ? { ...template.restore } : undefined,
+		cleanse: template.cleanse ? [...template.cleanse] : undefined,
+		charges: template.charges,
+		cooldownGroup: template.cooldownGroup,
+		cooldown: template.cooldown,
+	};
+}
+
 /**
  * Convert an EquipmentTemplate to EquipmentOptions for use with createEquipment.
  */
@@ -498,6 +549,7 @@ function equipmentTemplateToOptions(
 		attributeBonuses: template.attributeBonuses,
 		resourceBonuses: template.resourceBonuses,
 		secondaryAttributeBonuses: template.secondaryAttributeBonuses,
+		procs: template.procs,
 	};
 }
 
@@ -620,6 +672,15 @@ function createFromTemplate(
 			obj = createItem(options);
 			break;
 		}
+		case "Consumable": {
+			const consumableTemplate = template as ConsumableTemplate;
+			const options = consumableTemplateToOptions(
+				consumableTemplate,
+				providedOid
+			);
+			obj = createConsumable(options);
+			break;
+		}
 		case "Prop": {
 			const options = dungeonObjectTemplateToOptions(template, providedOid);
 			obj = createProp(options);
@@ -945,6 +1006,9 @@ export async function loadDungeon(id: string): Promise<Dungeon | undefined> {
 					// Apply exit override if present (before adding to dungeon)
 					// Store roomLinks from exitOverrides to process after room is added
 					let exitOverrideRoomLinks: Record<DirectionText, string> | undefined;
+					let exitOverrideDoors:
+						| Partial<Record<DirectionText, SerializedDoor>>
+						| undefined;
 					if (exitOverrides && Array.isArray(exitOverrides)) {
 						const override = exitOverrides.find(
 							(o) =>
@@ -964,6 +1028,9 @@ export async function loadDungeon(id: string): Promise<Dungeon | undefined> {
 								// Store roomLinks to process after room is added to dungeon
 								exitOverrideRoomLinks = override.roomLinks;
 							}
+							if (override.doors) {
+								exitOverrideDoors = override.doors;
+							}
 						}
 					}
 
@@ -1003,6 +1070,29 @@ export async function loadDungeon(id: string): Promise<Dungeon | undefined> {
 							}
 						}
 					}
+
+					// Collect doors from the template and exitOverrides (overrides win)
+					// Doors are installed after room links so they can be mirrored
+					const doors = { ...roomTemplate.doors, ...exitOverrideDoors };
+					const doorRoomRef = room.getRoomRef();
+					if (doorRoomRef) {
+						for (const [directionText, door] of Object.entries(doors)) {
+							if (!door) continue;
+							pendingDoors.push({
+								roomRef: doorRoomRef,
+								direction: directionText as DirectionText,
+								door: {
+									...door,
+									...(door.keyTemplateId && {
+										keyTemplateId: globalizeTemplateId(
+											door.keyTemplateId,
+											dungeon.id!
+										),
+									}),
+								},
+							});
+						}
+					}
 				}
 			}
 		}
@@ -1279,6 +1369,19 @@ export async function migrateTemplateData(
 				// Stage 4c: Return migrated data
 				return migratedItem;
 			}
+			case "Consumable": {
+				// Stage 4a: Cast to SerializedConsumable type
+				const serializedConsumable = rawTemplateData as SerializedConsumable & {
+					version?: string;
+				};
+				// Stage 4b: Consumables are items, so they share the Item migrations
+				const migratedConsumable = await migrateItemData(
+					serializedConsumable,
+					templateId
+				);
+				// Stage 4c: Return migrated data
+				return migratedConsumable;
+			}
 			case "Equipment": {
 				// Stage 4a: Cast to SerializedEquipment type
 				const serializedEquipment = rawTemplateData as SerializedEquipment & {
@@ -1367,6 +1470,7 @@ function processPendingShopkeeperInventories(): void {
 				if (
 					!template ||
 					(template.type !== "Item" &&
+						template.type !== "Consumable" &&
 						template.type !== "Equipment" &&
 						template.type !== "Armor" &&
 						template.type !== "Weapon")
@@ -1540,6 +1644,42 @@ function processPendingRoomLinks(): void {
 	);
 }
 
+/**
+ * Installs all pending doors. Each door is placed on its room's exit and
+ * mirrored onto the reciprocal exit by `Room.setDoor()`.
+ */
+function processPendingDoors(): void {
+	if (pendingDoors.length === 0) {
+		logger.debug("No pending doors to process");
+		return;
+	}
+
+	let installedCount = 0;
+	for (const pending of pendingDoors) {
+		const room = getRoomByRef(pending.roomRef);
+		if (!room) {
+			logger.warn(
+				`Failed to install door: room "${pending.roomRef}" not found`
+			);
+			continue;
+		}
+		const direction = text2dir(pending.direction);
+		if (!direction) {
+			logger.warn(
+				`Failed to install door on ${pending.roomRef}: invalid direction "${pending.direction}"`
+			);
+			continue;
+		}
+		// Skip exits that already received this door from the other side
+		if (room.getDoor(direction)) continue;
+		room.setDoor(direction, createDoor(pending.door));
+		installedCount++;
+	}
+
+	pendingDoors.length = 0;
+	logger.info(`Installed ${installedCount} door(s)`);
+}
+
 /**
  * Load all dungeons from disk.
  */
@@ -1562,6 +1702,9 @@ export async function loadDungeons(): Promise<Dungeon[]> {
 	// Process all pending room links after all dungeons are loaded
 	processPendingRoomLinks();
 
+	// Install doors once every room link exists so they can be mirrored
+	processPendingDoors();
+
 	// Process all pending shopkeeper inventories after all dungeons are loaded
 	processPendingShopkeeperInventories();
 
@@ -1701,6 +1844,9 @@ function executeReset(reset: Reset, dungeon: Dungeon): DungeonObject[] {
 function executeDungeonResets(dungeon: Dungeon): number {
 	let totalSpawned = 0;
 
+	// Restore doors to their default states
+	dungeon.resetDoors();
+
 	for (const reset of dungeon.resets) {
 		const spawned = executeReset(reset, dungeon);
 		totalSpawned += spawned.length;
@@ -1788,6 +1934,12 @@ async function deserializeDungeonObjectWithMigration(
 			);
 		case "Item":
 			return await deserializeItem(normalized as SerializedItem, true, version);
+		case "Consumable":
+			return await deserializeConsumable(
+				normalized as SerializedConsumable,
+				true,
+				version
+			);
 		case "Prop":
 			return await deserializeProp(normalized as SerializedProp, version);
 		case "DungeonObject":
@@ -2011,6 +2163,59 @@ export async function deserializeItem(
 	return item;
 }
 
+/**
+ * Deserialize a SerializedConsumable into a Consumable instance.
+ *
+ * @param data The serialized consumable data
+ * @param migrate Whether to apply migrations (default: true)
+ */
+export async function deserializeConsumable(
+	data: SerializedConsumable,
+	migrate: boolean = true,
+	parentVersion?: string
+): Promise<Consumable> {
+	// Apply migrations if requested
+	let migratedData = data;
+	if (migrate) {
+		const dataWithVersion: SerializedConsumable & { version?: string } = data;
+		// Use parentVersion if consumable doesn't have its own version
+		if (!dataWithVersion.version && parentVersion) {
+			dataWithVersion.version = parentVersion;
+		}
+		try {
+			// Consumables are items, so they share the Item migrations
+			migratedData = (await migrateItemData(
+				dataWithVersion,
+				data.keywords
+			)) as SerializedConsumable;
+		} catch (error) {
+			logger.warn(
+				`Migration failed for Consumable${
+					data.keywords ? ` "${data.keywords}"` : ""
+				}: ${error}`
+			);
+		}
+	}
+
+	const norm = normalizeSerializedData(migratedData) as SerializedConsumable;
+	// Determine version for nested objects
+	const versionForNested =
+		(migratedData as any & { version?: string }).version || parentVersion;
+	const options = hydrateSerializedConsumableData(norm);
+	const consumable = new Consumable(options);
+	if (norm.contents && Array.isArray(norm.contents)) {
+		for (const contentData of norm.contents) {
+			const contentObj = await deserializeDungeonObjectWithMigration(
+				contentData,
+				migrate,
+				versionForNested
+			);
+			consumable.add(contentObj);
+		}
+	}
+	return consumable;
+}
+
 /**
  * Deserialize a SerializedEquipment into an Equipment instance.
  *
@@ -2272,9 +2477,30 @@ function hydrateSerializedItemData(data: SerializedDungeonObject): ItemOptions {
 	};
 }
 
+/**
+ * Hydrates a SerializedConsumable into ConsumableOptions.
+ * Calls Item hydration and adds Consumable-specific fields (type, effects, restore, cleanse, charges, cooldown).
+ * Follows the class hierarchy: Consumable -> Item -> Movable -> DungeonObject.
+ */
+function hydrateSerializedConsumableData(
+	data: SerializedConsumable
+): ConsumableOptions {
+	const base = hydrateSerializedItemData(data);
+	return pruneUndefined({
+		...base,
+		consumableType: data.consumableType,
+		effects: data.effects,
+		restore: data.restore,
+		cleanse: data.cleanse,
+		charges: data.charges,
+		cooldownGroup: data.cooldownGroup,
+		cooldown: data.cooldown,
+	});
+}
+
 /**
  * Hydrates a SerializedEquipment into EquipmentOptions.
- * Calls Item hydration and adds Equipment-specific fields (slot, bonuses).
+ * Calls Item hydration and adds Equipment-specific fields (slot, bonuses, procs).
  * Follows the class hierarchy: Equipment -> Item -> Movable -> DungeonObject.
  */
 function hydrateSerializedEquipmentData(
@@ -2287,6 +2513,7 @@ function hydrateSerializedEquipmentData(
 		attributeBonuses: data.attributeBonuses,
 		resourceBonuses: data.resourceBonuses,
 		secondaryAttributeBonuses: data.secondaryAttributeBonuses,
+		procs: data.procs,
 	});
 }
 
@@ -2449,6 +2676,7 @@ function hydrateRoomTemplateData(
 		roomLinks: (
 			data as SerializedRoom & { roomLinks?: Record<DirectionText, string> }
 		).roomLinks,
+		doors: data.doors,
 	}) as RoomTemplate;
 }
 
@@ -2484,6 +2712,7 @@ function hydrateMobTemplateData(
 		behaviors,
 		aiScript: (data as any).aiScript, // AI script from template (if present)
 		shopkeeperInventoryId: (data as any).shopkeeperInventoryId,
+		quests: (data as any).quests,
 	}) as MobTemplate;
 }
 
@@ -2506,6 +2735,28 @@ function hydrateItemTemplateData(
 	}) as ItemTemplate;
 }
 
+/**
+ * Hydrates migrated SerializedConsumable data into a ConsumableTemplate.
+ * Follows the class hierarchy: ConsumableTemplate -> ItemTemplate -> DungeonObjectTemplate.
+ */
+function hydrateConsumableTemplateData(
+	data: SerializedConsumable,
+	templateId: string
+): ConsumableTemplate {
+	const base = hydrateItemTemplateData(data, templateId);
+	return pruneUndefined({
+		...base,
+		type: "Consumable",
+		consumableType: data.consumableType,
+		effects: data.effects,
+		restore: data.restore,
+		cleanse: data.cleanse,
+		charges: data.charges,
+		cooldownGroup: data.cooldownGroup,
+		cooldown: data.cooldown,
+	}) as ConsumableTemplate;
+}
+
 /**
  * Hydrates migrated SerializedEquipment data into an EquipmentTemplate.
  * Follows the class hierarchy: EquipmentTemplate -> ItemTemplate -> DungeonObjectTemplate.
@@ -2522,6 +2773,7 @@ function hydrateEquipmentTemplateData(
 		attributeBonuses: data.attributeBonuses,
 		resourceBonuses: data.resourceBonuses,
 		secondaryAttributeBonuses: data.secondaryAttributeBonuses,
+		procs: data.procs,
 	}) as EquipmentTemplate;
 }
 
@@ -2642,6 +2894,13 @@ export async function deserializeTemplate(
 			);
 			break;
 		}
+		case "Consumable": {
+			hydrated = hydrateConsumableTemplateData(
+				migratedData as SerializedConsumable,
+				templateId
+			);
+			break;
+		}
 		case "Equipment": {
 			hydrated = hydrateEquipmentTemplateData(
 				migratedData as SerializedEquipment,
@@ -2881,6 +3140,9 @@ export async function deserializeMob(
 			if (serializedEffect.remainingAbsorption !== undefined) {
 				overrides.remainingAbsorption = serializedEffect.remainingAbsorption;
 			}
+			if (serializedEffect.stacks !== undefined) {
+				overrides.stacks = serializedEffect.stacks;
+			}
 
 			mob.addEffect(template, caster, overrides);
 		}
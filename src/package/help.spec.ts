@@ -127,6 +127,20 @@ content: |
 				assert.ok(helpfile.aliases!.includes("testfight"));
 				assert.ok(helpfile.aliases!.includes("testbattle"));
 			});
+
+			test("should load the permission needed to read a helpfile", () => {
+				const helpfile = getHelpfile("exec");
+				assert.ok(helpfile);
+				assert.strictEqual(helpfile.permission, "exec");
+				assert.strictEqual(getHelpfile("testcombat")?.permission, undefined);
+			});
+
+			test("should hide helpfiles rejected by the filter", () => {
+				const filter = (h: { keyword: string }) => h.keyword !== "testcombat";
+				assert.strictEqual(getHelpfile("testcombat", filter), undefined);
+				assert.strictEqual(getHelpfile("testfight", filter), undefined);
+				assert.ok(getHelpfile("testcast", filter));
+			});
 		});
 
 		suite("getAllHelpKeywords()", () => {
@@ -233,6 +247,15 @@ content: |
 				assert.ok(combat);
 				assert.ok(combat.aliases?.includes("testbattle"));
 			});
+
+			test("should leave out helpfiles rejected by the filter", () => {
+				const matches = autocompleteHelpfile(
+					"testc",
+					(h) => h.keyword !== "testcombat"
+				);
+				assert.ok(matches.length > 0);
+				assert.ok(!matches.some((h) => h.keyword === "testcombat"));
+			});
 		});
 
 		suite("searchHelpfiles()", () => {
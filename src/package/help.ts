@@ -8,6 +8,7 @@
  * - `related?: string[]` - optional related topic keywords
  * - `topic?: string[]` - optional topic tags describing the type of information (e.g., "communication", "combat")
  * - `content: string` - the help text (supports multiline with |)
+ * - `permission?: string` - optional permission (see `core/role`) needed to read it
  *
  * Files beginning with `_` are ignored. Only `.yaml` files are loaded.
  * The loader validates related references after all files are loaded.
@@ -38,6 +39,7 @@ import logger from "../logger.js";
 import { getSafeRootDirectory } from "../utils/path.js";
 import { Helpfile, SerializedHelpfile } from "../core/help.js";
 import { getHelpfileRegistry, registerHelpfile } from "../registry/help.js";
+import { PERMISSION } from "../core/role.js";
 
 const ROOT_DIRECTORY = getSafeRootDirectory();
 const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
@@ -85,6 +87,15 @@ function validateHelpfile(raw: SerializedHelpfile): Helpfile {
 		}
 	}
 
+	// Only known permissions may restrict a helpfile
+	const permission = raw.permission?.toLowerCase();
+	if (
+		permission !== undefined &&
+		!Object.values(PERMISSION).includes(permission as PERMISSION)
+	) {
+		throw new Error(`Helpfile has unknown permission '${raw.permission}'`);
+	}
+
 	// Strip trailing newlines from content (YAML | syntax adds them)
 	const content = raw.content.trim();
 
@@ -94,6 +105,7 @@ function validateHelpfile(raw: SerializedHelpfile): Helpfile {
 		related: related?.map((r) => r.toLowerCase()),
 		topic: topic?.map((t) => t.toLowerCase()),
 		content,
+		...(permission && { permission: permission as PERMISSION }),
 	};
 }
 
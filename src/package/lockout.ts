@@ -0,0 +1,103 @@
+/**
+ * Package: lockout - YAML persistence for failed login counters
+ *
+ * Persists failed login counts and lockouts to `data/lockouts.yaml` and
+ * restores them on startup, so restarting the server doesn't reset a
+ * brute-force attacker's lockout. The login flow calls `saveLockouts()` after
+ * each failure and after a successful login clears a counter.
+ *
+ * Behavior
+ * - Stale records (not locked, no recent failures) are dropped on load and
+ *   are not written back
+ * - Uses atomic writes (temp file + rename) to prevent corruption
+ * - If the file is absent, starts with no records
+ *
+ * @example
+ * import lockoutPkg, { saveLockouts } from './package/lockout.js';
+ * import { addLoginFailure } from '../registry/lockout.js';
+ * import { LOCKOUT_TYPE } from '../core/lockout.js';
+ * await lockoutPkg.loader();
+ * addLoginFailure(LOCKOUT_TYPE.ADDRESS, "203.0.113.7");
+ * await saveLockouts();
+ *
+ * @module package/lockout
+ */
+import { Package } from "package-loader";
+import { join, relative } from "path";
+import { readFile, writeFile, rename, unlink } from "fs/promises";
+import YAML from "js-yaml";
+import logger from "../logger.js";
+import { getSafeRootDirectory } from "../utils/path.js";
+import {
+	deserializeLoginFailure,
+	serializeLoginFailure,
+	SerializedLoginFailureRecord,
+} from "../core/lockout.js";
+import { getLoginFailures, setLoginFailures } from "../registry/lockout.js";
+import configPkg from "./config.js";
+
+const ROOT_DIRECTORY = getSafeRootDirectory();
+const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
+const LOCKOUTS_PATH = join(DATA_DIRECTORY, "lockouts.yaml");
+
+/**
+ * Load failed login records from disk into the registry.
+ */
+export async function loadLockouts(): Promise<void> {
+	try {
+		const content = await readFile(LOCKOUTS_PATH, "utf-8");
+		const data =
+			(YAML.load(content) as SerializedLoginFailureRecord[] | undefined) ?? [];
+		setLoginFailures(data.map(deserializeLoginFailure));
+		logger.info(`Loaded ${getLoginFailures().length} failed login record(s)`);
+	} catch (error: any) {
+		if (error?.code === "ENOENT") {
+			logger.debug(
+				`No lockout file at ${relative(
+					ROOT_DIRECTORY,
+					LOCKOUTS_PATH
+				)}, starting empty`
+			);
+			setLoginFailures([]);
+		} else {
+			logger.error(`Failed to load lockouts: ${error}`);
+		}
+	}
+}
+
+/**
+ * Save the failed login records to disk using atomic write (temp file + rename).
+ */
+export async function saveLockouts(): Promise<void> {
+	const tempPath = `${LOCKOUTS_PATH}.tmp`;
+	try {
+		const yaml = YAML.dump(getLoginFailures().map(serializeLoginFailure), {
+			noRefs: true,
+			lineWidth: 120,
+		});
+
+		// Write to temporary file first
+		await writeFile(tempPath, yaml, "utf-8");
+
+		// Atomically rename temp file to final location
+		await rename(tempPath, LOCKOUTS_PATH);
+
+		logger.debug(`Saved lockouts: ${relative(ROOT_DIRECTORY, LOCKOUTS_PATH)}`);
+	} catch (error) {
+		// Clean up temp file if it exists
+		try {
+			await unlink(tempPath);
+		} catch {
+			// Ignore cleanup errors
+		}
+		logger.error(`Failed to save lockouts: ${error}`);
+	}
+}
+
+export default {
+	name: "lockout",
+	dependencies: [configPkg],
+	loader: async () => {
+		await loadLockouts();
+	},
+} as Package;
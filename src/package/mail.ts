@@ -0,0 +1,129 @@
+/**
+ * Package: mail - YAML persistence for player mail
+ *
+ * Persists every letter, including the gold and items held in escrow, to
+ * `data/mail.yaml` and restores them on startup. The mail command calls
+ * `saveMail()` whenever a letter is sent, read, collected or deleted, and the
+ * game tick calls `expireAndSaveMail()` to return or delete old letters.
+ *
+ * Behavior
+ * - Uses atomic writes (temp file + rename) to prevent corruption
+ * - If the file is absent, starts with no mail
+ * - Letters with unreadable data are logged and skipped
+ *
+ * @example
+ * import mailPkg, { saveMail } from './package/mail.js';
+ * import { addMail } from '../registry/mail.js';
+ * await mailPkg.loader();
+ * addMail({ from: "Alice", to: "bob", subject: "Hi", content: "...", sentAt: new Date(), read: false, gold: 0, items: [] });
+ * await saveMail();
+ *
+ * @module package/mail
+ */
+import { Package } from "package-loader";
+import { join, relative } from "path";
+import { readFile, writeFile, rename, unlink } from "fs/promises";
+import YAML from "js-yaml";
+import logger from "../logger.js";
+import { getSafeRootDirectory } from "../utils/path.js";
+import {
+	deserializeMail,
+	MailMessage,
+	serializeMail,
+	SerializedMailMessage,
+} from "../core/mail.js";
+import {
+	expireMail,
+	getAllMail,
+	getNextMailId,
+	setMail,
+} from "../registry/mail.js";
+import configPkg from "./config.js";
+
+const ROOT_DIRECTORY = getSafeRootDirectory();
+const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
+const MAIL_PATH = join(DATA_DIRECTORY, "mail.yaml");
+
+interface SerializedMailFile {
+	nextMailId?: number;
+	mail?: SerializedMailMessage[];
+}
+
+/**
+ * Load letters from disk into the registry.
+ */
+export async function loadMail(): Promise<void> {
+	try {
+		const content = await readFile(MAIL_PATH, "utf-8");
+		const data = (YAML.load(content) as SerializedMailFile | undefined) ?? {};
+		const mail: MailMessage[] = [];
+		for (const entry of data.mail ?? []) {
+			try {
+				mail.push(deserializeMail(entry));
+			} catch (error) {
+				logger.warn(`Skipping invalid letter #${entry?.id}: ${error}`);
+			}
+		}
+		setMail(mail, data.nextMailId ?? 1);
+		logger.info(`Loaded ${mail.length} letter(s)`);
+	} catch (error: any) {
+		if (error?.code === "ENOENT") {
+			logger.debug(
+				`No mail file at ${relative(ROOT_DIRECTORY, MAIL_PATH)}, starting empty`
+			);
+			setMail([], 1);
+		} else {
+			logger.error(`Failed to load mail: ${error}`);
+		}
+	}
+}
+
+/**
+ * Save every letter to disk using atomic write (temp file + rename).
+ */
+export async function saveMail(): Promise<void> {
+	const tempPath = `${MAIL_PATH}.tmp`;
+	try {
+		const data: SerializedMailFile = {
+			nextMailId: getNextMailId(),
+			mail: getAllMail().map(serializeMail),
+		};
+		const yaml = YAML.dump(data, { noRefs: true, lineWidth: 120 });
+
+		// Write to temporary file first
+		await writeFile(tempPath, yaml, "utf-8");
+
+		// Atomically rename temp file to final location
+		await rename(tempPath, MAIL_PATH);
+
+		logger.debug(`Saved mail: ${relative(ROOT_DIRECTORY, MAIL_PATH)}`);
+	} catch (error) {
+		// Clean up temp file if it exists
+		try {
+			await unlink(tempPath);
+		} catch {
+			// Ignore cleanup errors
+		}
+		logger.error(`Failed to save mail: ${error}`);
+	}
+}
+
+/**
+ * Return or delete expired letters, saving if anything changed.
+ *
+ * @returns The letters sent back to their senders
+ */
+export async function expireAndSaveMail(): Promise<MailMessage[]> {
+	const { returned, changed } = expireMail();
+	if (changed) await saveMail();
+	return returned;
+}
+
+export default {
+	name: "mail",
+	dependencies: [configPkg],
+	loader: async () => {
+		await loadMail();
+		await expireAndSaveMail();
+	},
+} as Package;
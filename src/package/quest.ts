@@ -0,0 +1,277 @@
+/**
+ * Package: quest - YAML loader for quest definitions.
+ *
+ * Loads quest definitions from `data/quests`, normalizes them into immutable
+ * quest definitions, and registers them in the global quest registry.
+ * Files beginning with `_` are ignored.
+ *
+ * @example
+ * // data/quests/zombie-cleanup.yaml
+ * quest:
+ *   id: zombie-cleanup
+ *   name: Zombie Cleanup
+ *   description: Clear the zombies out of the tower.
+ *   minLevel: 1
+ *   prerequisites: []
+ *   objectives:
+ *     - type: kill
+ *       target: "@tower:zombie"
+ *       count: 3
+ *   rewards:
+ *     experience: 100
+ *     gold: 50
+ *     items: ["@tower:haversack"]
+ *
+ * Quest givers are declared on mob templates with `quests: [zombie-cleanup]`.
+ *
+ * @module package/quest
+ */
+import { extname, join, relative } from "path";
+import { access, readdir, readFile } from "fs/promises";
+import YAML from "js-yaml";
+import { Package } from "package-loader";
+import logger from "../logger.js";
+import { getSafeRootDirectory } from "../utils/path.js";
+import {
+	QuestDefinition,
+	QuestObjective,
+	QuestRewards,
+	QUEST_OBJECTIVE_TYPE,
+} from "../core/quest.js";
+import {
+	registerQuest,
+	getAllQuests,
+	getQuestById,
+	getQuestCount,
+} from "../registry/quest.js";
+
+const ROOT_DIRECTORY = getSafeRootDirectory();
+const DATA_DIRECTORY = join(ROOT_DIRECTORY, "data");
+const QUESTS_DIRECTORY = join(DATA_DIRECTORY, "quests");
+const VALID_EXTENSIONS = new Set([".yaml", ".yml"]);
+
+type RawQuestFile = {
+	quest?: {
+		id?: unknown;
+		name?: unknown;
+		description?: unknown;
+		minLevel?: unknown;
+		maxLevel?: unknown;
+		prerequisites?: unknown;
+		repeatable?: unknown;
+		objectives?: Array<unknown>;
+		rewards?: Record<string, unknown>;
+		completionMessage?: unknown;
+	};
+};
+
+function shouldProcessFile(fileName: string): boolean {
+	if (!fileName) return false;
+	if (fileName.startsWith("_")) return false;
+	return VALID_EXTENSIONS.has(extname(fileName).toLowerCase());
+}
+
+function coerceNumber(value: unknown, fallback = 0): number {
+	const result = Number(value);
+	return Number.isFinite(result) ? result : fallback;
+}
+
+function coerceString(value: unknown): string | undefined {
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function normalizeStringList(raw: unknown): string[] {
+	if (raw === undefined || raw === null) return [];
+	const list = Array.isArray(raw) ? raw : [raw];
+	return list
+		.map((entry) => String(entry ?? "").trim())
+		.filter((value) => value.length > 0);
+}
+
+function normalizeObjective(
+	raw: unknown,
+	questId: string
+): QuestObjective | undefined {
+	if (!raw || typeof raw !== "object") return undefined;
+	const candidate = raw as Record<string, unknown>;
+	const type = String(candidate.type ?? "").toLowerCase();
+	const validTypes = new Set<string>(Object.values(QUEST_OBJECTIVE_TYPE));
+	if (!validTypes.has(type)) {
+		logger.warn(
+			`Quest "${questId}" has objective with unknown type "${candidate.type}". Skipping.`
+		);
+		return undefined;
+	}
+
+	const objective: QuestObjective = {
+		type: type as QUEST_OBJECTIVE_TYPE,
+		target: coerceString(candidate.target),
+		item: coerceString(candidate.item),
+		room: coerceString(candidate.room),
+		count: Math.max(1, Math.floor(coerceNumber(candidate.count, 1))),
+		description: coerceString(candidate.description),
+		...(candidate.consume !== undefined && {
+			consume: candidate.consume !== false,
+		}),
+	};
+
+	const missing =
+		(objective.type === QUEST_OBJECTIVE_TYPE.KILL && !objective.target) ||
+		(objective.type === QUEST_OBJECTIVE_TYPE.COLLECT && !objective.item) ||
+		(objective.type === QUEST_OBJECTIVE_TYPE.DELIVER &&
+			(!objective.item || !objective.target)) ||
+		(objective.type === QUEST_OBJECTIVE_TYPE.VISIT && !objective.room);
+	if (missing) {
+		logger.warn(
+			`Quest "${questId}" has ${objective.type} objective missing required fields. Skipping.`
+		);
+		return undefined;
+	}
+
+	return Object.freeze(objective);
+}
+
+function normalizeRewards(raw?: Record<string, unknown>): QuestRewards {
+	if (!raw || typeof raw !== "object") return Object.freeze({});
+	const experience = Math.max(0, Math.floor(coerceNumber(raw.experience)));
+	const gold = Math.max(0, Math.floor(coerceNumber(raw.gold)));
+	const items = normalizeStringList(raw.items);
+	return Object.freeze({
+		...(experience > 0 && { experience }),
+		...(gold > 0 && { gold }),
+		...(items.length > 0 && { items: Object.freeze(items) }),
+	});
+}
+
+function parseQuestFile(
+	raw: string,
+	filePath: string
+): QuestDefinition | undefined {
+	try {
+		const data = YAML.load(raw) as RawQuestFile;
+		const quest = data?.quest;
+		if (!quest) {
+			logger.warn(
+				`Skipping quest file without 'quest' root: ${relative(
+					ROOT_DIRECTORY,
+					filePath
+				)}`
+			);
+			return undefined;
+		}
+
+		const id = String(quest.id ?? "").trim();
+		const name = String(quest.name ?? "").trim();
+		if (!id || !name) {
+			logger.warn(
+				`Skipping quest missing required fields (id, name): ${relative(
+					ROOT_DIRECTORY,
+					filePath
+				)}`
+			);
+			return undefined;
+		}
+
+		const objectives = (quest.objectives ?? [])
+			.map((entry) => normalizeObjective(entry, id))
+			.filter((entry): entry is QuestObjective => entry !== undefined);
+		if (objectives.length === 0) {
+			logger.warn(
+				`Skipping quest "${id}" with no valid objectives: ${relative(
+					ROOT_DIRECTORY,
+					filePath
+				)}`
+			);
+			return undefined;
+		}
+
+		const maxLevel =
+			quest.maxLevel !== undefined
+				? Math.max(1, Math.floor(coerceNumber(quest.maxLevel, 1)))
+				: undefined;
+
+		return Object.freeze({
+			id,
+			name,
+			description: coerceString(quest.description),
+			minLevel: Math.max(1, Math.floor(coerceNumber(quest.minLevel, 1))),
+			...(maxLevel !== undefined && { maxLevel }),
+			prerequisites: Object.freeze(normalizeStringList(quest.prerequisites)),
+			repeatable: quest.repeatable === true,
+			objectives: Object.freeze(objectives),
+			rewards: normalizeRewards(quest.rewards),
+			completionMessage: coerceString(quest.completionMessage),
+		});
+	} catch (error) {
+		logger.error(
+			`Failed to parse quest file ${relative(
+				ROOT_DIRECTORY,
+				filePath
+			)}: ${error}`
+		);
+		return undefined;
+	}
+}
+
+/**
+ * Verify that all quest prerequisites reference known quests.
+ * Logs warnings for any missing references.
+ */
+function validatePrerequisites(): void {
+	for (const quest of getAllQuests()) {
+		for (const prerequisite of quest.prerequisites) {
+			if (!getQuestById(prerequisite)) {
+				logger.warn(
+					`Quest "${quest.id}" references missing prerequisite: "${prerequisite}"`
+				);
+			}
+		}
+	}
+}
+
+async function loadDirectory(directory: string): Promise<number> {
+	const entries = await readdir(directory, { withFileTypes: true });
+	let count = 0;
+
+	for (const entry of entries) {
+		if (!entry.isFile()) continue;
+		if (!shouldProcessFile(entry.name)) continue;
+
+		const filePath = join(directory, entry.name);
+		const raw = await readFile(filePath, "utf-8");
+		const quest = parseQuestFile(raw, filePath);
+		if (!quest) continue;
+
+		registerQuest(quest);
+		logger.debug(`Loaded and registered quest: ${quest.id} (${quest.name})`, {
+			id: quest.id,
+			name: quest.name,
+			filePath: relative(ROOT_DIRECTORY, filePath),
+		});
+		count++;
+	}
+
+	return count;
+}
+
+export default {
+	name: "quest",
+	loader: async () => {
+		logger.debug(
+			`Loading quests from ${relative(ROOT_DIRECTORY, QUESTS_DIRECTORY)}...`
+		);
+		await logger.block("quests", async () => {
+			try {
+				await access(QUESTS_DIRECTORY);
+			} catch {
+				logger.debug("No quests directory found, skipping quest load");
+				return;
+			}
+			await loadDirectory(QUESTS_DIRECTORY);
+			validatePrerequisites();
+		});
+		logger.info(`Loaded ${getQuestCount()} quest(s).`);
+	},
+} as Package;
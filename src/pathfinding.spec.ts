@@ -1,7 +1,13 @@
 import assert from "node:assert";
 import { suite, test } from "node:test";
 
-import { Dungeon, Room, RoomLink } from "./core/dungeon.js";
+import {
+	Dungeon,
+	Room,
+	RoomLink,
+	DOOR_STATE,
+	createDoor,
+} from "./core/dungeon.js";
 import {
 	findDirectionsBetweenRooms,
 	findDirectionsViaRefs,
@@ -144,3 +150,85 @@ suite("pathfinding - cache", () => {
 		assert.deepStrictEqual(suffix, dirs!.slice(2));
 	});
 });
+
+suite("pathfinding - doors", () => {
+	test("closed doors block paths and opening them restores the route", () => {
+		clearPathCache();
+		const D = Dungeon.generateEmptyDungeon({
+			id: "door-test",
+			dimensions: { width: 5, height: 1, layers: 1 },
+		});
+		const start = D.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		const middle = D.getRoom({ x: 2, y: 0, z: 0 }) as Room;
+		const goal = D.getRoom({ x: 4, y: 0, z: 0 }) as Room;
+
+		// Prime the cache before the door exists
+		const before = findDirectionsBetweenRooms(start, goal);
+		assert(before && before.length === 4);
+
+		const door = createDoor({ name: "gate", state: "closed" });
+		middle.setDoor(DIRECTION.EAST, door);
+		const east = middle.getStep(DIRECTION.EAST) as Room;
+		assert.strictEqual(east.getDoor(DIRECTION.WEST), door);
+
+		assert.strictEqual(findDirectionsBetweenRooms(start, goal), undefined);
+
+		door.state = DOOR_STATE.OPEN;
+		const after = findDirectionsBetweenRooms(start, goal);
+		assert(after && after.length === 4);
+	});
+
+	test("doors are shared across two-way room links", () => {
+		const A = Dungeon.generateEmptyDungeon({
+			id: "door-link-a",
+			dimensions: { width: 1, height: 1, layers: 1 },
+		});
+		const B = Dungeon.generateEmptyDungeon({
+			id: "door-link-b",
+			dimensions: { width: 1, height: 1, layers: 1 },
+		});
+		const roomA = A.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		const roomB = B.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		createTunnel(roomA, DIRECTION.NORTH, roomB);
+
+		const door = createDoor({ state: "locked" });
+		roomB.setDoor(DIRECTION.SOUTH, door);
+		assert.strictEqual(roomA.getDoor(DIRECTION.NORTH), door);
+		assert.strictEqual(roomA.isDoorClosed(DIRECTION.NORTH), true);
+
+		door.state = DOOR_STATE.OPEN;
+		assert.strictEqual(roomA.isDoorClosed(DIRECTION.NORTH), false);
+		assert.strictEqual(A.resetDoors() + B.resetDoors(), 1);
+		assert.strictEqual(door.state, DOOR_STATE.LOCKED);
+	});
+
+	test("closed doors block gateways between dungeons", () => {
+		clearPathCache();
+		clearDungeonGraphCache();
+		const A = Dungeon.generateEmptyDungeon({
+			id: "door-gateway-a",
+			dimensions: { width: 2, height: 1, layers: 1 },
+		});
+		const B = Dungeon.generateEmptyDungeon({
+			id: "door-gateway-b",
+			dimensions: { width: 2, height: 1, layers: 1 },
+		});
+		registerDungeonInstance(A);
+		registerDungeonInstance(B);
+		const start = A.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		const gateway = A.getRoom({ x: 1, y: 0, z: 0 }) as Room;
+		const arrival = B.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		const goal = B.getRoom({ x: 1, y: 0, z: 0 }) as Room;
+		createTunnel(gateway, DIRECTION.NORTH, arrival);
+
+		const door = createDoor({ name: "portcullis", state: "locked" });
+		gateway.setDoor(DIRECTION.NORTH, door);
+		assert.strictEqual(findDirectionsBetweenRooms(start, goal), undefined);
+
+		door.state = DOOR_STATE.OPEN;
+		assert.deepStrictEqual(
+			findDirectionsBetweenRooms(start, goal)?.map(dir2text),
+			["east", "north", "east"]
+		);
+	});
+});
@@ -117,7 +117,8 @@ class MinHeap<T> {
 
 /**
  * A* pathfinding across dungeon rooms. Neighbor expansion uses room.getStep(dir)
- * so allowedExits and RoomLinks are respected automatically.
+ * so allowedExits and RoomLinks are respected automatically. Exits blocked by
+ * closed or locked doors are not expanded.
  */
 export function findPathAStar(
 	start: Room,
@@ -164,6 +165,7 @@ export function findPathAStar(
 		}
 
 		for (const dir of DIRECTIONS) {
+			if (current.isDoorClosed(dir)) continue;
 			const neighbor = current.getStep(dir);
 			if (!neighbor) continue;
 			if (!passableFn(neighbor)) continue;
@@ -219,6 +221,32 @@ type DungeonGraph = Map<string, DungeonEdge[]>;
 
 let DUNGEON_GRAPH_CACHE: DungeonGraph | null = null;
 
+/**
+ * Finds the direction of the exit from one room that leads directly to another.
+ * Exits behind closed or locked doors are ignored.
+ */
+function findOpenExitTo(from: Room, to: Room): DIRECTION | undefined {
+	for (const d of DIRECTIONS) {
+		if (from.isDoorClosed(d)) continue;
+		if (from.getStep(d) === to) return d;
+	}
+	return undefined;
+}
+
+/**
+ * Checks whether a gateway can currently be crossed. The dungeon graph is
+ * cached, so door state is checked when it is used rather than when it is built.
+ */
+function isGatewayOpen(gateway: {
+	fromRoomRef: string;
+	toRoomRef: string;
+}): boolean {
+	const from = getRoomByRef(gateway.fromRoomRef);
+	const to = getRoomByRef(gateway.toRoomRef);
+	if (!from || !to) return false;
+	return findOpenExitTo(from, to) !== undefined;
+}
+
 /**
  * Builds a graph of dungeons connected by RoomLinks, discovering gateways by
  * scanning each room's neighbors via getStep().
@@ -315,6 +343,7 @@ export function findPathAcrossDungeons(
 		const d = queue.shift()!;
 		const edges = graph.get(d) || [];
 		for (const e of edges) {
+			if (!e.via.some(isGatewayOpen)) continue;
 			if (!parent.has(e.toDungeonId)) {
 				parent.set(e.toDungeonId, d);
 				queue.push(e.toDungeonId);
@@ -344,8 +373,9 @@ export function findPathAcrossDungeons(
 		const toId = chain[i + 1];
 		const edges = graph.get(fromId) || [];
 		const e = edges.find((x) => x.toDungeonId === toId);
-		if (!e || e.via.length === 0) return undefined;
-		const gw = selectGateway(e.via);
+		const open = e?.via.filter(isGatewayOpen) ?? [];
+		if (open.length === 0) return undefined;
+		const gw = selectGateway(open);
 		hops.push({
 			fromDungeonId: fromId,
 			toDungeonId: toId,
@@ -375,13 +405,7 @@ export function findPathAcrossDungeons(
 		const toGwIn = getRoomByRef(firstHop.toRoomRef);
 		if (!toGwIn) return undefined;
 		// Discover the direction by probing getStep
-		let linkDir: DIRECTION | undefined;
-		for (const d of DIRECTIONS) {
-			if (gwRoom.getStep(d) === toGwIn) {
-				linkDir = d;
-				break;
-			}
-		}
+		const linkDir = findOpenExitTo(gwRoom, toGwIn);
 		// If direction known, append the hop
 		if (linkDir) {
 			totalRooms.push(toGwIn);
@@ -400,13 +424,7 @@ export function findPathAcrossDungeons(
 		if (!fromGwOut || !toGwIn) return undefined;
 
 		// Step across the inter-dungeon link: from gateway(out) -> gateway(in)
-		let linkDir: DIRECTION | undefined;
-		for (const d of DIRECTIONS) {
-			if (fromGwOut.getStep(d) === toGwIn) {
-				linkDir = d;
-				break;
-			}
-		}
+		const linkDir = findOpenExitTo(fromGwOut, toGwIn);
 		if (linkDir) {
 			// Avoid duplicating if last appended room already equals toGwIn
 			const lastRoom = totalRooms[totalRooms.length - 1];
@@ -595,6 +613,10 @@ export function cachePathResult(result: PathResult): void {
 	}
 }
 
+/**
+ * Returns the cached path between two rooms, ignoring paths that have since
+ * been blocked by a door closing along the way.
+ */
 export function getCachedPathResult(
 	start: Room,
 	goal: Room
@@ -602,7 +624,12 @@ export function getCachedPathResult(
 	const fromRef = makeRoomRef(start);
 	const toRef = makeRoomRef(goal);
 	const inner = PATH_CACHE.get(fromRef);
-	return inner?.get(toRef);
+	const cached = inner?.get(toRef);
+	if (!cached) return undefined;
+	for (let i = 0; i < cached.directions.length; i++) {
+		if (cached.rooms[i].isDoorClosed(cached.directions[i])) return undefined;
+	}
+	return cached;
 }
 
 export function getCachedDirections(
@@ -0,0 +1,229 @@
+import { test, suite, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { Dungeon, Item, Mob, MobTemplate, Room } from "./core/dungeon.js";
+import { Character } from "./core/character.js";
+import { CommandContext } from "./core/command.js";
+import { Job, Race } from "./core/archetype.js";
+import { QUEST_OBJECTIVE_TYPE, QuestDefinition } from "./core/quest.js";
+import { registerDungeonInstance } from "./package/dungeon.js";
+import { clearQuests, registerQuest } from "./registry/quest.js";
+import {
+	acceptQuest,
+	getQuestObjectiveProgress,
+	getQuestTurnInGiver,
+} from "./quest.js";
+import { command as QUEST } from "./commands/quest.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+let dungeonCount = 0;
+let characterCount = 0;
+
+suite("quest.ts", () => {
+	let dungeonId: string;
+	let giverRoom: Room;
+	let otherRoom: Room;
+	let player: Mob;
+	let character: Character;
+	let quest: QuestDefinition;
+
+	function boneId(): string {
+		return `@${dungeonId}:bone`;
+	}
+
+	function createBone(): Item {
+		return new Item({ display: "a bone", templateId: boneId() });
+	}
+
+	function runQuest(input: Record<string, string>, room: Room = giverRoom) {
+		const context: CommandContext = { actor: player, room };
+		QUEST.execute(context, new Map(Object.entries(input)));
+	}
+
+	beforeEach(() => {
+		dungeonId = `quest-test-${dungeonCount++}`;
+		const dungeon = Dungeon.generateEmptyDungeon({
+			id: dungeonId,
+			dimensions: { width: 2, height: 1, layers: 1 },
+		});
+		registerDungeonInstance(dungeon);
+		giverRoom = dungeon.getRoom({ x: 0, y: 0, z: 0 }) as Room;
+		otherRoom = dungeon.getRoom({ x: 1, y: 0, z: 0 }) as Room;
+
+		quest = registerQuest({
+			id: `bones-${dungeonId}`,
+			name: "Bone Collector",
+			minLevel: 1,
+			prerequisites: [],
+			repeatable: false,
+			objectives: [
+				{ type: QUEST_OBJECTIVE_TYPE.COLLECT, item: boneId(), count: 2 },
+			],
+			rewards: { gold: 25 },
+		});
+
+		const giverTemplate: MobTemplate = {
+			id: `@${dungeonId}:gravedigger`,
+			type: "Mob",
+			display: "a gravedigger",
+			quests: [quest.id],
+		};
+		dungeon.addTemplate(giverTemplate);
+		const giver = new Mob({
+			display: "a gravedigger",
+			keywords: "gravedigger",
+			templateId: `@${dungeonId}:gravedigger`,
+			race: testRace,
+			job: testJob,
+		});
+		giverRoom.add(giver);
+
+		player = new Mob({
+			display: "Player",
+			keywords: "player",
+			race: testRace,
+			job: testJob,
+		});
+		character = new Character({
+			credentials: {
+				username: `quester-${characterCount}`,
+				characterId: characterCount++,
+			},
+			mob: player,
+		});
+		giverRoom.add(player);
+		acceptQuest(character, quest);
+	});
+
+	afterEach(() => {
+		clearQuests();
+	});
+
+	test("collect objectives count items inside carried containers", () => {
+		const sack = new Item({ display: "a sack", isContainer: true });
+		player.add(sack);
+		sack.add(createBone());
+		player.add(createBone());
+
+		const progress = character.quests.active.get(quest.id)!;
+		assert.strictEqual(
+			getQuestObjectiveProgress(player, progress, 0, quest.objectives[0]),
+			2
+		);
+	});
+
+	test("picking up a container of quest items reports progress", () => {
+		const messages: string[] = [];
+		player.sendMessage = ((text: string) => {
+			messages.push(text);
+		}) as typeof player.sendMessage;
+
+		const sack = new Item({ display: "a sack", isContainer: true });
+		sack.add(createBone());
+		sack.add(createBone());
+		otherRoom.add(sack);
+		player.add(sack);
+
+		assert.ok(
+			messages.some((text) => text.includes("Return to the quest giver")),
+			`Expected a ready message, got: ${messages.join(" | ")}`
+		);
+	});
+
+	test("finished quests wait to be turned in", () => {
+		player.add(createBone());
+		player.add(createBone());
+
+		assert.ok(character.quests.active.has(quest.id));
+		assert.strictEqual(character.quests.completed.has(quest.id), false);
+	});
+
+	test("turning in at the giver completes the quest", () => {
+		const sack = new Item({ display: "a sack", isContainer: true });
+		player.add(sack);
+		sack.add(createBone());
+		player.add(createBone());
+		const gold = player.value ?? 0;
+
+		runQuest({ action: "turnin" });
+
+		assert.strictEqual(character.quests.active.has(quest.id), false);
+		assert.ok(character.quests.completed.has(quest.id));
+		assert.strictEqual(player.value, gold + 25);
+		assert.strictEqual(sack.contents.length, 0);
+		assert.strictEqual(
+			player.contents.filter((obj) => obj.templateId === boneId()).length,
+			0
+		);
+	});
+
+	test("only item templates are handed out as rewards", () => {
+		const dungeon = giverRoom.dungeon!;
+		dungeon.addTemplate({
+			id: `@${dungeonId}:shovel`,
+			type: "Item",
+			display: "a shovel",
+		});
+		dungeon.addTemplate({
+			id: `@${dungeonId}:headstone`,
+			type: "Prop",
+			display: "a headstone",
+		});
+		registerQuest({
+			...quest,
+			rewards: { items: [`@${dungeonId}:shovel`, `@${dungeonId}:headstone`] },
+		});
+		player.add(createBone());
+		player.add(createBone());
+
+		runQuest({ action: "turnin" });
+
+		assert.ok(character.quests.completed.has(quest.id));
+		assert.deepStrictEqual(
+			player.contents.map((obj) => obj.display),
+			["a shovel"]
+		);
+	});
+
+	test("quests can't be turned in away from the giver", () => {
+		player.add(createBone());
+		player.add(createBone());
+		otherRoom.add(player);
+
+		assert.strictEqual(getQuestTurnInGiver(otherRoom, quest.id), undefined);
+		runQuest({ action: "turnin", quest: "bone" }, otherRoom);
+
+		assert.ok(character.quests.active.has(quest.id));
+	});
+
+	test("unfinished quests are not turned in", () => {
+		player.add(createBone());
+
+		runQuest({ action: "turnin" });
+
+		assert.ok(character.quests.active.has(quest.id));
+		assert.strictEqual(player.contents.length, 1);
+	});
+});
@@ -0,0 +1,514 @@
+/**
+ * Quest system for tracking objectives and granting rewards.
+ *
+ * Quest definitions live in the quest registry. Characters accept quests from
+ * quest-giver mobs (mob templates with a `quests` list) and progress is
+ * advanced by a hook called from combat (kills) and by listeners on
+ * `dungeonEvents` for room entry (visits) and item transfer (collecting and
+ * delivering). Once every objective is met the quest is turned in to a mob
+ * offering it, at which point its rewards are granted.
+ *
+ * @module quest
+ */
+
+import { Character, MESSAGE_GROUP } from "./core/character.js";
+import { COLOR, color } from "./core/color.js";
+import {
+	DungeonObject,
+	Item,
+	Mob,
+	MobTemplate,
+	Room,
+	dungeonEvents,
+} from "./core/dungeon.js";
+import {
+	QuestDefinition,
+	QuestObjective,
+	QuestProgress,
+	QUEST_OBJECTIVE_TYPE,
+	createQuestProgress,
+} from "./core/quest.js";
+import { getQuestById } from "./registry/quest.js";
+import { getRoomByRef, resolveTemplateById } from "./registry/dungeon.js";
+import { createFromTemplateWithOid } from "./package/dungeon.js";
+import logger from "./logger.js";
+
+/**
+ * A quest offered by a mob in a room.
+ */
+export interface QuestOffer {
+	quest: QuestDefinition;
+	giver: Mob;
+}
+
+/**
+ * Resolve the display name of a template, falling back to its ID.
+ */
+function templateDisplay(templateId: string | undefined): string {
+	if (!templateId) return "something";
+	return resolveTemplateById(templateId)?.display ?? templateId;
+}
+
+/**
+ * Get every item inside an object, including the contents of containers.
+ */
+function getNestedItems(container: DungeonObject): Item[] {
+	const found: Item[] = [];
+	for (const obj of container.contents) {
+		if (!(obj instanceof Item)) continue;
+		found.push(obj, ...getNestedItems(obj));
+	}
+	return found;
+}
+
+/**
+ * Find the items a mob carries that were created from a template, including
+ * items inside carried containers.
+ */
+function findCarriedItems(mob: Mob, templateId: string): Item[] {
+	return getNestedItems(mob).filter((item) => item.templateId === templateId);
+}
+
+/**
+ * Count the items a mob carries that were created from a template.
+ */
+function countInventoryItems(mob: Mob, templateId: string): number {
+	return findCarriedItems(mob, templateId).length;
+}
+
+/**
+ * Find the mob carrying an object, looking through any containers it is in.
+ */
+function getCarrier(obj: DungeonObject | undefined): Mob | undefined {
+	let current = obj;
+	while (current instanceof Item) current = current.location;
+	return current instanceof Mob ? current : undefined;
+}
+
+/**
+ * Describe a quest objective in plain text.
+ *
+ * @param objective The objective to describe
+ * @returns The objective's description, or one generated from its fields
+ */
+export function describeQuestObjective(objective: QuestObjective): string {
+	if (objective.description) return objective.description;
+	switch (objective.type) {
+		case QUEST_OBJECTIVE_TYPE.KILL:
+			return `Kill ${templateDisplay(objective.target)}`;
+		case QUEST_OBJECTIVE_TYPE.COLLECT:
+			return `Collect ${templateDisplay(objective.item)}`;
+		case QUEST_OBJECTIVE_TYPE.DELIVER:
+			return `Deliver ${templateDisplay(objective.item)} to ${templateDisplay(
+				objective.target
+			)}`;
+		case QUEST_OBJECTIVE_TYPE.VISIT: {
+			const room = objective.room ? getRoomByRef(objective.room) : undefined;
+			return `Visit ${room?.display ?? objective.room}`;
+		}
+	}
+}
+
+/**
+ * Get the current progress towards an objective.
+ * Collect objectives are measured against the character's current inventory
+ * (including the contents of carried containers);
+ * all other objectives use the stored progress counts.
+ *
+ * @param mob The character's mob
+ * @param progress The quest progress
+ * @param index Index of the objective in the quest definition
+ * @param objective The objective
+ * @returns Progress, capped at the objective's required count
+ */
+export function getQuestObjectiveProgress(
+	mob: Mob,
+	progress: QuestProgress,
+	index: number,
+	objective: QuestObjective
+): number {
+	const current =
+		objective.type === QUEST_OBJECTIVE_TYPE.COLLECT
+			? countInventoryItems(mob, objective.item!)
+			: progress.counts[index] ?? 0;
+	return Math.min(current, objective.count);
+}
+
+/**
+ * Check whether every objective of a quest has been met.
+ *
+ * @param mob The character's mob
+ * @param quest The quest definition
+ * @param progress The quest progress
+ * @returns true if the quest is ready to complete
+ */
+export function isQuestComplete(
+	mob: Mob,
+	quest: QuestDefinition,
+	progress: QuestProgress
+): boolean {
+	return quest.objectives.every(
+		(objective, index) =>
+			getQuestObjectiveProgress(mob, progress, index, objective) >=
+			objective.count
+	);
+}
+
+/**
+ * Check whether a character may accept a quest.
+ *
+ * @param character The character accepting the quest
+ * @param quest The quest definition
+ * @returns A reason the quest can't be accepted, or undefined if it can
+ */
+export function getQuestAcceptError(
+	character: Character,
+	quest: QuestDefinition
+): string | undefined {
+	const mob = character.mob;
+	if (!mob) return "You cannot accept quests right now.";
+	if (character.quests.active.has(quest.id)) {
+		return "You are already on that quest.";
+	}
+	if (character.quests.completed.has(quest.id) && !quest.repeatable) {
+		return "You have already completed that quest.";
+	}
+	if (mob.level < quest.minLevel) {
+		return `You must be at least level ${quest.minLevel} to accept that quest.`;
+	}
+	if (quest.maxLevel !== undefined && mob.level > quest.maxLevel) {
+		return "You are too experienced for that quest.";
+	}
+	for (const prerequisite of quest.prerequisites) {
+		if (!character.quests.completed.has(prerequisite)) {
+			const required = getQuestById(prerequisite);
+			return `You must first complete ${required?.name ?? prerequisite}.`;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Get the quests offered by mobs in a room.
+ * Quest givers are mobs whose template declares a `quests` list.
+ *
+ * @param room The room to search
+ * @returns Quests offered in the room along with the mob offering them
+ */
+export function getQuestOffers(room: Room): QuestOffer[] {
+	const offers: QuestOffer[] = [];
+	const seen = new Set<string>();
+	for (const obj of room.contents) {
+		if (!(obj instanceof Mob) || obj.character || !obj.templateId) continue;
+		const template = resolveTemplateById(obj.templateId);
+		if (!template || template.type !== "Mob") continue;
+		for (const questId of (template as MobTemplate).quests ?? []) {
+			if (seen.has(questId)) continue;
+			const quest = getQuestById(questId);
+			if (!quest) {
+				logger.warn(
+					`Mob template "${template.id}" offers unknown quest "${questId}"`
+				);
+				continue;
+			}
+			seen.add(questId);
+			offers.push({ quest, giver: obj });
+		}
+	}
+	return offers;
+}
+
+/**
+ * Accept a quest, starting progress tracking for it.
+ * Callers should check `getQuestAcceptError` first.
+ *
+ * @param character The character accepting the quest
+ * @param quest The quest to accept
+ */
+export function acceptQuest(character: Character, quest: QuestDefinition): void {
+	character.quests.active.set(quest.id, createQuestProgress(quest));
+	character.sendMessage(
+		`You accept the quest ${color(quest.name, COLOR.YELLOW)}.`,
+		MESSAGE_GROUP.INFO
+	);
+
+	// Items already being carried count towards collect objectives
+	const mob = character.mob;
+	const progress = character.quests.active.get(quest.id)!;
+	if (mob && isQuestComplete(mob, quest, progress)) {
+		notifyQuestReady(character, quest);
+	}
+}
+
+/**
+ * Abandon an active quest, discarding its progress.
+ *
+ * @param character The character abandoning the quest
+ * @param questId The quest to abandon
+ * @returns true if the quest was active
+ */
+export function abandonQuest(character: Character, questId: string): boolean {
+	return character.quests.active.delete(questId);
+}
+
+/**
+ * Grant a quest's rewards to a character.
+ */
+function grantQuestRewards(character: Character, quest: QuestDefinition) {
+	const mob = character.mob;
+	if (!mob) return;
+	const { experience, gold, items } = quest.rewards;
+
+	if (experience) {
+		const gained = mob.gainExperience(experience);
+		if (gained > 0) {
+			character.sendMessage(
+				`You gain ${color(String(gained), COLOR.CYAN)} experience!`,
+				MESSAGE_GROUP.INFO
+			);
+		}
+	}
+
+	if (gold) {
+		mob.value = (mob.value ?? 0) + gold;
+		character.sendMessage(
+			`You receive ${color(String(gold), COLOR.YELLOW)} gold.`,
+			MESSAGE_GROUP.INFO
+		);
+	}
+
+	for (const templateId of items ?? []) {
+		const template = resolveTemplateById(templateId);
+		if (!template) {
+			logger.warn(
+				`Quest "${quest.id}" rewards unknown item template "${templateId}"`
+			);
+			continue;
+		}
+		const item = createFromTemplateWithOid(template);
+		if (!(item instanceof Item)) {
+			logger.warn(
+				`Quest "${quest.id}" rewards "${templateId}", which is not an item`
+			);
+			item.destroy();
+			continue;
+		}
+		mob.add(item);
+		character.sendMessage(
+			`You receive ${item.display}.`,
+			MESSAGE_GROUP.INFO
+		);
+	}
+}
+
+/**
+ * Tell a character that a quest is ready to be turned in.
+ */
+function notifyQuestReady(character: Character, quest: QuestDefinition) {
+	character.sendMessage(
+		`You have met every objective of ${color(
+			quest.name,
+			COLOR.YELLOW
+		)}. Return to the quest giver to turn it in.`,
+		MESSAGE_GROUP.INFO
+	);
+}
+
+/**
+ * Find a mob in a room that will take a quest turn-in.
+ * Any mob offering the quest accepts it back.
+ *
+ * @param room The room to search
+ * @param questId The quest being turned in
+ * @returns The mob accepting the quest, or undefined if nobody here offers it
+ */
+export function getQuestTurnInGiver(
+	room: Room,
+	questId: string
+): Mob | undefined {
+	return getQuestOffers(room).find((offer) => offer.quest.id === questId)
+		?.giver;
+}
+
+/**
+ * Complete a quest if all of its objectives have been met.
+ * Consumes collected items, records the completion and grants rewards.
+ * Callers are responsible for checking the quest giver is present.
+ *
+ * @param character The character turning the quest in
+ * @param questId The quest to complete
+ * @returns true if the quest was completed
+ */
+export function completeQuest(character: Character, questId: string): boolean {
+	const mob = character.mob;
+	const progress = character.quests.active.get(questId);
+	const quest = getQuestById(questId);
+	if (!mob || !progress || !quest) return false;
+	if (!isQuestComplete(mob, quest, progress)) return false;
+
+	// Remove from the active list first so item changes below can't re-enter
+	character.quests.active.delete(questId);
+	character.quests.completed.add(questId);
+
+	for (const objective of quest.objectives) {
+		if (objective.type !== QUEST_OBJECTIVE_TYPE.COLLECT) continue;
+		if (objective.consume === false) continue;
+		const items = findCarriedItems(mob, objective.item!).slice(
+			0,
+			objective.count
+		);
+		for (const item of items) item.destroy();
+	}
+
+	character.sendMessage(
+		`You have completed the quest ${color(quest.name, COLOR.YELLOW)}!`,
+		MESSAGE_GROUP.INFO
+	);
+	if (quest.completionMessage) {
+		character.sendMessage(quest.completionMessage, MESSAGE_GROUP.INFO);
+	}
+	grantQuestRewards(character, quest);
+	return true;
+}
+
+/**
+ * Apply a progress update to every active quest objective that matches.
+ *
+ * @param character The character whose quests should advance
+ * @param matches Predicate selecting the objectives to advance
+ * @param advance Whether to increment the stored count (collect objectives are measured live)
+ */
+function advanceQuests(
+	character: Character,
+	matches: (objective: QuestObjective) => boolean,
+	advance: boolean
+): void {
+	const mob = character.mob;
+	if (!mob) return;
+
+	for (const progress of Array.from(character.quests.active.values())) {
+		const quest = getQuestById(progress.questId);
+		if (!quest) continue;
+
+		const wasComplete = isQuestComplete(mob, quest, progress);
+		let changed = false;
+		quest.objectives.forEach((objective, index) => {
+			if (!matches(objective)) return;
+			const before = getQuestObjectiveProgress(mob, progress, index, objective);
+			if (advance) {
+				if (before >= objective.count) return;
+				progress.counts[index] = before + 1;
+			} else if (countInventoryItems(mob, objective.item!) > objective.count) {
+				// Already had enough; nothing new to report
+				return;
+			}
+			const after = getQuestObjectiveProgress(mob, progress, index, objective);
+			changed = true;
+			character.sendMessage(
+				`Quest progress: ${color(
+					quest.name,
+					COLOR.YELLOW
+				)} - ${describeQuestObjective(objective)} (${after}/${
+					objective.count
+				})`,
+				MESSAGE_GROUP.INFO
+			);
+		});
+
+		if (changed && !wasComplete && isQuestComplete(mob, quest, progress)) {
+			notifyQuestReady(character, quest);
+		}
+	}
+}
+
+/**
+ * Quest hook: a mob was killed.
+ * Called from `handleDeath` to advance kill objectives.
+ *
+ * @param killer The mob credited with the kill
+ * @param victim The mob that died
+ */
+export function onQuestMobKilled(killer: Mob, victim: Mob): void {
+	const character = killer.character;
+	if (!character || !victim.templateId) return;
+	advanceQuests(
+		character,
+		(objective) =>
+			objective.type === QUEST_OBJECTIVE_TYPE.KILL &&
+			objective.target === victim.templateId,
+		true
+	);
+}
+
+/**
+ * Quest hook: a mob entered a room.
+ * Listens for `dungeonEvents` "room-entered" to advance visit objectives.
+ *
+ * @param mob The mob that entered
+ * @param room The room entered
+ */
+export function onQuestRoomEntered(mob: Mob, room: Room): void {
+	const character = mob.character;
+	if (!character || character.quests.active.size === 0) return;
+	const roomRef = room.getRoomRef();
+	if (!roomRef) return;
+	advanceQuests(
+		character,
+		(objective) =>
+			objective.type === QUEST_OBJECTIVE_TYPE.VISIT &&
+			objective.room === roomRef,
+		true
+	);
+}
+
+/**
+ * Quest hook: an item changed containers.
+ * Listens for `dungeonEvents` "item-moved" to advance collect objectives when
+ * a character receives an item (directly or inside a container), and deliver
+ * objectives when a character gives an item to a non-player mob.
+ *
+ * @param item The item that moved
+ * @param from The item's previous container
+ * @param to The item's new container
+ */
+export function onQuestItemTransferred(
+	item: Item,
+	from: DungeonObject | undefined,
+	to: DungeonObject | undefined
+): void {
+	const receiver = getCarrier(to);
+	if (receiver?.character && receiver !== getCarrier(from)) {
+		const character = receiver.character;
+		if (character.quests.active.size === 0) return;
+		// A container brings its contents along with it
+		const templateIds = new Set(
+			[item, ...getNestedItems(item)].map((obj) => obj.templateId)
+		);
+		advanceQuests(
+			character,
+			(objective) =>
+				objective.type === QUEST_OBJECTIVE_TYPE.COLLECT &&
+				templateIds.has(objective.item),
+			false
+		);
+		return;
+	}
+
+	if (!item.templateId) return;
+
+	if (from instanceof Mob && from.character && to instanceof Mob) {
+		const character = from.character;
+		if (character.quests.active.size === 0) return;
+		advanceQuests(
+			character,
+			(objective) =>
+				objective.type === QUEST_OBJECTIVE_TYPE.DELIVER &&
+				objective.item === item.templateId &&
+				objective.target === to.templateId,
+			true
+		);
+	}
+}
+
+dungeonEvents.on("room-entered", onQuestRoomEntered);
+dungeonEvents.on("item-moved", onQuestItemTransferred);
@@ -0,0 +1,97 @@
+/**
+ * Registry: ban - active account and IP bans
+ *
+ * Holds the bans currently in force. The list is loaded and saved by the ban
+ * package; expired bans are dropped whenever the list is read.
+ *
+ * @module registry/ban
+ */
+
+import { Ban, BAN_TYPE, addressMatchesBan, isBanExpired } from "../core/ban.js";
+
+/** Bans in force, in the order they were placed. */
+const BANS: Ban[] = [];
+
+function sameTarget(ban: Ban, type: BAN_TYPE, target: string): boolean {
+	return ban.type === type && ban.target.toLowerCase() === target.toLowerCase();
+}
+
+/**
+ * Drop bans that have run out.
+ *
+ * @param now The time to check against (defaults to now)
+ * @returns true if any ban was removed
+ */
+export function pruneExpiredBans(now: Date = new Date()): boolean {
+	const before = BANS.length;
+	for (let i = BANS.length - 1; i >= 0; i--) {
+		if (isBanExpired(BANS[i], now)) BANS.splice(i, 1);
+	}
+	return BANS.length !== before;
+}
+
+/**
+ * Get every ban still in force.
+ *
+ * @returns A copy of the ban list
+ */
+export function getBans(): Ban[] {
+	pruneExpiredBans();
+	return [...BANS];
+}
+
+/**
+ * Replace the ban list (used by the ban package on load).
+ *
+ * @param bans The bans to keep
+ */
+export function setBans(bans: Ban[]): void {
+	BANS.splice(0, BANS.length, ...bans);
+	pruneExpiredBans();
+}
+
+/**
+ * Place a ban. An existing ban on the same target is replaced.
+ *
+ * @param ban The ban to add
+ */
+export function addBan(ban: Ban): void {
+	removeBan(ban.type, ban.target);
+	BANS.push(ban);
+}
+
+/**
+ * Lift a ban.
+ *
+ * @param type The kind of ban
+ * @param target Account username or CIDR block (case-insensitive)
+ * @returns true if a ban was removed
+ */
+export function removeBan(type: BAN_TYPE, target: string): boolean {
+	const index = BANS.findIndex((ban) => sameTarget(ban, type, target));
+	if (index === -1) return false;
+	BANS.splice(index, 1);
+	return true;
+}
+
+/**
+ * Find the ban in force on an account, if any.
+ *
+ * @param username The account username (case-insensitive)
+ * @returns The ban, or undefined if the account may log in
+ */
+export function findAccountBan(username: string): Ban | undefined {
+	pruneExpiredBans();
+	return BANS.find((ban) => sameTarget(ban, BAN_TYPE.ACCOUNT, username));
+}
+
+/**
+ * Find the IP ban covering a client address, if any.
+ *
+ * @param address Client address as given by `MudClient.getAddress()`
+ * @returns The ban, or undefined if the address may connect
+ */
+export function findAddressBan(address: string): Ban | undefined {
+	pruneExpiredBans();
+	return BANS.find((ban) => addressMatchesBan(address, ban));
+}
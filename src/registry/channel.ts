@@ -0,0 +1,74 @@
+/**
+ * Registry: channel - communication channel definitions
+ *
+ * Holds the channels players can talk on, keyed by id. Starts out with the
+ * built-in defaults so the game works before (or without) the channel
+ * package; the package replaces them with `data/channels.yaml` on load.
+ *
+ * @module registry/channel
+ */
+
+import {
+	ChannelDefinition,
+	ChannelId,
+	DEFAULT_CHANNEL_DEFINITIONS,
+	normalizeChannelId,
+} from "../core/channel.js";
+
+const CHANNELS = new Map<ChannelId, ChannelDefinition>(
+	DEFAULT_CHANNEL_DEFINITIONS.map((channel) => [channel.id, channel])
+);
+
+/**
+ * Replace the known channels (used by the channel package on load).
+ *
+ * @param channels The channels, in display order
+ */
+export function setChannels(channels: readonly ChannelDefinition[]): void {
+	CHANNELS.clear();
+	for (const channel of channels) CHANNELS.set(channel.id, channel);
+}
+
+/**
+ * Get every known channel, in display order.
+ *
+ * @returns The channels
+ */
+export function getChannels(): ChannelDefinition[] {
+	return [...CHANNELS.values()];
+}
+
+/**
+ * Get a channel by id.
+ *
+ * @param id The channel id
+ * @returns The channel, or undefined if it isn't defined
+ */
+export function getChannel(id: ChannelId): ChannelDefinition | undefined {
+	return CHANNELS.get(id);
+}
+
+/**
+ * Find a channel by id or tag, ignoring case.
+ *
+ * @param name What the player typed
+ * @returns The channel, or undefined if nothing matches
+ */
+export function findChannel(name: string): ChannelDefinition | undefined {
+	const normalized = normalizeChannelId(name);
+	return (
+		CHANNELS.get(normalized) ??
+		getChannels().find((channel) => channel.tag.toLowerCase() === normalized)
+	);
+}
+
+/**
+ * Get the ids of the channels new characters start subscribed to.
+ *
+ * @returns The default channel ids
+ */
+export function getDefaultChannelIds(): ChannelId[] {
+	return getChannels()
+		.filter((channel) => channel.subscribedByDefault)
+		.map((channel) => channel.id);
+}
@@ -17,6 +17,10 @@ import { Character } from "../core/character.js";
 import { Mob, Room } from "../core/dungeon.js";
 import { MESSAGE_GROUP } from "../core/character.js";
 import logger from "../logger.js";
+import { act } from "../act.js";
+import { recordAudit } from "../audit.js";
+import { AUDIT_OUTCOME } from "../core/audit.js";
+import { CROWD_CONTROL } from "../core/crowd-control.js";
 
 /**
  * Entry in the action queue for commands with cooldowns.
@@ -27,6 +31,22 @@ export interface ActionQueueEntry {
 	args: Map<string, any>;
 	cooldownMs: number;
 	enqueuedAt: number;
+	/** Time spent casting before the command executes (0 or undefined for none) */
+	castTimeMs?: number;
+}
+
+/**
+ * A cast in progress. The command executes when the timer fires unless the
+ * cast is interrupted first.
+ */
+export interface CastState {
+	input: string;
+	command: Command;
+	args: Map<string, any>;
+	timer: NodeJS.Timeout;
+	completesAt: number;
+	/** Called after the cast is interrupted (e.g. to resume the action queue) */
+	onInterrupt?: () => void;
 }
 
 /**
@@ -37,11 +57,15 @@ export interface ActionState {
 	cooldownTimer?: NodeJS.Timeout;
 	cooldownExpiresAt?: number;
 	isProcessing: boolean;
+	casting?: CastState;
 }
 
 /** Registered commands */
 const commands: Command[] = [];
 
+/** Casts in progress for mobs without a character (NPCs) */
+const npcCasts = new Map<Mob, CastState>();
+
 /**
  * Register a command in the registry.
  *
@@ -125,6 +149,10 @@ export function unregisterCommand(command: Command): void {
  * messages and usage information. If onError() is not implemented, no error message
  * is displayed (you should implement onError() to guide users).
  *
+ * Commands that require a permission are recorded in the audit log (see
+ * `audit.ts`) with their outcome, including rejected arguments. Queued and
+ * cast commands are recorded when they finally execute.
+ *
  * Empty input is handled gracefully and returns false without trying
  * any commands, allowing you to distinguish between "no input" and
  * "invalid command".
@@ -153,13 +181,8 @@ export function executeCommand(
 
 	// Commands are already sorted by priority and pattern length
 	for (const command of commands) {
-		// Skip admin-only commands for non-admin characters
-		if (command.adminOnly) {
-			const character = context.actor.character;
-			if (!character || !character.isAdmin()) {
-				continue;
-			}
-		}
+		// Skip commands the actor's role doesn't permit
+		if (!command.canUse(context.actor)) continue;
 
 		// Skip ability commands if the actor doesn't know the ability
 		if (command instanceof AbilityCommand) {
@@ -169,11 +192,32 @@ export function executeCommand(
 		}
 		const result = command.parse(input, context);
 		if (result.success) {
+			if (isStunnedFor(command, context.actor)) {
+				context.actor.sendMessage(
+					"You are stunned and cannot act!",
+					MESSAGE_GROUP.COMMAND_RESPONSE
+				);
+				return true;
+			}
+			if (
+				command instanceof AbilityCommand &&
+				(command.isIncapacitated(context) || command.isSilenced(context))
+			) {
+				return true;
+			}
 			const cooldownMs = command.getActionCooldownMs(context, result.args) ?? 0;
-			if (cooldownMs > 0) {
-				handleActionCommand(input, command, context, result.args, cooldownMs);
+			const castTimeMs = command.getCastTimeMs(context, result.args) ?? 0;
+			if (cooldownMs > 0 || castTimeMs > 0) {
+				handleActionCommand(
+					input,
+					command,
+					context,
+					result.args,
+					cooldownMs,
+					castTimeMs
+				);
 			} else {
-				command.execute(context, result.args);
+				runCommand(input, command, context, result.args);
 			}
 			return true;
 		}
@@ -185,6 +229,13 @@ export function executeCommand(
 		) {
 			// Check if command has a meaningful error handler
 			if (command.onError) {
+				if (command.requiredPermission) {
+					void recordAudit({
+						...getAuditDetails(input, context),
+						outcome: AUDIT_OUTCOME.INVALID,
+						error: result.error,
+					});
+				}
 				command.onError(context, result);
 				return true;
 			}
@@ -196,6 +247,91 @@ export function executeCommand(
 	return false;
 }
 
+/** Arguments that name what a privileged command is aimed at, in order of preference */
+const AUDIT_TARGET_ARGUMENTS = ["target", "player", "cidr"];
+
+/**
+ * Collect the audit log fields shared by every outcome of a command.
+ */
+function getAuditDetails(
+	input: string,
+	context: CommandContext,
+	args?: Map<string, any>
+) {
+	const character = context.actor.character;
+	let target: string | undefined;
+	for (const name of AUDIT_TARGET_ARGUMENTS) {
+		const value = args?.get(name);
+		if (value instanceof Character) target = value.credentials.username;
+		else if (value instanceof Mob) target = value.display;
+		else if (typeof value === "string" && value) target = value;
+		if (target) break;
+	}
+	return {
+		actor: character?.credentials.username ?? context.actor.display,
+		...(target && { target }),
+		command: input,
+		...(character?.session?.client && {
+			address: character.session.client.getAddress(),
+		}),
+	};
+}
+
+/**
+ * Execute a command, auditing it if it needs a permission.
+ */
+function runCommand(
+	input: string,
+	command: Command,
+	context: CommandContext,
+	args: Map<string, any>
+): void {
+	if (command.requiredPermission) executeAudited(input, command, context, args);
+	else command.execute(context, args);
+}
+
+/**
+ * Execute a privileged command and record it in the audit log once it has
+ * finished (asynchronous commands are recorded when their promise settles).
+ * The outcome is whatever the command reported on its context, or a success
+ * if it reported nothing.
+ */
+function executeAudited(
+	input: string,
+	command: Command,
+	context: CommandContext,
+	args: Map<string, any>
+): void {
+	const details = getAuditDetails(input, context, args);
+	const auditContext: CommandContext = { ...context, outcome: undefined };
+	const finish = () => {
+		const { outcome } = auditContext;
+		void recordAudit({
+			...details,
+			outcome: outcome?.result ?? AUDIT_OUTCOME.SUCCESS,
+			...(outcome && { error: outcome.error }),
+		});
+	};
+	const fail = (error: unknown) => {
+		logger.error(`Command "${input}" failed: ${error}`);
+		void recordAudit({
+			...details,
+			outcome: AUDIT_OUTCOME.FAILURE,
+			error: String(error),
+		});
+	};
+
+	let result: unknown;
+	try {
+		result = command.execute(auditContext, args);
+	} catch (error) {
+		fail(error);
+		throw error;
+	}
+	if (result instanceof Promise) result.then(finish, fail);
+	else finish();
+}
+
 /**
  * Get all registered commands.
  *
@@ -231,6 +367,204 @@ export function getCommands(): Command[] {
 	return [...commands];
 }
 
+/**
+ * Casts a command on behalf of a mob without a character (an NPC).
+ *
+ * NPCs don't have an action queue, so the cast is tracked separately but
+ * follows the same rules as player casts: it announces itself, executes when
+ * the cast time elapses and is cancelled by {@link interruptCast}.
+ *
+ * @param command - The command being cast
+ * @param context - The execution context
+ * @param args - Parsed command arguments
+ * @param castTimeMs - How long the cast takes
+ * @returns true if the cast started, false if the mob is already casting or can't use or afford the ability
+ */
+export function castForMob(
+	command: Command,
+	context: CommandContext,
+	args: Map<string, any>,
+	castTimeMs: number
+): boolean {
+	const actor = context.actor;
+	if (isCasting(actor)) return false;
+	if (
+		command instanceof AbilityCommand &&
+		(command.isIncapacitated(context) ||
+			command.isSilenced(context) ||
+			!command.canAfford(context))
+	) {
+		return false;
+	}
+
+	announceCast(actor, command);
+	npcCasts.set(actor, {
+		input: command.pattern,
+		command,
+		args,
+		completesAt: Date.now() + castTimeMs,
+		timer: setTimeout(() => {
+			npcCasts.delete(actor);
+			try {
+				command.execute(buildContextFromActor(actor), args);
+			} catch (error) {
+				logger.error(
+					`Failed to complete cast "${command.pattern}" for ${actor.display}: ${error}`
+				);
+			}
+		}, castTimeMs),
+	});
+	return true;
+}
+
+/**
+ * Gets the cast a mob currently has in progress.
+ *
+ * @param actor - The mob to check
+ * @returns The cast in progress, or undefined if the mob isn't casting
+ */
+export function getCast(actor: Mob): CastState | undefined {
+	return actor.character?.actionState?.casting ?? npcCasts.get(actor);
+}
+
+/**
+ * Checks whether a mob is currently casting.
+ *
+ * @param actor - The mob to check
+ * @returns true if the mob has a cast in progress
+ */
+export function isCasting(actor: Mob): boolean {
+	return getCast(actor) !== undefined;
+}
+
+/**
+ * Interrupts a mob's cast in progress. The cast's command never executes and
+ * no cost is paid. Called when a caster takes damage.
+ *
+ * @param actor - The mob whose cast to interrupt
+ * @returns true if a cast was interrupted
+ *
+ * @example
+ * ```typescript
+ * target.damage(attacker, amount);
+ * interruptCast(target);
+ * ```
+ */
+export function interruptCast(actor: Mob): boolean {
+	const cast = endCast(actor);
+	if (!cast) return false;
+
+	const name = describeCast(cast.command);
+	if (actor.location instanceof Room) {
+		act(
+			{
+				user: `Your ${name} is interrupted!`,
+				room: `{User}'s ${name} is interrupted!`,
+			},
+			{ user: actor, room: actor.location },
+			{ messageGroup: MESSAGE_GROUP.COMBAT }
+		);
+	}
+
+	cast.onInterrupt?.();
+	return true;
+}
+
+/**
+ * Cancels a mob's cast in progress at their own request (e.g. the `cancel`
+ * command). Behaves like an interruption without the combat messaging.
+ *
+ * @param actor - The mob whose cast to cancel
+ * @returns true if a cast was cancelled
+ */
+export function cancelCast(actor: Mob): boolean {
+	const cast = endCast(actor);
+	if (!cast) return false;
+
+	actor.sendMessage(
+		`You stop casting ${describeCast(cast.command)}.`,
+		MESSAGE_GROUP.COMMAND_RESPONSE
+	);
+	cast.onInterrupt?.();
+	return true;
+}
+
+/**
+ * Drops everything a mob has in progress: its cast (without executing it),
+ * its queued actions and any running cooldown. Used when the mob dies, is
+ * destroyed or its player leaves the game so no timer fires for it later.
+ *
+ * @param actor - The mob whose actions to clear
+ * @param character - The mob's character, for callers that have already
+ * detached it from the mob
+ *
+ * @example
+ * ```typescript
+ * clearActions(deadMob);
+ * ```
+ */
+export function clearActions(
+	actor: Mob,
+	character: Character | undefined = actor.character
+): void {
+	const npcCast = npcCasts.get(actor);
+	if (npcCast) {
+		clearTimeout(npcCast.timer);
+		npcCasts.delete(actor);
+	}
+
+	const state = character?.actionState;
+	if (!state) return;
+	if (state.casting) {
+		clearTimeout(state.casting.timer);
+		state.casting = undefined;
+	}
+	if (state.cooldownTimer) {
+		clearTimeout(state.cooldownTimer);
+		state.cooldownTimer = undefined;
+	}
+	state.cooldownExpiresAt = undefined;
+	state.queue.length = 0;
+}
+
+/**
+ * Adds a command to the end of a character's action queue without parsing
+ * input. Used by commands that schedule follow-up actions of their own, such
+ * as `travel` queueing one step at a time. The entry runs immediately if
+ * nothing else is queued, casting or cooling down.
+ *
+ * @param context - The context of the actor whose queue to use
+ * @param command - The command to execute when the entry is reached
+ * @param args - Arguments passed to the command
+ * @param cooldownMs - Cooldown started after the command executes
+ * @returns true if the action was queued, false if the actor has no character
+ *
+ * @example
+ * ```typescript
+ * queueAction(context, stepCommand, new Map([["direction", DIRECTION.NORTH]]), 100);
+ * ```
+ */
+export function queueAction(
+	context: CommandContext,
+	command: Command,
+	args: Map<string, any>,
+	cooldownMs: number
+): boolean {
+	const character = context.actor.character;
+	if (!character) return false;
+
+	const state = getActionState(character);
+	state.queue.push({
+		input: command.pattern,
+		command,
+		args: new Map(args),
+		cooldownMs,
+		enqueuedAt: Date.now(),
+	});
+	tryProcessActionQueue(context.actor, character, state, context);
+	return true;
+}
+
 // Private helper functions for action queue management
 
 function handleActionCommand(
@@ -238,19 +572,27 @@ function handleActionCommand(
 	command: Command,
 	context: CommandContext,
 	args: Map<string, any>,
-	cooldownMs: number
+	cooldownMs: number,
+	castTimeMs: number
 ): void {
 	const actor = context.actor;
 	const character = actor.character;
 
 	if (!character) {
+		if (castTimeMs > 0) {
+			castForMob(command, context, args, castTimeMs);
+			return;
+		}
 		command.execute(context, args);
 		return;
 	}
 
 	const state = getActionState(character);
 	const wasQueued =
-		state.queue.length > 0 || state.isProcessing || !!state.cooldownTimer;
+		state.queue.length > 0 ||
+		state.isProcessing ||
+		!!state.cooldownTimer ||
+		!!state.casting;
 
 	const entry: ActionQueueEntry = {
 		input,
@@ -258,6 +600,7 @@ function handleActionCommand(
 		args: new Map(args),
 		cooldownMs,
 		enqueuedAt: Date.now(),
+		...(castTimeMs > 0 && { castTimeMs }),
 	};
 
 	state.queue.push(entry);
@@ -284,20 +627,43 @@ function tryProcessActionQueue(
 	state: ActionState,
 	contextOverride?: CommandContext
 ): void {
-	if (state.isProcessing || state.cooldownTimer) {
+	if (state.isProcessing || state.cooldownTimer || state.casting) {
 		return;
 	}
 
-	const nextEntry = state.queue.shift();
+	const nextEntry = state.queue[0];
 	if (!nextEntry) {
 		return;
 	}
 
-	state.isProcessing = true;
+	// Stunned actors wait out the stun before their queue resumes
+	if (isStunnedFor(nextEntry.command, actor)) {
+		beginCooldown(
+			actor,
+			character,
+			state,
+			actor.getCrowdControlRemaining(CROWD_CONTROL.STUN)
+		);
+		return;
+	}
+	state.queue.shift();
+
 	const executionContext = contextOverride ?? buildContextFromActor(actor);
 
+	if ((nextEntry.castTimeMs ?? 0) > 0) {
+		beginCast(actor, character, state, nextEntry, executionContext);
+		return;
+	}
+
+	state.isProcessing = true;
+
 	try {
-		nextEntry.command.execute(executionContext, nextEntry.args);
+		runCommand(
+			nextEntry.input,
+			nextEntry.command,
+			executionContext,
+			nextEntry.args
+		);
 	} catch (error) {
 		logger.error(
 			`Failed to execute action command "${nextEntry.command.pattern}" for ${actor.display}: ${error}`
@@ -306,13 +672,113 @@ function tryProcessActionQueue(
 		state.isProcessing = false;
 	}
 
-	beginCooldown(actor, character, state, nextEntry.cooldownMs);
+	beginCooldown(
+		actor,
+		character,
+		state,
+		getSlowedCooldown(actor, nextEntry.cooldownMs)
+	);
 
 	if (!contextOverride) {
 		character.showPrompt();
 	}
 }
 
+function beginCast(
+	actor: Mob,
+	character: Character,
+	state: ActionState,
+	entry: ActionQueueEntry,
+	context: CommandContext
+): void {
+	const { command, args } = entry;
+	const castTimeMs = entry.castTimeMs ?? 0;
+
+	// Don't waste the cast time if the ability can't be used anyway
+	if (
+		command instanceof AbilityCommand &&
+		(command.isIncapacitated(context) ||
+			command.isSilenced(context) ||
+			!command.canAfford(context))
+	) {
+		beginCooldown(actor, character, state, 0);
+		return;
+	}
+
+	announceCast(actor, command);
+	state.casting = {
+		input: entry.input,
+		command,
+		args,
+		completesAt: Date.now() + castTimeMs,
+		timer: setTimeout(() => {
+			state.casting = undefined;
+			state.isProcessing = true;
+			try {
+				runCommand(entry.input, command, buildContextFromActor(actor), args);
+			} catch (error) {
+				logger.error(
+					`Failed to complete cast "${command.pattern}" for ${actor.display}: ${error}`
+				);
+			} finally {
+				state.isProcessing = false;
+			}
+			beginCooldown(
+				actor,
+				character,
+				state,
+				getSlowedCooldown(actor, entry.cooldownMs)
+			);
+			character.showPrompt();
+		}, castTimeMs),
+		onInterrupt: () => beginCooldown(actor, character, state, 0),
+	};
+}
+
+function endCast(actor: Mob): CastState | undefined {
+	const cast = getCast(actor);
+	if (!cast) return undefined;
+	clearTimeout(cast.timer);
+	const state = actor.character?.actionState;
+	if (state?.casting === cast) state.casting = undefined;
+	npcCasts.delete(actor);
+	return cast;
+}
+
+function describeCast(command: Command): string {
+	return command instanceof AbilityCommand
+		? command.ability.name
+		: command.pattern;
+}
+
+function announceCast(actor: Mob, command: Command): void {
+	if (!(actor.location instanceof Room)) return;
+	const name = describeCast(command);
+	act(
+		{
+			user: `You begin casting ${name}...`,
+			room: `{User} begins casting ${name}.`,
+		},
+		{ user: actor, room: actor.location },
+		{ messageGroup: MESSAGE_GROUP.COMBAT }
+	);
+}
+
+/**
+ * Checks whether a stun stops an actor from using a command.
+ */
+function isStunnedFor(command: Command, actor: Mob): boolean {
+	if (command.allowWhileStunned || command.requiredPermission) return false;
+	return actor.hasCrowdControl(CROWD_CONTROL.STUN);
+}
+
+/**
+ * Stretches a cooldown by the actor's slows.
+ */
+function getSlowedCooldown(actor: Mob, cooldownMs: number): number {
+	return Math.round(cooldownMs * actor.getCooldownMultiplier());
+}
+
 function beginCooldown(
 	actor: Mob,
 	character: Character,
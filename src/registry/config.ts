@@ -15,13 +15,24 @@ export const CONFIG_DEFAULT: Config = {
 	game: {
 		name: "mud3",
 		creator: "jackindisguise",
+		mail_postage: 10,
+		mail_postage_per_item: 5,
+		mail_max_attachments: 5,
+		mail_mailbox_size: 50,
+		mail_expiry_days: 30,
 	},
 	server: {
 		port: 23,
 		inactivity_timeout: 1800,
+		linkdead_timeout: 300,
 	},
 	security: {
 		password_salt: "changeme_default_salt_12345",
+		login_max_failures: 5,
+		login_lockout: 60,
+		login_lockout_max: 3600,
+		max_connections_per_address: 5,
+		max_connections_per_minute: 20,
 	},
 } as const;
 
@@ -38,15 +49,38 @@ const READONLY_CONFIG: DeepReadonly<Config> = CONFIG;
 export type GameConfig = {
 	name: string;
 	creator: string;
+	/** Gold charged for sending a letter */
+	mail_postage: number;
+	/** Extra gold charged for each attached item */
+	mail_postage_per_item: number;
+	/** Most items one letter may carry */
+	mail_max_attachments: number;
+	/** Most letters a mailbox holds before it refuses new mail */
+	mail_mailbox_size: number;
+	/** Days a letter waits before going back to its sender (0 to keep forever) */
+	mail_expiry_days: number;
 };
 
 export type ServerConfig = {
 	port: number;
 	inactivity_timeout: number;
+	/** Seconds a disconnected player stays in the world before being logged out */
+	linkdead_timeout: number;
 };
 
 export type SecurityConfig = {
+	/** Global salt of legacy SHA-256 password hashes; new hashes are salted per user */
 	password_salt: string;
+	/** Failed logins in a row before an address or account name is locked out */
+	login_max_failures: number;
+	/** Seconds of the first lockout; each later lockout doubles */
+	login_lockout: number;
+	/** Longest a lockout may last, in seconds */
+	login_lockout_max: number;
+	/** Simultaneous connections allowed from one address (0 for no limit) */
+	max_connections_per_address: number;
+	/** New connections allowed from one address per minute (0 for no limit) */
+	max_connections_per_minute: number;
 };
 
 export type Config = {
@@ -75,14 +75,25 @@ export const getHelpfileRegistry: () => ReadonlyMap<string, Helpfile> = () => {
 	return helpRegistry;
 };
 
+/**
+ * Optional predicate that limits lookups to helpfiles a reader may see.
+ */
+export type HelpfileFilter = (helpfile: Helpfile) => boolean;
+
 /**
  * Look up a helpfile by keyword or alias.
  *
  * @param keyword - The keyword or alias to search for (case-insensitive)
+ * @param filter - Optional predicate; helpfiles it rejects are not found
  * @returns The helpfile if found, undefined otherwise
  */
-export function getHelpfile(keyword: string): Helpfile | undefined {
-	return helpRegistry.get(keyword.toLowerCase());
+export function getHelpfile(
+	keyword: string,
+	filter?: HelpfileFilter
+): Helpfile | undefined {
+	const helpfile = helpRegistry.get(keyword.toLowerCase());
+	if (helpfile && filter && !filter(helpfile)) return undefined;
+	return helpfile;
 }
 
 /**
@@ -93,6 +104,7 @@ export function getHelpfile(keyword: string): Helpfile | undefined {
  * and sorted alphabetically by primary keyword. The search is case-insensitive.
  *
  * @param search - The search string to match against (case-insensitive)
+ * @param filter - Optional predicate; helpfiles it rejects are left out
  * @returns Array of matching helpfiles, sorted by primary keyword
  *
  * @example
@@ -102,11 +114,15 @@ export function getHelpfile(keyword: string): Helpfile | undefined {
  * autocompleteHelpfile("fi")  // Returns: [combatHelpfile] (matched via "fight" alias)
  * autocompleteHelpfile("")    // Returns: all helpfiles
  */
-export function autocompleteHelpfile(search: string): Helpfile[] {
+export function autocompleteHelpfile(
+	search: string,
+	filter?: HelpfileFilter
+): Helpfile[] {
 	const searchLower = search.toLowerCase();
 	const matchedHelpfiles = new Set<Helpfile>();
 
 	for (const [key, helpfile] of helpRegistry.entries()) {
+		if (filter && !filter(helpfile)) continue;
 		if (key.startsWith(searchLower)) {
 			matchedHelpfiles.add(helpfile);
 		}
@@ -142,6 +158,7 @@ export interface SearchResults {
  * The search is case-insensitive.
  *
  * @param search - The search term (case-insensitive)
+ * @param filter - Optional predicate; helpfiles it rejects are left out
  * @returns SearchResults object with categorized matches
  *
  * @example
@@ -151,7 +168,10 @@ export interface SearchResults {
  * // results.related might contain: [combatHelpfile] (if combat has related: ["attack"])
  * // results.content might contain: [weaponsHelpfile] (if content mentions "attack")
  */
-export function searchHelpfiles(search: string): SearchResults {
+export function searchHelpfiles(
+	search: string,
+	filter?: HelpfileFilter
+): SearchResults {
 	const searchLower = search.toLowerCase();
 	const keywordMatches = new Set<Helpfile>();
 	const aliasMatches = new Set<Helpfile>();
@@ -162,6 +182,8 @@ export function searchHelpfiles(search: string): SearchResults {
 
 	// Search through all unique helpfiles
 	for (const helpfile of new Set(helpRegistry.values())) {
+		if (filter && !filter(helpfile)) continue;
+
 		// Match keyword
 		if (helpfile.keyword.startsWith(searchLower)) {
 			keywordMatches.add(helpfile);
@@ -0,0 +1,152 @@
+/**
+ * Registry: lockout - failed login counters
+ *
+ * Tracks failed logins per client address and per account name, and which of
+ * them are locked out. The records are loaded and saved by the lockout
+ * package; thresholds come from the `security` section of the config.
+ *
+ * @module registry/lockout
+ */
+
+import {
+	isLockedOut,
+	isLoginFailureStale,
+	LOCKOUT_TYPE,
+	LockoutPolicy,
+	LoginFailureRecord,
+	recordLoginFailure,
+} from "../core/lockout.js";
+import { getAddressIp } from "../core/ban.js";
+import { CONFIG } from "./config.js";
+
+/** Failure records keyed by `type:key`. */
+const LOGIN_FAILURES = new Map<string, LoginFailureRecord>();
+
+/**
+ * Normalize an address or account name into a record key.
+ */
+function normalizeKey(type: LOCKOUT_TYPE, key: string): string {
+	return type === LOCKOUT_TYPE.ADDRESS
+		? getAddressIp(key)
+		: key.trim().toLowerCase();
+}
+
+function mapKey(type: LOCKOUT_TYPE, key: string): string {
+	return `${type}:${key}`;
+}
+
+/**
+ * Get the lockout thresholds from the config.
+ *
+ * @returns The current lockout policy
+ */
+export function getLockoutPolicy(): LockoutPolicy {
+	return {
+		maxFailures: CONFIG.security.login_max_failures,
+		baseLockoutMs: CONFIG.security.login_lockout * 1000,
+		maxLockoutMs: CONFIG.security.login_lockout_max * 1000,
+	};
+}
+
+/**
+ * Drop records that are neither locked nor recent.
+ *
+ * @param now The time to check against (defaults to now)
+ * @returns true if any record was removed
+ */
+export function pruneLoginFailures(now: Date = new Date()): boolean {
+	const policy = getLockoutPolicy();
+	let pruned = false;
+	for (const [key, record] of LOGIN_FAILURES) {
+		if (isLoginFailureStale(record, policy, now)) {
+			LOGIN_FAILURES.delete(key);
+			pruned = true;
+		}
+	}
+	return pruned;
+}
+
+/**
+ * Get every failure record still being tracked.
+ *
+ * @returns The records
+ */
+export function getLoginFailures(): LoginFailureRecord[] {
+	pruneLoginFailures();
+	return [...LOGIN_FAILURES.values()];
+}
+
+/**
+ * Get the records that are currently locked out.
+ *
+ * @param now The time to check against (defaults to now)
+ * @returns The locked records
+ */
+export function getLockouts(now: Date = new Date()): LoginFailureRecord[] {
+	return getLoginFailures().filter((record) => isLockedOut(record, now));
+}
+
+/**
+ * Replace the failure records (used by the lockout package on load).
+ *
+ * @param records The records to keep
+ */
+export function setLoginFailures(records: LoginFailureRecord[]): void {
+	LOGIN_FAILURES.clear();
+	for (const record of records) {
+		LOGIN_FAILURES.set(mapKey(record.type, record.key), record);
+	}
+	pruneLoginFailures();
+}
+
+/**
+ * Count a failed login against an address or account name.
+ *
+ * @param type What the key is
+ * @param key Client address or account name
+ * @param now The time of the failure (defaults to now)
+ * @returns The updated record; check `lockedUntil` to see if it just locked
+ */
+export function addLoginFailure(
+	type: LOCKOUT_TYPE,
+	key: string,
+	now: Date = new Date()
+): LoginFailureRecord {
+	const normalized = normalizeKey(type, key);
+	const record = recordLoginFailure(
+		LOGIN_FAILURES.get(mapKey(type, normalized)),
+		getLockoutPolicy(),
+		type,
+		normalized,
+		now
+	);
+	LOGIN_FAILURES.set(mapKey(type, normalized), record);
+	return record;
+}
+
+/**
+ * Forget the failures counted against an address or account name, lifting
+ * any lockout.
+ *
+ * @param type What the key is
+ * @param key Client address or account name
+ * @returns true if a record was removed
+ */
+export function clearLoginFailures(type: LOCKOUT_TYPE, key: string): boolean {
+	return LOGIN_FAILURES.delete(mapKey(type, normalizeKey(type, key)));
+}
+
+/**
+ * Find the lockout in force on an address or account name, if any.
+ *
+ * @param type What the key is
+ * @param key Client address or account name
+ * @returns The locked record, or undefined if logins are allowed
+ */
+export function findLockout(
+	type: LOCKOUT_TYPE,
+	key: string
+): LoginFailureRecord | undefined {
+	const record = LOGIN_FAILURES.get(mapKey(type, normalizeKey(type, key)));
+	return isLockedOut(record) ? record : undefined;
+}
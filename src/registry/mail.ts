@@ -0,0 +1,163 @@
+/**
+ * Registry: mail - letters waiting in player mailboxes
+ *
+ * Holds every letter that hasn't been deleted, with any gold and items in
+ * escrow. The letters are loaded and saved by the mail package; postage and
+ * limits come from the `game` section of the config.
+ *
+ * @module registry/mail
+ */
+
+import {
+	createReturnedMail,
+	isMailExpired,
+	MailMessage,
+	MailPolicy,
+	shouldReturnMail,
+	hasAttachments,
+} from "../core/mail.js";
+import { CONFIG } from "./config.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Letters keyed by ID. */
+const MAIL = new Map<number, MailMessage>();
+
+let nextMailId = 1;
+
+/**
+ * Get the mail rules from the config.
+ *
+ * @returns The current mail policy
+ */
+export function getMailPolicy(): MailPolicy {
+	return {
+		postage: CONFIG.game.mail_postage,
+		postagePerItem: CONFIG.game.mail_postage_per_item,
+		maxAttachments: CONFIG.game.mail_max_attachments,
+		mailboxSize: CONFIG.game.mail_mailbox_size,
+		expiryMs: CONFIG.game.mail_expiry_days * DAY_MS,
+	};
+}
+
+/**
+ * Get every letter, oldest first.
+ *
+ * @returns The letters
+ */
+export function getAllMail(): MailMessage[] {
+	return [...MAIL.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Get the ID the next letter will receive.
+ */
+export function getNextMailId(): number {
+	return nextMailId;
+}
+
+/**
+ * Replace the letters (used by the mail package on load).
+ *
+ * @param mail The letters to keep
+ * @param nextId The ID the next letter will receive
+ */
+export function setMail(mail: MailMessage[], nextId: number): void {
+	MAIL.clear();
+	for (const letter of mail) MAIL.set(letter.id, letter);
+	const highest = mail.reduce((max, letter) => Math.max(max, letter.id), 0);
+	nextMailId = Math.max(nextId, highest + 1);
+}
+
+/**
+ * Get the letters addressed to a player, oldest first.
+ *
+ * @param username The recipient
+ * @returns The player's letters
+ */
+export function getMailbox(username: string): MailMessage[] {
+	const to = username.toLowerCase();
+	return getAllMail().filter((letter) => letter.to === to);
+}
+
+/**
+ * Get one letter from a player's mailbox.
+ *
+ * @param username The recipient
+ * @param id The letter ID
+ * @returns The letter, or undefined if the player has no such letter
+ */
+export function getMail(username: string, id: number): MailMessage | undefined {
+	const letter = MAIL.get(id);
+	return letter && letter.to === username.toLowerCase() ? letter : undefined;
+}
+
+/**
+ * Count the letters a player hasn't read yet.
+ *
+ * @param username The recipient
+ * @returns Unread letter count
+ */
+export function countUnreadMail(username: string): number {
+	return getMailbox(username).filter((letter) => !letter.read).length;
+}
+
+/**
+ * Check whether a player's mailbox is too full for new mail.
+ *
+ * @param username The recipient
+ * @returns true if new letters should be refused
+ */
+export function isMailboxFull(username: string): boolean {
+	return getMailbox(username).length >= getMailPolicy().mailboxSize;
+}
+
+/**
+ * Put a letter in its recipient's mailbox.
+ *
+ * @param mail The letter, without an ID
+ * @returns The delivered letter
+ */
+export function addMail(mail: Omit<MailMessage, "id">): MailMessage {
+	const letter: MailMessage = { ...mail, id: nextMailId++ };
+	MAIL.set(letter.id, letter);
+	return letter;
+}
+
+/**
+ * Remove a letter.
+ *
+ * @param id The letter ID
+ * @returns true if the letter existed
+ */
+export function removeMail(id: number): boolean {
+	return MAIL.delete(id);
+}
+
+/**
+ * Send expired letters back to their senders, and delete the ones that
+ * can't or needn't go back.
+ *
+ * @param now The time to check against (defaults to now)
+ * @returns The letters created by returning mail, and whether anything changed
+ */
+export function expireMail(now: Date = new Date()): {
+	returned: MailMessage[];
+	changed: boolean;
+} {
+	const policy = getMailPolicy();
+	const returned: MailMessage[] = [];
+	let changed = false;
+	for (const letter of getAllMail()) {
+		if (!isMailExpired(letter, policy, now)) continue;
+		if (shouldReturnMail(letter)) {
+			MAIL.delete(letter.id);
+			returned.push(addMail(createReturnedMail(letter, now)));
+			changed = true;
+		} else if (!hasAttachments(letter)) {
+			MAIL.delete(letter.id);
+			changed = true;
+		}
+	}
+	return { returned, changed };
+}
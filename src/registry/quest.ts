@@ -0,0 +1,67 @@
+/**
+ * Registry: quest - centralized quest definition access
+ *
+ * Provides a centralized location for accessing registered quests.
+ * The registry is populated by the quest package.
+ *
+ * @module registry/quest
+ */
+
+import logger from "../logger.js";
+import { QuestDefinition } from "../core/quest.js";
+
+export { READONLY_QUEST_REGISTRY as QUEST_REGISTRY };
+
+/**
+ * Global registry of loaded quests.
+ * Maps quest IDs to their definitions.
+ */
+const QUEST_REGISTRY: Map<string, QuestDefinition> = new Map();
+const READONLY_QUEST_REGISTRY: ReadonlyMap<string, QuestDefinition> =
+	QUEST_REGISTRY;
+
+/**
+ * Register a quest in the global registry.
+ * @param quest The quest definition to register
+ * @returns The registered quest
+ */
+export function registerQuest(quest: QuestDefinition): QuestDefinition {
+	if (QUEST_REGISTRY.has(quest.id)) {
+		logger.warn(`Overriding existing quest with id "${quest.id}"`);
+	}
+	QUEST_REGISTRY.set(quest.id, quest);
+	return quest;
+}
+
+/**
+ * Get a quest by its ID.
+ * @param id The quest ID to look up
+ * @returns The quest or undefined if not found
+ */
+export function getQuestById(id: string): QuestDefinition | undefined {
+	return QUEST_REGISTRY.get(id);
+}
+
+/**
+ * Get all registered quests.
+ * @returns Array of all quests
+ */
+export function getAllQuests(): ReadonlyArray<QuestDefinition> {
+	return Array.from(QUEST_REGISTRY.values());
+}
+
+/**
+ * Clear all registered quests.
+ * Primarily used for testing.
+ */
+export function clearQuests(): void {
+	QUEST_REGISTRY.clear();
+	logger.debug("Cleared all quests");
+}
+
+/**
+ * Get the total number of registered quests.
+ */
+export function getQuestCount(): number {
+	return QUEST_REGISTRY.size;
+}
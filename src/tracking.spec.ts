@@ -0,0 +1,136 @@
+import { test, suite, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { Dungeon, Mob, Room } from "./core/dungeon.js";
+import { Job, Race } from "./core/archetype.js";
+import { DIRECTION, DIRECTIONS } from "./direction.js";
+import { clearDungeonGraphCache, clearPathCache } from "./pathfinding.js";
+import { registerDungeonInstance } from "./package/dungeon.js";
+import {
+	BASE_TRACK_ACCURACY,
+	getTrackingAccuracy,
+	trackMob,
+} from "./tracking.js";
+
+const testRace: Race = {
+	id: "test_race",
+	name: "Test Race",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+const testJob: Job = {
+	id: "test_job",
+	name: "Test Job",
+	startingAttributes: { strength: 10, agility: 10, intelligence: 10 },
+	attributeGrowthPerLevel: { strength: 0, agility: 0, intelligence: 0 },
+	startingResourceCaps: { maxHealth: 100, maxMana: 50 },
+	resourceGrowthPerLevel: { maxHealth: 0, maxMana: 0 },
+	abilities: [],
+	passives: [],
+	growthModifier: { base: 1.0 },
+};
+
+let dungeonCount = 0;
+
+suite("tracking.ts", () => {
+	let dungeon: Dungeon;
+	let tracker: Mob;
+
+	function createMob(display: string, keywords: string, room: Room): Mob {
+		const mob = new Mob({
+			display,
+			keywords,
+			race: testRace,
+			job: testJob,
+			level: 1,
+		});
+		room.add(mob);
+		return mob;
+	}
+
+	function roomAt(x: number, y: number): Room {
+		return dungeon.getRoom({ x, y, z: 0 }) as Room;
+	}
+
+	beforeEach(() => {
+		clearPathCache();
+		clearDungeonGraphCache();
+		dungeon = Dungeon.generateEmptyDungeon(
+			{
+				id: `tracking-test-${dungeonCount++}`,
+				dimensions: { width: 6, height: 3, layers: 1 },
+			},
+			{ allowedExits: DIRECTIONS.reduce((acc, dir) => acc | dir) }
+		);
+		registerDungeonInstance(dungeon);
+		tracker = createMob("Tracker", "tracker", roomAt(0, 1));
+	});
+
+	afterEach(() => {
+		mock.restoreAll();
+	});
+
+	suite("trackMob", () => {
+		test("should point along the path to the nearest match", () => {
+			mock.method(Math, "random", () => 0);
+			createMob("a far goblin", "goblin", roomAt(5, 1));
+			const near = createMob("a near goblin", "goblin", roomAt(3, 1));
+
+			const result = trackMob(tracker, "goblin");
+
+			assert.ok(result);
+			assert.strictEqual(result.target, near);
+			assert.strictEqual(result.direction, DIRECTION.EAST);
+			assert.strictEqual(result.distance, 3);
+			assert.strictEqual(result.accurate, true);
+		});
+
+		test("should give another direction when the trail is misread", () => {
+			mock.method(Math, "random", () => 0.99);
+			createMob("a goblin", "goblin", roomAt(3, 1));
+
+			const result = trackMob(tracker, "goblin");
+
+			assert.ok(result);
+			assert.strictEqual(result.accurate, false);
+			assert.notStrictEqual(result.direction, DIRECTION.EAST);
+			assert.ok(tracker.canStep(result.direction!));
+		});
+
+		test("should accept a mob as the target", () => {
+			mock.method(Math, "random", () => 0);
+			const target = createMob("a goblin", "goblin", roomAt(0, 0));
+
+			const result = trackMob(tracker, target);
+
+			assert.ok(result);
+			assert.strictEqual(result.direction, DIRECTION.NORTH);
+		});
+
+		test("should report no direction when the target is in the same room", () => {
+			createMob("a goblin", "goblin", roomAt(0, 1));
+
+			const result = trackMob(tracker, "goblin");
+
+			assert.ok(result);
+			assert.strictEqual(result.direction, undefined);
+			assert.strictEqual(result.distance, 0);
+		});
+
+		test("should return undefined when nothing matches", () => {
+			createMob("a goblin", "goblin", roomAt(3, 1));
+			assert.strictEqual(trackMob(tracker, "dragon"), undefined);
+		});
+	});
+
+	suite("getTrackingAccuracy", () => {
+		test("should use the base accuracy for an untrained tracker", () => {
+			assert.strictEqual(getTrackingAccuracy(tracker), BASE_TRACK_ACCURACY);
+		});
+	});
+});
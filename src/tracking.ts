@@ -0,0 +1,164 @@
+/**
+ * Tracking and hunting.
+ *
+ * Finds the nearest mob matching a name anywhere in the world and works out
+ * which way to go to reach it. How reliable the answer is depends on the
+ * tracker's proficiency with the `track` ability: an unskilled tracker is
+ * sometimes pointed the wrong way. Used by the `track` ability and by mob AI
+ * scripts that hunt down fleeing players.
+ *
+ * @module tracking
+ */
+
+import { Mob, Room } from "./core/dungeon.js";
+import { getProficiencyAtUses } from "./core/ability.js";
+import { DIRECTION, DIRECTIONS } from "./direction.js";
+import {
+	findPathAcrossDungeons,
+	findPathAStar,
+	PathResult,
+} from "./pathfinding.js";
+import { DUNGEON_REGISTRY } from "./registry/dungeon.js";
+import { getAbilityById } from "./registry/ability.js";
+
+/** ID of the ability whose proficiency determines tracking accuracy. */
+export const TRACK_ABILITY_ID = "track";
+
+/** Chance of reading a trail correctly with no tracking proficiency. */
+export const BASE_TRACK_ACCURACY = 0.5;
+
+/** Candidates (closest by straight-line distance) that are pathed to. */
+const MAX_TRACK_CANDIDATES = 5;
+
+/**
+ * Result of tracking a mob.
+ *
+ * @property target - The mob that was tracked
+ * @property direction - Direction to head next, or undefined when the target
+ * is in the same room
+ * @property accurate - Whether the direction is the true first step
+ * @property distance - Number of steps along the true path
+ */
+export interface TrackResult {
+	target: Mob;
+	direction?: DIRECTION;
+	accurate: boolean;
+	distance: number;
+}
+
+function findPath(start: Room, goal: Room): PathResult | undefined {
+	const startDid = start.dungeon?.id;
+	const goalDid = goal.dungeon?.id;
+	if (startDid && goalDid && startDid !== goalDid) {
+		return findPathAcrossDungeons(start, goal);
+	}
+	return findPathAStar(start, goal);
+}
+
+function estimateDistance(from: Room, to: Room): number {
+	if (from.dungeon !== to.dungeon) return Infinity;
+	const a = from.coordinates;
+	const b = to.coordinates;
+	return Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + Math.abs(a.z - b.z);
+}
+
+/**
+ * Find the nearest mob matching a name, searching every registered dungeon.
+ *
+ * @param tracker The mob doing the tracking
+ * @param name Keywords to match against other mobs
+ * @returns The nearest reachable match and the path to it, or undefined
+ */
+export function findNearestMob(
+	tracker: Mob,
+	name: string
+): { target: Mob; path: PathResult } | undefined {
+	const start = tracker.location;
+	if (!(start instanceof Room)) return undefined;
+
+	const candidates: Array<{ mob: Mob; room: Room; estimate: number }> = [];
+	for (const dungeon of DUNGEON_REGISTRY.values()) {
+		for (const obj of dungeon.contents) {
+			if (!(obj instanceof Mob) || obj === tracker) continue;
+			if (!(obj.location instanceof Room) || !obj.match(name)) continue;
+			candidates.push({
+				mob: obj,
+				room: obj.location,
+				estimate: estimateDistance(start, obj.location),
+			});
+		}
+	}
+	candidates.sort((a, b) => a.estimate - b.estimate);
+
+	let best: { target: Mob; path: PathResult } | undefined;
+	for (const { mob, room } of candidates.slice(0, MAX_TRACK_CANDIDATES)) {
+		const path = findPath(start, room);
+		if (!path) continue;
+		if (!best || path.directions.length < best.path.directions.length) {
+			best = { target: mob, path };
+		}
+	}
+	return best;
+}
+
+/**
+ * Get the chance that a mob reads a trail correctly.
+ * Scales from {@link BASE_TRACK_ACCURACY} at 0% proficiency in the track
+ * ability up to certainty at 100%.
+ *
+ * @param tracker The mob doing the tracking
+ * @returns Accuracy between 0 and 1
+ */
+export function getTrackingAccuracy(tracker: Mob): number {
+	const ability = getAbilityById(TRACK_ABILITY_ID);
+	const proficiency = ability
+		? getProficiencyAtUses(ability, tracker.getAbilityUses(TRACK_ABILITY_ID))
+		: 0;
+	return BASE_TRACK_ACCURACY + (proficiency / 100) * (1 - BASE_TRACK_ACCURACY);
+}
+
+/**
+ * Work out which way to go to reach a mob.
+ * When the tracker misreads the trail, a different direction the tracker can
+ * step in is returned instead.
+ *
+ * @param tracker The mob doing the tracking
+ * @param target The mob to track, or keywords to find the nearest match
+ * @returns The tracking result, or undefined if no reachable mob was found
+ */
+export function trackMob(
+	tracker: Mob,
+	target: Mob | string
+): TrackResult | undefined {
+	let found: { target: Mob; path: PathResult } | undefined;
+	if (typeof target === "string") {
+		found = findNearestMob(tracker, target);
+	} else if (
+		tracker.location instanceof Room &&
+		target.location instanceof Room
+	) {
+		const path = findPath(tracker.location, target.location);
+		if (path) found = { target, path };
+	}
+	if (!found) return undefined;
+
+	const { directions } = found.path;
+	const result: TrackResult = {
+		target: found.target,
+		direction: directions[0],
+		accurate: true,
+		distance: directions.length,
+	};
+	if (result.direction === undefined) return result;
+
+	if (Math.random() >= getTrackingAccuracy(tracker)) {
+		const wrong = DIRECTIONS.filter(
+			(dir) => dir !== result.direction && tracker.canStep(dir)
+		);
+		if (wrong.length > 0) {
+			result.direction = wrong[Math.floor(Math.random() * wrong.length)];
+			result.accurate = false;
+		}
+	}
+	return result;
+}
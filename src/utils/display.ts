@@ -10,17 +10,18 @@
 import { MESSAGE_GROUP } from "../core/character.js";
 import { Room, DungeonObject } from "../core/dungeon.js";
 import { getEquipmentList } from "../core/equipment.js";
+import { getEffectStacks } from "../core/effect.js";
 import { Mob } from "../core/dungeon.js";
 import { COLOR, color, SIZER } from "../core/color.js";
 import { LINEBREAK } from "../core/telnet.js";
 import { string } from "mud-ext";
 import { generateMinimap } from "../minimap.js";
-import { DIRECTION, dir2text } from "../direction.js";
+import { dir2text } from "../direction.js";
 import { DIRECTIONS } from "../direction.js";
 
 /**
  * Displays a room description to a player.
- * Shows the room's display name, description, contents, available exits, and a minimap.
+ * Shows the room's display name, description, zones, contents, available exits, and a minimap.
  * The minimap is displayed on the left with room information on the right.
  *
  * @param mob The mob viewing the room
@@ -103,26 +104,41 @@ export function showRoom(mob: Mob, room: Room, minimapSize: number = 5): void {
 	}
 
 	// Available exits - appears after minimap/room info block
-	const exits: DIRECTION[] = [];
+	// Exits behind closed doors are shown in brackets
+	const exits: string[] = [];
 	for (const dir of DIRECTIONS) {
-		if (room.canExit(mob, dir) && room.getStep(dir)) {
-			exits.push(dir);
+		if (!room.getStep(dir)) continue;
+		if (room.canExit(mob, dir)) {
+			exits.push(dir2text(dir, true));
+		} else if (room.isDoorClosed(dir)) {
+			exits.push(`[${dir2text(dir, true)}]`);
 		}
 	}
 
 	if (exits.length > 0) {
-		const exitList = exits.map((dir) => dir2text(dir, true)).join(", ");
+		const exitList = exits.join(", ");
 		lines.push(`Exits: ${exitList}`);
 	} else {
 		lines.push("Exits: None.");
 	}
 
+	// Zones anchored to the room
+	for (const zone of room.getZones()) {
+		if (zone.template.roomDescription) {
+			lines.push(color(zone.template.roomDescription, COLOR.YELLOW));
+		}
+	}
+
 	// Room contents (excluding the viewer) - appears after minimap/room info block
 	const contents = room.contents.filter((obj) => obj !== mob);
 	if (contents.length > 0) {
-		const contentList = contents.map(
-			(obj) => obj.roomDescription || obj.display || obj.keywords
-		);
+		const contentList = contents.map((obj) => {
+			const description = obj.roomDescription || obj.display || obj.keywords;
+			if (obj instanceof Mob && obj.character?.isLinkDead()) {
+				return `${description} ${color("(linkdead)", COLOR.GREY)}`;
+			}
+			return description;
+		});
 		lines.push(...contentList);
 	}
 
@@ -131,7 +147,8 @@ export function showRoom(mob: Mob, room: Room, minimapSize: number = 5): void {
 
 /**
  * Displays information about an object.
- * For mobs, shows equipped items. For other objects, shows their long description.
+ * For mobs, shows the effects they are under (with stack counts) and their
+ * equipped items. For other objects, shows their long description.
  *
  * @param actor The mob viewing the object
  * @param obj The object to look at
@@ -156,6 +173,13 @@ export function showObject(actor: Mob, obj: DungeonObject): void {
 	}
 
 	if (obj instanceof Mob) {
+		const effects = getVisibleEffects(obj);
+		if (effects.length > 0) {
+			lines.push("");
+			lines.push(`${color(`${obj.display} is affected by...`, COLOR.YELLOW)}`);
+			lines.push(...effects.map((line) => `> ${line}`));
+		}
+
 		lines.push("");
 		lines.push(`${color(`${obj.display} is wearing...`, COLOR.YELLOW)}`);
 		const formatted = getEquipmentList(obj).map((line) => `> ${line}`);
@@ -165,6 +189,25 @@ export function showObject(actor: Mob, obj: DungeonObject): void {
 	character.sendMessage(lines.join(LINEBREAK), MESSAGE_GROUP.COMMAND_RESPONSE);
 }
 
+/**
+ * Lists the effects on a mob that others can see, leaving out the permanent
+ * passives of its race and job. Stacked effects show their stack count.
+ */
+function getVisibleEffects(mob: Mob): string[] {
+	const passives = new Set([...mob.race.passives, ...mob.job.passives]);
+	const lines: string[] = [];
+	for (const effect of mob.getEffects()) {
+		if (passives.has(effect.template.id)) continue;
+		const stacks = getEffectStacks(effect);
+		lines.push(
+			stacks > 1
+				? `${effect.template.name} ${color(`x${stacks}`, COLOR.YELLOW)}`
+				: effect.template.name
+		);
+	}
+	return lines;
+}
+
 /**
  * Displays the contents of a container.
  * Shows the container's description and lists all items inside it.
@@ -0,0 +1,69 @@
+import { test, suite } from "node:test";
+import assert from "node:assert";
+import {
+	hashLegacyPassword,
+	hashPassword,
+	isLegacyPasswordHash,
+	needsRehash,
+	verifyPassword,
+} from "./password.js";
+
+suite("password.ts", () => {
+	suite("hashPassword", () => {
+		test("should produce a versioned scrypt hash", async () => {
+			const hash = await hashPassword("hunter2");
+			assert.match(hash, /^\$scrypt\$v=1\$ln=\d+,r=\d+,p=\d+\$[^$]+\$[^$]+$/);
+			assert.strictEqual(isLegacyPasswordHash(hash), false);
+		});
+
+		test("should use a random salt for every hash", async () => {
+			const first = await hashPassword("hunter2");
+			const second = await hashPassword("hunter2");
+			assert.notStrictEqual(first, second);
+		});
+	});
+
+	suite("verifyPassword", () => {
+		test("should accept the correct password", async () => {
+			const hash = await hashPassword("hunter2");
+			assert.strictEqual(await verifyPassword("hunter2", hash), true);
+		});
+
+		test("should reject a wrong password", async () => {
+			const hash = await hashPassword("hunter2");
+			assert.strictEqual(await verifyPassword("hunter3", hash), false);
+		});
+
+		test("should reject malformed hashes", async () => {
+			assert.strictEqual(await verifyPassword("hunter2", ""), false);
+			assert.strictEqual(
+				await verifyPassword("hunter2", "$scrypt$v=1$garbage"),
+				false
+			);
+		});
+
+		test("should verify legacy hashes with the global salt", async () => {
+			const hash = hashLegacyPassword("hunter2", "pepper");
+			assert.strictEqual(isLegacyPasswordHash(hash), true);
+			assert.strictEqual(await verifyPassword("hunter2", hash, "pepper"), true);
+			assert.strictEqual(await verifyPassword("hunter2", hash, "salt"), false);
+			assert.strictEqual(await verifyPassword("hunter2", hash), false);
+		});
+	});
+
+	suite("needsRehash", () => {
+		test("should flag legacy and unknown hashes", () => {
+			assert.strictEqual(
+				needsRehash(hashLegacyPassword("hunter2", "pepper")),
+				true
+			);
+			assert.strictEqual(needsRehash("not a hash"), true);
+		});
+
+		test("should flag hashes with outdated parameters", async () => {
+			const hash = await hashPassword("hunter2");
+			assert.strictEqual(needsRehash(hash), false);
+			assert.strictEqual(needsRehash(hash.replace("ln=14", "ln=10")), true);
+		});
+	});
+});
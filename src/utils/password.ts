@@ -0,0 +1,192 @@
+/**
+ * Password hashing with per-user salted scrypt.
+ *
+ * Hashes are stored as self-describing strings that record the algorithm,
+ * format version and cost parameters, so the parameters can be raised later
+ * without breaking existing hashes:
+ *
+ * ```
+ * $scrypt$v=1$ln=14,r=8,p=1$<salt>$<key>
+ * ```
+ *
+ * `ln` is log2 of the scrypt cost N. Salt and key are unpadded base64. Every
+ * call to {@link hashPassword} uses a fresh random salt.
+ *
+ * Hashes written before this format are bare SHA-256 hex digests of the
+ * password plus a global salt. {@link verifyPassword} still accepts them when
+ * given that salt, and {@link needsRehash} reports them so they can be
+ * replaced after the next successful login.
+ *
+ * @module utils/password
+ */
+
+import {
+	createHash,
+	randomBytes,
+	scrypt,
+	ScryptOptions,
+	timingSafeEqual,
+} from "crypto";
+
+/** Current hash format version. */
+export const PASSWORD_HASH_VERSION = 1;
+
+/** log2 of the scrypt cost parameter N. */
+const SCRYPT_LOG_N = 14;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+const LEGACY_HASH_PATTERN = /^[0-9a-f]{64}$/i;
+
+interface ScryptHash {
+	version: number;
+	logN: number;
+	r: number;
+	p: number;
+	salt: Buffer;
+	key: Buffer;
+}
+
+function deriveKey(
+	password: string,
+	salt: Buffer,
+	keylen: number,
+	options: ScryptOptions
+): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		scrypt(password, salt, keylen, options, (error, key) =>
+			error ? reject(error) : resolve(key)
+		);
+	});
+}
+
+function scryptOptions(logN: number, r: number, p: number): ScryptOptions {
+	const N = 2 ** logN;
+	// Node's default maxmem (32 MiB) is too small for larger costs
+	return { N, r, p, maxmem: 256 * N * r };
+}
+
+function parseScryptHash(hash: string): ScryptHash | undefined {
+	const [empty, algorithm, version, params, salt, key] = hash.split("$");
+	if (empty !== "" || algorithm !== "scrypt" || !key) return undefined;
+
+	const versionMatch = /^v=(\d+)$/.exec(version);
+	const paramsMatch = /^ln=(\d+),r=(\d+),p=(\d+)$/.exec(params);
+	if (!versionMatch || !paramsMatch) return undefined;
+
+	return {
+		version: parseInt(versionMatch[1], 10),
+		logN: parseInt(paramsMatch[1], 10),
+		r: parseInt(paramsMatch[2], 10),
+		p: parseInt(paramsMatch[3], 10),
+		salt: Buffer.from(salt, "base64"),
+		key: Buffer.from(key, "base64"),
+	};
+}
+
+/**
+ * Check whether a stored hash is a legacy global-salt SHA-256 digest.
+ *
+ * @param hash The stored hash
+ * @returns true for legacy hashes
+ */
+export function isLegacyPasswordHash(hash: string): boolean {
+	return LEGACY_HASH_PATTERN.test(hash);
+}
+
+/**
+ * Compute a legacy global-salt SHA-256 digest.
+ * Only used to verify hashes written before the scrypt format.
+ *
+ * @param password The plain text password
+ * @param salt The global salt the hash was created with
+ * @returns The hex digest
+ */
+export function hashLegacyPassword(password: string, salt: string): string {
+	return createHash("sha256")
+		.update(password + salt)
+		.digest("hex");
+}
+
+/**
+ * Hash a password with scrypt and a random salt.
+ *
+ * @param password The plain text password
+ * @returns The encoded hash
+ *
+ * @example
+ * ```typescript
+ * const hash = await hashPassword("myPassword123");
+ * // "$scrypt$v=1$ln=14,r=8,p=1$..."
+ * ```
+ */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(SALT_BYTES);
+	const key = await deriveKey(
+		password,
+		salt,
+		KEY_BYTES,
+		scryptOptions(SCRYPT_LOG_N, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION)
+	);
+	return [
+		"",
+		"scrypt",
+		`v=${PASSWORD_HASH_VERSION}`,
+		`ln=${SCRYPT_LOG_N},r=${SCRYPT_BLOCK_SIZE},p=${SCRYPT_PARALLELIZATION}`,
+		salt.toString("base64").replace(/=+$/, ""),
+		key.toString("base64").replace(/=+$/, ""),
+	].join("$");
+}
+
+/**
+ * Verify a password against a stored hash.
+ *
+ * @param password The plain text password
+ * @param hash The stored hash
+ * @param legacySalt Global salt for legacy SHA-256 hashes; legacy hashes never
+ * match without it
+ * @returns true if the password matches
+ */
+export async function verifyPassword(
+	password: string,
+	hash: string,
+	legacySalt?: string
+): Promise<boolean> {
+	if (isLegacyPasswordHash(hash)) {
+		if (legacySalt === undefined) return false;
+		const expected = Buffer.from(hash.toLowerCase(), "hex");
+		const actual = Buffer.from(hashLegacyPassword(password, legacySalt), "hex");
+		return timingSafeEqual(expected, actual);
+	}
+
+	const parsed = parseScryptHash(hash);
+	if (!parsed || parsed.key.length === 0) return false;
+	const key = await deriveKey(
+		password,
+		parsed.salt,
+		parsed.key.length,
+		scryptOptions(parsed.logN, parsed.r, parsed.p)
+	);
+	return timingSafeEqual(key, parsed.key);
+}
+
+/**
+ * Check whether a stored hash should be replaced with a fresh one, because it
+ * is a legacy hash or was created with older parameters.
+ *
+ * @param hash The stored hash
+ * @returns true if the hash should be upgraded after a successful login
+ */
+export function needsRehash(hash: string): boolean {
+	const parsed = parseScryptHash(hash);
+	if (!parsed) return true;
+	return (
+		parsed.version !== PASSWORD_HASH_VERSION ||
+		parsed.logN !== SCRYPT_LOG_N ||
+		parsed.r !== SCRYPT_BLOCK_SIZE ||
+		parsed.p !== SCRYPT_PARALLELIZATION ||
+		parsed.key.length !== KEY_BYTES
+	);
+}
@@ -4,6 +4,12 @@
  * Provides a web interface for connecting to the MUD via WebSocket.
  * Serves an HTML client and bridges WebSocket connections to MudClient.
  *
+ * Two kinds of message share the socket:
+ * - Terminal text, sent as HTML fragments (`<div class="line">...</div>`)
+ * - Structured data, sent as JSON {@link WebMessage} objects with a schema
+ *   version. These carry the same GMCP packages telnet clients receive (see
+ *   the `gmcp` module), renamed to short message types.
+ *
  * @module web-client
  */
 
@@ -15,6 +21,10 @@ import { fileURLToPath } from "url";
 import { EventEmitter } from "events";
 import logger from "./logger.js";
 import { MudClient } from "./core/io.js";
+import {
+	ConnectionLimiter,
+	CONNECTION_REFUSAL_MESSAGE,
+} from "./core/connection-limit.js";
 import { LINEBREAK } from "./core/telnet.js";
 import {
 	stripColors,
@@ -25,10 +35,85 @@ import {
 	TEXT_STYLE_TAG,
 } from "./core/color.js";
 import { getSafeRootDirectory } from "./utils/path.js";
+import {
+	GMCP_CHANNEL_PACKAGE,
+	GMCP_PACKAGE,
+	GMCP_PROMPT_PACKAGE,
+	GMCPChannelText,
+	GMCPEffect,
+	GMCPPrompt,
+	GMCPRoomInfo,
+	GMCPRoomMap,
+	GMCPStatus,
+	GMCPVitals,
+} from "./gmcp.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Version of the JSON message schema.
+ * Bump when a message type or payload changes incompatibly.
+ */
+export const WEB_PROTOCOL_VERSION = 1;
+
+/**
+ * Payload of each JSON message type.
+ */
+export interface WebMessageData {
+	/** Sent once on connect so the client can check the schema version */
+	hello: { version: number };
+	vitals: GMCPVitals;
+	status: GMCPStatus;
+	effects: GMCPEffect[];
+	room: GMCPRoomInfo;
+	minimap: GMCPRoomMap;
+	channel: GMCPChannelText;
+	prompt: GMCPPrompt;
+}
+
+export type WebMessageType = keyof WebMessageData;
+
+/**
+ * A JSON message sent to the web client.
+ *
+ * @property v - Schema version, always {@link WEB_PROTOCOL_VERSION}
+ * @property type - Message type
+ * @property data - Message payload
+ */
+export interface WebMessage<T extends WebMessageType = WebMessageType> {
+	v: number;
+	type: T;
+	data: WebMessageData[T];
+}
+
+/**
+ * Message type used for each GMCP package forwarded to the web client.
+ */
+const GMCP_WEB_MESSAGE_TYPES: Record<string, WebMessageType> = {
+	[GMCP_PACKAGE.VITALS]: "vitals",
+	[GMCP_PACKAGE.STATUS]: "status",
+	[GMCP_PACKAGE.EFFECTS]: "effects",
+	[GMCP_PACKAGE.ROOM]: "room",
+	[GMCP_PACKAGE.MAP]: "minimap",
+	[GMCP_CHANNEL_PACKAGE]: "channel",
+	[GMCP_PROMPT_PACKAGE]: "prompt",
+};
+
+/**
+ * Build a versioned JSON message.
+ *
+ * @param type Message type
+ * @param data Message payload
+ * @returns The message, ready to be serialized
+ */
+export function createWebMessage<T extends WebMessageType>(
+	type: T,
+	data: WebMessageData[T]
+): WebMessage<T> {
+	return { v: WEB_PROTOCOL_VERSION, type, data };
+}
+
 /**
  * Map color tag letters to CSS class names
  */
@@ -190,6 +275,10 @@ class WebSocketMudClient extends EventEmitter implements MudClient {
 			logger.error(`WebSocket error (${this.address}): ${err.message}`);
 			this.emit("error", err);
 		});
+
+		this.sendMessage(
+			createWebMessage("hello", { version: WEB_PROTOCOL_VERSION })
+		);
 	}
 
 	public on(event: "input", listener: (line: string) => void): this;
@@ -245,6 +334,28 @@ class WebSocketMudClient extends EventEmitter implements MudClient {
 		for (let line of lines) this.send(line, colorize, "line");
 	}
 
+	/**
+	 * Send a JSON message alongside the terminal text.
+	 * @returns true if the message was sent
+	 */
+	public sendMessage(message: WebMessage): boolean {
+		if (this.ws.readyState !== WebSocket.OPEN) return false;
+		this.ws.send(JSON.stringify(message));
+		return true;
+	}
+
+	/**
+	 * Forward a GMCP package as a JSON message.
+	 * Packages without a web message type are dropped.
+	 */
+	public sendGMCP(packageName: string, data?: unknown): boolean {
+		const type = GMCP_WEB_MESSAGE_TYPES[packageName];
+		if (!type) return false;
+		return this.sendMessage(
+			createWebMessage(type, data as WebMessageData[typeof type])
+		);
+	}
+
 	public close(): void {
 		if (this.ws.readyState !== WebSocket.CLOSED) {
 			this.ws.close();
@@ -303,10 +414,12 @@ export class WebClientServer extends EventEmitter {
 	private wsServer: WebSocketServer;
 	private port: number;
 	private isRunning: boolean = false;
+	private limiter?: ConnectionLimiter;
 
-	constructor(port: number = 8080) {
+	constructor(port: number = 8080, limiter?: ConnectionLimiter) {
 		super();
 		this.port = port;
+		this.limiter = limiter;
 		this.httpServer = createServer((req, res) => {
 			this.handleHttpRequest(req, res);
 		});
@@ -402,12 +515,21 @@ export class WebClientServer extends EventEmitter {
 	 */
 	private handleWebSocketConnection(ws: WebSocket, req: any): void {
 		const address = req.socket.remoteAddress || "unknown";
-		logger.info(`Web client connected: ${address}`);
-
 		const client = new WebSocketMudClient(ws, `websocket:${address}`);
+
+		const refusal = this.limiter?.acquire(address);
+		if (refusal) {
+			logger.warn(`Refused web client connection from ${address}: ${refusal}`);
+			client.sendLine(CONNECTION_REFUSAL_MESSAGE[refusal]);
+			client.close();
+			return;
+		}
+
+		logger.info(`Web client connected: ${address}`);
 		this.emit("connection", client);
 
 		client.on("close", () => {
+			this.limiter?.release(address);
 			logger.info(`Web client disconnected: ${address}`);
 			this.emit("disconnection", client);
 		});
@@ -1,6 +1,7 @@
 const output = document.getElementById("output");
 const input = document.getElementById("input");
 const status = document.getElementById("status");
+const sidebar = document.getElementById("sidebar");
 let ws = null;
 let reconnectAttempts = 0;
 const maxReconnectAttempts = 5;
@@ -84,6 +85,11 @@ function connect() {
 	};
 
 	ws.onmessage = (event) => {
+		// Structured data arrives as JSON objects, terminal text as HTML
+		if (event.data.startsWith("{")) {
+			handleMessage(JSON.parse(event.data));
+			return;
+		}
 		const html = event.data;
 		// Server sends HTML wrapped in <div class='line'> or <div class='prompt'>
 		// Create a temporary container to parse the HTML
@@ -112,6 +118,105 @@ function connect() {
 	};
 }
 
+// Version of the JSON message schema this client understands
+const PROTOCOL_VERSION = 1;
+
+function colorClass(name) {
+	return "color-" + name.replace(/ /g, "-");
+}
+
+// Active effects with the time each one expires, counted down locally
+// between server updates
+let activeEffects = [];
+
+function renderEffects() {
+	const list = document.getElementById("effects");
+	list.innerHTML = "";
+	const now = Date.now();
+	for (const effect of activeEffects) {
+		const remaining = Math.max(0, Math.ceil((effect.expiresAt - now) / 1000));
+		const item = document.createElement("li");
+		item.textContent = `${effect.name} (${remaining}s)`;
+		list.appendChild(item);
+	}
+}
+
+setInterval(() => {
+	if (activeEffects.length > 0) renderEffects();
+}, 1000);
+
+function setGauge(id, value, max, label) {
+	const gauge = document.getElementById(id);
+	const percent = max > 0 ? Math.min(100, (value / max) * 100) : 0;
+	gauge.querySelector(".gauge-fill").style.width = `${percent}%`;
+	gauge.querySelector(".gauge-label").textContent = `${label} ${value}/${max}`;
+}
+
+const messageHandlers = {
+	hello(data) {
+		if (data.version !== PROTOCOL_VERSION) {
+			console.warn(
+				`Server protocol v${data.version}, client expects v${PROTOCOL_VERSION}`
+			);
+		}
+	},
+	vitals(data) {
+		setGauge("gauge-hp", data.hp, data.maxhp, "HP");
+		setGauge("gauge-mana", data.mana, data.maxmana, "MP");
+		setGauge(
+			"gauge-exhaustion",
+			data.exhaustion,
+			data.maxexhaustion,
+			"Exhaustion"
+		);
+	},
+	status(data) {
+		document.getElementById(
+			"char-status"
+		).textContent = `${data.name} - level ${data.level} ${data.race} ${data.job} (${data.tnl} tnl)`;
+	},
+	room(data) {
+		document.getElementById("room-name").textContent = data.name;
+	},
+	minimap(data) {
+		const minimap = document.getElementById("minimap");
+		minimap.innerHTML = "";
+		for (const row of data.rows) {
+			for (const cell of row) {
+				const span = document.createElement("span");
+				span.className = colorClass(cell.color);
+				span.textContent = cell.text;
+				minimap.appendChild(span);
+			}
+			minimap.appendChild(document.createTextNode("\n"));
+		}
+	},
+	effects(data) {
+		const now = Date.now();
+		activeEffects = data.map((effect) => ({
+			name: effect.name,
+			expiresAt: now + effect.remaining * 1000,
+		}));
+		renderEffects();
+	},
+	// Channel text and the prompt already appear in the terminal output
+	channel() {},
+	prompt() {},
+};
+
+function handleMessage(message) {
+	// Hello is read before the version check so a mismatch can be reported
+	if (message.type === "hello") {
+		messageHandlers.hello(message.data);
+		return;
+	}
+	if (message.v !== PROTOCOL_VERSION) return;
+	const handler = messageHandlers[message.type];
+	if (!handler) return;
+	sidebar.classList.remove("hidden");
+	handler(message.data);
+}
+
 function addLine(text, className = "") {
 	const line = document.createElement("div");
 	line.className = "line";